@@ -0,0 +1,190 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { Alert } from '../../models/alert';
+import { AlertRule } from '../../models/alertRule';
+import { requireAuth } from '../../middleware/auth';
+import { getAlertEngine } from '../../services/serviceRegistry';
+import { validateAlertRule } from '../../utils/validation';
+
+const router = express.Router();
+
+const EDITABLE_FIELDS = ['name', 'description', 'enabled', 'severity', 'condition', 'notificationChannels'];
+const ALERT_STATUSES = ['firing', 'acknowledged', 'resolved'];
+
+// Rules written as { metric, operator, value } are static thresholds
+function pickEditableFields(body: Record<string, any>) {
+  const update: Record<string, unknown> = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] !== undefined) {
+      update[field] = body[field];
+    }
+  }
+  if (update.condition && typeof update.condition === 'object' && !body.condition.type) {
+    update.condition = { ...body.condition, type: 'threshold' };
+  }
+  return update;
+}
+
+router.use(requireAuth);
+
+// List alert rules
+router.get('/rules', async (_req, res) => {
+  try {
+    const rules = await AlertRule.find().sort({ name: 1 });
+    res.json(rules);
+  } catch (error) {
+    console.error('Error listing alert rules:', error);
+    res.status(500).json({ error: 'Failed to list alert rules' });
+  }
+});
+
+// Get a single alert rule
+router.get('/rules/:id', async (req, res) => {
+  try {
+    const rule = mongoose.isValidObjectId(req.params.id)
+      ? await AlertRule.findById(req.params.id)
+      : null;
+    if (!rule) {
+      res.status(404).json({ error: 'Alert rule not found' });
+      return;
+    }
+    res.json(rule);
+  } catch (error) {
+    console.error('Error fetching alert rule:', error);
+    res.status(500).json({ error: 'Failed to fetch alert rule' });
+  }
+});
+
+// Create an alert rule
+router.post('/rules', async (req, res) => {
+  try {
+    const fields = pickEditableFields(req.body);
+    const validationError = validateAlertRule(fields);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const existing = await AlertRule.findOne({ name: req.body.name.trim() });
+    if (existing) {
+      res.status(400).json({ error: 'Alert rule name already exists' });
+      return;
+    }
+
+    const rule = new AlertRule(fields);
+    await rule.save();
+    res.status(201).json(rule);
+  } catch (error) {
+    console.error('Error creating alert rule:', error);
+    res.status(500).json({ error: 'Failed to create alert rule' });
+  }
+});
+
+// Update an alert rule; a new condition replaces the old one as a whole
+router.put('/rules/:id', async (req, res) => {
+  try {
+    const fields = pickEditableFields(req.body);
+    const validationError = validateAlertRule(fields, true);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const rule = mongoose.isValidObjectId(req.params.id)
+      ? await AlertRule.findById(req.params.id)
+      : null;
+    if (!rule) {
+      res.status(404).json({ error: 'Alert rule not found' });
+      return;
+    }
+
+    if (req.body.name !== undefined) {
+      const existing = await AlertRule.findOne({ name: req.body.name.trim(), _id: { $ne: rule._id } });
+      if (existing) {
+        res.status(400).json({ error: 'Alert rule name already exists' });
+        return;
+      }
+    }
+
+    rule.set(fields);
+    await rule.save();
+    res.json(rule);
+  } catch (error) {
+    console.error('Error updating alert rule:', error);
+    res.status(500).json({ error: 'Failed to update alert rule' });
+  }
+});
+
+// Delete an alert rule; its open alerts resolve on the next evaluation
+router.delete('/rules/:id', async (req, res) => {
+  try {
+    const rule = mongoose.isValidObjectId(req.params.id)
+      ? await AlertRule.findByIdAndDelete(req.params.id)
+      : null;
+    if (!rule) {
+      res.status(404).json({ error: 'Alert rule not found' });
+      return;
+    }
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting alert rule:', error);
+    res.status(500).json({ error: 'Failed to delete alert rule' });
+  }
+});
+
+// Firing and acknowledged alerts, newest first
+router.get('/active', async (_req, res) => {
+  try {
+    const alerts = await Alert.find({ status: { $in: ['firing', 'acknowledged'] } }).sort({ firedAt: -1 });
+    res.json(alerts);
+  } catch (error) {
+    console.error('Error listing active alerts:', error);
+    res.status(500).json({ error: 'Failed to list active alerts' });
+  }
+});
+
+// Alert history, optionally filtered by status
+router.get('/', async (req, res) => {
+  try {
+    const { status } = req.query;
+    if (status !== undefined && !ALERT_STATUSES.includes(status as string)) {
+      res.status(400).json({ error: 'status must be firing, acknowledged or resolved' });
+      return;
+    }
+
+    const limit = Math.min(parseInt((req.query.limit as string) || '100', 10) || 100, 1000);
+    const alerts = await Alert.find(status ? { status } : {}).sort({ firedAt: -1 }).limit(limit);
+    res.json(alerts);
+  } catch (error) {
+    console.error('Error listing alerts:', error);
+    res.status(500).json({ error: 'Failed to list alerts' });
+  }
+});
+
+// Acknowledge a firing alert
+router.post('/:id/acknowledge', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      res.status(404).json({ error: 'Alert not found' });
+      return;
+    }
+
+    const alert = await getAlertEngine().acknowledge(req.params.id, req.user!.email);
+    if (alert) {
+      res.json(alert);
+      return;
+    }
+
+    const existing = await Alert.findById(req.params.id);
+    if (!existing) {
+      res.status(404).json({ error: 'Alert not found' });
+      return;
+    }
+    res.status(409).json({ error: `Alert is already ${existing.status}` });
+  } catch (error) {
+    console.error('Error acknowledging alert:', error);
+    res.status(500).json({ error: 'Failed to acknowledge alert' });
+  }
+});
+
+export default router;
@@ -1,9 +1,9 @@
 import express from 'express';
 import { hash, compare } from 'bcrypt';
-import jwt from 'jsonwebtoken';
 import { User } from '../../models/user';
 import { validateRegistration } from '../../utils/validation';
 import { validatePassword } from '../../utils/password-validation';
+import { signToken } from '../../utils/jwt';
 
 const router = express.Router();
 
@@ -54,11 +54,7 @@ router.post('/register', async (req, res) => {
     await user.save();
 
     // Generate JWT token
-    const token = jwt.sign(
-      { userId: user._id, email: user.email, role: user.role },
-      process.env.JWT_SECRET || 'your-secret-key',
-      { expiresIn: '24h' }
-    );
+    const token = signToken({ userId: user._id.toString(), email: user.email, role: user.role });
 
     // Return success with token
     res.status(201).json({
@@ -96,11 +92,7 @@ router.post('/login', async (req, res) => {
     }
 
     // Generate JWT token
-    const token = jwt.sign(
-      { userId: user._id, email: user.email, role: user.role },
-      process.env.JWT_SECRET || 'your-secret-key',
-      { expiresIn: '24h' }
-    );
+    const token = signToken({ userId: user._id.toString(), email: user.email, role: user.role });
 
     // Return success with token
     res.json({
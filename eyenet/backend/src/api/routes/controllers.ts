@@ -0,0 +1,170 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { CONTROLLER_SECRET_FIELDS, Controller } from '../../models/controller';
+import { requireAdmin, requireAuth } from '../../middleware/auth';
+import { getControllerRegistry } from '../../services/serviceRegistry';
+import { keepMaskedSecrets } from '../../utils/secrets';
+import { validateController } from '../../utils/validation';
+
+const router = express.Router();
+
+const EDITABLE_FIELDS = ['name', 'type', 'enabled', 'priority', 'weight', 'config'];
+
+function pickEditableFields(body: Record<string, unknown>) {
+  const update: Record<string, any> = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] !== undefined) {
+      update[field] = body[field];
+    }
+  }
+  return update;
+}
+
+// The manager picks up the change in the background; connecting to a new
+// controller may take a while
+function reloadControllers() {
+  getControllerRegistry().reload()
+    .catch(error => console.error('Error reloading controllers:', error));
+}
+
+router.use(requireAuth, requireAdmin);
+
+// List controllers, most preferred first
+router.get('/', async (_req, res) => {
+  try {
+    const controllers = await Controller.find().sort({ priority: 1, weight: -1, name: 1 });
+    res.json(controllers);
+  } catch (error) {
+    console.error('Error listing controllers:', error);
+    res.status(500).json({ error: 'Failed to list controllers' });
+  }
+});
+
+// Get a single controller
+router.get('/:id', async (req, res) => {
+  try {
+    const controller = mongoose.isValidObjectId(req.params.id)
+      ? await Controller.findById(req.params.id)
+      : null;
+    if (!controller) {
+      res.status(404).json({ error: 'Controller not found' });
+      return;
+    }
+    res.json(controller);
+  } catch (error) {
+    console.error('Error fetching controller:', error);
+    res.status(500).json({ error: 'Failed to fetch controller' });
+  }
+});
+
+// Add a controller; its credentials are encrypted before they are stored
+router.post('/', async (req, res) => {
+  try {
+    const fields = pickEditableFields(req.body);
+    const validationError = validateController(fields);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const existing = await Controller.findOne({ name: fields.name.trim() });
+    if (existing) {
+      res.status(400).json({ error: 'Controller name already exists' });
+      return;
+    }
+
+    fields.config = getControllerRegistry().encryptCredentials(fields.config);
+    const controller = new Controller(fields);
+    await controller.save();
+    reloadControllers();
+    res.status(201).json(controller);
+  } catch (error) {
+    console.error('Error creating controller:', error);
+    res.status(500).json({ error: 'Failed to create controller' });
+  }
+});
+
+// Update a controller; a new config replaces the old one, except that
+// masked credentials keep the stored ones
+router.put('/:id', async (req, res) => {
+  try {
+    const controller = mongoose.isValidObjectId(req.params.id)
+      ? await Controller.findById(req.params.id)
+      : null;
+    if (!controller) {
+      res.status(404).json({ error: 'Controller not found' });
+      return;
+    }
+
+    const fields = pickEditableFields(req.body);
+    if (fields.config && typeof fields.config === 'object') {
+      fields.config = keepMaskedSecrets(fields.config, controller.config, CONTROLLER_SECRET_FIELDS);
+    }
+
+    const validationError = validateController({ ...fields, type: fields.type ?? controller.type }, true);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+    if (fields.type !== undefined && fields.type !== controller.type && fields.config === undefined) {
+      res.status(400).json({ error: 'Changing the controller type requires a new config' });
+      return;
+    }
+
+    if (fields.name !== undefined) {
+      const existing = await Controller.findOne({ name: fields.name.trim(), _id: { $ne: controller._id } });
+      if (existing) {
+        res.status(400).json({ error: 'Controller name already exists' });
+        return;
+      }
+    }
+
+    if (fields.config) {
+      fields.config = getControllerRegistry().encryptCredentials(fields.config);
+    }
+    controller.set(fields);
+    await controller.save();
+    reloadControllers();
+    res.json(controller);
+  } catch (error) {
+    console.error('Error updating controller:', error);
+    res.status(500).json({ error: 'Failed to update controller' });
+  }
+});
+
+// Remove a controller; the manager disconnects from it
+router.delete('/:id', async (req, res) => {
+  try {
+    const controller = mongoose.isValidObjectId(req.params.id)
+      ? await Controller.findByIdAndDelete(req.params.id)
+      : null;
+    if (!controller) {
+      res.status(404).json({ error: 'Controller not found' });
+      return;
+    }
+    reloadControllers();
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting controller:', error);
+    res.status(500).json({ error: 'Failed to delete controller' });
+  }
+});
+
+// Check that the stored settings reach a healthy controller
+router.post('/:id/test', async (req, res) => {
+  try {
+    const controller = mongoose.isValidObjectId(req.params.id)
+      ? await Controller.findById(req.params.id).lean()
+      : null;
+    if (!controller) {
+      res.status(404).json({ error: 'Controller not found' });
+      return;
+    }
+    res.json(await getControllerRegistry().test(controller));
+  } catch (error) {
+    console.error('Error testing controller:', error);
+    res.status(500).json({ error: 'Failed to test controller' });
+  }
+});
+
+export default router;
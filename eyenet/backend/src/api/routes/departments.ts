@@ -0,0 +1,127 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { Department } from '../../models/department';
+import { requireAdmin, requireAuth } from '../../middleware/auth';
+import { validateDepartment } from '../../utils/validation';
+
+const router = express.Router();
+
+const EDITABLE_FIELDS = ['name', 'description', 'cidrs', 'vlanIds', 'deviceIds'];
+
+function pickEditableFields(body: Record<string, unknown>) {
+  const update: Record<string, unknown> = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] !== undefined) {
+      update[field] = body[field];
+    }
+  }
+  return update;
+}
+
+// Departments decide how traffic is attributed, so only admins change them
+router.use(requireAuth);
+
+// List departments
+router.get('/', async (_req, res) => {
+  try {
+    const departments = await Department.find().sort({ name: 1 });
+    res.json(departments);
+  } catch (error) {
+    console.error('Error listing departments:', error);
+    res.status(500).json({ error: 'Failed to list departments' });
+  }
+});
+
+// Get a single department
+router.get('/:id', async (req, res) => {
+  try {
+    const department = mongoose.isValidObjectId(req.params.id)
+      ? await Department.findById(req.params.id)
+      : null;
+    if (!department) {
+      res.status(404).json({ error: 'Department not found' });
+      return;
+    }
+    res.json(department);
+  } catch (error) {
+    console.error('Error fetching department:', error);
+    res.status(500).json({ error: 'Failed to fetch department' });
+  }
+});
+
+// Create a department
+router.post('/', requireAdmin, async (req, res) => {
+  try {
+    const validationError = validateDepartment(req.body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const existing = await Department.findOne({ name: req.body.name.trim() });
+    if (existing) {
+      res.status(400).json({ error: 'Department name already exists' });
+      return;
+    }
+
+    const department = new Department(pickEditableFields(req.body));
+    await department.save();
+    res.status(201).json(department);
+  } catch (error) {
+    console.error('Error creating department:', error);
+    res.status(500).json({ error: 'Failed to create department' });
+  }
+});
+
+// Update a department
+router.put('/:id', requireAdmin, async (req, res) => {
+  try {
+    const validationError = validateDepartment(req.body, true);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const department = mongoose.isValidObjectId(req.params.id)
+      ? await Department.findById(req.params.id)
+      : null;
+    if (!department) {
+      res.status(404).json({ error: 'Department not found' });
+      return;
+    }
+
+    if (req.body.name !== undefined) {
+      const existing = await Department.findOne({ name: req.body.name.trim(), _id: { $ne: department._id } });
+      if (existing) {
+        res.status(400).json({ error: 'Department name already exists' });
+        return;
+      }
+    }
+
+    department.set(pickEditableFields(req.body));
+    await department.save();
+    res.json(department);
+  } catch (error) {
+    console.error('Error updating department:', error);
+    res.status(500).json({ error: 'Failed to update department' });
+  }
+});
+
+// Delete a department
+router.delete('/:id', requireAdmin, async (req, res) => {
+  try {
+    const department = mongoose.isValidObjectId(req.params.id)
+      ? await Department.findByIdAndDelete(req.params.id)
+      : null;
+    if (!department) {
+      res.status(404).json({ error: 'Department not found' });
+      return;
+    }
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting department:', error);
+    res.status(500).json({ error: 'Failed to delete department' });
+  }
+});
+
+export default router;
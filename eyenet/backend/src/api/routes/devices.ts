@@ -0,0 +1,149 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { Device } from '../../models/device';
+import { requireAuth } from '../../middleware/auth';
+import { validateDeviceAnnotations, validateDeviceTags } from '../../utils/validation';
+
+const router = express.Router();
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+router.use(requireAuth);
+
+// List devices, filtered by status, type, source, tag and a name, IP or MAC search
+router.get('/', async (req, res) => {
+  try {
+    const filter: Record<string, unknown> = {};
+    const { status, type, source, tag, search } = req.query;
+
+    if (status !== undefined) {
+      if (status !== 'online' && status !== 'offline') {
+        res.status(400).json({ error: 'status must be online or offline' });
+        return;
+      }
+      filter.status = status;
+    }
+    if (typeof type === 'string') {
+      filter.type = type;
+    }
+    if (typeof source === 'string') {
+      filter.source = source;
+    }
+    if (typeof tag === 'string') {
+      filter.tags = tag;
+    }
+    if (typeof search === 'string' && search.length > 0) {
+      const pattern = new RegExp(escapeRegExp(search), 'i');
+      filter.$or = [{ name: pattern }, { ipAddress: pattern }, { macAddress: pattern }];
+    }
+
+    const devices = await Device.find(filter).sort({ name: 1 });
+    res.json(devices);
+  } catch (error) {
+    console.error('Error listing devices:', error);
+    res.status(500).json({ error: 'Failed to list devices' });
+  }
+});
+
+// Get a single device including its status history
+router.get('/:id', async (req, res) => {
+  try {
+    const device = mongoose.isValidObjectId(req.params.id)
+      ? await Device.findById(req.params.id)
+      : null;
+    if (!device) {
+      res.status(404).json({ error: 'Device not found' });
+      return;
+    }
+    res.json(device);
+  } catch (error) {
+    console.error('Error fetching device:', error);
+    res.status(500).json({ error: 'Failed to fetch device' });
+  }
+});
+
+// Add tags to a device
+router.post('/:id/tags', async (req, res) => {
+  try {
+    const validationError = validateDeviceTags(req.body.tags);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const tags = req.body.tags.map((tag: string) => tag.trim());
+    const device = mongoose.isValidObjectId(req.params.id)
+      ? await Device.findByIdAndUpdate(
+        req.params.id,
+        { $addToSet: { tags: { $each: tags } }, $set: { updatedAt: new Date() } },
+        { new: true }
+      )
+      : null;
+    if (!device) {
+      res.status(404).json({ error: 'Device not found' });
+      return;
+    }
+    res.json(device);
+  } catch (error) {
+    console.error('Error tagging device:', error);
+    res.status(500).json({ error: 'Failed to tag device' });
+  }
+});
+
+// Remove a tag from a device
+router.delete('/:id/tags/:tag', async (req, res) => {
+  try {
+    const device = mongoose.isValidObjectId(req.params.id)
+      ? await Device.findByIdAndUpdate(
+        req.params.id,
+        { $pull: { tags: req.params.tag }, $set: { updatedAt: new Date() } },
+        { new: true }
+      )
+      : null;
+    if (!device) {
+      res.status(404).json({ error: 'Device not found' });
+      return;
+    }
+    res.json(device);
+  } catch (error) {
+    console.error('Error removing device tag:', error);
+    res.status(500).json({ error: 'Failed to remove device tag' });
+  }
+});
+
+// Merge annotations into a device; null values remove a key
+router.patch('/:id/annotations', async (req, res) => {
+  try {
+    const validationError = validateDeviceAnnotations(req.body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const $set: Record<string, unknown> = { updatedAt: new Date() };
+    const $unset: Record<string, ''> = {};
+    for (const [key, value] of Object.entries(req.body)) {
+      if (value === null) {
+        $unset[`annotations.${key}`] = '';
+      } else {
+        $set[`annotations.${key}`] = value;
+      }
+    }
+
+    const device = mongoose.isValidObjectId(req.params.id)
+      ? await Device.findByIdAndUpdate(req.params.id, { $set, $unset }, { new: true })
+      : null;
+    if (!device) {
+      res.status(404).json({ error: 'Device not found' });
+      return;
+    }
+    res.json(device);
+  } catch (error) {
+    console.error('Error annotating device:', error);
+    res.status(500).json({ error: 'Failed to annotate device' });
+  }
+});
+
+export default router;
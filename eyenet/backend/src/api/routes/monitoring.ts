@@ -1,54 +1,120 @@
 import express from 'express';
+import mongoose from 'mongoose';
 import { MonitoringData } from '../../types/monitoring';
+import { NoActiveControllerError } from '../../services/networkControllerManager';
+import {
+  getMonitoringService,
+  getNetworkControllerManager,
+  getRetentionPolicy,
+  getTrafficClassifier
+} from '../../services/serviceRegistry';
+import { MAX_BUCKETS, parseDuration, queryMetricsHistory } from '../../services/metricsHistory';
+import { selectTier } from '../../services/metricsRetention';
+import { getUsageHistory } from '../../services/usageHistory';
+import { Department } from '../../models/department';
 
 const router = express.Router();
 
+const HOUR = 60 * 60 * 1000;
+
+// Parses the optional start/end query parameters, defaulting to the
+// defaultRangeMs before now
+function parseTimeRange(
+  query: express.Request['query'],
+  defaultRangeMs: number
+): { startDate: Date; endDate: Date } | { error: string } {
+  const { start, end } = query;
+
+  const endDate = end ? new Date(String(end)) : new Date();
+  const startDate = start ? new Date(String(start)) : new Date(endDate.getTime() - defaultRangeMs);
+  if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+    return { error: 'start and end must be valid dates' };
+  }
+  if (startDate >= endDate) {
+    return { error: 'start must be before end' };
+  }
+
+  return { startDate, endDate };
+}
+
 // Get current network metrics
-router.get('/metrics', async (req, res) => {
+router.get('/metrics', async (_req, res) => {
   try {
-    // TODO: Replace with actual network metrics collection
-    const metrics: MonitoringData = {
-      networkStatus: {
-        latency: Math.random() * 100,
-        packetLoss: Math.random() * 2,
-        status: 'online'
-      },
-      bandwidth: {
-        download: Math.random() * 100,
-        upload: Math.random() * 50,
-        timestamp: new Date().toISOString()
-      },
-      departments: [
-        { name: 'Engineering', usage: Math.random() * 100 },
-        { name: 'Marketing', usage: Math.random() * 100 },
-        { name: 'Sales', usage: Math.random() * 100 },
-        { name: 'HR', usage: Math.random() * 100 },
-        { name: 'Finance', usage: Math.random() * 100 }
-      ],
-      applications: [
-        {
-          name: 'Microsoft Teams',
-          type: 'Communication',
-          bandwidth: Math.random() * 100,
-          status: 'normal',
-          trend: 'up'
-        }
-      ]
-    };
-
+    const metrics: MonitoringData = await getMonitoringService().collect();
     res.json(metrics);
   } catch (error) {
-    console.error('Error fetching metrics:', error);
-    res.status(500).json({ error: 'Failed to fetch network metrics' });
+    if (error instanceof NoActiveControllerError) {
+      res.status(503).json({ error: 'No healthy network controller available' });
+    } else {
+      console.error('Error fetching metrics:', error);
+      res.status(500).json({ error: 'Failed to fetch network metrics' });
+    }
+  }
+});
+
+// Controller mode, per-controller health including the last error of each
+// controller, and the recent failover events
+router.get('/controllers', async (_req, res) => {
+  try {
+    const manager = getNetworkControllerManager();
+    res.json({
+      mode: manager.getMode(),
+      controllers: await manager.getAllControllersStatus(),
+      failoverEvents: manager.getFailoverEvents()
+    });
+  } catch (error) {
+    console.error('Error fetching controller status:', error);
+    res.status(500).json({ error: 'Failed to fetch controller status' });
+  }
+});
+
+// Current per-port counters, optionally for a single device
+router.get('/interfaces', async (req, res) => {
+  try {
+    const { deviceId } = req.query;
+    const interfaces = await getNetworkControllerManager().getInterfaceStats();
+    res.json(deviceId ? interfaces.filter(port => port.deviceId === String(deviceId)) : interfaces);
+  } catch (error) {
+    if (error instanceof NoActiveControllerError) {
+      res.status(503).json({ error: 'No healthy network controller available' });
+    } else {
+      console.error('Error fetching interface statistics:', error);
+      res.status(500).json({ error: 'Failed to fetch interface statistics' });
+    }
   }
 });
 
 // Get historical network metrics
 router.get('/metrics/history', async (req, res) => {
   try {
-    const { start, end } = req.query;
-    // TODO: Implement historical data retrieval from database
-    res.json({ message: 'Historical data endpoint not implemented yet' });
+    const { bucket } = req.query;
+
+    const range = parseTimeRange(req.query, HOUR);
+    if ('error' in range) {
+      res.status(400).json({ error: range.error });
+      return;
+    }
+    const { startDate, endDate } = range;
+
+    let bucketMs: number | null = null;
+    if (bucket) {
+      bucketMs = parseDuration(String(bucket));
+      if (!bucketMs) {
+        res.status(400).json({ error: 'bucket must look like 30s, 5m, 1h or 1d' });
+        return;
+      }
+    }
+
+    // Older ranges are served from coarser rollup tiers
+    const tier = selectTier(getRetentionPolicy(), startDate);
+    const effectiveBucketMs = tier ? Math.max(bucketMs || 0, tier.resolutionMs) : bucketMs;
+    if (effectiveBucketMs && (endDate.getTime() - startDate.getTime()) / effectiveBucketMs > MAX_BUCKETS) {
+      res.status(400).json({ error: `Requested range produces more than ${MAX_BUCKETS} buckets` });
+      return;
+    }
+
+    const history = await queryMetricsHistory(startDate, endDate, bucketMs, tier);
+    res.json({ start: startDate, end: endDate, ...history });
   } catch (error) {
     console.error('Error fetching historical metrics:', error);
     res.status(500).json({ error: 'Failed to fetch historical network metrics' });
@@ -59,11 +125,48 @@ router.get('/metrics/history', async (req, res) => {
 router.get('/metrics/department/:departmentId', async (req, res) => {
   try {
     const { departmentId } = req.params;
-    // TODO: Implement department-specific metrics retrieval
-    res.json({ message: 'Department metrics endpoint not implemented yet' });
+
+    const department = mongoose.isValidObjectId(departmentId)
+      ? await Department.findById(departmentId)
+      : null;
+    if (!department) {
+      res.status(404).json({ error: 'Department not found' });
+      return;
+    }
+
+    const range = parseTimeRange(req.query, 24 * HOUR);
+    if ('error' in range) {
+      res.status(400).json({ error: range.error });
+      return;
+    }
+    const bucketMs = parseDuration(String(req.query.bucket || '1h'));
+    if (!bucketMs) {
+      res.status(400).json({ error: 'bucket must look like 30s, 5m, 1h or 1d' });
+      return;
+    }
+
+    const snapshot = await getMonitoringService().collectSnapshot();
+    const live = snapshot.departments.find(usage => usage.id === departmentId);
+    const history = await getUsageHistory('department', departmentId, range.startDate, range.endDate, bucketMs);
+
+    res.json({
+      department,
+      live: {
+        usage: live ? live.usage : 0,
+        bandwidth: live ? live.bandwidth : 0,
+        bytes: live ? live.bytes : 0,
+        timestamp: snapshot.stats.timestamp
+      },
+      topTalkers: live ? live.topTalkers : [],
+      history
+    });
   } catch (error) {
-    console.error('Error fetching department metrics:', error);
-    res.status(500).json({ error: 'Failed to fetch department metrics' });
+    if (error instanceof NoActiveControllerError) {
+      res.status(503).json({ error: 'No healthy network controller available' });
+    } else {
+      console.error('Error fetching department metrics:', error);
+      res.status(500).json({ error: 'Failed to fetch department metrics' });
+    }
   }
 });
 
@@ -71,11 +174,47 @@ router.get('/metrics/department/:departmentId', async (req, res) => {
 router.get('/metrics/application/:applicationId', async (req, res) => {
   try {
     const { applicationId } = req.params;
-    // TODO: Implement application-specific metrics retrieval
-    res.json({ message: 'Application metrics endpoint not implemented yet' });
+
+    const signature = getTrafficClassifier().findSignature(applicationId);
+    if (!signature) {
+      res.status(404).json({ error: 'Application not found' });
+      return;
+    }
+
+    const range = parseTimeRange(req.query, 24 * HOUR);
+    if ('error' in range) {
+      res.status(400).json({ error: range.error });
+      return;
+    }
+    const bucketMs = parseDuration(String(req.query.bucket || '1h'));
+    if (!bucketMs) {
+      res.status(400).json({ error: 'bucket must look like 30s, 5m, 1h or 1d' });
+      return;
+    }
+
+    const snapshot = await getMonitoringService().collectSnapshot();
+    const live = snapshot.applications.find(usage => usage.id === applicationId);
+    const history = await getUsageHistory('application', applicationId, range.startDate, range.endDate, bucketMs);
+
+    res.json({
+      application: signature,
+      live: {
+        bandwidth: live ? live.bandwidth : 0,
+        bytes: live ? live.bytes : 0,
+        status: live ? live.status : 'normal',
+        trend: live ? live.trend : 'stable',
+        timestamp: snapshot.stats.timestamp
+      },
+      topUsers: live ? live.topUsers : [],
+      history
+    });
   } catch (error) {
-    console.error('Error fetching application metrics:', error);
-    res.status(500).json({ error: 'Failed to fetch application metrics' });
+    if (error instanceof NoActiveControllerError) {
+      res.status(503).json({ error: 'No healthy network controller available' });
+    } else {
+      console.error('Error fetching application metrics:', error);
+      res.status(500).json({ error: 'Failed to fetch application metrics' });
+    }
   }
 });
 
@@ -0,0 +1,177 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { NOTIFICATION_SECRET_FIELDS, NotificationChannel } from '../../models/notificationChannel';
+import { NotificationDelivery } from '../../models/notificationDelivery';
+import { requireAdmin, requireAuth } from '../../middleware/auth';
+import { getCredentialKey } from '../../services/serviceRegistry';
+import { encryptSecrets, keepMaskedSecrets } from '../../utils/secrets';
+import { validateNotificationChannel } from '../../utils/validation';
+
+const router = express.Router();
+
+const EDITABLE_FIELDS = ['name', 'type', 'enabled', 'config'];
+
+function pickEditableFields(body: Record<string, unknown>) {
+  const update: Record<string, any> = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] !== undefined) {
+      update[field] = body[field];
+    }
+  }
+  return update;
+}
+
+// Anyone logged in may read the channels, only admins may change where
+// notifications are sent
+router.use(requireAuth);
+
+// List notification channels
+router.get('/channels', async (_req, res) => {
+  try {
+    const channels = await NotificationChannel.find().sort({ name: 1 });
+    res.json(channels);
+  } catch (error) {
+    console.error('Error listing notification channels:', error);
+    res.status(500).json({ error: 'Failed to list notification channels' });
+  }
+});
+
+// Get a single notification channel
+router.get('/channels/:id', async (req, res) => {
+  try {
+    const channel = mongoose.isValidObjectId(req.params.id)
+      ? await NotificationChannel.findById(req.params.id)
+      : null;
+    if (!channel) {
+      res.status(404).json({ error: 'Notification channel not found' });
+      return;
+    }
+    res.json(channel);
+  } catch (error) {
+    console.error('Error fetching notification channel:', error);
+    res.status(500).json({ error: 'Failed to fetch notification channel' });
+  }
+});
+
+// Create a notification channel; its secret is encrypted before it is stored
+router.post('/channels', requireAdmin, async (req, res) => {
+  try {
+    const fields = pickEditableFields(req.body);
+    const validationError = validateNotificationChannel(fields);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const existing = await NotificationChannel.findOne({ name: fields.name.trim() });
+    if (existing) {
+      res.status(400).json({ error: 'Notification channel name already exists' });
+      return;
+    }
+
+    fields.config = encryptSecrets(fields.config, NOTIFICATION_SECRET_FIELDS, getCredentialKey());
+    const channel = new NotificationChannel(fields);
+    await channel.save();
+    res.status(201).json(channel);
+  } catch (error) {
+    console.error('Error creating notification channel:', error);
+    res.status(500).json({ error: 'Failed to create notification channel' });
+  }
+});
+
+// Update a notification channel; a new config replaces the old one, except
+// that a masked secret keeps the stored one
+router.put('/channels/:id', requireAdmin, async (req, res) => {
+  try {
+    const channel = mongoose.isValidObjectId(req.params.id)
+      ? await NotificationChannel.findById(req.params.id)
+      : null;
+    if (!channel) {
+      res.status(404).json({ error: 'Notification channel not found' });
+      return;
+    }
+
+    const fields = pickEditableFields(req.body);
+    if (fields.config && typeof fields.config === 'object') {
+      fields.config = keepMaskedSecrets(fields.config, channel.config, NOTIFICATION_SECRET_FIELDS);
+    }
+
+    const validationError = validateNotificationChannel({ ...fields, type: fields.type ?? channel.type }, true);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+    if (fields.type !== undefined && fields.type !== channel.type && fields.config === undefined) {
+      res.status(400).json({ error: 'Changing the channel type requires a new config' });
+      return;
+    }
+
+    if (fields.name !== undefined) {
+      const existing = await NotificationChannel.findOne({ name: fields.name.trim(), _id: { $ne: channel._id } });
+      if (existing) {
+        res.status(400).json({ error: 'Notification channel name already exists' });
+        return;
+      }
+    }
+
+    if (fields.config) {
+      fields.config = encryptSecrets(fields.config, NOTIFICATION_SECRET_FIELDS, getCredentialKey());
+    }
+    channel.set(fields);
+    await channel.save();
+    res.json(channel);
+  } catch (error) {
+    console.error('Error updating notification channel:', error);
+    res.status(500).json({ error: 'Failed to update notification channel' });
+  }
+});
+
+// Delete a notification channel
+router.delete('/channels/:id', requireAdmin, async (req, res) => {
+  try {
+    const channel = mongoose.isValidObjectId(req.params.id)
+      ? await NotificationChannel.findByIdAndDelete(req.params.id)
+      : null;
+    if (!channel) {
+      res.status(404).json({ error: 'Notification channel not found' });
+      return;
+    }
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting notification channel:', error);
+    res.status(500).json({ error: 'Failed to delete notification channel' });
+  }
+});
+
+// Delivery log, newest first, filterable by alertId, channelId and status
+router.get('/deliveries', async (req, res) => {
+  try {
+    const filter: Record<string, unknown> = {};
+    for (const field of ['alertId', 'channelId']) {
+      const value = req.query[field];
+      if (value !== undefined) {
+        if (!mongoose.isValidObjectId(value)) {
+          res.status(400).json({ error: `Invalid ${field}` });
+          return;
+        }
+        filter[field] = value;
+      }
+    }
+    if (req.query.status !== undefined) {
+      if (!['pending', 'delivered', 'failed'].includes(req.query.status as string)) {
+        res.status(400).json({ error: 'status must be pending, delivered or failed' });
+        return;
+      }
+      filter.status = req.query.status;
+    }
+
+    const limit = Math.min(parseInt((req.query.limit as string) || '100', 10) || 100, 1000);
+    const deliveries = await NotificationDelivery.find(filter).sort({ createdAt: -1 }).limit(limit);
+    res.json(deliveries);
+  } catch (error) {
+    console.error('Error listing notification deliveries:', error);
+    res.status(500).json({ error: 'Failed to list notification deliveries' });
+  }
+});
+
+export default router;
@@ -0,0 +1,167 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { QoSPolicyModel, toQoSPolicy } from '../../models/qosPolicy';
+import { requireAdmin, requireAuth } from '../../middleware/auth';
+import { NoActiveControllerError } from '../../services/networkControllerManager';
+import { getNetworkControllerManager, getQoSReconciler } from '../../services/serviceRegistry';
+import { validateQoSPolicy } from '../../utils/validation';
+
+const router = express.Router();
+
+const EDITABLE_FIELDS = ['name', 'targetDevice', 'bandwidth', 'priority', 'ports', 'protocol', 'sourceCidr', 'destinationCidr', 'fairShare', 'perUserMax'];
+
+function pickEditableFields(body: Record<string, unknown>) {
+  const update: Record<string, any> = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] !== undefined) {
+      update[field] = body[field];
+    }
+  }
+  return update;
+}
+
+// The controllers are updated in the background. A change that does not
+// reach them shows up as drift in the next reconciliation.
+function syncControllers(description: string, operation: Promise<void>) {
+  operation.catch(error => console.error(`Error ${description}:`, error));
+}
+
+router.use(requireAuth, requireAdmin);
+
+// List stored policies
+router.get('/', async (_req, res) => {
+  try {
+    const policies = await QoSPolicyModel.find().sort({ name: 1 });
+    res.json(policies);
+  } catch (error) {
+    console.error('Error listing QoS policies:', error);
+    res.status(500).json({ error: 'Failed to list QoS policies' });
+  }
+});
+
+// Differences between the stored policies and those on the controllers
+router.get('/drift', async (_req, res) => {
+  try {
+    res.json(await getQoSReconciler().run(false));
+  } catch (error) {
+    if (error instanceof NoActiveControllerError) {
+      res.status(503).json({ error: 'No healthy network controller available' });
+    } else {
+      console.error('Error checking QoS policy drift:', error);
+      res.status(500).json({ error: 'Failed to check QoS policy drift' });
+    }
+  }
+});
+
+// Re-apply drifted policies and remove orphaned ones now
+router.post('/reconcile', async (_req, res) => {
+  try {
+    res.json(await getQoSReconciler().run(true));
+  } catch (error) {
+    if (error instanceof NoActiveControllerError) {
+      res.status(503).json({ error: 'No healthy network controller available' });
+    } else {
+      console.error('Error reconciling QoS policies:', error);
+      res.status(500).json({ error: 'Failed to reconcile QoS policies' });
+    }
+  }
+});
+
+// Get a single policy
+router.get('/:id', async (req, res) => {
+  try {
+    const policy = mongoose.isValidObjectId(req.params.id)
+      ? await QoSPolicyModel.findById(req.params.id)
+      : null;
+    if (!policy) {
+      res.status(404).json({ error: 'QoS policy not found' });
+      return;
+    }
+    res.json(policy);
+  } catch (error) {
+    console.error('Error fetching QoS policy:', error);
+    res.status(500).json({ error: 'Failed to fetch QoS policy' });
+  }
+});
+
+// Store a policy and apply it
+router.post('/', async (req, res) => {
+  try {
+    const fields = pickEditableFields(req.body);
+    const validationError = validateQoSPolicy(fields);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const existing = await QoSPolicyModel.findOne({ name: fields.name.trim() });
+    if (existing) {
+      res.status(400).json({ error: 'QoS policy name already exists' });
+      return;
+    }
+
+    const policy = new QoSPolicyModel(fields);
+    await policy.save();
+    syncControllers('applying QoS policy', getNetworkControllerManager().applyQoSPolicy(toQoSPolicy(policy)));
+    res.status(201).json(policy);
+  } catch (error) {
+    console.error('Error creating QoS policy:', error);
+    res.status(500).json({ error: 'Failed to create QoS policy' });
+  }
+});
+
+// Update a policy; the changed fields are merged with the stored ones
+router.put('/:id', async (req, res) => {
+  try {
+    const policy = mongoose.isValidObjectId(req.params.id)
+      ? await QoSPolicyModel.findById(req.params.id)
+      : null;
+    if (!policy) {
+      res.status(404).json({ error: 'QoS policy not found' });
+      return;
+    }
+
+    const fields = pickEditableFields(req.body);
+    const validationError = validateQoSPolicy({ ...toQoSPolicy(policy), ...fields });
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    if (fields.name !== undefined) {
+      const existing = await QoSPolicyModel.findOne({ name: fields.name.trim(), _id: { $ne: policy._id } });
+      if (existing) {
+        res.status(400).json({ error: 'QoS policy name already exists' });
+        return;
+      }
+    }
+
+    policy.set(fields);
+    await policy.save();
+    syncControllers('updating QoS policy', getNetworkControllerManager().updateQoSPolicy(toQoSPolicy(policy)));
+    res.json(policy);
+  } catch (error) {
+    console.error('Error updating QoS policy:', error);
+    res.status(500).json({ error: 'Failed to update QoS policy' });
+  }
+});
+
+// Remove a policy from the controllers and the collection
+router.delete('/:id', async (req, res) => {
+  try {
+    const policy = mongoose.isValidObjectId(req.params.id)
+      ? await QoSPolicyModel.findByIdAndDelete(req.params.id)
+      : null;
+    if (!policy) {
+      res.status(404).json({ error: 'QoS policy not found' });
+      return;
+    }
+    syncControllers('removing QoS policy', getNetworkControllerManager().removeQoSPolicy(String(policy._id)));
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting QoS policy:', error);
+    res.status(500).json({ error: 'Failed to delete QoS policy' });
+  }
+});
+
+export default router;
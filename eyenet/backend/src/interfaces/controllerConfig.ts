@@ -0,0 +1,33 @@
+export const PFSENSE_AUTH_MODES = ['apikey', 'jwt', 'basic'] as const;
+export type PfSenseAuthMode = typeof PFSENSE_AUTH_MODES[number];
+
+export const SNMP_AUTH_PROTOCOLS = ['md5', 'sha', 'sha224', 'sha256', 'sha384', 'sha512'] as const;
+export const SNMP_PRIV_PROTOCOLS = ['des', 'aes', 'aes256b', 'aes256r'] as const;
+
+export type SnmpAuthProtocol = typeof SNMP_AUTH_PROTOCOLS[number];
+export type SnmpPrivProtocol = typeof SNMP_PRIV_PROTOCOLS[number];
+
+// Connection settings; OpenDaylight and MikroTik use username and password,
+// pfSense uses apiKey and apiSecret, or username and password with the jwt
+// and basic authModes, SNMP a community (v2c) or a user with
+// optional authentication and privacy keys (v3). MikroTik can follow the
+// connection table with streaming, keeping at most maxFlows connections.
+// For the flow collector host and port are the local address to listen on.
+export interface ControllerSettings {
+  host: string;
+  port?: number;
+  username?: string;
+  password?: string;
+  apiKey?: string;
+  apiSecret?: string;
+  authMode?: PfSenseAuthMode;
+  verifySsl?: boolean;
+  streaming?: boolean;
+  maxFlows?: number;
+  version?: '2c' | '3';
+  community?: string;
+  authProtocol?: SnmpAuthProtocol;
+  authKey?: string;
+  privProtocol?: SnmpPrivProtocol;
+  privKey?: string;
+}
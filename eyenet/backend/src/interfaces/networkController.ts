@@ -0,0 +1,132 @@
+export interface NetworkDevice {
+  id: string;
+  name: string;
+  type: string;
+  ipAddress: string;
+  status: 'online' | 'offline';
+  lastSeen: Date;
+  vlanId?: number;
+  // Hardware address, when the controller reports one
+  macAddress?: string;
+  // Interface of the controller the device was seen on
+  interface?: string;
+  // Round trip time in milliseconds and packet loss in percent, for
+  // gateways the controller monitors
+  latency?: number;
+  packetLoss?: number;
+  // Controller that reported the device, set by the manager in aggregate mode
+  source?: string;
+}
+
+// A controller that failed while others answered, in aggregate mode
+export interface ControllerFailure {
+  source: string;
+  error: string;
+}
+
+// Emitted as 'deviceStatus' by controllers that watch their links, when a
+// device goes online or offline
+export interface DeviceStatusEvent {
+  deviceId: string;
+  name: string;
+  status: NetworkDevice['status'];
+  timestamp: Date;
+  // Controller that reported the change, set by the manager
+  source?: string;
+}
+
+export type AddressFamily = 'ipv4' | 'ipv6';
+
+export interface NetworkFlow {
+  id: string;
+  sourceIp: string;
+  destinationIp: string;
+  addressFamily: AddressFamily;
+  sourcePort: number;
+  destinationPort: number;
+  protocol: string;
+  bytesTransferred: number;
+  packetsTransferred: number;
+  startTime: Date;
+  endTime?: Date;
+  vlanId?: number;
+  // Controller that reported the flow, set by the manager in aggregate mode
+  source?: string;
+}
+
+export interface NetworkStats {
+  bytesIn: number;
+  bytesOut: number;
+  packetsIn: number;
+  packetsOut: number;
+  activeConnections: number;
+  timestamp: Date;
+}
+
+// Counters of a single port, for charting individual links
+export interface InterfaceStats {
+  deviceId: string;
+  portId: string;
+  name: string;
+  bytesIn: number;
+  bytesOut: number;
+  packetsIn: number;
+  packetsOut: number;
+  // Current throughput, when the controller measures it
+  inBitsPerSecond?: number;
+  outBitsPerSecond?: number;
+  timestamp: Date;
+  // Controller that reported the port, set by the manager in aggregate mode
+  source?: string;
+}
+
+export interface QoSPolicy {
+  id: string;
+  name: string;
+  targetDevice: string;
+  bandwidth: {
+    min: number;
+    max: number;
+  };
+  priority: number;
+  ports?: number[];
+  protocol?: string;
+  // Only traffic from or to these ranges, e.g. "10.1.0.0/16"
+  sourceCidr?: string;
+  destinationCidr?: string;
+  // Share the bandwidth equally between the hosts of sourceCidr, each
+  // limited to perUserMax Mbit/s when set. Only MikroTik enforces this.
+  fairShare?: boolean;
+  perUserMax?: number;
+  // Controller that reported the policy, set by the manager in aggregate mode
+  source?: string;
+}
+
+export type ControllerType = 'openDaylight' | 'pfSense' | 'mikroTik' | 'snmp' | 'flowCollector';
+
+export interface NetworkController {
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  getDevices(): Promise<NetworkDevice[]>;
+  getFlows(): Promise<NetworkFlow[]>;
+  getStats(): Promise<NetworkStats>;
+  // Applying and updating are upserts keyed by policy.id; removing a
+  // policy that is not installed is not an error
+  applyQoSPolicy(policy: QoSPolicy): Promise<void>;
+  updateQoSPolicy(policy: QoSPolicy): Promise<void>;
+  removeQoSPolicy(policyId: string): Promise<void>;
+  // Policies installed by this application
+  listQoSPolicies(): Promise<QoSPolicy[]>;
+  healthCheck(): Promise<boolean>;
+}
+
+// Optional capability of controllers that can report per-port counters
+export interface InterfaceStatsProvider {
+  getInterfaceStats(): Promise<InterfaceStats[]>;
+}
+
+export function supportsInterfaceStats(
+  controller: NetworkController
+): controller is NetworkController & InterfaceStatsProvider {
+  return typeof (controller as Partial<InterfaceStatsProvider>).getInterfaceStats === 'function';
+}
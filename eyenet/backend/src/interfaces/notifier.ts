@@ -0,0 +1,26 @@
+export type NotificationChannelType = 'email' | 'webhook' | 'slack' | 'teams';
+
+export interface NotificationChannelConfig {
+  // email
+  recipients?: string[];
+  // webhook, slack, teams
+  url?: string;
+  // webhook: key the payload is signed with
+  secret?: string;
+}
+
+export interface AlertNotification {
+  event: 'fired' | 'resolved';
+  alertId: string;
+  ruleName: string;
+  severity: string;
+  subject: string;
+  message: string;
+  value: number | null;
+  firedAt: Date;
+  resolvedAt: Date | null;
+}
+
+export interface Notifier {
+  send(notification: AlertNotification, config: NotificationChannelConfig): Promise<void>;
+}
@@ -0,0 +1,39 @@
+import express from 'express';
+import { TokenPayload, verifyToken } from '../utils/jwt';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: TokenPayload;
+    }
+  }
+}
+
+// Requires a valid "Authorization: Bearer <jwt>" header and exposes the token
+// payload as req.user
+export function requireAuth(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    res.status(401).json({ error: 'Authentication required' });
+    return;
+  }
+
+  try {
+    req.user = verifyToken(token);
+  } catch (error) {
+    res.status(401).json({ error: 'Invalid or expired token' });
+    return;
+  }
+
+  next();
+}
+
+// Use after requireAuth; only admins may pass
+export function requireAdmin(req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (req.user?.role !== 'admin') {
+    res.status(403).json({ error: 'Admin access required' });
+    return;
+  }
+
+  next();
+}
@@ -0,0 +1,87 @@
+import mongoose from 'mongoose';
+import { AlertSeverity } from './alertRule';
+
+export type AlertStatus = 'firing' | 'acknowledged' | 'resolved';
+
+export interface AlertRecord {
+  ruleId: mongoose.Types.ObjectId;
+  ruleName: string;
+  severity: AlertSeverity;
+  status: AlertStatus;
+  // What the alert is about: "network" for network wide metrics, otherwise
+  // the device ID
+  subject: string;
+  message: string;
+  // Observed value when the alert fired, if the condition has one
+  value: number | null;
+  firedAt: Date;
+  acknowledgedAt: Date | null;
+  acknowledgedBy: string | null;
+  resolvedAt: Date | null;
+  updatedAt: Date;
+}
+
+const alertSchema = new mongoose.Schema<AlertRecord>({
+  ruleId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'AlertRule',
+    required: true
+  },
+  ruleName: {
+    type: String,
+    required: true
+  },
+  severity: {
+    type: String,
+    enum: ['low', 'medium', 'high'],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['firing', 'acknowledged', 'resolved'],
+    default: 'firing'
+  },
+  subject: {
+    type: String,
+    required: true
+  },
+  message: {
+    type: String,
+    required: true
+  },
+  value: {
+    type: Number,
+    default: null
+  },
+  firedAt: {
+    type: Date,
+    default: Date.now
+  },
+  acknowledgedAt: {
+    type: Date,
+    default: null
+  },
+  acknowledgedBy: {
+    type: String,
+    default: null
+  },
+  resolvedAt: {
+    type: Date,
+    default: null
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+alertSchema.index({ status: 1, firedAt: -1 });
+alertSchema.index({ ruleId: 1, subject: 1, status: 1 });
+
+// Update the updatedAt timestamp before saving
+alertSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+export const Alert = mongoose.model<AlertRecord>('Alert', alertSchema);
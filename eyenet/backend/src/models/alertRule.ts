@@ -0,0 +1,116 @@
+import mongoose from 'mongoose';
+
+// Fields of a collected NetworkMetrics sample rules can be written against
+export const ALERT_METRICS = [
+  'latency',
+  'packetLoss',
+  'download',
+  'upload',
+  'bytesIn',
+  'bytesOut',
+  'packetsIn',
+  'packetsOut',
+  'activeConnections'
+] as const;
+
+export type AlertMetric = typeof ALERT_METRICS[number];
+export type AlertOperator = '>' | '>=' | '<' | '<=' | '=' | '!=';
+export type AlertSeverity = 'low' | 'medium' | 'high';
+
+// threshold:    metric compared against value
+// rateOfChange: percent change of metric over window compared against value
+// absence:      no sample (or, with deviceId, no report of the device) for duration
+// deviceStatus: a device (or any device) reporting the given status
+export type AlertConditionType = 'threshold' | 'rateOfChange' | 'absence' | 'deviceStatus';
+
+export interface AlertCondition {
+  type: AlertConditionType;
+  metric?: AlertMetric;
+  operator?: AlertOperator;
+  value?: number;
+  // Durations such as "30s" or "5m". For absence conditions duration is the
+  // gap that counts as missing data, otherwise it is how long the condition
+  // has to hold before the alert fires.
+  duration?: string;
+  window?: string;
+  deviceId?: string;
+  status?: 'online' | 'offline';
+}
+
+export interface AlertRuleDefinition {
+  name: string;
+  description: string;
+  enabled: boolean;
+  severity: AlertSeverity;
+  condition: AlertCondition;
+  // Notification channels fired and resolved alerts are sent to
+  notificationChannels: mongoose.Types.ObjectId[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const alertRuleSchema = new mongoose.Schema<AlertRuleDefinition>({
+  name: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  description: {
+    type: String,
+    default: '',
+    trim: true
+  },
+  enabled: {
+    type: Boolean,
+    default: true
+  },
+  severity: {
+    type: String,
+    enum: ['low', 'medium', 'high'],
+    default: 'medium'
+  },
+  condition: {
+    type: {
+      type: String,
+      enum: ['threshold', 'rateOfChange', 'absence', 'deviceStatus'],
+      required: true
+    },
+    metric: {
+      type: String,
+      enum: ALERT_METRICS
+    },
+    operator: {
+      type: String,
+      enum: ['>', '>=', '<', '<=', '=', '!=']
+    },
+    value: Number,
+    duration: String,
+    window: String,
+    deviceId: String,
+    status: {
+      type: String,
+      enum: ['online', 'offline']
+    }
+  },
+  notificationChannels: {
+    type: [{ type: mongoose.Schema.Types.ObjectId, ref: 'NotificationChannel' }],
+    default: []
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Update the updatedAt timestamp before saving
+alertRuleSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+export const AlertRule = mongoose.model<AlertRuleDefinition>('AlertRule', alertRuleSchema);
@@ -0,0 +1,95 @@
+import mongoose from 'mongoose';
+import { ControllerType } from '../interfaces/networkController';
+import { ControllerSettings, PFSENSE_AUTH_MODES } from '../interfaces/controllerConfig';
+import { maskSecrets } from '../utils/secrets';
+
+// Credential fields, stored encrypted and masked in API responses
+export const CONTROLLER_SECRET_FIELDS = ['password', 'apiSecret', 'community', 'authKey', 'privKey'] as const;
+
+export interface ControllerDefinition {
+  name: string;
+  type: ControllerType;
+  enabled: boolean;
+  // See ControllerPreference in the controller manager
+  priority: number;
+  weight: number;
+  config: ControllerSettings;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const controllerSchema = new mongoose.Schema<ControllerDefinition>({
+  name: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  type: {
+    type: String,
+    enum: ['openDaylight', 'pfSense', 'mikroTik', 'snmp', 'flowCollector'],
+    required: true
+  },
+  enabled: {
+    type: Boolean,
+    default: true
+  },
+  priority: {
+    type: Number,
+    default: 100
+  },
+  weight: {
+    type: Number,
+    default: 1
+  },
+  config: {
+    host: {
+      type: String,
+      required: true
+    },
+    port: Number,
+    username: String,
+    password: String,
+    apiKey: String,
+    apiSecret: String,
+    authMode: {
+      type: String,
+      enum: PFSENSE_AUTH_MODES
+    },
+    verifySsl: Boolean,
+    streaming: Boolean,
+    maxFlows: Number,
+    version: {
+      type: String,
+      enum: ['2c', '3']
+    },
+    community: String,
+    authProtocol: String,
+    authKey: String,
+    privProtocol: String,
+    privKey: String
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+controllerSchema.set('toJSON', {
+  transform: (_doc, ret: any) => {
+    maskSecrets(ret.config, CONTROLLER_SECRET_FIELDS);
+    return ret;
+  }
+});
+
+// Update the updatedAt timestamp before saving
+controllerSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+export const Controller = mongoose.model<ControllerDefinition>('Controller', controllerSchema);
@@ -0,0 +1,45 @@
+import mongoose from 'mongoose';
+
+const departmentSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  description: {
+    type: String,
+    default: '',
+    trim: true
+  },
+  // Address ranges owned by the department, e.g. "10.20.0.0/16"
+  cidrs: {
+    type: [String],
+    default: []
+  },
+  vlanIds: {
+    type: [Number],
+    default: []
+  },
+  // Controller device IDs whose addresses belong to the department
+  deviceIds: {
+    type: [String],
+    default: []
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Update the updatedAt timestamp before saving
+departmentSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+export const Department = mongoose.model('Department', departmentSchema);
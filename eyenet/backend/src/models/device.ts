@@ -0,0 +1,121 @@
+import mongoose from 'mongoose';
+
+export type DeviceStatus = 'online' | 'offline';
+
+export interface DeviceStatusChange {
+  status: DeviceStatus;
+  at: Date;
+  // "reported" when the controller reported the status, "missing" when the
+  // device was not seen for the grace period
+  reason: 'reported' | 'missing';
+}
+
+export interface DeviceRecord {
+  // Stable identity across discoveries, see deviceIdentityKey
+  identityKey: string;
+  name: string;
+  type: string;
+  ipAddress: string;
+  macAddress: string | null;
+  vlanId: number | null;
+  status: DeviceStatus;
+  // Controller that last reported the device and its ID there
+  source: string;
+  sourceDeviceId: string;
+  firstSeen: Date;
+  lastSeen: Date;
+  statusHistory: DeviceStatusChange[];
+  tags: string[];
+  annotations: Map<string, string>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Number of status changes kept per device
+export const STATUS_HISTORY_LIMIT = 50;
+
+const deviceSchema = new mongoose.Schema<DeviceRecord>({
+  identityKey: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  name: {
+    type: String,
+    required: true
+  },
+  type: {
+    type: String,
+    default: 'unknown'
+  },
+  ipAddress: {
+    type: String,
+    default: 'unknown'
+  },
+  macAddress: {
+    type: String,
+    default: null
+  },
+  vlanId: {
+    type: Number,
+    default: null
+  },
+  status: {
+    type: String,
+    enum: ['online', 'offline'],
+    required: true
+  },
+  source: {
+    type: String,
+    required: true
+  },
+  sourceDeviceId: {
+    type: String,
+    required: true
+  },
+  firstSeen: {
+    type: Date,
+    required: true
+  },
+  lastSeen: {
+    type: Date,
+    required: true
+  },
+  statusHistory: {
+    type: [{
+      _id: false,
+      status: { type: String, enum: ['online', 'offline'] },
+      at: Date,
+      reason: { type: String, enum: ['reported', 'missing'] }
+    }],
+    default: []
+  },
+  tags: {
+    type: [String],
+    default: []
+  },
+  annotations: {
+    type: Map,
+    of: String,
+    default: {}
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+deviceSchema.index({ status: 1, lastSeen: 1 });
+deviceSchema.index({ tags: 1 });
+
+// Update the updatedAt timestamp before saving
+deviceSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+export const Device = mongoose.model<DeviceRecord>('Device', deviceSchema);
@@ -0,0 +1,79 @@
+import mongoose from 'mongoose';
+import { NetworkState } from '../types/monitoring';
+
+export interface NetworkMetrics {
+  timestamp: Date;
+  source: string;
+  latency: number;
+  packetLoss: number;
+  status: NetworkState;
+  download: number;
+  upload: number;
+  bytesIn: number;
+  bytesOut: number;
+  packetsIn: number;
+  packetsOut: number;
+  activeConnections: number;
+}
+
+const networkMetricsSchema = new mongoose.Schema<NetworkMetrics>({
+  timestamp: {
+    type: Date,
+    required: true
+  },
+  source: {
+    type: String,
+    required: true
+  },
+  latency: {
+    type: Number,
+    default: 0
+  },
+  packetLoss: {
+    type: Number,
+    default: 0
+  },
+  status: {
+    type: String,
+    enum: ['online', 'offline', 'degraded'],
+    default: 'online'
+  },
+  download: {
+    type: Number,
+    default: 0
+  },
+  upload: {
+    type: Number,
+    default: 0
+  },
+  bytesIn: {
+    type: Number,
+    default: 0
+  },
+  bytesOut: {
+    type: Number,
+    default: 0
+  },
+  packetsIn: {
+    type: Number,
+    default: 0
+  },
+  packetsOut: {
+    type: Number,
+    default: 0
+  },
+  activeConnections: {
+    type: Number,
+    default: 0
+  }
+}, {
+  collection: 'network_metrics',
+  timeseries: {
+    timeField: 'timestamp',
+    metaField: 'source',
+    granularity: 'seconds'
+  },
+  versionKey: false
+});
+
+export const NetworkMetricsSample = mongoose.model<NetworkMetrics>('NetworkMetricsSample', networkMetricsSchema);
@@ -0,0 +1,40 @@
+import mongoose from 'mongoose';
+import { MetricsBucket } from '../types/monitoring';
+
+export interface MetricsRollup extends MetricsBucket {
+  tier: string;
+}
+
+const rollupStatsSchema = new mongoose.Schema({
+  min: { type: Number, required: true },
+  avg: { type: Number, required: true },
+  max: { type: Number, required: true },
+  p95: { type: Number, required: true }
+}, { _id: false });
+
+const networkMetricsRollupSchema = new mongoose.Schema<MetricsRollup>({
+  tier: {
+    type: String,
+    required: true
+  },
+  timestamp: {
+    type: Date,
+    required: true
+  },
+  count: {
+    type: Number,
+    required: true
+  },
+  latency: rollupStatsSchema,
+  packetLoss: rollupStatsSchema,
+  download: rollupStatsSchema,
+  upload: rollupStatsSchema,
+  activeConnections: rollupStatsSchema
+}, {
+  collection: 'network_metrics_rollups',
+  versionKey: false
+});
+
+networkMetricsRollupSchema.index({ tier: 1, timestamp: 1 }, { unique: true });
+
+export const NetworkMetricsRollup = mongoose.model<MetricsRollup>('NetworkMetricsRollup', networkMetricsRollupSchema);
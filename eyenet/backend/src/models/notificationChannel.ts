@@ -0,0 +1,67 @@
+import mongoose from 'mongoose';
+import { NotificationChannelConfig, NotificationChannelType } from '../interfaces/notifier';
+import { maskSecrets } from '../utils/secrets';
+
+// Secret fields, stored encrypted and masked in API responses
+export const NOTIFICATION_SECRET_FIELDS = ['secret'] as const;
+
+export interface NotificationChannelDefinition {
+  name: string;
+  type: NotificationChannelType;
+  enabled: boolean;
+  config: NotificationChannelConfig;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const notificationChannelSchema = new mongoose.Schema<NotificationChannelDefinition>({
+  name: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  type: {
+    type: String,
+    enum: ['email', 'webhook', 'slack', 'teams'],
+    required: true
+  },
+  enabled: {
+    type: Boolean,
+    default: true
+  },
+  config: {
+    recipients: {
+      type: [String],
+      default: undefined
+    },
+    url: String,
+    secret: String
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+notificationChannelSchema.set('toJSON', {
+  transform: (_doc, ret: any) => {
+    maskSecrets(ret.config, NOTIFICATION_SECRET_FIELDS);
+    return ret;
+  }
+});
+
+// Update the updatedAt timestamp before saving
+notificationChannelSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+export const NotificationChannel = mongoose.model<NotificationChannelDefinition>(
+  'NotificationChannel',
+  notificationChannelSchema
+);
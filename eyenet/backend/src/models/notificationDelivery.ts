@@ -0,0 +1,85 @@
+import mongoose from 'mongoose';
+import { NotificationChannelType } from '../interfaces/notifier';
+
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface DeliveryAttempt {
+  at: Date;
+  error: string | null;
+}
+
+export interface NotificationDeliveryRecord {
+  alertId: mongoose.Types.ObjectId;
+  ruleId: mongoose.Types.ObjectId;
+  channelId: mongoose.Types.ObjectId;
+  channelName: string;
+  channelType: NotificationChannelType;
+  event: 'fired' | 'resolved';
+  status: DeliveryStatus;
+  attempts: DeliveryAttempt[];
+  deliveredAt: Date | null;
+  createdAt: Date;
+}
+
+const notificationDeliverySchema = new mongoose.Schema<NotificationDeliveryRecord>({
+  alertId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Alert',
+    required: true
+  },
+  ruleId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'AlertRule',
+    required: true
+  },
+  channelId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'NotificationChannel',
+    required: true
+  },
+  channelName: {
+    type: String,
+    required: true
+  },
+  channelType: {
+    type: String,
+    enum: ['email', 'webhook', 'slack', 'teams'],
+    required: true
+  },
+  event: {
+    type: String,
+    enum: ['fired', 'resolved'],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'delivered', 'failed'],
+    default: 'pending'
+  },
+  attempts: {
+    type: [{
+      _id: false,
+      at: Date,
+      error: { type: String, default: null }
+    }],
+    default: []
+  },
+  deliveredAt: {
+    type: Date,
+    default: null
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  collection: 'notification_deliveries'
+});
+
+notificationDeliverySchema.index({ alertId: 1, createdAt: -1 });
+notificationDeliverySchema.index({ createdAt: -1 });
+
+export const NotificationDelivery = mongoose.model<NotificationDeliveryRecord>(
+  'NotificationDelivery',
+  notificationDeliverySchema
+);
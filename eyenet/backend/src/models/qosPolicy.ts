@@ -0,0 +1,107 @@
+import mongoose from 'mongoose';
+import { QoSPolicy } from '../interfaces/networkController';
+
+// Stored policies are the source of truth for what the controllers should
+// enforce; the document ID is the policy ID on the controllers
+export interface QoSPolicyDefinition {
+  name: string;
+  targetDevice: string;
+  bandwidth: {
+    min: number;
+    max: number;
+  };
+  priority: number;
+  ports: number[];
+  protocol?: string;
+  sourceCidr?: string;
+  destinationCidr?: string;
+  fairShare?: boolean;
+  perUserMax?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const qosPolicySchema = new mongoose.Schema<QoSPolicyDefinition>({
+  name: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  targetDevice: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  // Mbit/s
+  bandwidth: {
+    min: {
+      type: Number,
+      default: 0
+    },
+    max: {
+      type: Number,
+      required: true
+    }
+  },
+  priority: {
+    type: Number,
+    required: true
+  },
+  ports: {
+    type: [Number],
+    default: []
+  },
+  protocol: String,
+  sourceCidr: String,
+  destinationCidr: String,
+  // Per-host fair sharing within sourceCidr, perUserMax in Mbit/s
+  fairShare: Boolean,
+  perUserMax: Number,
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Update the updatedAt timestamp before saving
+qosPolicySchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+export const QoSPolicyModel = mongoose.model<QoSPolicyDefinition>('QoSPolicy', qosPolicySchema);
+
+// The policy as the controllers take it; empty optional fields are left out
+export function toQoSPolicy(record: QoSPolicyDefinition & { _id: unknown }): QoSPolicy {
+  const policy: QoSPolicy = {
+    id: String(record._id),
+    name: record.name,
+    targetDevice: record.targetDevice,
+    bandwidth: { min: record.bandwidth.min, max: record.bandwidth.max },
+    priority: record.priority
+  };
+  if (record.ports?.length) {
+    policy.ports = [...record.ports];
+  }
+  if (record.protocol) {
+    policy.protocol = record.protocol;
+  }
+  if (record.sourceCidr) {
+    policy.sourceCidr = record.sourceCidr;
+  }
+  if (record.destinationCidr) {
+    policy.destinationCidr = record.destinationCidr;
+  }
+  if (record.fairShare) {
+    policy.fairShare = true;
+    if (record.perUserMax) {
+      policy.perUserMax = record.perUserMax;
+    }
+  }
+  return policy;
+}
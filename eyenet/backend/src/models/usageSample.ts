@@ -0,0 +1,58 @@
+import mongoose from 'mongoose';
+
+export type UsageKind = 'department' | 'application';
+
+export interface UsageMeasurement {
+  timestamp: Date;
+  meta: {
+    kind: UsageKind;
+    key: string;
+  };
+  bytes: number;
+  bandwidth: number;
+  usage: number;
+}
+
+// Per-entity usage history kept for 90 days
+const USAGE_SAMPLE_RETENTION_SECONDS = 90 * 24 * 60 * 60;
+
+const usageSampleSchema = new mongoose.Schema<UsageMeasurement>({
+  timestamp: {
+    type: Date,
+    required: true
+  },
+  meta: {
+    kind: {
+      type: String,
+      enum: ['department', 'application'],
+      required: true
+    },
+    key: {
+      type: String,
+      required: true
+    }
+  },
+  bytes: {
+    type: Number,
+    default: 0
+  },
+  bandwidth: {
+    type: Number,
+    default: 0
+  },
+  usage: {
+    type: Number,
+    default: 0
+  }
+}, {
+  collection: 'usage_samples',
+  timeseries: {
+    timeField: 'timestamp',
+    metaField: 'meta',
+    granularity: 'minutes'
+  },
+  expireAfterSeconds: USAGE_SAMPLE_RETENTION_SECONDS,
+  versionKey: false
+});
+
+export const UsageSample = mongoose.model<UsageMeasurement>('UsageSample', usageSampleSchema);
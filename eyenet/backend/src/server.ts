@@ -6,6 +6,23 @@ import dotenv from 'dotenv';
 import NetworkMonitor from './websocket/networkMonitor';
 import monitoringRoutes from './api/routes/monitoring';
 import authRoutes from './api/routes/auth';
+import departmentRoutes from './api/routes/departments';
+import alertRoutes from './api/routes/alerts';
+import notificationRoutes from './api/routes/notifications';
+import deviceRoutes from './api/routes/devices';
+import controllerRoutes from './api/routes/controllers';
+import qosPolicyRoutes from './api/routes/qosPolicies';
+import {
+  getAlertEngine,
+  getControllerRegistry,
+  getDeviceInventory,
+  getMetricsCollector,
+  getMetricsRetentionJob,
+  getMonitoringService,
+  getNetworkControllerManager,
+  getNotificationDispatcher,
+  getQoSReconciler
+} from './services/serviceRegistry';
 
 // Load environment variables
 dotenv.config();
@@ -16,9 +33,24 @@ const server = http.createServer(app);
 // MongoDB connection
 const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/eyenet';
 mongoose.connect(MONGODB_URI)
-  .then(() => console.log('Connected to MongoDB'))
+  .then(() => {
+    console.log('Connected to MongoDB');
+    getMetricsCollector().start();
+    getMetricsRetentionJob().start();
+    getDeviceInventory().start();
+    getQoSReconciler().start();
+    getControllerRegistry().reload()
+      .catch(err => console.error('Failed to load stored controllers:', err));
+    getControllerRegistry().start();
+  })
   .catch(err => console.error('MongoDB connection error:', err));
 
+// Network controller connection
+const networkControllerManager = getNetworkControllerManager();
+networkControllerManager.connect()
+  .then(() => console.log('Connected to network controller:', networkControllerManager.getActiveControllerType()))
+  .catch(err => console.error('Network controller connection error:', err.message));
+
 // CORS configuration
 const corsOptions = {
   origin: ['http://localhost:3000', 'http://localhost:3002', 'http://localhost:3006'],
@@ -40,6 +72,12 @@ app.use((req, res, next) => {
 // API Routes
 app.use('/api/monitoring', monitoringRoutes);
 app.use('/api/auth', authRoutes);
+app.use('/api/departments', departmentRoutes);
+app.use('/api/alerts', alertRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/devices', deviceRoutes);
+app.use('/api/controllers', controllerRoutes);
+app.use('/api/qos-policies', qosPolicyRoutes);
 
 // Error handling middleware
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -48,12 +86,27 @@ app.use((err: Error, req: express.Request, res: express.Response, next: express.
 });
 
 const HTTP_PORT = parseInt(process.env.PORT || '3006', 10);
-const WS_PORT = HTTP_PORT + 1; // Use next port number for WebSocket
+const WS_PATH = '/ws';
+
+// Serve the WebSocket on the HTTP server so it shares the port and TLS setup
+const networkMonitor = new NetworkMonitor(server, getMonitoringService(), { path: WS_PATH });
+
+// Push alert lifecycle changes to clients subscribed to the alerts channel
+getAlertEngine().on('alert', (event) => networkMonitor.publish('alerts', event));
 
-// Initialize WebSocket server
-const networkMonitor = new NetworkMonitor(WS_PORT);
+// Push active controller changes to clients subscribed to the controllers channel
+networkControllerManager.on('failover', (event) => networkMonitor.publish('controllers', event));
+
+// Push link up/down changes reported by the controllers to the devices channel
+networkControllerManager.on('deviceStatus', (event) => networkMonitor.publish('devices', event));
+
+// Send fired and resolved alerts to the notification channels of their rule
+getAlertEngine().on('alert', (event) => {
+  getNotificationDispatcher().dispatch(event)
+    .catch(error => console.error('Alert notification failed:', error));
+});
 
 server.listen(HTTP_PORT, () => {
   console.log(`HTTP server running on port ${HTTP_PORT}`);
-  console.log(`WebSocket server running on port ${WS_PORT}`);
+  console.log(`WebSocket server running on ${WS_PATH}`);
 });
@@ -0,0 +1,320 @@
+import { EventEmitter } from 'events';
+import mongoose from 'mongoose';
+import { NetworkDevice } from '../interfaces/networkController';
+import { Alert, AlertRecord } from '../models/alert';
+import { AlertOperator, AlertRule, AlertRuleDefinition } from '../models/alertRule';
+import { NetworkMetrics } from '../models/networkMetrics';
+import { parseDuration } from './metricsHistory';
+
+// Subject of alerts raised from network wide metrics
+export const NETWORK_SUBJECT = 'network';
+
+export interface AlertObservation {
+  metrics: NetworkMetrics;
+  devices: NetworkDevice[];
+}
+
+export type AlertEventType = 'fired' | 'acknowledged' | 'resolved';
+
+// Emitted as the 'alert' event on every lifecycle transition
+export interface AlertEvent {
+  event: AlertEventType;
+  alert: AlertRecord & { _id: mongoose.Types.ObjectId };
+}
+
+type RuleDocument = AlertRuleDefinition & { _id: mongoose.Types.ObjectId };
+type AlertDocument = mongoose.HydratedDocument<AlertRecord>;
+
+interface Evaluation {
+  subject: string;
+  breached: boolean;
+  value: number | null;
+  message: string;
+}
+
+export function compare(value: number, operator: AlertOperator, threshold: number): boolean {
+  switch (operator) {
+    case '>':
+      return value > threshold;
+    case '>=':
+      return value >= threshold;
+    case '<':
+      return value < threshold;
+    case '<=':
+      return value <= threshold;
+    case '=':
+      return value === threshold;
+    case '!=':
+      return value !== threshold;
+  }
+}
+
+function formatNumber(value: number): string {
+  return Number.isFinite(value) ? String(Math.round(value * 100) / 100) : String(value);
+}
+
+// Evaluates the enabled alert rules against each collected sample and moves
+// alerts through their firing -> acknowledged -> resolved lifecycle. Alerts
+// resolve on their own once the condition clears.
+export class AlertEngine extends EventEmitter {
+  private lastSampleAt: Date | null = null;
+  private deviceLastSeen = new Map<string, Date>();
+  // Recent samples, kept as long as the longest rate of change window needs
+  private history: { timestamp: Date; metrics: NetworkMetrics }[] = [];
+  // When each rule/subject pair started breaching, for duration conditions
+  private pendingSince = new Map<string, Date>();
+
+  // Absence is measured from startedAt until the first sample arrives
+  constructor(private readonly startedAt: Date = new Date()) {
+    super();
+  }
+
+  // Called after every collection attempt; observation is null when
+  // collection failed, which only absence conditions can act on
+  async evaluate(observation: AlertObservation | null, now: Date = new Date()): Promise<void> {
+    if (observation) {
+      this.record(observation);
+    }
+
+    const rules = await AlertRule.find({ enabled: true }).lean<RuleDocument[]>();
+    const activeAlerts: AlertDocument[] = await Alert.find({ status: { $in: ['firing', 'acknowledged'] } });
+    const active = new Map(activeAlerts.map(alert => [this.key(alert.ruleId, alert.subject), alert]));
+
+    for (const rule of rules) {
+      const tracked = this.trackedSubjects(rule, activeAlerts);
+      for (const evaluation of this.evaluateRule(rule, observation, now, tracked)) {
+        const key = this.key(rule._id, evaluation.subject);
+        await this.transition(rule, evaluation, active.get(key), key, now);
+      }
+    }
+
+    // Alerts of rules that were deleted or disabled have nothing left to clear them
+    const ruleIds = new Set(rules.map(rule => rule._id.toString()));
+    for (const alert of activeAlerts) {
+      if (!ruleIds.has(alert.ruleId.toString())) {
+        await this.resolve(alert, now);
+      }
+    }
+
+    this.pruneHistory(rules, now);
+  }
+
+  // Acknowledges a firing alert; returns null when the alert does not exist or
+  // is not firing
+  async acknowledge(id: string, acknowledgedBy: string): Promise<AlertDocument | null> {
+    const alert = await Alert.findOneAndUpdate(
+      { _id: id, status: 'firing' },
+      { status: 'acknowledged', acknowledgedAt: new Date(), acknowledgedBy, updatedAt: new Date() },
+      { new: true }
+    );
+    if (alert) {
+      this.notify('acknowledged', alert);
+    }
+    return alert;
+  }
+
+  private record(observation: AlertObservation) {
+    const timestamp = observation.metrics.timestamp;
+    this.lastSampleAt = timestamp;
+    this.history.push({ timestamp, metrics: observation.metrics });
+    for (const device of observation.devices) {
+      this.deviceLastSeen.set(device.id, timestamp);
+    }
+  }
+
+  // Subjects of the rule with an open alert or a breach waiting out its duration
+  private trackedSubjects(rule: RuleDocument, activeAlerts: AlertDocument[]): string[] {
+    const prefix = this.key(rule._id, '');
+    const subjects = activeAlerts
+      .filter(alert => alert.ruleId.toString() === rule._id.toString())
+      .map(alert => alert.subject);
+    this.pendingSince.forEach((_since, key) => {
+      if (key.startsWith(prefix)) {
+        subjects.push(key.slice(prefix.length));
+      }
+    });
+    return subjects;
+  }
+
+  private evaluateRule(
+    rule: RuleDocument,
+    observation: AlertObservation | null,
+    now: Date,
+    trackedSubjects: string[]
+  ): Evaluation[] {
+    const { condition } = rule;
+
+    switch (condition.type) {
+      case 'threshold': {
+        if (!observation || !condition.metric || !condition.operator || condition.value === undefined) {
+          return [];
+        }
+        const value = observation.metrics[condition.metric];
+        return [{
+          subject: NETWORK_SUBJECT,
+          breached: compare(value, condition.operator, condition.value),
+          value,
+          message: `${condition.metric} is ${formatNumber(value)} (${condition.operator} ${condition.value})`
+        }];
+      }
+
+      case 'rateOfChange': {
+        const windowMs = condition.window ? parseDuration(condition.window) : null;
+        if (!observation || !condition.metric || !condition.operator || condition.value === undefined || !windowMs) {
+          return [];
+        }
+        const baseline = this.baseline(now, windowMs);
+        if (!baseline) {
+          return [];
+        }
+        const previous = baseline.metrics[condition.metric];
+        const current = observation.metrics[condition.metric];
+        const change = previous === 0
+          ? (current === 0 ? 0 : Infinity)
+          : ((current - previous) / Math.abs(previous)) * 100;
+        return [{
+          subject: NETWORK_SUBJECT,
+          breached: compare(change, condition.operator, condition.value),
+          value: Number.isFinite(change) ? change : null,
+          message: `${condition.metric} changed by ${formatNumber(change)}% over ${condition.window}`
+        }];
+      }
+
+      case 'absence': {
+        const durationMs = condition.duration ? parseDuration(condition.duration) : null;
+        if (!durationMs) {
+          return [];
+        }
+        const subject = condition.deviceId || NETWORK_SUBJECT;
+        const lastSeen = (condition.deviceId ? this.deviceLastSeen.get(condition.deviceId) : this.lastSampleAt)
+          || this.startedAt;
+        const silentSeconds = (now.getTime() - lastSeen.getTime()) / 1000;
+        return [{
+          subject,
+          breached: silentSeconds * 1000 >= durationMs,
+          value: silentSeconds,
+          message: `No data from ${subject} for ${Math.round(silentSeconds)}s`
+        }];
+      }
+
+      case 'deviceStatus': {
+        if (!observation) {
+          return [];
+        }
+        const status = condition.status || 'offline';
+        const reported = observation.devices
+          .filter(device => !condition.deviceId || device.id === condition.deviceId);
+        // A device no controller reports any more counts as offline, so its
+        // alert neither stays open forever nor misses its disappearance
+        const missing = new Set(condition.deviceId ? [condition.deviceId] : trackedSubjects);
+        reported.forEach(device => missing.delete(device.id));
+        return [
+          ...reported.map(device => ({
+            subject: device.id,
+            breached: device.status === status,
+            value: null,
+            message: `Device ${device.name} is ${device.status}`
+          })),
+          ...Array.from(missing).map(deviceId => ({
+            subject: deviceId,
+            breached: status === 'offline',
+            value: null,
+            message: `Device ${deviceId} is no longer reported`
+          }))
+        ];
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  private async transition(
+    rule: RuleDocument,
+    evaluation: Evaluation,
+    active: AlertDocument | undefined,
+    key: string,
+    now: Date
+  ) {
+    if (!evaluation.breached) {
+      this.pendingSince.delete(key);
+      if (active) {
+        await this.resolve(active, now);
+      }
+      return;
+    }
+
+    if (active) {
+      return;
+    }
+
+    const since = this.pendingSince.get(key) || now;
+    this.pendingSince.set(key, since);
+
+    // Absence conditions use their duration as the gap itself
+    const holdMs = rule.condition.type !== 'absence' && rule.condition.duration
+      ? parseDuration(rule.condition.duration) || 0
+      : 0;
+    if (now.getTime() - since.getTime() < holdMs) {
+      return;
+    }
+
+    const alert = await Alert.create({
+      ruleId: rule._id,
+      ruleName: rule.name,
+      severity: rule.severity,
+      status: 'firing',
+      subject: evaluation.subject,
+      message: evaluation.message,
+      value: evaluation.value,
+      firedAt: now
+    });
+    this.notify('fired', alert);
+  }
+
+  private async resolve(alert: AlertDocument, now: Date) {
+    alert.status = 'resolved';
+    alert.resolvedAt = now;
+    await alert.save();
+    this.notify('resolved', alert);
+  }
+
+  private notify(event: AlertEventType, alert: AlertDocument) {
+    const payload: AlertEvent = { event, alert: alert.toObject() };
+    this.emit('alert', payload);
+  }
+
+  // Latest sample taken at least windowMs before now, or null when the
+  // history does not reach back that far yet
+  private baseline(now: Date, windowMs: number) {
+    const cutoff = now.getTime() - windowMs;
+    let baseline: { timestamp: Date; metrics: NetworkMetrics } | null = null;
+    for (const entry of this.history) {
+      if (entry.timestamp.getTime() > cutoff) {
+        break;
+      }
+      baseline = entry;
+    }
+    return baseline;
+  }
+
+  private pruneHistory(rules: RuleDocument[], now: Date) {
+    const windows = rules
+      .filter(rule => rule.condition.type === 'rateOfChange' && rule.condition.window)
+      .map(rule => parseDuration(rule.condition.window!) || 0);
+    const cutoff = now.getTime() - Math.max(0, ...windows);
+
+    // Keep the newest sample before the cutoff as the baseline for the longest window
+    let keepFrom = 0;
+    this.history.forEach((entry, index) => {
+      if (entry.timestamp.getTime() <= cutoff) {
+        keepFrom = index;
+      }
+    });
+    this.history.splice(0, keepFrom);
+  }
+
+  private key(ruleId: mongoose.Types.ObjectId, subject: string): string {
+    return `${ruleId.toString()}:${subject}`;
+  }
+}
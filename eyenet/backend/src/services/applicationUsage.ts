@@ -0,0 +1,94 @@
+import { ApplicationUsage, FlowDelta, TopTalker } from '../types/monitoring';
+import { toMbps } from '../utils/units';
+import { ApplicationSignature, ApplicationThresholds, DEFAULT_THRESHOLDS, TrafficClassifier } from './trafficClassifier';
+
+const TOP_USER_LIMIT = 10;
+const TREND_THRESHOLD = 0.1;
+
+export interface ApplicationUsageDetail extends ApplicationUsage {
+  bytes: number;
+  topUsers: TopTalker[];
+}
+
+export function applicationStatus(
+  bandwidth: number,
+  thresholds: ApplicationThresholds = DEFAULT_THRESHOLDS
+): ApplicationUsage['status'] {
+  if (bandwidth >= thresholds.critical) {
+    return 'critical';
+  }
+  if (bandwidth >= thresholds.high) {
+    return 'high';
+  }
+  return 'normal';
+}
+
+// Compares the current bandwidth with the mean of the recent samples
+export function applicationTrend(bandwidth: number, recent: number[]): ApplicationUsage['trend'] {
+  if (recent.length === 0) {
+    return 'stable';
+  }
+
+  const mean = recent.reduce((total, value) => total + value, 0) / recent.length;
+  if (mean === 0) {
+    return bandwidth > 0 ? 'up' : 'stable';
+  }
+
+  const change = (bandwidth - mean) / mean;
+  if (change > TREND_THRESHOLD) {
+    return 'up';
+  }
+  if (change < -TREND_THRESHOLD) {
+    return 'down';
+  }
+  return 'stable';
+}
+
+// Classifies every flow and sums its bytes per application. recentBandwidth
+// holds the previous bandwidth samples of each application, keyed by id.
+export function attributeApplicationUsage(
+  classifier: TrafficClassifier,
+  flowDeltas: FlowDelta[],
+  elapsedSeconds: number,
+  recentBandwidth: Map<string, number[]>
+): ApplicationUsageDetail[] {
+  const usageById = new Map<string, { bytes: number; bytesByUser: Map<string, number> }>();
+  const signatures = new Map<string, ApplicationSignature>();
+
+  for (const { flow, bytes } of flowDeltas) {
+    const { signature, clientIp } = classifier.classify(flow);
+    signatures.set(signature.id, signature);
+
+    const usage = usageById.get(signature.id) || { bytes: 0, bytesByUser: new Map<string, number>() };
+    usage.bytes += bytes;
+    usage.bytesByUser.set(clientIp, (usage.bytesByUser.get(clientIp) || 0) + bytes);
+    usageById.set(signature.id, usage);
+  }
+
+  return Array.from(usageById.entries())
+    .map(([id, usage]) => {
+      const signature = signatures.get(id)!;
+      const bandwidth = toMbps(usage.bytes, elapsedSeconds);
+
+      const topUsers = Array.from(usage.bytesByUser.entries())
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, TOP_USER_LIMIT)
+        .map(([ip, userBytes]) => ({
+          ip,
+          bytes: userBytes,
+          bandwidth: toMbps(userBytes, elapsedSeconds)
+        }));
+
+      return {
+        id,
+        name: signature.name,
+        type: signature.type,
+        bandwidth,
+        status: applicationStatus(bandwidth, signature.thresholds),
+        trend: applicationTrend(bandwidth, recentBandwidth.get(id) || []),
+        bytes: usage.bytes,
+        topUsers
+      };
+    })
+    .sort((a, b) => b.bytes - a.bytes);
+}
@@ -0,0 +1,196 @@
+import { NetworkController } from '../interfaces/networkController';
+import { ControllerSettings } from '../interfaces/controllerConfig';
+import { CONTROLLER_SECRET_FIELDS, Controller, ControllerDefinition } from '../models/controller';
+import { ControllerEntry, NetworkControllerManager, createController } from './networkControllerManager';
+import { decryptSecret, requireCredentialKey } from '../utils/encryption';
+import { encryptSecrets } from '../utils/secrets';
+
+// Time allowed for connecting to and health checking a controller under test
+const TEST_TIMEOUT = 10000;
+
+export interface ControllerTestResult {
+  healthy: boolean;
+  error?: string;
+}
+
+// Builds the manager entry for a stored controller, decrypting its
+// credentials. Missing settings get the same defaults as the environment
+// configuration.
+export function toControllerEntry(definition: ControllerDefinition, key: Buffer | null): ControllerEntry {
+  const { name, priority, weight, config } = definition;
+  const secret = (value?: string) => (value ? decryptSecret(value, requireCredentialKey(key)) : '');
+
+  switch (definition.type) {
+    case 'openDaylight':
+      return {
+        name,
+        type: 'openDaylight',
+        priority,
+        weight,
+        config: {
+          host: config.host,
+          port: config.port || 8181,
+          username: config.username || 'admin',
+          password: secret(config.password)
+        }
+      };
+    case 'pfSense':
+      return {
+        name,
+        type: 'pfSense',
+        priority,
+        weight,
+        config: {
+          host: config.host,
+          authMode: config.authMode || 'apikey',
+          apiKey: config.apiKey || '',
+          apiSecret: secret(config.apiSecret),
+          username: config.username,
+          password: secret(config.password),
+          verifySsl: config.verifySsl ?? false
+        }
+      };
+    case 'mikroTik':
+      return {
+        name,
+        type: 'mikroTik',
+        priority,
+        weight,
+        config: {
+          host: config.host,
+          port: config.port || 8728,
+          username: config.username || 'admin',
+          password: secret(config.password),
+          streaming: config.streaming ?? false,
+          maxFlows: config.maxFlows
+        }
+      };
+    case 'snmp':
+      return {
+        name,
+        type: 'snmp',
+        priority,
+        weight,
+        config: {
+          host: config.host,
+          port: config.port || 161,
+          version: config.version || '2c',
+          community: config.community ? secret(config.community) : 'public',
+          username: config.username,
+          authProtocol: config.authProtocol,
+          authKey: secret(config.authKey),
+          privProtocol: config.privProtocol,
+          privKey: secret(config.privKey)
+        }
+      };
+    case 'flowCollector':
+      return {
+        name,
+        type: 'flowCollector',
+        priority,
+        weight,
+        config: {
+          address: config.host,
+          port: config.port || 2055
+        }
+      };
+  }
+}
+
+// Keeps the controller manager in sync with the Controller collection and
+// owns the key that encrypts controller credentials at rest
+export class ControllerRegistry {
+  private reloading: Promise<void> = Promise.resolve();
+  private changeStream: ReturnType<typeof Controller.watch> | null = null;
+
+  constructor(
+    private readonly manager: NetworkControllerManager,
+    private readonly key: Buffer | null
+  ) {}
+
+  // Reloads run one at a time, so overlapping changes are applied in order
+  reload(): Promise<void> {
+    const next = this.reloading.catch(() => undefined).then(() => this.apply());
+    this.reloading = next;
+    return next;
+  }
+
+  // Reloads on every change to the Controller collection, so changes made by
+  // other instances or directly in the database take effect too. Change
+  // streams need a replica set; without one only changes made through the
+  // API are applied.
+  start() {
+    if (this.changeStream) {
+      return;
+    }
+
+    const stream = Controller.watch();
+    stream.on('change', () => {
+      this.reload().catch(error => console.error('Error reloading controllers:', error));
+    });
+    stream.on('error', (error: Error) => {
+      console.warn('Not watching the controller collection:', error.message);
+      if (this.changeStream === stream) {
+        this.changeStream = null;
+      }
+      stream.close().catch(() => undefined);
+    });
+    this.changeStream = stream;
+  }
+
+  async stop() {
+    const stream = this.changeStream;
+    this.changeStream = null;
+    if (stream) {
+      await stream.close();
+    }
+  }
+
+  private async apply() {
+    const definitions = await Controller.find({ enabled: true }).lean<ControllerDefinition[]>();
+
+    // A controller whose credentials cannot be decrypted must not take the
+    // others down with it
+    const entries: ControllerEntry[] = [];
+    for (const definition of definitions) {
+      try {
+        entries.push(toControllerEntry(definition, this.key));
+      } catch (error) {
+        console.error(`Skipping controller ${definition.name}:`, (error as Error).message);
+      }
+    }
+
+    await this.manager.setControllers(entries);
+  }
+
+  // Encrypts plaintext credentials; values that are already encrypted are kept
+  encryptCredentials(settings: ControllerSettings): ControllerSettings {
+    return encryptSecrets(settings, CONTROLLER_SECRET_FIELDS, this.key);
+  }
+
+  // Connects to the controller with a separate instance and runs a health
+  // check, without touching the controllers in use
+  async test(definition: ControllerDefinition): Promise<ControllerTestResult> {
+    let controller: NetworkController | null = null;
+    let timeout: NodeJS.Timeout | undefined;
+
+    try {
+      controller = createController(toControllerEntry(definition, this.key));
+      const probe = controller;
+      const healthy = await Promise.race([
+        probe.connect().then(() => probe.healthCheck()),
+        new Promise<never>((_resolve, reject) => {
+          timeout = setTimeout(() => reject(new Error(`No response within ${TEST_TIMEOUT / 1000}s`)), TEST_TIMEOUT);
+        })
+      ]);
+      return healthy ? { healthy } : { healthy, error: 'Health check failed' };
+    } catch (error) {
+      return { healthy: false, error: (error as Error).message };
+    } finally {
+      clearTimeout(timeout);
+      if (controller) {
+        await controller.disconnect().catch(() => undefined);
+      }
+    }
+  }
+}
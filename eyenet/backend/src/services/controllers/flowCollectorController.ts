@@ -0,0 +1,245 @@
+import dgram from 'dgram';
+import {
+  NetworkController,
+  NetworkDevice,
+  NetworkFlow,
+  NetworkStats,
+  QoSPolicy
+} from '../../interfaces/networkController';
+import { FlowRecord, protocolName } from '../flowCollector/flowRecord';
+import { addressFamily } from '../../utils/ip';
+import { NetflowParser } from '../flowCollector/netflowParser';
+import { InterfaceCounters, isSflowDatagram, parseSflowDatagram } from '../flowCollector/sflowParser';
+
+export interface FlowCollectorConfig {
+  // Local address and UDP port to receive exports on
+  address?: string;
+  port?: number;
+  // Flows not updated for this long are dropped
+  flowTimeout?: number;
+  // Upper bound on the flows kept in memory; the least recently updated
+  // flows are dropped first
+  maxFlows?: number;
+  templateTimeout?: number;
+}
+
+interface TrackedFlow {
+  record: FlowRecord;
+  updatedAt: number;
+}
+
+interface Exporter {
+  type: string;
+  lastSeen: number;
+}
+
+const DEFAULT_PORT = 2055;
+const DEFAULT_FLOW_TIMEOUT = 2 * 60 * 1000;
+const DEFAULT_MAX_FLOWS = 50000;
+
+const EXPORTER_TYPES: { [version: number]: string } = {
+  5: 'NetFlow v5 Exporter',
+  9: 'NetFlow v9 Exporter',
+  10: 'IPFIX Exporter'
+};
+const SFLOW_AGENT_TYPE = 'sFlow Agent';
+
+function flowKey(record: FlowRecord): string {
+  return [
+    record.exporter,
+    record.protocol,
+    record.sourceIp,
+    record.sourcePort,
+    record.destinationIp,
+    record.destinationPort,
+    record.vlanId ?? ''
+  ].join('|');
+}
+
+// Receives NetFlow v5/v9, IPFIX and sFlow v5 exports over UDP; the format
+// is told from the packet. Routers push their flows as they expire, so
+// short flows are seen that polling state tables would miss. Records of the
+// same flow are merged; the exporters are reported as devices.
+//
+// sFlow flows are estimated from sampled packets. The traffic totals come
+// from the sFlow interface counters rather than the samples, and from the
+// records themselves for NetFlow and IPFIX.
+export class FlowCollectorController implements NetworkController {
+  private socket: dgram.Socket | null = null;
+  private parser: NetflowParser;
+  // Kept in update order, least recently updated first
+  private flows = new Map<string, TrackedFlow>();
+  private exporters = new Map<string, Exporter>();
+  private totals = { bytesIn: 0, bytesOut: 0, packetsIn: 0, packetsOut: 0 };
+  // Latest sFlow counters by agent and interface
+  private interfaceCounters = new Map<string, InterfaceCounters>();
+
+  constructor(private readonly config: FlowCollectorConfig = {}) {
+    this.parser = new NetflowParser(config.templateTimeout);
+  }
+
+  async connect(): Promise<void> {
+    if (this.socket) {
+      return;
+    }
+
+    const address = this.config.address || '0.0.0.0';
+    const socket = dgram.createSocket(address.includes(':') ? 'udp6' : 'udp4');
+    try {
+      await new Promise<void>((resolve, reject) => {
+        socket.once('error', reject);
+        socket.bind(this.config.port ?? DEFAULT_PORT, address, () => {
+          socket.off('error', reject);
+          resolve();
+        });
+      });
+    } catch (error) {
+      console.error('Failed to start flow collector:', error);
+      socket.close();
+      throw new Error('Connection failed');
+    }
+
+    socket.on('message', (packet, remote) => this.receive(packet, remote.address));
+    socket.on('error', error => console.error('Flow collector socket error:', error));
+    this.socket = socket;
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      await new Promise<void>(resolve => socket.close(() => resolve()));
+    }
+  }
+
+  // Port the collector is bound to, useful when configured with port 0
+  getPort(): number | null {
+    return this.socket ? this.socket.address().port : null;
+  }
+
+  receive(packet: Buffer, sender: string, now: number = Date.now()) {
+    try {
+      if (isSflowDatagram(packet)) {
+        const { agent, flows, counters } = parseSflowDatagram(packet, sender, new Date(now));
+        this.exporters.set(agent, { type: SFLOW_AGENT_TYPE, lastSeen: now });
+        flows.forEach(record => this.track(record, now, false));
+        counters.forEach(counter => this.interfaceCounters.set(`${counter.agent}|${counter.ifIndex}`, counter));
+      } else {
+        const records = this.parser.parse(packet, sender, now);
+        this.exporters.set(sender, { type: EXPORTER_TYPES[packet.readUInt16BE(0)], lastSeen: now });
+        records.forEach(record => this.track(record, now, true));
+      }
+    } catch (error) {
+      console.warn(`Dropping flow export from ${sender}:`, error instanceof Error ? error.message : error);
+      return;
+    }
+    this.evict(now);
+  }
+
+  async getDevices(): Promise<NetworkDevice[]> {
+    const now = Date.now();
+    const timeout = this.config.flowTimeout ?? DEFAULT_FLOW_TIMEOUT;
+    return Array.from(this.exporters.entries()).map(([address, exporter]) => ({
+      id: address,
+      name: address,
+      type: exporter.type,
+      ipAddress: address,
+      status: now - exporter.lastSeen <= timeout ? 'online' : 'offline',
+      lastSeen: new Date(exporter.lastSeen)
+    }));
+  }
+
+  async getFlows(): Promise<NetworkFlow[]> {
+    this.evict(Date.now());
+    return Array.from(this.flows.entries()).map(([key, { record }]) => ({
+      id: key,
+      sourceIp: record.sourceIp,
+      destinationIp: record.destinationIp,
+      addressFamily: addressFamily(record.sourceIp),
+      sourcePort: record.sourcePort,
+      destinationPort: record.destinationPort,
+      protocol: protocolName(record.protocol),
+      bytesTransferred: record.bytes,
+      packetsTransferred: record.packets,
+      startTime: record.startTime,
+      endTime: record.endTime,
+      vlanId: record.vlanId
+    }));
+  }
+
+  // NetFlow and IPFIX totals since the collector started, plus the latest
+  // sFlow interface counters
+  async getStats(): Promise<NetworkStats> {
+    this.evict(Date.now());
+    const stats: NetworkStats = {
+      ...this.totals,
+      activeConnections: this.flows.size,
+      timestamp: new Date()
+    };
+    this.interfaceCounters.forEach(counters => {
+      stats.bytesIn += counters.bytesIn;
+      stats.bytesOut += counters.bytesOut;
+      stats.packetsIn += counters.packetsIn;
+      stats.packetsOut += counters.packetsOut;
+    });
+    return stats;
+  }
+
+  async applyQoSPolicy(_policy: QoSPolicy): Promise<void> {
+    throw new Error('QoS policies are not supported by the flow collector');
+  }
+
+  async updateQoSPolicy(_policy: QoSPolicy): Promise<void> {
+    throw new Error('QoS policies are not supported by the flow collector');
+  }
+
+  // Nothing can have been installed, so there is nothing to remove
+  async removeQoSPolicy(_policyId: string): Promise<void> {}
+
+  async listQoSPolicies(): Promise<QoSPolicy[]> {
+    return [];
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return this.socket !== null;
+  }
+
+  private track(record: FlowRecord, now: number, countTotals: boolean) {
+    if (countTotals && record.direction === 'egress') {
+      this.totals.bytesOut += record.bytes;
+      this.totals.packetsOut += record.packets;
+    } else if (countTotals) {
+      this.totals.bytesIn += record.bytes;
+      this.totals.packetsIn += record.packets;
+    }
+
+    const key = flowKey(record);
+    const tracked = this.flows.get(key);
+    // Moving the flow to the end keeps the map in update order
+    this.flows.delete(key);
+    this.flows.set(key, {
+      record: tracked
+        ? {
+          ...tracked.record,
+          bytes: tracked.record.bytes + record.bytes,
+          packets: tracked.record.packets + record.packets,
+          startTime: record.startTime < tracked.record.startTime ? record.startTime : tracked.record.startTime,
+          endTime: record.endTime > tracked.record.endTime ? record.endTime : tracked.record.endTime
+        }
+        : record,
+      updatedAt: now
+    });
+  }
+
+  private evict(now: number) {
+    const timeout = this.config.flowTimeout ?? DEFAULT_FLOW_TIMEOUT;
+    const maxFlows = this.config.maxFlows ?? DEFAULT_MAX_FLOWS;
+
+    for (const [key, { updatedAt }] of this.flows) {
+      if (this.flows.size <= maxFlows && now - updatedAt <= timeout) {
+        break;
+      }
+      this.flows.delete(key);
+    }
+  }
+}
@@ -1,29 +1,131 @@
+import { EventEmitter } from 'events';
 import { 
+  DeviceStatusEvent,
+  InterfaceStats,
+  InterfaceStatsProvider,
   NetworkController, 
   NetworkDevice, 
   NetworkFlow, 
   NetworkStats,
   QoSPolicy 
 } from '../../interfaces/networkController';
+import { addressFamily, splitAddressPort } from '../../utils/ip';
+import {
+  MANGLE_MENUS,
+  compileQoSPolicy,
+  decompileQoSPolicy,
+  qosComment,
+  qosPolicyId,
+  qosQueueTypePrefix
+} from './mikroTikQoS';
+
+type CounterName = 'bytesIn' | 'bytesOut' | 'packetsIn' | 'packetsOut';
+type Counters = Record<CounterName, number>;
+
+const COUNTER_FIELDS: Record<CounterName, string> = {
+  bytesIn: 'rx-byte',
+  bytesOut: 'tx-byte',
+  packetsIn: 'rx-packet',
+  packetsOut: 'tx-packet'
+};
+
+function readCounters(iface: any): Counters {
+  const counters = {} as Counters;
+  for (const [counter, field] of Object.entries(COUNTER_FIELDS) as Array<[CounterName, string]>) {
+    counters[counter] = parseInt(iface[field], 10) || 0;
+  }
+  return counters;
+}
+
+// The API takes attribute words such as "=name=value"; node-routeros drops
+// anything else without an error
+function toWords(params: Record<string, unknown>): string[] {
+  return Object.keys(params).map(key => `=${key}=${params[key]}`);
+}
+
+// count-only prints answer with the count in ret
+function countResult(result: any): number {
+  const entry = Array.isArray(result) ? result[0] : result;
+  return parseInt(entry?.ret, 10) || 0;
+}
+
+export interface MikroTikControllerConfig {
+  host: string;
+  port: number;
+  username: string;
+  password: string;
+  // Keep the flow table up to date from the router's change stream instead
+  // of printing the whole connection table for every getFlows
+  streaming?: boolean;
+  // Streamed connections not updated for this long are dropped, in case
+  // their removal was missed
+  flowTimeout?: number;
+  // Upper bound on the streamed connections kept in memory; the least
+  // recently updated ones are dropped first
+  maxFlows?: number;
+}
+
+const DEFAULT_FLOW_TIMEOUT = 10 * 60 * 1000;
+const DEFAULT_MAX_FLOWS = 50000;
+
+const CONNECTION_PROPERTIES = '.id,src-address,dst-address,protocol,bytes,packets';
+const INTERFACE_PROPERTIES = '.id,name,running,disabled';
+
+interface StreamedConnection {
+  connection: any;
+  firstSeen: Date;
+  updatedAt: number;
+}
+
+// IPv6 endpoints come as [address]:port
+function toFlow(conn: any, startTime: Date): NetworkFlow {
+  const source = splitAddressPort(conn['src-address']);
+  const destination = splitAddressPort(conn['dst-address']);
+  return {
+    id: conn['.id'],
+    sourceIp: source.address,
+    destinationIp: destination.address,
+    addressFamily: addressFamily(source.address),
+    sourcePort: source.port ?? 0,
+    destinationPort: destination.port ?? 0,
+    protocol: conn.protocol,
+    bytesTransferred: parseInt(conn['bytes']) || 0,
+    packetsTransferred: parseInt(conn['packets']) || 0,
+    startTime,
+    endTime: undefined
+  };
+}
+
+// follow flags removed items with .dead=yes
+function isRemoved(item: any): boolean {
+  return item['.dead'] === 'yes' || item['.dead'] === 'true';
+}
+
+function interfaceStatus(iface: any): NetworkDevice['status'] {
+  return iface.running === 'false' || iface.disabled === 'true' ? 'offline' : 'online';
+}
 
 // Import RouterOS API as a dynamic require to handle its CommonJS module
 const RouterOSAPI = require('node-routeros').RouterOSAPI;
 
-export class MikroTikController implements NetworkController {
+// Emits 'deviceStatus' with a DeviceStatusEvent when a link goes up or down,
+// while streaming
+export class MikroTikController extends EventEmitter implements NetworkController, InterfaceStatsProvider {
   private client: any;
-  private config: {
-    host: string;
-    port: number;
-    username: string;
-    password: string;
-  };
+  private connectionStream: any = null;
+  private interfaceStream: any = null;
+  // Streamed connections by ID, least recently updated first
+  private flowTable = new Map<string, StreamedConnection>();
+  private linkStatus = new Map<string, NetworkDevice['status']>();
+  // Interface counters from the previous poll, by interface name
+  private lastCounters = new Map<string, Counters>();
+  // Running totals of the counter deltas, so the reported counters never go
+  // back when the router restarts or its counters are reset
+  private totals: Counters = { bytesIn: 0, bytesOut: 0, packetsIn: 0, packetsOut: 0 };
+  private config: MikroTikControllerConfig;
 
-  constructor(config: {
-    host: string;
-    port: number;
-    username: string;
-    password: string;
-  }) {
+  constructor(config: MikroTikControllerConfig) {
+    super();
     this.config = config;
   }
 
@@ -41,15 +143,19 @@ export class MikroTikController implements NetworkController {
       console.error('Failed to connect to MikroTik router:', error);
       throw new Error('Connection failed');
     }
+    this.startStreams();
   }
 
   async disconnect(): Promise<void> {
+    await this.stopStreams();
     if (this.client) {
       await this.client.close();
     }
   }
 
   async getDevices(): Promise<NetworkDevice[]> {
+    // Restarts a failed interface stream, so link changes are reported again
+    this.startStreams();
     try {
       const interfaces = await this.client.write('/interface/print');
       
@@ -58,8 +164,9 @@ export class MikroTikController implements NetworkController {
         name: iface.name,
         type: iface.type,
         ipAddress: iface.address || 'unknown',
-        status: 'online',
-        lastSeen: new Date()
+        status: interfaceStatus(iface),
+        lastSeen: new Date(),
+        macAddress: iface['mac-address']
       }));
     } catch (error) {
       console.error('Failed to get interfaces from MikroTik:', error);
@@ -67,85 +174,102 @@ export class MikroTikController implements NetworkController {
     }
   }
 
+  // From the streamed flow table while the stream runs; otherwise, and
+  // while a failed stream is restarted, the connection table is printed
   async getFlows(): Promise<NetworkFlow[]> {
+    const streaming = this.connectionStream !== null;
+    this.startStreams();
+    if (streaming) {
+      this.evict(Date.now());
+      return Array.from(this.flowTable.values(), entry => toFlow(entry.connection, entry.firstSeen));
+    }
+
     try {
       const connections = await this.executeCommand('/ip/firewall/connection/print');
-      
-      return connections.map((conn: any) => ({
-        id: conn['.id'],
-        sourceIp: conn['src-address'].split(':')[0],
-        destinationIp: conn['dst-address'].split(':')[0],
-        sourcePort: parseInt(conn['src-address'].split(':')[1]),
-        destinationPort: parseInt(conn['dst-address'].split(':')[1]),
-        protocol: conn.protocol,
-        bytesTransferred: parseInt(conn['bytes']) || 0,
-        packetsTransferred: parseInt(conn['packets']) || 0,
-        startTime: new Date(),
-        endTime: undefined
-      }));
+      const now = new Date();
+      return connections.map((conn: any) => toFlow(conn, now));
     } catch (error) {
       console.error('Failed to get connections from MikroTik:', error);
       throw error;
     }
   }
 
+  // RouterOS counters are lifetime totals per interface. They are summed as
+  // deltas since the previous poll, so dashboard rates stay right when an
+  // interface is added or its counters start over.
   async getStats(): Promise<NetworkStats> {
     try {
       const interfaces = await this.executeCommand('/interface/print', {
-        '.proplist': 'rx-byte,tx-byte,rx-packet,tx-packet'
-      });
-
+        '.proplist': 'name,rx-byte,tx-byte,rx-packet,tx-packet'
+      }) || [];
       const connections = await this.executeCommand('/ip/firewall/connection/print', {
-        '.proplist': '.count'
+        'count-only': ''
       });
 
-      const stats: NetworkStats = {
-        bytesIn: 0,
-        bytesOut: 0,
-        packetsIn: 0,
-        packetsOut: 0,
-        activeConnections: parseInt(connections['.count']) || 0,
+      this.accumulate(interfaces);
+
+      return {
+        ...this.totals,
+        activeConnections: countResult(connections),
         timestamp: new Date()
       };
+    } catch (error) {
+      console.error('Failed to get statistics from MikroTik:', error);
+      throw error;
+    }
+  }
 
-      interfaces.forEach((iface: any) => {
-        stats.bytesIn += parseInt(iface['rx-byte']) || 0;
-        stats.bytesOut += parseInt(iface['tx-byte']) || 0;
-        stats.packetsIn += parseInt(iface['rx-packet']) || 0;
-        stats.packetsOut += parseInt(iface['tx-packet']) || 0;
-      });
+  // Lifetime counters of each interface, with the current throughput as
+  // measured by the router
+  async getInterfaceStats(): Promise<InterfaceStats[]> {
+    try {
+      const interfaces = await this.executeCommand('/interface/print') || [];
+      if (interfaces.length === 0) {
+        return [];
+      }
+      const traffic = await this.executeCommand('/interface/monitor-traffic', {
+        interface: interfaces.map((iface: any) => iface.name).join(','),
+        once: ''
+      }) || [];
+      const trafficByName = new Map<string, any>(traffic.map((entry: any) => [entry.name, entry]));
+      const timestamp = new Date();
 
-      return stats;
+      return interfaces.map((iface: any) => {
+        const rates = trafficByName.get(iface.name);
+        const stats: InterfaceStats = {
+          deviceId: this.config.host,
+          portId: iface['.id'],
+          name: iface.name,
+          ...readCounters(iface),
+          timestamp
+        };
+        if (rates) {
+          stats.inBitsPerSecond = parseInt(rates['rx-bits-per-second'], 10) || 0;
+          stats.outBitsPerSecond = parseInt(rates['tx-bits-per-second'], 10) || 0;
+        }
+        return stats;
+      });
     } catch (error) {
-      console.error('Failed to get statistics from MikroTik:', error);
+      console.error('Failed to get interface statistics from MikroTik:', error);
       throw error;
     }
   }
 
+  // The installed policy is replaced as a whole, as its queue hierarchy and
+  // marks depend on its settings
   async applyQoSPolicy(policy: QoSPolicy): Promise<void> {
     try {
-      // Create a simple queue for the policy
-      await this.executeCommand('/queue/simple/add', {
-        name: policy.name,
-        target: policy.targetDevice,
-        'max-limit': `${policy.bandwidth.max}M/${policy.bandwidth.max}M`,
-        'limit-at': `${policy.bandwidth.min}M/${policy.bandwidth.min}M`,
-        priority: policy.priority.toString(),
-        comment: `QoS policy ${policy.id}`
-      });
+      const compiled = compileQoSPolicy(policy);
+      await this.removeInstalled(policy.id);
 
-      // If specific ports are defined, create firewall mangle rules
-      if (policy.ports && policy.ports.length > 0) {
-        for (const port of policy.ports) {
-          await this.executeCommand('/ip/firewall/mangle/add', {
-            chain: 'prerouting',
-            'dst-port': port.toString(),
-            protocol: policy.protocol || 'tcp',
-            action: 'mark-connection',
-            'new-connection-mark': `${policy.name}_conn`,
-            comment: `QoS mark for ${policy.name}`
-          });
-        }
+      for (const queueType of compiled.queueTypes) {
+        await this.executeCommand('/queue/type/add', queueType);
+      }
+      for (const queue of compiled.queues) {
+        await this.executeCommand('/queue/tree/add', queue);
+      }
+      for (const rule of compiled.mangle) {
+        await this.executeCommand(`${compiled.mangleMenu}/add`, rule);
       }
     } catch (error) {
       console.error('Failed to apply QoS policy to MikroTik:', error);
@@ -153,6 +277,85 @@ export class MikroTikController implements NetworkController {
     }
   }
 
+  async updateQoSPolicy(policy: QoSPolicy): Promise<void> {
+    return this.applyQoSPolicy(policy);
+  }
+
+  async removeQoSPolicy(policyId: string): Promise<void> {
+    try {
+      await this.removeInstalled(policyId);
+    } catch (error) {
+      console.error('Failed to remove QoS policy from MikroTik:', error);
+      throw error;
+    }
+  }
+
+  // Policies are recognised by the comment on their queues and mangle rules
+  async listQoSPolicies(): Promise<QoSPolicy[]> {
+    try {
+      const queues = await this.executeCommand('/queue/tree/print') || [];
+      const rules: any[] = [];
+      for (const menu of MANGLE_MENUS) {
+        rules.push(...(await this.executeCommand(`${menu}/print`) || []));
+      }
+      const queueTypes = await this.executeCommand('/queue/type/print') || [];
+
+      const queuesByPolicy = new Map<string, any[]>();
+      for (const queue of queues) {
+        const policyId = qosPolicyId(queue.comment);
+        if (policyId) {
+          queuesByPolicy.set(policyId, [...(queuesByPolicy.get(policyId) || []), queue]);
+        }
+      }
+
+      const policies: QoSPolicy[] = [];
+      queuesByPolicy.forEach((policyQueues, policyId) => {
+        const comment = qosComment(policyId);
+        const policyRules = rules.filter((rule: any) => rule.comment === comment);
+        const policy = decompileQoSPolicy(policyId, policyQueues, policyRules, queueTypes);
+        if (policy) {
+          policies.push(policy);
+        }
+      });
+      return policies;
+    } catch (error) {
+      console.error('Failed to list QoS policies from MikroTik:', error);
+      throw error;
+    }
+  }
+
+  // Mangle rules go first so no packets are marked for a missing queue,
+  // child queues before their parents and queue types once no queue uses
+  // them. Simple queues are left from before policies used queue trees.
+  private async removeInstalled(policyId: string): Promise<void> {
+    const comment = qosComment(policyId);
+    for (const menu of MANGLE_MENUS) {
+      for (const rule of await this.findByComment(menu, comment)) {
+        await this.executeCommand(`${menu}/remove`, { '.id': rule['.id'] });
+      }
+    }
+
+    const queues = await this.findByComment('/queue/tree', comment);
+    const parents = new Set(queues.map(queue => queue.parent));
+    const ordered = [
+      ...queues.filter(queue => !parents.has(queue.name)),
+      ...queues.filter(queue => parents.has(queue.name))
+    ];
+    for (const queue of ordered) {
+      await this.executeCommand('/queue/tree/remove', { '.id': queue['.id'] });
+    }
+
+    for (const queue of await this.findByComment('/queue/simple', comment)) {
+      await this.executeCommand('/queue/simple/remove', { '.id': queue['.id'] });
+    }
+
+    const prefix = qosQueueTypePrefix(policyId);
+    const queueTypes = await this.executeCommand('/queue/type/print') || [];
+    for (const queueType of queueTypes.filter((type: any) => String(type.name).startsWith(prefix))) {
+      await this.executeCommand('/queue/type/remove', { '.id': queueType['.id'] });
+    }
+  }
+
   async healthCheck(): Promise<boolean> {
     try {
       await this.executeCommand('/system/resource/print');
@@ -162,13 +365,148 @@ export class MikroTikController implements NetworkController {
     }
   }
 
-  private async executeCommand(command: string, params: any = {}): Promise<any> {
+  // Follows the connection and interface tables. The initial contents
+  // arrive first, then every change.
+  private startStreams() {
+    if (!this.config.streaming || !this.client) {
+      return;
+    }
+    if (!this.connectionStream) {
+      this.connectionStream = this.client.stream(
+        ['/ip/firewall/connection/print', '=follow=', `=.proplist=${CONNECTION_PROPERTIES}`],
+        (error: Error | null, packet: any) => {
+          if (error) {
+            console.error('MikroTik connection stream failed:', error.message);
+            this.connectionStream = null;
+            this.flowTable.clear();
+            return;
+          }
+          ([] as any[]).concat(packet || []).forEach(conn => this.updateFlow(conn, Date.now()));
+        }
+      );
+    }
+    if (!this.interfaceStream) {
+      this.interfaceStream = this.client.stream(
+        ['/interface/print', '=follow=', `=.proplist=${INTERFACE_PROPERTIES}`],
+        (error: Error | null, packet: any) => {
+          if (error) {
+            console.error('MikroTik interface stream failed:', error.message);
+            this.interfaceStream = null;
+            return;
+          }
+          ([] as any[]).concat(packet || []).forEach(iface => this.updateLink(iface));
+        }
+      );
+    }
+  }
+
+  private async stopStreams() {
+    const streams = [this.connectionStream, this.interfaceStream].filter(stream => stream);
+    this.connectionStream = null;
+    this.interfaceStream = null;
+    this.flowTable.clear();
+    this.linkStatus.clear();
+    for (const stream of streams) {
+      try {
+        await stream.stop();
+      } catch (error) {
+        console.error('Error stopping MikroTik stream:', error);
+      }
+    }
+  }
+
+  // Updated connections move to the end of the table, so it stays ordered
+  // by the time of their last update
+  private updateFlow(conn: any, now: number) {
+    const id = conn['.id'];
+    if (!id) {
+      return;
+    }
+    const existing = this.flowTable.get(id);
+    this.flowTable.delete(id);
+    if (isRemoved(conn)) {
+      return;
+    }
+
+    this.flowTable.set(id, {
+      // Changes may carry only some of the properties
+      connection: existing ? { ...existing.connection, ...conn } : conn,
+      firstSeen: existing ? existing.firstSeen : new Date(now),
+      updatedAt: now
+    });
+    this.evict(now);
+  }
+
+  private evict(now: number) {
+    const timeout = this.config.flowTimeout ?? DEFAULT_FLOW_TIMEOUT;
+    const maxFlows = this.config.maxFlows ?? DEFAULT_MAX_FLOWS;
+
+    for (const [id, { updatedAt }] of this.flowTable) {
+      if (this.flowTable.size <= maxFlows && now - updatedAt <= timeout) {
+        break;
+      }
+      this.flowTable.delete(id);
+    }
+  }
+
+  // The initial contents only record the status; later changes are emitted
+  private updateLink(iface: any) {
+    const id = iface['.id'];
+    if (!id) {
+      return;
+    }
+    if (isRemoved(iface)) {
+      this.linkStatus.delete(id);
+      return;
+    }
+
+    const status = interfaceStatus(iface);
+    const previous = this.linkStatus.get(id);
+    this.linkStatus.set(id, status);
+    if (previous && previous !== status) {
+      const event: DeviceStatusEvent = {
+        deviceId: id,
+        name: iface.name || id,
+        status,
+        timestamp: new Date()
+      };
+      this.emit('deviceStatus', event);
+    }
+  }
+
+  // A counter below its previous reading has started over, after a reboot
+  // or a counter reset, and counts from zero. Interfaces new since the last
+  // poll are counted from the next one.
+  private accumulate(interfaces: any[]) {
+    const counters = new Map<string, Counters>();
+    for (const iface of interfaces) {
+      const current = readCounters(iface);
+      const previous = this.lastCounters.get(iface.name);
+      counters.set(iface.name, current);
+      if (!previous) {
+        continue;
+      }
+      for (const counter of Object.keys(COUNTER_FIELDS) as CounterName[]) {
+        this.totals[counter] += current[counter] >= previous[counter]
+          ? current[counter] - previous[counter]
+          : current[counter];
+      }
+    }
+    this.lastCounters = counters;
+  }
+
+  private async findByComment(menu: string, comment: string): Promise<any[]> {
+    const items = await this.executeCommand(`${menu}/print`) || [];
+    return items.filter((item: any) => item.comment === comment);
+  }
+
+  private async executeCommand(command: string, params: Record<string, unknown> = {}): Promise<any> {
     if (!this.client) {
       throw new Error('Not connected to MikroTik router');
     }
 
     return new Promise((resolve, reject) => {
-      this.client.write(command, params)
+      this.client.write(command, toWords(params))
         .then((data: any) => resolve(data))
         .catch((error: any) => reject(error));
     });
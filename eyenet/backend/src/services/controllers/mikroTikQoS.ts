@@ -0,0 +1,252 @@
+import { QoSPolicy } from '../../interfaces/networkController';
+import { parseCidr } from '../../utils/cidr';
+
+// A QoS policy translated to the RouterOS items that enforce it: mangle
+// rules mark the policy's connections and then their packets, and a queue
+// tree attached to the target interface shapes the marked packets
+export interface CompiledQoSPolicy {
+  // PCQ queue types, for fair sharing
+  queueTypes: Array<Record<string, string>>;
+  // Queue tree entries, parents before their children
+  queues: Array<Record<string, string>>;
+  mangleMenu: MangleMenu;
+  // Connection marks before the packet marks that depend on them
+  mangle: Array<Record<string, string>>;
+}
+
+export type MangleMenu = '/ip/firewall/mangle' | '/ipv6/firewall/mangle';
+
+export const MANGLE_MENUS: MangleMenu[] = ['/ip/firewall/mangle', '/ipv6/firewall/mangle'];
+
+const QOS_COMMENT_PREFIX = 'QoS policy ';
+
+// Queue tree parent that sees the traffic of every interface
+const GLOBAL_PARENT = 'global';
+
+// Queues and mangle rules of a policy carry its ID in their comment, so
+// they can be found again to update or remove it
+export function qosComment(policyId: string): string {
+  return `${QOS_COMMENT_PREFIX}${policyId}`;
+}
+
+export function qosPolicyId(comment?: string): string | null {
+  return comment?.startsWith(QOS_COMMENT_PREFIX) ? comment.slice(QOS_COMMENT_PREFIX.length) : null;
+}
+
+// Queue types cannot have a comment, their name starts with this instead
+export function qosQueueTypePrefix(policyId: string): string {
+  return `qos-${policyId}-`;
+}
+
+// Marks are named after the policy ID, so renaming a policy keeps them
+function connectionMark(policyId: string): string {
+  return `qos-${policyId}-conn`;
+}
+
+function packetMark(policyId: string, direction?: 'up' | 'down'): string {
+  return direction ? `qos-${policyId}-${direction}` : `qos-${policyId}`;
+}
+
+// Mbit/s as a RouterOS rate
+function formatRate(mbps: number): string {
+  return Number.isInteger(mbps) ? `${mbps}M` : String(Math.round(mbps * 1e6));
+}
+
+// Rate of a RouterOS rate such as "100M" or "100000000", or of the upload
+// part of "100M/100M", in Mbit/s
+export function parseRate(value?: string): number {
+  const match = String(value || '').split('/')[0].match(/^(\d+(?:\.\d+)?)([kMG]?)$/);
+  if (!match) {
+    return 0;
+  }
+  const bitsPerUnit: { [unit: string]: number } = { '': 1, k: 1e3, M: 1e6, G: 1e9 };
+  return parseFloat(match[1]) * bitsPerUnit[match[2]] / 1e6;
+}
+
+function mangleMenu(policy: QoSPolicy): MangleMenu {
+  const cidr = policy.sourceCidr || policy.destinationCidr;
+  return cidr && parseCidr(cidr)?.family === 'ipv6' ? '/ipv6/firewall/mangle' : '/ip/firewall/mangle';
+}
+
+// One rule per port. Only unmarked connections are marked, so a policy
+// added later cannot take over the connections of another.
+function connectionMarkRules(policy: QoSPolicy, comment: string): Array<Record<string, string>> {
+  // Ports without a protocol are TCP ports
+  const protocol = policy.protocol && policy.protocol.toLowerCase() !== 'any'
+    ? policy.protocol
+    : (policy.ports?.length ? 'tcp' : undefined);
+  const ports: Array<number | undefined> = policy.ports?.length ? policy.ports : [undefined];
+
+  return ports.map(port => {
+    const rule: Record<string, string> = {
+      chain: 'forward',
+      action: 'mark-connection',
+      'connection-mark': 'no-mark',
+      'new-connection-mark': connectionMark(policy.id),
+      passthrough: 'yes',
+      comment
+    };
+    if (protocol) {
+      rule.protocol = protocol;
+    }
+    if (port !== undefined) {
+      rule['dst-port'] = port.toString();
+    }
+    if (policy.sourceCidr) {
+      rule['src-address'] = policy.sourceCidr;
+    }
+    if (policy.destinationCidr) {
+      rule['dst-address'] = policy.destinationCidr;
+    }
+    return rule;
+  });
+}
+
+// The parent queue holds the policy's limits. Its children get the marked
+// packets: one child, or with fair sharing one per direction whose PCQ
+// gives each host of the source range an equal share. A queue tree on an
+// interface only sees what leaves through it, so the fair sharing tree
+// hangs off global and its packet marks are limited to traffic crossing
+// targetDevice instead.
+export function compileQoSPolicy(policy: QoSPolicy): CompiledQoSPolicy {
+  if (policy.fairShare && !policy.sourceCidr) {
+    throw new Error('Fair sharing needs a sourceCidr to tell the hosts apart');
+  }
+
+  const comment = qosComment(policy.id);
+  const connection = connectionMark(policy.id);
+  const limits = {
+    'max-limit': formatRate(policy.bandwidth.max),
+    'limit-at': formatRate(policy.bandwidth.min)
+  };
+
+  const queueTypes: Array<Record<string, string>> = [];
+  const queues: Array<Record<string, string>> = [{
+    name: policy.name,
+    parent: policy.targetDevice,
+    ...limits,
+    comment
+  }];
+  const mangle = connectionMarkRules(policy, comment);
+
+  if (!policy.fairShare) {
+    mangle.push({
+      chain: 'forward',
+      action: 'mark-packet',
+      'connection-mark': connection,
+      'new-packet-mark': packetMark(policy.id),
+      passthrough: 'no',
+      comment
+    });
+    queues.push({
+      name: `${policy.name} traffic`,
+      parent: policy.name,
+      'packet-mark': packetMark(policy.id),
+      priority: policy.priority.toString(),
+      ...limits,
+      queue: 'default',
+      comment
+    });
+    return { queueTypes, queues, mangleMenu: mangleMenu(policy), mangle };
+  }
+
+  queues[0].parent = GLOBAL_PARENT;
+
+  // Upload is classified by the sending host, download by the receiving one
+  const directions = [
+    { direction: 'up' as const, name: 'upload', address: 'src-address', crossing: 'in-interface' },
+    { direction: 'down' as const, name: 'download', address: 'dst-address', crossing: 'out-interface' }
+  ];
+  for (const { direction, name, address, crossing } of directions) {
+    const queueType = `${qosQueueTypePrefix(policy.id)}${direction}`;
+    queueTypes.push({
+      name: queueType,
+      kind: 'pcq',
+      'pcq-classifier': address,
+      // 0 leaves the hosts' shares unlimited
+      'pcq-rate': policy.perUserMax ? formatRate(policy.perUserMax) : '0'
+    });
+    const rule: Record<string, string> = {
+      chain: 'forward',
+      action: 'mark-packet',
+      'connection-mark': connection,
+      [address]: policy.sourceCidr!,
+      'new-packet-mark': packetMark(policy.id, direction),
+      passthrough: 'no',
+      comment
+    };
+    if (policy.targetDevice !== GLOBAL_PARENT) {
+      rule[crossing] = policy.targetDevice;
+    }
+    mangle.push(rule);
+    queues.push({
+      name: `${policy.name} ${name}`,
+      parent: policy.name,
+      'packet-mark': packetMark(policy.id, direction),
+      priority: policy.priority.toString(),
+      ...limits,
+      queue: queueType,
+      comment
+    });
+  }
+  return { queueTypes, queues, mangleMenu: mangleMenu(policy), mangle };
+}
+
+// Reads back the policy behind a queue tree and its mangle rules, as
+// installed by compileQoSPolicy. queueTypes are all the queue types of
+// the router.
+export function decompileQoSPolicy(
+  policyId: string,
+  queues: any[],
+  mangle: any[],
+  queueTypes: any[]
+): QoSPolicy | null {
+  const names = new Set(queues.map(queue => queue.name));
+  const parent = queues.find(queue => !names.has(queue.parent));
+  if (!parent) {
+    return null;
+  }
+  const children = queues.filter(queue => queue.parent === parent.name);
+
+  const policy: QoSPolicy = {
+    id: policyId,
+    name: parent.name,
+    targetDevice: parent.parent,
+    bandwidth: {
+      min: parseRate(parent['limit-at']),
+      max: parseRate(parent['max-limit'])
+    },
+    priority: parseInt(children[0]?.priority, 10) || 0
+  };
+
+  const rules = mangle.filter(rule => rule.action === 'mark-connection');
+  const ports = rules.filter(rule => rule['dst-port']).map(rule => parseInt(rule['dst-port'], 10));
+  if (ports.length > 0) {
+    policy.ports = ports;
+  }
+  const [rule] = rules;
+  if (rule?.protocol) {
+    policy.protocol = rule.protocol;
+  }
+  if (rule?.['src-address']) {
+    policy.sourceCidr = rule['src-address'];
+  }
+  if (rule?.['dst-address']) {
+    policy.destinationCidr = rule['dst-address'];
+  }
+
+  const prefix = qosQueueTypePrefix(policyId);
+  const pcq = queueTypes.find(type => String(type.name).startsWith(prefix)
+    && children.some(queue => queue.queue === type.name));
+  if (pcq) {
+    policy.fairShare = true;
+    // The target interface is kept in the upload packet mark
+    const upload = mangle.find(rule => rule.action === 'mark-packet' && rule['in-interface']);
+    policy.targetDevice = upload ? upload['in-interface'] : GLOBAL_PARENT;
+    const perUserMax = parseRate(pcq['pcq-rate']);
+    if (perUserMax > 0) {
+      policy.perUserMax = perUserMax;
+    }
+  }
+  return policy;
+}
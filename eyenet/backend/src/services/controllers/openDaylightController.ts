@@ -4,10 +4,31 @@ import {
   NetworkDevice, 
   NetworkFlow, 
   NetworkStats,
+  InterfaceStats,
+  InterfaceStatsProvider,
   QoSPolicy 
 } from '../../interfaces/networkController';
+import { formatHost } from '../../utils/ip';
+import { compileQoSPolicy, decompileQoSPolicy, qosMeterId } from './openDaylightQoS';
 
-export class OpenDaylightController implements NetworkController {
+// Flow matches hold prefixes such as "10.0.0.1/32" or "2001:db8::1/128"
+function matchAddress(prefix?: string): string {
+  return prefix ? prefix.split('/')[0] : '';
+}
+
+interface InstalledQoSPolicy {
+  policy: QoSPolicy;
+  meterId: number;
+  flowIds: string[];
+}
+
+interface InventoryNode {
+  id: string;
+  ports: InterfaceStats[];
+  activeFlows: number;
+}
+
+export class OpenDaylightController implements NetworkController, InterfaceStatsProvider {
   private client: AxiosInstance;
   private baseUrl: string;
 
@@ -17,7 +38,7 @@ export class OpenDaylightController implements NetworkController {
     username: string;
     password: string;
   }) {
-    this.baseUrl = `http://${config.host}:${config.port}`;
+    this.baseUrl = `http://${formatHost(config.host)}:${config.port}`;
     this.client = axios.create({
       baseURL: this.baseUrl,
       auth: {
@@ -78,15 +99,17 @@ export class OpenDaylightController implements NetworkController {
         
         flows.push(...tableFlows.map((flow: any) => ({
           id: flow.id,
-          sourceIp: flow.match['ipv4-source'] || '',
-          destinationIp: flow.match['ipv4-destination'] || '',
+          sourceIp: matchAddress(flow.match['ipv4-source'] || flow.match['ipv6-source']),
+          destinationIp: matchAddress(flow.match['ipv4-destination'] || flow.match['ipv6-destination']),
+          addressFamily: flow.match['ipv6-source'] || flow.match['ipv6-destination'] ? 'ipv6' : 'ipv4',
           sourcePort: flow.match['tcp-source-port'] || 0,
           destinationPort: flow.match['tcp-destination-port'] || 0,
           protocol: flow.match['ip-protocol'] || '',
           bytesTransferred: flow.statistics?.['byte-count'] || 0,
           packetsTransferred: flow.statistics?.['packet-count'] || 0,
           startTime: new Date(flow.statistics?.duration?.nanosecond || Date.now()),
-          endTime: undefined
+          endTime: undefined,
+          vlanId: flow.match['vlan-match']?.['vlan-id']?.['vlan-id']
         })));
       }
 
@@ -97,10 +120,12 @@ export class OpenDaylightController implements NetworkController {
     }
   }
 
+  // Port counters summed over every port of every switch. Active
+  // connections are the flows installed in the switches' tables.
   async getStats(): Promise<NetworkStats> {
     try {
-      const devices = await this.getDevices();
-      let totalStats: NetworkStats = {
+      const nodes = await this.getInventory();
+      const totalStats: NetworkStats = {
         bytesIn: 0,
         bytesOut: 0,
         packetsIn: 0,
@@ -109,17 +134,14 @@ export class OpenDaylightController implements NetworkController {
         timestamp: new Date()
       };
 
-      for (const device of devices) {
-        const response = await this.client.get(
-          `/restconf/operational/opendaylight-inventory:nodes/node/${device.id}/flow-node-inventory:table/0/flow-statistics`
-        );
-
-        const stats = response.data['flow-node-inventory:flow-statistics'] || {};
-        totalStats.bytesIn += stats['bytes-received'] || 0;
-        totalStats.bytesOut += stats['bytes-transmitted'] || 0;
-        totalStats.packetsIn += stats['packets-received'] || 0;
-        totalStats.packetsOut += stats['packets-transmitted'] || 0;
-        totalStats.activeConnections += stats['active-flows'] || 0;
+      for (const node of nodes) {
+        for (const port of node.ports) {
+          totalStats.bytesIn += port.bytesIn;
+          totalStats.bytesOut += port.bytesOut;
+          totalStats.packetsIn += port.packetsIn;
+          totalStats.packetsOut += port.packetsOut;
+        }
+        totalStats.activeConnections += node.activeFlows;
       }
 
       return totalStats;
@@ -129,46 +151,71 @@ export class OpenDaylightController implements NetworkController {
     }
   }
 
+  async getInterfaceStats(): Promise<InterfaceStats[]> {
+    try {
+      const nodes = await this.getInventory();
+      return nodes.flatMap(node => node.ports);
+    } catch (error) {
+      console.error('Failed to get interface statistics from OpenDaylight:', error);
+      throw error;
+    }
+  }
+
+  // The meter goes in first, switches reject flows that refer to a meter
+  // they do not have. Flows left over from an earlier version of the
+  // policy, e.g. for ports it no longer has, are removed afterwards.
   async applyQoSPolicy(policy: QoSPolicy): Promise<void> {
     try {
-      const flow = {
-        'flow-node-inventory:flow': [{
-          id: policy.id,
-          table_id: 0,
-          priority: policy.priority,
-          match: {
-            'ethernet-match': {
-              'ethernet-type': {
-                type: 2048 // IPv4
-              }
-            }
-          },
-          instructions: {
-            instruction: [{
-              order: 0,
-              'apply-actions': {
-                action: [{
-                  order: 0,
-                  'set-queue-action': {
-                    'queue-id': policy.priority
-                  }
-                }]
-              }
-            }]
-          }
-        }]
-      };
+      const compiled = compileQoSPolicy(policy);
+      const installed = (await this.getInstalledQoSPolicies()).filter(entry => entry.policy.id === policy.id);
+      const node = this.nodePath(policy.targetDevice);
 
-      await this.client.put(
-        `/restconf/config/opendaylight-inventory:nodes/node/${policy.targetDevice}/flow-node-inventory:table/0/flow/${policy.id}`,
-        flow
-      );
+      await this.client.put(`${node}/flow-node-inventory:meter/${compiled.meterId}`, compiled.meter);
+      for (const flow of compiled.flows) {
+        await this.client.put(`${node}/flow-node-inventory:table/0/flow/${flow.id}`, flow.body);
+      }
+
+      const flowIds = new Set(compiled.flows.map(flow => flow.id));
+      for (const entry of installed) {
+        if (entry.policy.targetDevice !== policy.targetDevice) {
+          await this.removeInstalled(entry);
+          continue;
+        }
+        for (const id of entry.flowIds.filter(id => !flowIds.has(id))) {
+          await this.deleteConfig(`${node}/flow-node-inventory:table/0/flow/${id}`);
+        }
+      }
     } catch (error) {
       console.error('Failed to apply QoS policy:', error);
       throw error;
     }
   }
 
+  async updateQoSPolicy(policy: QoSPolicy): Promise<void> {
+    return this.applyQoSPolicy(policy);
+  }
+
+  async removeQoSPolicy(policyId: string): Promise<void> {
+    try {
+      const installed = await this.getInstalledQoSPolicies();
+      for (const entry of installed.filter(entry => entry.policy.id === policyId)) {
+        await this.removeInstalled(entry);
+      }
+    } catch (error) {
+      console.error('Failed to remove QoS policy:', error);
+      throw error;
+    }
+  }
+
+  async listQoSPolicies(): Promise<QoSPolicy[]> {
+    try {
+      return (await this.getInstalledQoSPolicies()).map(entry => entry.policy);
+    } catch (error) {
+      console.error('Failed to list QoS policies from OpenDaylight:', error);
+      throw error;
+    }
+  }
+
   async healthCheck(): Promise<boolean> {
     try {
       await this.client.get('/restconf/operational/network-topology:network-topology');
@@ -177,4 +224,93 @@ export class OpenDaylightController implements NetworkController {
       return false;
     }
   }
+
+  // Per-port counters from the node-connector statistics of every switch in
+  // the operational inventory, with the active flow count of its tables
+  private async getInventory(): Promise<InventoryNode[]> {
+    const response = await this.client.get('/restconf/operational/opendaylight-inventory:nodes');
+    const nodes = response.data?.nodes?.node || [];
+    const timestamp = new Date();
+
+    return nodes.map((node: any) => ({
+      id: node.id,
+      ports: (node['node-connector'] || []).map((connector: any) => {
+        const stats = connector['opendaylight-port-statistics:flow-capable-node-connector-statistics'] || {};
+        return {
+          deviceId: node.id,
+          portId: connector.id,
+          name: connector['flow-node-inventory:name'] || connector.id,
+          bytesIn: Number(stats.bytes?.received || 0),
+          bytesOut: Number(stats.bytes?.transmitted || 0),
+          packetsIn: Number(stats.packets?.received || 0),
+          packetsOut: Number(stats.packets?.transmitted || 0),
+          timestamp
+        };
+      }),
+      activeFlows: (node['flow-node-inventory:table'] || []).reduce((sum: number, table: any) =>
+        sum + Number(table['opendaylight-flow-table-statistics:flow-table-statistics']?.['active-flows'] || 0), 0)
+    }));
+  }
+
+  // Policies in the config datastore: meters named after a policy with the
+  // meter ID derived from that name, and the table 0 flows that use them
+  private async getInstalledQoSPolicies(): Promise<InstalledQoSPolicy[]> {
+    let nodes: any[];
+    try {
+      const response = await this.client.get('/restconf/config/opendaylight-inventory:nodes');
+      nodes = response.data?.nodes?.node || [];
+    } catch (error: any) {
+      // An empty datastore has no nodes container
+      if (error.response?.status === 404) {
+        return [];
+      }
+      throw error;
+    }
+
+    const installed: InstalledQoSPolicy[] = [];
+    for (const node of nodes) {
+      const flows: any[] = (node['flow-node-inventory:table'] || [])
+        .find((table: any) => Number(table.id) === 0)?.flow || [];
+
+      for (const meter of node['flow-node-inventory:meter'] || []) {
+        const meterId = Number(meter['meter-id']);
+        if (typeof meter['meter-name'] !== 'string' || qosMeterId(meter['meter-name']) !== meterId) {
+          continue;
+        }
+        const meterFlows = flows.filter(flow => flow.instructions?.instruction?.some(
+          (instruction: any) => Number(instruction.meter?.['meter-id']) === meterId
+        ));
+        installed.push({
+          policy: decompileQoSPolicy(node.id, meter, meterFlows),
+          meterId,
+          flowIds: meterFlows.map(flow => String(flow.id))
+        });
+      }
+    }
+    return installed;
+  }
+
+  // Flows are removed before their meter. Anything that is already gone is
+  // skipped.
+  private async removeInstalled(entry: InstalledQoSPolicy): Promise<void> {
+    const node = this.nodePath(entry.policy.targetDevice);
+    for (const id of entry.flowIds) {
+      await this.deleteConfig(`${node}/flow-node-inventory:table/0/flow/${id}`);
+    }
+    await this.deleteConfig(`${node}/flow-node-inventory:meter/${entry.meterId}`);
+  }
+
+  private nodePath(nodeId: string): string {
+    return `/restconf/config/opendaylight-inventory:nodes/node/${nodeId}`;
+  }
+
+  private async deleteConfig(path: string): Promise<void> {
+    try {
+      await this.client.delete(path);
+    } catch (error: any) {
+      if (error.response?.status !== 404) {
+        throw error;
+      }
+    }
+  }
 }
@@ -0,0 +1,221 @@
+import { QoSPolicy } from '../../interfaces/networkController';
+import { parseCidr } from '../../utils/cidr';
+import { fnv1a } from '../../utils/hash';
+
+// A QoS policy translated to the RESTCONF payloads of the OpenFlow meter
+// and flows that enforce it on a switch
+export interface CompiledQoSPolicy {
+  meterId: number;
+  meter: Record<string, unknown>;
+  flows: Array<{ id: string; body: Record<string, unknown> }>;
+}
+
+const ETHERTYPE_IPV4 = 2048;
+const ETHERTYPE_IPV6 = 34525;
+
+const IP_PROTOCOLS: { [name: string]: number } = {
+  icmp: 1,
+  tcp: 6,
+  udp: 17,
+  'ipv6-icmp': 58,
+  sctp: 132
+};
+
+// Protocols whose ports can be matched, with the match field prefix
+const PORT_MATCH: { [protocol: number]: string } = {
+  6: 'tcp',
+  17: 'udp',
+  132: 'sctp'
+};
+
+// OpenFlow reserves meter IDs above 0xffff0000
+const MAX_METER_ID = 0xffff0000;
+
+// Meter IDs are numbers, so each policy ID is hashed to one. Meters are
+// named after their policy, so a meter whose ID matches the hash of its
+// name is one of ours.
+export function qosMeterId(policyId: string): number {
+  return (fnv1a(policyId) % MAX_METER_ID) + 1;
+}
+
+// One flow per port, or a single flow when the policy has no ports
+export function qosFlowIds(policy: QoSPolicy): string[] {
+  const ports = policy.ports || [];
+  return ports.length > 0 ? ports.map(port => `${policy.id}-${port}`) : [policy.id];
+}
+
+function ipProtocol(policy: QoSPolicy): number | undefined {
+  // Ports without a protocol are TCP ports, as on the other controllers
+  const protocol = policy.protocol?.toLowerCase() || (policy.ports?.length ? 'tcp' : undefined);
+  if (protocol === undefined || protocol === 'any') {
+    return undefined;
+  }
+
+  const number = IP_PROTOCOLS[protocol] ?? (/^\d+$/.test(protocol) ? parseInt(protocol, 10) : undefined);
+  if (number === undefined || number > 255) {
+    throw new Error(`Invalid protocol: ${policy.protocol}`);
+  }
+  return number;
+}
+
+// "10.0.0.0/8" stays as is, a bare address becomes a host prefix
+function prefixMatch(field: string, cidr: string): { family: 'ipv4' | 'ipv6'; prefix: string } {
+  const range = parseCidr(cidr);
+  if (!range) {
+    throw new Error(`Invalid ${field}: ${cidr}`);
+  }
+  const prefix = cidr.includes('/') ? cidr.trim() : `${cidr.trim()}/${range.family === 'ipv4' ? 32 : 128}`;
+  return { family: range.family, prefix };
+}
+
+function buildMatch(policy: QoSPolicy, protocol: number | undefined, port?: number): Record<string, unknown> {
+  const source = policy.sourceCidr ? prefixMatch('sourceCidr', policy.sourceCidr) : undefined;
+  const destination = policy.destinationCidr ? prefixMatch('destinationCidr', policy.destinationCidr) : undefined;
+  if (source && destination && source.family !== destination.family) {
+    throw new Error('sourceCidr and destinationCidr must be of the same address family');
+  }
+  const family = source?.family || destination?.family || 'ipv4';
+
+  const match: Record<string, unknown> = {
+    'ethernet-match': {
+      'ethernet-type': {
+        type: family === 'ipv4' ? ETHERTYPE_IPV4 : ETHERTYPE_IPV6
+      }
+    }
+  };
+  if (protocol !== undefined) {
+    match['ip-match'] = { 'ip-protocol': protocol };
+  }
+  if (source) {
+    match[`${family}-source`] = source.prefix;
+  }
+  if (destination) {
+    match[`${family}-destination`] = destination.prefix;
+  }
+  if (port !== undefined && protocol !== undefined) {
+    match[`${PORT_MATCH[protocol]}-destination-port`] = port;
+  }
+  return match;
+}
+
+// Bandwidth is in Mbit/s, meter rates in kbit/s. Traffic above the minimum
+// has its drop precedence raised, so it is the first to go under
+// congestion; traffic above the maximum is dropped.
+function buildMeter(policy: QoSPolicy, meterId: number): Record<string, unknown> {
+  const bands: Array<Record<string, unknown>> = [];
+  if (policy.bandwidth.min > 0) {
+    bands.push({
+      'band-id': bands.length,
+      'dscp-remark-rate': policy.bandwidth.min * 1000,
+      'dscp-remark-burst-size': 0,
+      'prec-level': 1,
+      'meter-band-types': { flags: 'ofpmbt-dscp-remark' }
+    });
+  }
+  bands.push({
+    'band-id': bands.length,
+    'drop-rate': policy.bandwidth.max * 1000,
+    'drop-burst-size': 0,
+    'meter-band-types': { flags: 'ofpmbt-drop' }
+  });
+
+  return {
+    'flow-node-inventory:meter': [{
+      'meter-id': meterId,
+      'meter-name': policy.id,
+      flags: 'meter-kbps',
+      'meter-band-headers': {
+        'meter-band-header': bands
+      }
+    }]
+  };
+}
+
+// Matched traffic goes through the policy's meter and is then forwarded
+// as the switch would have without the flow
+export function compileQoSPolicy(policy: QoSPolicy): CompiledQoSPolicy {
+  const protocol = ipProtocol(policy);
+  const ports = policy.ports || [];
+  if (ports.length > 0 && (protocol === undefined || !PORT_MATCH[protocol])) {
+    throw new Error(`Ports can only be matched for tcp, udp or sctp, not ${policy.protocol}`);
+  }
+
+  const meterId = qosMeterId(policy.id);
+  const flowIds = qosFlowIds(policy);
+  const flows = flowIds.map((id, index) => ({
+    id,
+    body: {
+      'flow-node-inventory:flow': [{
+        id,
+        table_id: 0,
+        'flow-name': policy.name,
+        priority: policy.priority,
+        match: buildMatch(policy, protocol, ports[index]),
+        instructions: {
+          instruction: [{
+            order: 0,
+            meter: { 'meter-id': meterId }
+          }, {
+            order: 1,
+            'apply-actions': {
+              action: [{
+                order: 0,
+                'output-action': {
+                  'output-node-connector': 'NORMAL'
+                }
+              }]
+            }
+          }]
+        }
+      }]
+    }
+  }));
+
+  return { meterId, meter: buildMeter(policy, meterId), flows };
+}
+
+function protocolName(protocol: number): string {
+  const name = Object.keys(IP_PROTOCOLS).find(key => IP_PROTOCOLS[key] === protocol);
+  return name || String(protocol);
+}
+
+// Reads back the policy behind a meter and the flows that use it, as
+// installed by compileQoSPolicy
+export function decompileQoSPolicy(nodeId: string, meter: any, flows: any[]): QoSPolicy {
+  const bands: any[] = meter['meter-band-headers']?.['meter-band-header'] || [];
+  const remark = bands.find(band => band['dscp-remark-rate'] !== undefined);
+  const drop = bands.find(band => band['drop-rate'] !== undefined);
+
+  const policy: QoSPolicy = {
+    id: meter['meter-name'],
+    name: flows[0]?.['flow-name'] || meter['meter-name'],
+    targetDevice: nodeId,
+    bandwidth: {
+      min: Number(remark?.['dscp-remark-rate'] || 0) / 1000,
+      max: Number(drop?.['drop-rate'] || 0) / 1000
+    },
+    priority: Number(flows[0]?.priority || 0)
+  };
+
+  const match = flows[0]?.match || {};
+  const protocol = match['ip-match']?.['ip-protocol'];
+  if (protocol !== undefined) {
+    policy.protocol = protocolName(Number(protocol));
+  }
+  const family = match['ipv6-source'] || match['ipv6-destination'] ? 'ipv6' : 'ipv4';
+  if (match[`${family}-source`]) {
+    policy.sourceCidr = match[`${family}-source`];
+  }
+  if (match[`${family}-destination`]) {
+    policy.destinationCidr = match[`${family}-destination`];
+  }
+
+  const portField = protocol !== undefined ? PORT_MATCH[Number(protocol)] : undefined;
+  const ports = portField
+    ? flows.map(flow => flow.match?.[`${portField}-destination-port`]).filter(port => port !== undefined).map(Number)
+    : [];
+  if (ports.length > 0) {
+    policy.ports = ports;
+  }
+  return policy;
+}
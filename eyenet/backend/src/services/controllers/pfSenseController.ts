@@ -1,5 +1,6 @@
 import axios, { AxiosInstance } from 'axios';
 import https from 'https';
+import crypto from 'crypto';
 import { 
   NetworkController, 
   NetworkDevice, 
@@ -7,37 +8,160 @@ import {
   NetworkStats,
   QoSPolicy 
 } from '../../interfaces/networkController';
+import { PfSenseAuthMode } from '../../interfaces/controllerConfig';
+import { addressFamily, formatHost } from '../../utils/ip';
+import { fnv1a } from '../../utils/hash';
+import { normalizeMacAddress } from '../../utils/mac';
+
+const QOS_DESCRIPTION_PREFIX = 'QoS policy ';
+// "QoS policy <id>: <name>"
+const QOS_QUEUE_DESCRIPTION = /^QoS policy (\S+): (.*)$/;
+
+// Queues and rules of a policy carry its ID in their description, so they
+// can be found again to update or remove it
+function qosDescription(policyId: string): string {
+  return `${QOS_DESCRIPTION_PREFIX}${policyId}`;
+}
+
+// Queue names are limited to 15 characters, too short for most policy IDs
+function qosQueueName(policyId: string): string {
+  return `qos_${fnv1a(policyId).toString(16).padStart(8, '0')}`;
+}
+
+// apikey signs every request with the API key and secret; jwt and basic log
+// in as a local pfSense user, jwt through an access token
+export interface PfSenseControllerConfig {
+  host: string;
+  authMode?: PfSenseAuthMode;
+  apiKey?: string;
+  apiSecret?: string;
+  username?: string;
+  password?: string;
+  verifySsl?: boolean;
+}
+
+// Access tokens are renewed this long before they expire
+const TOKEN_REFRESH_MARGIN = 60 * 1000;
+// Lifetime of tokens without an exp claim, pfSense's default
+const DEFAULT_TOKEN_LIFETIME = 60 * 60 * 1000;
+
+interface AccessToken {
+  value: string;
+  expiresAt: number;
+}
+
+// Expiry from the token's exp claim, when it has one
+function tokenExpiry(token: string, now: number): number {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf8'));
+    if (typeof payload.exp === 'number') {
+      return payload.exp * 1000;
+    }
+  } catch (error) {
+    // Not a JWT we can read, fall back to the default lifetime
+  }
+  return now + DEFAULT_TOKEN_LIFETIME;
+}
 
 export class PfSenseController implements NetworkController {
   private client: AxiosInstance;
+  private baseUrl: string;
+  private httpsAgent: https.Agent;
+  private authMode: PfSenseAuthMode;
+  private token: AccessToken | null = null;
+  private tokenRequest: Promise<AccessToken> | null = null;
 
-  constructor(config: {
-    host: string;
-    apiKey: string;
-    apiSecret: string;
-    verifySsl?: boolean;
-  }) {
+  constructor(private readonly config: PfSenseControllerConfig) {
+    this.authMode = config.authMode || 'apikey';
+    this.baseUrl = `https://${formatHost(config.host)}/api/v1`;
+    this.httpsAgent = new https.Agent({
+      rejectUnauthorized: config.verifySsl ?? false
+    });
     this.client = axios.create({
-      baseURL: `https://${config.host}/api/v1`,
+      baseURL: this.baseUrl,
       headers: {
-        'Authorization': this.generateAuthHeader(config.apiKey, config.apiSecret),
         'Content-Type': 'application/json'
       },
-      httpsAgent: new https.Agent({
-        rejectUnauthorized: config.verifySsl ?? false
-      })
+      httpsAgent: this.httpsAgent
+    });
+
+    // Signatures and tokens are fresh for every request, a header computed
+    // once would be rejected after it expires
+    this.client.interceptors.request.use(async request => {
+      request.headers.Authorization = await this.authorization();
+      return request;
+    });
+
+    // A token can stop being accepted before it expires, e.g. after pfSense
+    // restarts; such requests are retried once with a new token
+    this.client.interceptors.response.use(undefined, async error => {
+      const request = error.config;
+      if (this.authMode === 'jwt' && error.response?.status === 401 && request && !request.tokenRetried) {
+        this.token = null;
+        request.tokenRetried = true;
+        return this.client.request(request);
+      }
+      throw error;
     });
   }
 
-  private generateAuthHeader(key: string, secret: string): string {
-    const timestamp = Math.floor(Date.now() / 1000);
-    const nonce = Buffer.from(Math.random().toString()).toString('base64');
+  private async authorization(now: number = Date.now()): Promise<string> {
+    switch (this.authMode) {
+      case 'apikey':
+        return this.generateAuthHeader(this.config.apiKey || '', this.config.apiSecret || '', now);
+      case 'basic':
+        return `Basic ${Buffer.from(`${this.config.username || ''}:${this.config.password || ''}`).toString('base64')}`;
+      case 'jwt':
+        return `Bearer ${(await this.accessToken(now)).value}`;
+    }
+  }
+
+  // Concurrent requests share one token request
+  private async accessToken(now: number): Promise<AccessToken> {
+    if (this.token && now < this.token.expiresAt - TOKEN_REFRESH_MARGIN) {
+      return this.token;
+    }
+    if (!this.tokenRequest) {
+      this.tokenRequest = this.requestAccessToken(now)
+        .then(token => {
+          this.token = token;
+          return token;
+        })
+        .finally(() => {
+          this.tokenRequest = null;
+        });
+    }
+    return this.tokenRequest;
+  }
+
+  // Goes around the client, whose interceptor would ask for a token itself
+  private async requestAccessToken(now: number): Promise<AccessToken> {
+    const response = await axios.post(`${this.baseUrl}/access_token`, {}, {
+      auth: {
+        username: this.config.username || '',
+        password: this.config.password || ''
+      },
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      httpsAgent: this.httpsAgent
+    });
+
+    const value = response.data?.data?.token;
+    if (typeof value !== 'string' || value.length === 0) {
+      throw new Error('pfSense did not return an access token');
+    }
+    return { value, expiresAt: tokenExpiry(value, now) };
+  }
+
+  private generateAuthHeader(key: string, secret: string, now: number): string {
+    const timestamp = Math.floor(now / 1000);
+    const nonce = crypto.randomBytes(16).toString('base64');
     const signature = this.generateSignature(key, secret, timestamp, nonce);
     return `PFSense ${key}:${timestamp}:${nonce}:${signature}`;
   }
 
   private generateSignature(key: string, secret: string, timestamp: number, nonce: string): string {
-    const crypto = require('crypto');
     const data = `${key}${timestamp}${nonce}`;
     return crypto
       .createHmac('sha256', secret)
@@ -58,30 +182,115 @@ export class PfSenseController implements NetworkController {
     // Nothing to do for REST client
   }
 
+  // Besides its own interfaces, pfSense reports the gateways it monitors
+  // and the hosts behind it, from the DHCP leases and the ARP table
   async getDevices(): Promise<NetworkDevice[]> {
     try {
-      const response = await this.client.get('/interface');
-      return response.data.data.map((iface: any) => ({
+      const [interfaces, gateways, arp, leases] = await Promise.all([
+        this.client.get('/interface'),
+        this.client.get('/status/gateway'),
+        this.client.get('/diagnostics/arp'),
+        // There are no leases to read while the DHCP server is disabled
+        this.client.get('/services/dhcpd/lease').catch(() => ({ data: { data: [] } }))
+      ]);
+      const now = new Date();
+
+      const devices: NetworkDevice[] = (interfaces.data.data || []).map((iface: any) => ({
         id: iface.if,
         name: iface.descr || iface.if,
         type: 'pfSense Interface',
         ipAddress: iface.ipaddr || 'unknown',
         status: iface.enable ? 'online' : 'offline',
-        lastSeen: new Date()
+        lastSeen: now
       }));
+
+      for (const gateway of gateways.data.data || []) {
+        const device: NetworkDevice = {
+          id: `gateway:${gateway.name}`,
+          name: gateway.name,
+          type: 'pfSense Gateway',
+          ipAddress: gateway.monitorip || gateway.srcip || 'unknown',
+          status: gateway.status === 'down' ? 'offline' : 'online',
+          lastSeen: now
+        };
+        // Unmonitored gateways report no delay or loss
+        const latency = parseFloat(gateway.delay);
+        const packetLoss = parseFloat(gateway.loss);
+        if (Number.isFinite(latency)) {
+          device.latency = latency;
+        }
+        if (Number.isFinite(packetLoss)) {
+          device.packetLoss = packetLoss;
+        }
+        devices.push(device);
+      }
+
+      devices.push(...this.buildClients(arp.data.data || [], leases.data.data || [], now));
+      return devices;
     } catch (error) {
-      console.error('Failed to get interfaces from pfSense:', error);
+      console.error('Failed to get devices from pfSense:', error);
       throw error;
     }
   }
 
+  // Hosts are identified by MAC address. The lease supplies the hostname,
+  // an ARP entry shows the host is currently reachable. Expired leases and
+  // the firewall's own addresses are left out.
+  private buildClients(arpEntries: any[], leases: any[], now: Date): NetworkDevice[] {
+    const clients = new Map<string, NetworkDevice>();
+
+    for (const lease of leases) {
+      if (!lease.mac || lease.state === 'expired') {
+        continue;
+      }
+      const macAddress = normalizeMacAddress(lease.mac);
+      clients.set(macAddress, {
+        id: `client:${macAddress}`,
+        name: lease.hostname || lease.ip,
+        type: 'DHCP Client',
+        ipAddress: lease.ip || 'unknown',
+        status: lease.online === 'online' ? 'online' : 'offline',
+        lastSeen: now,
+        macAddress,
+        interface: lease.if
+      });
+    }
+
+    for (const entry of arpEntries) {
+      if (!entry.mac || /incomplete/i.test(entry.mac) || /permanent/i.test(entry.status || '')) {
+        continue;
+      }
+      const macAddress = normalizeMacAddress(entry.mac);
+      const client = clients.get(macAddress);
+      if (client) {
+        client.status = 'online';
+        client.ipAddress = entry.ip || client.ipAddress;
+        client.interface = client.interface || entry.interface;
+        continue;
+      }
+      clients.set(macAddress, {
+        id: `client:${macAddress}`,
+        name: entry.hostname && entry.hostname !== '?' ? entry.hostname : entry.ip,
+        type: 'ARP Entry',
+        ipAddress: entry.ip || 'unknown',
+        status: 'online',
+        lastSeen: now,
+        macAddress,
+        interface: entry.interface
+      });
+    }
+
+    return [...clients.values()];
+  }
+
   async getFlows(): Promise<NetworkFlow[]> {
     try {
       const response = await this.client.get('/diagnostics/states');
       return response.data.data.map((state: any) => ({
-        id: `${state.src}:${state.sport}-${state.dst}:${state.dport}`,
+        id: `${formatHost(state.src)}:${state.sport}-${formatHost(state.dst)}:${state.dport}`,
         sourceIp: state.src,
         destinationIp: state.dst,
+        addressFamily: addressFamily(state.src),
         sourcePort: parseInt(state.sport),
         destinationPort: parseInt(state.dport),
         protocol: state.proto,
@@ -126,10 +335,18 @@ export class PfSenseController implements NetworkController {
     }
   }
 
+  // The API cannot change a queue in place, so an installed policy is
+  // removed first. Floating match rules assign the policy's traffic to its
+  // queue, one rule per port. They never pass or block traffic, so the
+  // firewall lets through exactly what it did before.
   async applyQoSPolicy(policy: QoSPolicy): Promise<void> {
     try {
+      await this.removeInstalled(policy.id);
+
+      const name = qosQueueName(policy.id);
       const qosRule = {
         interface: policy.targetDevice,
+        name,
         enabled: true,
         bandwidth: {
           min: policy.bandwidth.min,
@@ -137,19 +354,96 @@ export class PfSenseController implements NetworkController {
         },
         priority: policy.priority,
         protocol: policy.protocol || 'any',
-        description: policy.name,
+        description: `${qosDescription(policy.id)}: ${policy.name}`,
         schedulertype: 'PRIQ',
         ackqueue: true,
         defaultqueue: false
       };
-
       await this.client.post('/firewall/traffic_shaper/queue', qosRule);
+
+      const cidr = policy.sourceCidr || policy.destinationCidr;
+      const ports: Array<number | undefined> = policy.ports?.length ? policy.ports : [undefined];
+      for (const port of ports) {
+        await this.client.post('/firewall/rule', {
+          type: 'match',
+          floating: true,
+          quick: false,
+          direction: 'any',
+          interface: policy.targetDevice,
+          ipprotocol: cidr && addressFamily(cidr.split('/')[0]) === 'ipv6' ? 'inet6' : 'inet',
+          protocol: policy.protocol || (port !== undefined ? 'tcp' : 'any'),
+          src: policy.sourceCidr || 'any',
+          dst: policy.destinationCidr || 'any',
+          ...(port !== undefined ? { dstport: port.toString() } : {}),
+          defaultqueue: name,
+          descr: qosDescription(policy.id),
+          apply: true
+        });
+      }
     } catch (error) {
       console.error('Failed to apply QoS policy to pfSense:', error);
       throw error;
     }
   }
 
+  async updateQoSPolicy(policy: QoSPolicy): Promise<void> {
+    return this.applyQoSPolicy(policy);
+  }
+
+  async removeQoSPolicy(policyId: string): Promise<void> {
+    try {
+      await this.removeInstalled(policyId);
+    } catch (error) {
+      console.error('Failed to remove QoS policy from pfSense:', error);
+      throw error;
+    }
+  }
+
+  // Policies are recognised by the description of their queue and rules
+  async listQoSPolicies(): Promise<QoSPolicy[]> {
+    try {
+      const { queues, rules } = await this.getInstalled();
+
+      return queues.map(queue => {
+        const match = String(queue.description).match(QOS_QUEUE_DESCRIPTION);
+        const policyId = match![1];
+        const policyRules = rules.filter(rule => rule.descr === qosDescription(policyId));
+        const policy: QoSPolicy = {
+          id: policyId,
+          name: match![2],
+          targetDevice: queue.interface,
+          bandwidth: {
+            min: Number(queue.bandwidth?.min || 0),
+            max: Number(queue.bandwidth?.max || 0)
+          },
+          priority: Number(queue.priority || 0)
+        };
+
+        const ports = policyRules
+          .map(rule => rule.destination?.port)
+          .filter(port => port !== undefined && port !== '')
+          .map(port => parseInt(port, 10));
+        if (ports.length > 0) {
+          policy.ports = ports;
+        }
+        const [rule] = policyRules;
+        if (rule?.protocol && rule.protocol !== 'any') {
+          policy.protocol = rule.protocol;
+        }
+        if (rule?.source?.address) {
+          policy.sourceCidr = rule.source.address;
+        }
+        if (rule?.destination?.address) {
+          policy.destinationCidr = rule.destination.address;
+        }
+        return policy;
+      });
+    } catch (error) {
+      console.error('Failed to list QoS policies from pfSense:', error);
+      throw error;
+    }
+  }
+
   async healthCheck(): Promise<boolean> {
     try {
       await this.client.get('/system/status');
@@ -158,4 +452,32 @@ export class PfSenseController implements NetworkController {
       return false;
     }
   }
+
+  // Queues of every shaper and the firewall rules that belong to a policy
+  private async getInstalled(): Promise<{ queues: any[]; rules: any[] }> {
+    const [shapers, rules] = await Promise.all([
+      this.client.get('/firewall/traffic_shaper'),
+      this.client.get('/firewall/rule')
+    ]);
+
+    const queues = (shapers.data?.data || []).flatMap((shaper: any) =>
+      (shaper.queue || []).map((queue: any) => ({ interface: shaper.interface, ...queue }))
+    );
+    return {
+      queues: queues.filter((queue: any) => QOS_QUEUE_DESCRIPTION.test(String(queue.description))),
+      rules: (rules.data?.data || []).filter((rule: any) => String(rule.descr).startsWith(QOS_DESCRIPTION_PREFIX))
+    };
+  }
+
+  // Rules go first, a queue cannot be removed while rules refer to it
+  private async removeInstalled(policyId: string): Promise<void> {
+    const { queues, rules } = await this.getInstalled();
+
+    for (const rule of rules.filter(rule => rule.descr === qosDescription(policyId))) {
+      await this.client.delete('/firewall/rule', { data: { tracker: rule.tracker, apply: true } });
+    }
+    for (const queue of queues.filter(queue => String(queue.description).match(QOS_QUEUE_DESCRIPTION)![1] === policyId)) {
+      await this.client.delete('/firewall/traffic_shaper/queue', { data: { interface: queue.interface, name: queue.name } });
+    }
+  }
 }
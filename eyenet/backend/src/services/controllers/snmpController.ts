@@ -0,0 +1,480 @@
+import snmp from 'net-snmp';
+import {
+  InterfaceStats,
+  InterfaceStatsProvider,
+  NetworkController,
+  NetworkDevice,
+  NetworkFlow,
+  NetworkStats,
+  QoSPolicy
+} from '../../interfaces/networkController';
+import { SnmpAuthProtocol, SnmpPrivProtocol } from '../../interfaces/controllerConfig';
+import { addressFamily } from '../../utils/ip';
+
+export interface SnmpControllerConfig {
+  host: string;
+  port?: number;
+  version: '2c' | '3';
+  // SNMPv2c
+  community?: string;
+  // SNMPv3 user; authentication and privacy are enabled by their protocols
+  username?: string;
+  authProtocol?: SnmpAuthProtocol;
+  authKey?: string;
+  privProtocol?: SnmpPrivProtocol;
+  privKey?: string;
+  timeout?: number;
+  retries?: number;
+}
+
+const OID = {
+  sysDescr: '1.3.6.1.2.1.1.1.0',
+  sysUpTime: '1.3.6.1.2.1.1.3.0',
+  sysName: '1.3.6.1.2.1.1.5.0',
+  ifEntry: '1.3.6.1.2.1.2.2.1',
+  ifXEntry: '1.3.6.1.2.1.31.1.1.1',
+  ipAddrEntry: '1.3.6.1.2.1.4.20.1',
+  ipNetToMediaEntry: '1.3.6.1.2.1.4.22.1',
+  lldpRemEntry: '1.0.8802.1.1.2.1.4.1.1'
+};
+
+// Column numbers within the table entries above
+const IF = {
+  descr: 2,
+  type: 3,
+  physAddress: 6,
+  operStatus: 8,
+  inOctets: 10,
+  inUcastPkts: 11,
+  outOctets: 16,
+  outUcastPkts: 17
+};
+const IFX = { name: 1, hcInOctets: 6, hcInUcastPkts: 7, hcOutOctets: 10, hcOutUcastPkts: 11 };
+const IP_ADDR = { address: 1, ifIndex: 2 };
+const ARP = { physAddress: 2, netAddress: 3, type: 4 };
+const LLDP = { chassisIdSubtype: 4, chassisId: 5, sysName: 9 };
+
+// IANAifType names for the common interface types
+const IF_TYPES: { [type: number]: string } = {
+  6: 'ethernetCsmacd',
+  24: 'softwareLoopback',
+  53: 'propVirtual',
+  71: 'ieee80211',
+  131: 'tunnel',
+  135: 'l2vlan',
+  136: 'l3ipvlan',
+  161: 'ieee8023adLag'
+};
+
+const ARP_INVALID = 2;
+const LLDP_CHASSIS_MAC = 4;
+const OPER_STATUS_UP = 1;
+
+type CounterName = 'bytesIn' | 'bytesOut' | 'packetsIn' | 'packetsOut';
+const COUNTERS: CounterName[] = ['bytesIn', 'bytesOut', 'packetsIn', 'packetsOut'];
+
+interface CounterSample {
+  name: string;
+  bits: 32 | 64;
+  values: Record<CounterName, bigint>;
+}
+
+interface InterfaceRate {
+  inBitsPerSecond: number;
+  outBitsPerSecond: number;
+}
+
+type Table = Map<string, Map<number, any>>;
+
+// Difference between two readings of a counter that may have wrapped
+export function counterDelta(previous: bigint, current: bigint, bits: 32 | 64): bigint {
+  if (current >= previous) {
+    return current - previous;
+  }
+  return current + (BigInt(1) << BigInt(bits)) - previous;
+}
+
+// Counter32 values arrive as numbers, Counter64 values as big-endian buffers
+export function counterValue(value: unknown): bigint {
+  if (Buffer.isBuffer(value)) {
+    return value.length > 0 ? BigInt(`0x${value.toString('hex')}`) : BigInt(0);
+  }
+  return BigInt(typeof value === 'number' ? Math.max(0, Math.floor(value)) : 0);
+}
+
+function formatMacAddress(value: unknown): string | undefined {
+  if (!Buffer.isBuffer(value) || value.length !== 6) {
+    return undefined;
+  }
+  return Array.from(value).map(byte => byte.toString(16).padStart(2, '0')).join(':');
+}
+
+function text(value: unknown): string {
+  return Buffer.isBuffer(value) ? value.toString('utf8').replace(/\0+$/, '') : String(value ?? '');
+}
+
+// Polls a device over SNMP v2c or v3. Interfaces come from IF-MIB, neighbours
+// from the LLDP and ARP tables. SNMP has no notion of flows or QoS policies.
+export class SnmpController implements NetworkController, InterfaceStatsProvider {
+  private session: snmp.Session | null = null;
+  private lastUpTime: number | null = null;
+  // Per-interface counters from the previous poll
+  private lastSamples = new Map<number, CounterSample>();
+  private lastSampleTime: number | null = null;
+  // Per-interface rates between the last two polls, by ifIndex
+  private rates = new Map<number, InterfaceRate>();
+  // Wrap-corrected running totals, so the reported counters never go back
+  private totals: Record<CounterName, bigint> = {
+    bytesIn: BigInt(0),
+    bytesOut: BigInt(0),
+    packetsIn: BigInt(0),
+    packetsOut: BigInt(0)
+  };
+
+  constructor(private readonly config: SnmpControllerConfig) {}
+
+  async connect(): Promise<void> {
+    try {
+      this.session = this.createSession();
+      await this.get([OID.sysUpTime]);
+    } catch (error) {
+      console.error('Failed to connect to SNMP agent:', error);
+      this.closeSession();
+      throw new Error('Connection failed');
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.closeSession();
+  }
+
+  async getDevices(): Promise<NetworkDevice[]> {
+    try {
+      const [[sysDescr, sysName], ifTable, ifXTable, ipAddrTable, arpTable, lldpTable] = await Promise.all([
+        this.get([OID.sysDescr, OID.sysName]),
+        this.walkTable(OID.ifEntry),
+        this.walkTable(OID.ifXEntry),
+        this.walkTable(OID.ipAddrEntry),
+        this.walkTable(OID.ipNetToMediaEntry),
+        // Not every agent implements LLDP-MIB
+        this.walkTable(OID.lldpRemEntry).catch(() => new Map() as Table)
+      ]);
+      const now = new Date();
+      const { host } = this.config;
+
+      const interfaceAddresses = new Map<number, string>();
+      ipAddrTable.forEach(row => interfaceAddresses.set(row.get(IP_ADDR.ifIndex), text(row.get(IP_ADDR.address))));
+
+      const devices: NetworkDevice[] = [{
+        id: host,
+        name: text(sysName) || host,
+        type: text(sysDescr).split(/\r?\n/)[0] || 'SNMP Agent',
+        ipAddress: host,
+        status: 'online',
+        lastSeen: now
+      }];
+
+      ifTable.forEach((row, index) => {
+        const ifIndex = Number(index);
+        devices.push({
+          id: `${host}:if${ifIndex}`,
+          name: text(ifXTable.get(index)?.get(IFX.name)) || text(row.get(IF.descr)) || `if${ifIndex}`,
+          type: IF_TYPES[row.get(IF.type)] || `ifType ${row.get(IF.type)}`,
+          ipAddress: interfaceAddresses.get(ifIndex) || 'unknown',
+          status: row.get(IF.operStatus) === OPER_STATUS_UP ? 'online' : 'offline',
+          lastSeen: now,
+          macAddress: formatMacAddress(row.get(IF.physAddress))
+        });
+      });
+
+      // ARP entries give neighbours an address; those also seen over LLDP
+      // are reported once, as the LLDP neighbour
+      const arpByMac = new Map<string, string>();
+      arpTable.forEach(row => {
+        const macAddress = formatMacAddress(row.get(ARP.physAddress));
+        if (macAddress && row.get(ARP.type) !== ARP_INVALID) {
+          arpByMac.set(macAddress, text(row.get(ARP.netAddress)));
+        }
+      });
+
+      lldpTable.forEach(row => {
+        const macAddress = row.get(LLDP.chassisIdSubtype) === LLDP_CHASSIS_MAC
+          ? formatMacAddress(row.get(LLDP.chassisId))
+          : undefined;
+        const chassisId = macAddress || text(row.get(LLDP.chassisId));
+        devices.push({
+          id: `${host}:lldp:${chassisId}`,
+          name: text(row.get(LLDP.sysName)) || chassisId,
+          type: 'LLDP Neighbor',
+          ipAddress: (macAddress && arpByMac.get(macAddress)) || 'unknown',
+          status: 'online',
+          lastSeen: now,
+          macAddress
+        });
+        if (macAddress) {
+          arpByMac.delete(macAddress);
+        }
+      });
+
+      arpByMac.forEach((ipAddress, macAddress) => {
+        devices.push({
+          id: `${host}:arp:${ipAddress}`,
+          name: ipAddress,
+          type: 'ARP Entry',
+          ipAddress,
+          status: 'online',
+          lastSeen: now,
+          macAddress
+        });
+      });
+
+      return devices;
+    } catch (error) {
+      console.error('Failed to get devices over SNMP:', error);
+      throw error;
+    }
+  }
+
+  async getFlows(): Promise<NetworkFlow[]> {
+    return [];
+  }
+
+  // Sums the interface counters. 64-bit ifXTable counters are preferred over
+  // the 32-bit ifTable ones, which wrap within minutes on fast links.
+  async getStats(): Promise<NetworkStats> {
+    try {
+      const now = await this.poll();
+
+      return {
+        bytesIn: Number(this.totals.bytesIn),
+        bytesOut: Number(this.totals.bytesOut),
+        packetsIn: Number(this.totals.packetsIn),
+        packetsOut: Number(this.totals.packetsOut),
+        activeConnections: 0,
+        timestamp: new Date(now)
+      };
+    } catch (error) {
+      console.error('Failed to get statistics over SNMP:', error);
+      throw error;
+    }
+  }
+
+  // Counters of each interface, with the rates since the previous poll of
+  // either the statistics or the interfaces
+  async getInterfaceStats(): Promise<InterfaceStats[]> {
+    try {
+      const now = await this.poll();
+      const timestamp = new Date(now);
+
+      return Array.from(this.lastSamples, ([ifIndex, sample]) => {
+        const stats: InterfaceStats = {
+          deviceId: this.config.host,
+          portId: String(ifIndex),
+          name: sample.name,
+          bytesIn: Number(sample.values.bytesIn),
+          bytesOut: Number(sample.values.bytesOut),
+          packetsIn: Number(sample.values.packetsIn),
+          packetsOut: Number(sample.values.packetsOut),
+          timestamp
+        };
+        const rate = this.rates.get(ifIndex);
+        if (rate) {
+          stats.inBitsPerSecond = rate.inBitsPerSecond;
+          stats.outBitsPerSecond = rate.outBitsPerSecond;
+        }
+        return stats;
+      });
+    } catch (error) {
+      console.error('Failed to get interface statistics over SNMP:', error);
+      throw error;
+    }
+  }
+
+  // Reads the interface counters and adds their changes to the totals.
+  // Returns the time of the reading.
+  private async poll(): Promise<number> {
+    const [[upTime], ifTable, ifXTable] = await Promise.all([
+      this.get([OID.sysUpTime]),
+      this.walkTable(OID.ifEntry),
+      this.walkTable(OID.ifXEntry)
+    ]);
+    const now = Date.now();
+
+    // Counters restart from zero when the agent restarts
+    const restarted = this.lastUpTime !== null && Number(upTime) < this.lastUpTime;
+    this.lastUpTime = Number(upTime);
+
+    const samples = new Map<number, CounterSample>();
+    ifTable.forEach((row, index) => {
+      const hc = ifXTable.get(index);
+      const has64 = hc?.has(IFX.hcInOctets) && hc.has(IFX.hcOutOctets);
+      samples.set(Number(index), {
+        name: text(hc?.get(IFX.name)) || text(row.get(IF.descr)),
+        bits: has64 ? 64 : 32,
+        values: has64
+          ? {
+            bytesIn: counterValue(hc!.get(IFX.hcInOctets)),
+            bytesOut: counterValue(hc!.get(IFX.hcOutOctets)),
+            packetsIn: counterValue(hc!.get(IFX.hcInUcastPkts) ?? row.get(IF.inUcastPkts)),
+            packetsOut: counterValue(hc!.get(IFX.hcOutUcastPkts) ?? row.get(IF.outUcastPkts))
+          }
+          : {
+            bytesIn: counterValue(row.get(IF.inOctets)),
+            bytesOut: counterValue(row.get(IF.outOctets)),
+            packetsIn: counterValue(row.get(IF.inUcastPkts)),
+            packetsOut: counterValue(row.get(IF.outUcastPkts))
+          }
+      });
+    });
+
+    this.accumulate(samples, now, restarted);
+    return now;
+  }
+
+  async applyQoSPolicy(_policy: QoSPolicy): Promise<void> {
+    throw new Error('QoS policies are not supported over SNMP');
+  }
+
+  async updateQoSPolicy(_policy: QoSPolicy): Promise<void> {
+    throw new Error('QoS policies are not supported over SNMP');
+  }
+
+  // Nothing can have been installed, so there is nothing to remove
+  async removeQoSPolicy(_policyId: string): Promise<void> {}
+
+  async listQoSPolicies(): Promise<QoSPolicy[]> {
+    return [];
+  }
+
+  // A device that answers for sysUpTime is up
+  async healthCheck(): Promise<boolean> {
+    try {
+      const [upTime] = await this.get([OID.sysUpTime]);
+      return typeof upTime === 'number';
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // The first poll only sets the baseline. Interfaces that appear, or
+  // change between 32 and 64-bit counters, start a new baseline too.
+  private accumulate(samples: Map<number, CounterSample>, now: number, restarted: boolean) {
+    const elapsedSeconds = this.lastSampleTime !== null ? (now - this.lastSampleTime) / 1000 : 0;
+    const rates = new Map<number, InterfaceRate>();
+
+    samples.forEach((sample, ifIndex) => {
+      const previous = this.lastSamples.get(ifIndex);
+      if (!previous || previous.bits !== sample.bits) {
+        return;
+      }
+
+      const deltas = {} as Record<CounterName, bigint>;
+      for (const counter of COUNTERS) {
+        deltas[counter] = restarted
+          ? sample.values[counter]
+          : counterDelta(previous.values[counter], sample.values[counter], sample.bits);
+        this.totals[counter] += deltas[counter];
+      }
+
+      if (elapsedSeconds > 0) {
+        rates.set(ifIndex, {
+          inBitsPerSecond: Number(deltas.bytesIn) * 8 / elapsedSeconds,
+          outBitsPerSecond: Number(deltas.bytesOut) * 8 / elapsedSeconds
+        });
+      }
+    });
+
+    this.lastSamples = samples;
+    this.lastSampleTime = now;
+    this.rates = rates;
+  }
+
+  private createSession(): snmp.Session {
+    const { host, port, version, timeout, retries } = this.config;
+    const transport: 'udp4' | 'udp6' = addressFamily(host) === 'ipv6' ? 'udp6' : 'udp4';
+    const options = { port: port || 161, timeout: timeout || 5000, retries: retries ?? 1, transport };
+
+    if (version === '2c') {
+      return snmp.createSession(host, this.config.community || 'public', { ...options, version: snmp.Version2c });
+    }
+
+    const { username, authProtocol, authKey, privProtocol, privKey } = this.config;
+    const user: snmp.User = {
+      name: username || '',
+      level: !authProtocol
+        ? snmp.SecurityLevel.noAuthNoPriv
+        : privProtocol ? snmp.SecurityLevel.authPriv : snmp.SecurityLevel.authNoPriv
+    };
+    if (authProtocol) {
+      user.authProtocol = snmp.AuthProtocols[authProtocol];
+      user.authKey = authKey;
+    }
+    if (authProtocol && privProtocol) {
+      user.privProtocol = snmp.PrivProtocols[privProtocol];
+      user.privKey = privKey;
+    }
+    return snmp.createV3Session(host, user, { ...options, version: snmp.Version3 });
+  }
+
+  private closeSession() {
+    if (this.session) {
+      this.session.close();
+      this.session = null;
+    }
+  }
+
+  private requireSession(): snmp.Session {
+    if (!this.session) {
+      throw new Error('Not connected to SNMP agent');
+    }
+    return this.session;
+  }
+
+  private get(oids: string[]): Promise<any[]> {
+    const session = this.requireSession();
+    return new Promise((resolve, reject) => {
+      session.get(oids, (error, varbinds) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        const failed = varbinds!.find(varbind => snmp.isVarbindError(varbind));
+        if (failed) {
+          reject(new Error(snmp.varbindError(failed)));
+          return;
+        }
+        resolve(varbinds!.map(varbind => varbind.value));
+      });
+    });
+  }
+
+  // Walks a table entry OID into rows keyed by instance index, each holding
+  // the values by column number
+  private walkTable(entryOid: string): Promise<Table> {
+    const session = this.requireSession();
+    const prefix = `${entryOid}.`;
+    const table: Table = new Map();
+
+    return new Promise((resolve, reject) => {
+      session.subtree(entryOid, 20, (varbinds: snmp.Varbind[]) => {
+        for (const varbind of varbinds) {
+          if (snmp.isVarbindError(varbind) || !varbind.oid.startsWith(prefix)) {
+            continue;
+          }
+          const [column, ...index] = varbind.oid.slice(prefix.length).split('.');
+          const key = index.join('.');
+          if (!table.has(key)) {
+            table.set(key, new Map());
+          }
+          table.get(key)!.set(Number(column), varbind.value);
+        }
+      }, (error: Error | null) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(table);
+        }
+      });
+    });
+  }
+}
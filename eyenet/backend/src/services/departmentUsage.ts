@@ -0,0 +1,113 @@
+import { Department } from '../models/department';
+import { NetworkDevice } from '../interfaces/networkController';
+import { DepartmentUsage, FlowDelta, TopTalker } from '../types/monitoring';
+import { CidrRange, parseCidr, ipInRange } from '../utils/cidr';
+import { normalizeIpAddress } from '../utils/ip';
+import { toMbps } from '../utils/units';
+
+const TOP_TALKER_LIMIT = 10;
+
+export interface DepartmentDefinition {
+  id: string;
+  name: string;
+  cidrs: string[];
+  vlanIds: number[];
+  deviceIds: string[];
+}
+
+export interface DepartmentUsageDetail extends DepartmentUsage {
+  bytes: number;
+  topTalkers: TopTalker[];
+}
+
+export async function loadDepartments(): Promise<DepartmentDefinition[]> {
+  const departments = await Department.find().lean();
+  return departments.map(department => ({
+    id: department._id.toString(),
+    name: department.name,
+    cidrs: department.cidrs,
+    vlanIds: department.vlanIds,
+    deviceIds: department.deviceIds
+  }));
+}
+
+interface DepartmentMatcher {
+  department: DepartmentDefinition;
+  ranges: CidrRange[];
+  deviceIps: Set<string>;
+  vlanIds: Set<number>;
+}
+
+function buildMatchers(departments: DepartmentDefinition[], devices: NetworkDevice[]): DepartmentMatcher[] {
+  const deviceIpsById = new Map(devices.map(device => [device.id, device.ipAddress]));
+
+  return departments.map(department => ({
+    department,
+    ranges: department.cidrs
+      .map(parseCidr)
+      .filter((range): range is CidrRange => range !== null),
+    deviceIps: new Set(department.deviceIds
+      .map(id => deviceIpsById.get(id))
+      .filter((ip): ip is string => !!ip && ip !== 'unknown')
+      .map(normalizeIpAddress)),
+    vlanIds: new Set(department.vlanIds)
+  }));
+}
+
+function matchesIp(matcher: DepartmentMatcher, ip: string): boolean {
+  return matcher.deviceIps.has(normalizeIpAddress(ip)) || matcher.ranges.some(range => ipInRange(ip, range));
+}
+
+// Attributes the bytes of each flow to the departments owning its source and
+// destination addresses. A flow between two departments counts for both; a
+// flow inside one department counts once. Flows tagged with a department VLAN
+// are attributed to that department through their source address.
+export function attributeDepartmentUsage(
+  departments: DepartmentDefinition[],
+  devices: NetworkDevice[],
+  flowDeltas: FlowDelta[],
+  elapsedSeconds: number
+): DepartmentUsageDetail[] {
+  const matchers = buildMatchers(departments, devices);
+  const totalBytes = flowDeltas.reduce((total, delta) => total + delta.bytes, 0);
+
+  return matchers
+    .map(matcher => {
+      const bytesByIp = new Map<string, number>();
+      let bytes = 0;
+
+      for (const { flow, bytes: flowBytes } of flowDeltas) {
+        const endpoints = [flow.sourceIp, flow.destinationIp].filter(ip => matchesIp(matcher, ip));
+        if (endpoints.length === 0 && flow.vlanId !== undefined && matcher.vlanIds.has(flow.vlanId)) {
+          endpoints.push(flow.sourceIp);
+        }
+        if (endpoints.length === 0) {
+          continue;
+        }
+
+        bytes += flowBytes;
+        for (const ip of new Set(endpoints)) {
+          bytesByIp.set(ip, (bytesByIp.get(ip) || 0) + flowBytes);
+        }
+      }
+
+      const topTalkers = Array.from(bytesByIp.entries())
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, TOP_TALKER_LIMIT)
+        .map(([ip, talkerBytes]) => ({
+          ip,
+          bytes: talkerBytes,
+          bandwidth: toMbps(talkerBytes, elapsedSeconds)
+        }));
+
+      return {
+        id: matcher.department.id,
+        name: matcher.department.name,
+        usage: totalBytes > 0 ? (bytes / totalBytes) * 100 : 0,
+        bandwidth: toMbps(bytes, elapsedSeconds),
+        bytes,
+        topTalkers
+      };
+    })
+    .sort((a, b) => b.bytes - a.bytes);
+}
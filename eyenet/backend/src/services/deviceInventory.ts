@@ -0,0 +1,165 @@
+import { AnyBulkWriteOperation } from 'mongoose';
+import { NetworkDevice } from '../interfaces/networkController';
+import { Device, DeviceRecord, DeviceStatusChange, STATUS_HISTORY_LIMIT } from '../models/device';
+import { NetworkControllerManager, NoActiveControllerError } from './networkControllerManager';
+import { parseDuration } from './metricsHistory';
+import { normalizeMacAddress } from '../utils/mac';
+
+const DEFAULT_OFFLINE_GRACE_PERIOD = '5m';
+
+export interface ReconcileResult {
+  added: number;
+  updated: number;
+  markedOffline: number;
+}
+
+// Devices with a MAC address are identified by it, so the same device is
+// recognised across controllers; others by the controller and its device ID.
+// The device's own source, set in aggregate mode, takes precedence.
+export function deviceIdentityKey(source: string, device: NetworkDevice): string {
+  if (device.macAddress) {
+    return `mac:${normalizeMacAddress(device.macAddress)}`;
+  }
+  return `${device.source || source}:${device.id}`;
+}
+
+export function loadOfflineGracePeriod(env: NodeJS.ProcessEnv = process.env): number {
+  const value = env.DEVICE_OFFLINE_GRACE_PERIOD || DEFAULT_OFFLINE_GRACE_PERIOD;
+  const gracePeriodMs = parseDuration(value);
+  if (!gracePeriodMs) {
+    throw new Error(`Invalid DEVICE_OFFLINE_GRACE_PERIOD: ${value}`);
+  }
+  return gracePeriodMs;
+}
+
+// Periodically discovers devices through the controller manager and
+// reconciles them with the Device collection. Devices that stop being
+// reported are marked offline once the grace period has passed.
+export class DeviceInventory {
+  private discoveryInterval: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly manager: NetworkControllerManager,
+    private readonly gracePeriodMs: number = 5 * 60 * 1000,
+    private readonly interval: number = 60000
+  ) {}
+
+  start() {
+    if (this.discoveryInterval) {
+      clearInterval(this.discoveryInterval);
+    }
+
+    this.discoveryInterval = setInterval(async () => {
+      try {
+        await this.run();
+      } catch (error) {
+        console.error('Device discovery failed:', error);
+      }
+    }, this.interval);
+  }
+
+  stop() {
+    if (this.discoveryInterval) {
+      clearInterval(this.discoveryInterval);
+      this.discoveryInterval = null;
+    }
+  }
+
+  async run(now: Date = new Date()): Promise<ReconcileResult> {
+    let result: ReconcileResult = { added: 0, updated: 0, markedOffline: 0 };
+
+    // A failed discovery still ages out devices; they were not seen either way
+    try {
+      const devices = await this.manager.getDevices();
+      result = await this.reconcile(this.manager.getActiveControllerType(), devices, now);
+    } catch (error) {
+      if (error instanceof NoActiveControllerError) {
+        console.warn('Skipping device discovery:', error.message);
+      } else {
+        console.error('Device discovery failed:', error);
+      }
+    }
+
+    result.markedOffline = await this.markMissing(now);
+    return result;
+  }
+
+  async reconcile(source: string, devices: NetworkDevice[], now: Date = new Date()): Promise<ReconcileResult> {
+    const discovered = new Map<string, NetworkDevice>();
+    for (const device of devices) {
+      discovered.set(deviceIdentityKey(source, device), device);
+    }
+
+    const result: ReconcileResult = { added: 0, updated: 0, markedOffline: 0 };
+    if (discovered.size === 0) {
+      return result;
+    }
+
+    const existing = await Device
+      .find({ identityKey: { $in: Array.from(discovered.keys()) } })
+      .lean<DeviceRecord[]>();
+    const existingByKey = new Map(existing.map(device => [device.identityKey, device]));
+
+    const operations: AnyBulkWriteOperation<DeviceRecord>[] = [];
+    discovered.forEach((device, identityKey) => {
+      const previous = existingByKey.get(identityKey);
+      const change: DeviceStatusChange = { status: device.status, at: now, reason: 'reported' };
+      const fields = {
+        name: device.name,
+        type: device.type,
+        ipAddress: device.ipAddress,
+        macAddress: device.macAddress ? normalizeMacAddress(device.macAddress) : null,
+        vlanId: device.vlanId ?? null,
+        status: device.status,
+        source: device.source || source,
+        sourceDeviceId: device.id,
+        lastSeen: now,
+        updatedAt: now
+      };
+
+      if (!previous) {
+        result.added++;
+        operations.push({
+          insertOne: {
+            document: {
+              identityKey,
+              ...fields,
+              firstSeen: now,
+              statusHistory: [change],
+              tags: [],
+              annotations: new Map(),
+              createdAt: now
+            }
+          }
+        });
+        return;
+      }
+
+      result.updated++;
+      operations.push({
+        updateOne: {
+          filter: { identityKey },
+          update: previous.status === device.status
+            ? { $set: fields }
+            : { $set: fields, $push: { statusHistory: { $each: [change], $slice: -STATUS_HISTORY_LIMIT } } }
+        }
+      });
+    });
+
+    await Device.bulkWrite(operations);
+    return result;
+  }
+
+  // Marks online devices that were not seen for the grace period offline
+  async markMissing(now: Date = new Date()): Promise<number> {
+    const change: DeviceStatusChange = { status: 'offline', at: now, reason: 'missing' };
+    const { modifiedCount } = await Device.updateMany(
+      { status: 'online', lastSeen: { $lt: new Date(now.getTime() - this.gracePeriodMs) } },
+      {
+        $set: { status: 'offline', updatedAt: now },
+        $push: { statusHistory: { $each: [change], $slice: -STATUS_HISTORY_LIMIT } }
+      }
+    );
+    return modifiedCount;
+  }
+}
@@ -0,0 +1,45 @@
+// A flow as reported by an exporter. One flow can be reported several times,
+// e.g. when a long running flow hits the exporter's active timeout.
+export interface FlowRecord {
+  // Address of the device that exported the record
+  exporter: string;
+  sourceIp: string;
+  destinationIp: string;
+  sourcePort: number;
+  destinationPort: number;
+  // IANA protocol number
+  protocol: number;
+  bytes: number;
+  packets: number;
+  startTime: Date;
+  endTime: Date;
+  vlanId?: number;
+  direction: 'ingress' | 'egress';
+}
+
+const PROTOCOL_NAMES: { [protocol: number]: string } = {
+  1: 'icmp',
+  6: 'tcp',
+  17: 'udp',
+  47: 'gre',
+  50: 'esp',
+  58: 'ipv6-icmp',
+  132: 'sctp'
+};
+
+// Lower case names match the protocols the other controllers report
+export function protocolName(protocol: number): string {
+  return PROTOCOL_NAMES[protocol] || String(protocol);
+}
+
+// Big-endian unsigned integer of any length up to 8 bytes, as used by the
+// reduced-size encoding of NetFlow v9 and IPFIX fields
+export function readUnsigned(bytes: Buffer): number {
+  if (bytes.length === 0) {
+    return 0;
+  }
+  if (bytes.length <= 6) {
+    return bytes.readUIntBE(0, bytes.length);
+  }
+  return Number(BigInt(`0x${bytes.toString('hex')}`));
+}
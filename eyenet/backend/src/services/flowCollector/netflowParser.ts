@@ -0,0 +1,374 @@
+import { FlowRecord, readUnsigned } from './flowRecord';
+import { formatIpAddress } from '../../utils/ip';
+import { Reader } from './reader';
+
+// Templates not refreshed by the exporter within this time are dropped;
+// exporters over UDP resend their templates periodically
+const DEFAULT_TEMPLATE_TIMEOUT = 30 * 60 * 1000;
+
+const V5_HEADER_LENGTH = 24;
+const V5_RECORD_LENGTH = 48;
+const V9_HEADER_LENGTH = 20;
+const IPFIX_HEADER_LENGTH = 16;
+
+const V9_TEMPLATE_SET = 0;
+const V9_OPTIONS_TEMPLATE_SET = 1;
+const IPFIX_TEMPLATE_SET = 2;
+const IPFIX_OPTIONS_TEMPLATE_SET = 3;
+const MIN_DATA_SET = 256;
+
+const VARIABLE_LENGTH = 65535;
+const ENTERPRISE_BIT = 0x8000;
+
+// NetFlow v9 field types and IPFIX information elements share numbers for
+// the fields used here
+const FIELD = {
+  octetDeltaCount: 1,
+  packetDeltaCount: 2,
+  protocolIdentifier: 4,
+  sourceTransportPort: 7,
+  sourceIPv4Address: 8,
+  destinationTransportPort: 11,
+  destinationIPv4Address: 12,
+  flowEndSysUpTime: 21,
+  flowStartSysUpTime: 22,
+  postOctetDeltaCount: 23,
+  postPacketDeltaCount: 24,
+  sourceIPv6Address: 27,
+  destinationIPv6Address: 28,
+  vlanId: 58,
+  flowDirection: 61,
+  octetTotalCount: 85,
+  packetTotalCount: 86,
+  flowStartSeconds: 150,
+  flowEndSeconds: 151,
+  flowStartMilliseconds: 152,
+  flowEndMilliseconds: 153,
+  systemInitTimeMilliseconds: 160
+};
+
+interface TemplateField {
+  id: number;
+  length: number;
+  // Set for enterprise-specific IPFIX elements, which are skipped
+  enterprise?: number;
+}
+
+interface Template {
+  fields: TemplateField[];
+  // Options records describe the exporter rather than flows
+  options: boolean;
+  receivedAt: number;
+}
+
+// Converts uptime-relative timestamps (milliseconds since the exporter
+// booted) to dates
+type UptimeClock = (uptime: number) => Date;
+
+function parseV5(packet: Buffer, exporter: string): FlowRecord[] {
+  const header = new Reader(packet);
+  header.uint16(); // version
+  const count = header.uint16();
+  const sysUptime = header.uint32();
+  const unixSecs = header.uint32();
+  const unixNsecs = header.uint32();
+
+  if (packet.length < V5_HEADER_LENGTH + count * V5_RECORD_LENGTH) {
+    throw new Error('Truncated flow export packet');
+  }
+  const clock = uptimeClock(sysUptime, unixSecs * 1000 + Math.floor(unixNsecs / 1e6));
+
+  const records: FlowRecord[] = [];
+  for (let i = 0; i < count; i++) {
+    const record = new Reader(packet, V5_HEADER_LENGTH + i * V5_RECORD_LENGTH);
+    const sourceIp = formatIpAddress(record.bytes(4));
+    const destinationIp = formatIpAddress(record.bytes(4));
+    record.bytes(8); // nexthop, input and output interfaces
+    const packets = record.uint32();
+    const bytes = record.uint32();
+    const first = record.uint32();
+    const last = record.uint32();
+    const sourcePort = record.uint16();
+    const destinationPort = record.uint16();
+    record.bytes(2); // pad, TCP flags
+    const protocol = record.uint8();
+
+    records.push({
+      exporter,
+      sourceIp,
+      destinationIp,
+      sourcePort,
+      destinationPort,
+      protocol,
+      bytes,
+      packets,
+      startTime: clock(first),
+      endTime: clock(last),
+      direction: 'ingress'
+    });
+  }
+  return records;
+}
+
+function uptimeClock(uptime: number, exportTime: number): UptimeClock {
+  return (timestamp: number) => {
+    // Uptime is a 32-bit millisecond counter that wraps after 49.7 days
+    const age = (uptime - timestamp) >>> 0;
+    return new Date(age < 2 ** 31 ? exportTime - age : exportTime);
+  };
+}
+
+// Builds a flow from a data record's field values. Records without
+// addresses, such as options data, are not flows.
+function toFlowRecord(
+  values: Map<number, Buffer>,
+  exporter: string,
+  exportTime: number,
+  clock: UptimeClock | null
+): FlowRecord | null {
+  const sourceAddress = values.get(FIELD.sourceIPv4Address) || values.get(FIELD.sourceIPv6Address);
+  const destinationAddress = values.get(FIELD.destinationIPv4Address) || values.get(FIELD.destinationIPv6Address);
+  if (!sourceAddress || !destinationAddress) {
+    return null;
+  }
+
+  const unsigned = (...ids: number[]): number | undefined => {
+    const id = ids.find(candidate => values.has(candidate));
+    return id === undefined ? undefined : readUnsigned(values.get(id)!);
+  };
+
+  const time = (milliseconds: number, seconds: number, uptime: number): Date => {
+    const absolute = unsigned(milliseconds) ?? (values.has(seconds) ? unsigned(seconds)! * 1000 : undefined);
+    if (absolute !== undefined) {
+      return new Date(absolute);
+    }
+    const relative = unsigned(uptime);
+    return relative !== undefined && clock ? clock(relative) : new Date(exportTime);
+  };
+
+  const vlanId = unsigned(FIELD.vlanId);
+  return {
+    exporter,
+    sourceIp: formatIpAddress(sourceAddress),
+    destinationIp: formatIpAddress(destinationAddress),
+    sourcePort: unsigned(FIELD.sourceTransportPort) ?? 0,
+    destinationPort: unsigned(FIELD.destinationTransportPort) ?? 0,
+    protocol: unsigned(FIELD.protocolIdentifier) ?? 0,
+    bytes: unsigned(FIELD.octetDeltaCount, FIELD.octetTotalCount, FIELD.postOctetDeltaCount) ?? 0,
+    packets: unsigned(FIELD.packetDeltaCount, FIELD.packetTotalCount, FIELD.postPacketDeltaCount) ?? 0,
+    startTime: time(FIELD.flowStartMilliseconds, FIELD.flowStartSeconds, FIELD.flowStartSysUpTime),
+    endTime: time(FIELD.flowEndMilliseconds, FIELD.flowEndSeconds, FIELD.flowEndSysUpTime),
+    vlanId: vlanId || undefined,
+    direction: unsigned(FIELD.flowDirection) === 1 ? 'egress' : 'ingress'
+  };
+}
+
+// Parses NetFlow v5, NetFlow v9 and IPFIX export packets into flow records.
+// v9 and IPFIX data is described by templates the exporter sends alongside
+// it; these are cached per exporter and observation domain. Data sets whose
+// template has not been seen yet are skipped.
+export class NetflowParser {
+  private templates = new Map<string, Template>();
+
+  constructor(private readonly templateTimeout: number = DEFAULT_TEMPLATE_TIMEOUT) {}
+
+  parse(packet: Buffer, exporter: string, now: number = Date.now()): FlowRecord[] {
+    if (packet.length < 2) {
+      throw new Error('Truncated flow export packet');
+    }
+
+    const version = packet.readUInt16BE(0);
+    switch (version) {
+      case 5:
+        return parseV5(packet, exporter);
+      case 9:
+        return this.parseV9(packet, exporter, now);
+      case 10:
+        return this.parseIpfix(packet, exporter, now);
+      default:
+        throw new Error(`Unsupported flow export version ${version}`);
+    }
+  }
+
+  private parseV9(packet: Buffer, exporter: string, now: number): FlowRecord[] {
+    const header = new Reader(packet);
+    header.bytes(4); // version, record count
+    const sysUptime = header.uint32();
+    const unixSecs = header.uint32();
+    header.uint32(); // sequence number
+    const sourceId = header.uint32();
+
+    const exportTime = unixSecs * 1000;
+    const clock = uptimeClock(sysUptime, exportTime);
+    const scope = `${exporter}|9|${sourceId}`;
+    return this.parseSets(packet, V9_HEADER_LENGTH, scope, now, (setId, set) => {
+      if (setId === V9_TEMPLATE_SET) {
+        this.readTemplates(set, scope, now, false, false);
+      } else if (setId === V9_OPTIONS_TEMPLATE_SET) {
+        this.readTemplates(set, scope, now, true, false);
+      } else if (setId >= MIN_DATA_SET) {
+        return (values: Map<number, Buffer>) => toFlowRecord(values, exporter, exportTime, clock);
+      }
+      return null;
+    });
+  }
+
+  private parseIpfix(packet: Buffer, exporter: string, now: number): FlowRecord[] {
+    const header = new Reader(packet);
+    header.uint16(); // version
+    const length = header.uint16();
+    const exportTime = header.uint32() * 1000;
+    header.uint32(); // sequence number
+    const domainId = header.uint32();
+
+    if (length < IPFIX_HEADER_LENGTH || length > packet.length) {
+      throw new Error('Truncated flow export packet');
+    }
+
+    const scope = `${exporter}|10|${domainId}`;
+    return this.parseSets(packet.subarray(0, length), IPFIX_HEADER_LENGTH, scope, now, (setId, set) => {
+      if (setId === IPFIX_TEMPLATE_SET) {
+        this.readTemplates(set, scope, now, false, true);
+      } else if (setId === IPFIX_OPTIONS_TEMPLATE_SET) {
+        this.readTemplates(set, scope, now, true, true);
+      } else if (setId >= MIN_DATA_SET) {
+        return (values: Map<number, Buffer>) => {
+          // Uptime-relative timestamps need the exporter's boot time
+          const initTime = values.get(FIELD.systemInitTimeMilliseconds);
+          const clock = initTime ? (uptime: number) => new Date(readUnsigned(initTime) + uptime) : null;
+          return toFlowRecord(values, exporter, exportTime, clock);
+        };
+      }
+      return null;
+    });
+  }
+
+  // Walks the (flow) sets of a v9 or IPFIX packet. Template sets are read
+  // by the handler; for data sets it returns the record converter.
+  private parseSets(
+    packet: Buffer,
+    offset: number,
+    scope: string,
+    now: number,
+    handleSet: (setId: number, set: Reader) => ((values: Map<number, Buffer>) => FlowRecord | null) | null
+  ): FlowRecord[] {
+    const records: FlowRecord[] = [];
+    const reader = new Reader(packet, offset);
+
+    while (reader.remaining >= 4) {
+      const setId = reader.uint16();
+      const setLength = reader.uint16();
+      if (setLength < 4 || setLength - 4 > reader.remaining) {
+        throw new Error('Malformed flow set');
+      }
+      const set = new Reader(packet, reader.offset, reader.offset + setLength - 4);
+      reader.offset = set.end;
+
+      const convert = handleSet(setId, set);
+      if (!convert) {
+        continue;
+      }
+
+      const template = this.lookupTemplate(`${scope}|${setId}`, now);
+      if (!template) {
+        continue;
+      }
+      for (const values of this.readDataRecords(set, template)) {
+        const record = template.options ? null : convert(values);
+        if (record) {
+          records.push(record);
+        }
+      }
+    }
+
+    return records;
+  }
+
+  private readTemplates(set: Reader, scope: string, now: number, options: boolean, ipfix: boolean) {
+    // Sets are padded to a 4 byte boundary
+    while (set.remaining >= 4) {
+      const templateId = set.uint16();
+      const key = `${scope}|${templateId}`;
+      const fields: TemplateField[] = [];
+
+      if (options && !ipfix) {
+        // v9 options templates give the scope and option lengths in bytes
+        const scopeLength = set.uint16();
+        const optionLength = set.uint16();
+        for (let i = 0; i < (scopeLength + optionLength) / 4; i++) {
+          fields.push({ id: set.uint16(), length: set.uint16() });
+        }
+      } else {
+        const fieldCount = set.uint16();
+        // An IPFIX template without fields withdraws it
+        if (fieldCount === 0 && ipfix) {
+          this.templates.delete(key);
+          continue;
+        }
+        if (options) {
+          set.uint16(); // scope field count, included in the field count
+        }
+        for (let i = 0; i < fieldCount; i++) {
+          fields.push(ipfix ? this.readField(set) : { id: set.uint16(), length: set.uint16() });
+        }
+      }
+
+      // Records of a template without any bytes could never be read past
+      if (fields.length === 0 || fields.some(field => field.length === 0)) {
+        throw new Error('Malformed template');
+      }
+      this.templates.set(key, { fields, options, receivedAt: now });
+    }
+  }
+
+  private readField(set: Reader): TemplateField {
+    const id = set.uint16();
+    const length = set.uint16();
+    if (id & ENTERPRISE_BIT) {
+      return { id: id & ~ENTERPRISE_BIT, length, enterprise: set.uint32() };
+    }
+    return { id, length };
+  }
+
+  private lookupTemplate(key: string, now: number): Template | null {
+    const template = this.templates.get(key);
+    if (!template) {
+      return null;
+    }
+    if (now - template.receivedAt > this.templateTimeout) {
+      this.templates.delete(key);
+      return null;
+    }
+    return template;
+  }
+
+  private *readDataRecords(set: Reader, template: Template): Generator<Map<number, Buffer>> {
+    const fixedLength = template.fields.every(field => field.length !== VARIABLE_LENGTH)
+      ? template.fields.reduce((sum, field) => sum + field.length, 0)
+      : null;
+
+    // Whatever is left after the last record is padding
+    while (set.remaining > 0 && (fixedLength === null ? set.remaining >= 4 : set.remaining >= fixedLength)) {
+      const start = set.remaining;
+      const values = new Map<number, Buffer>();
+      for (const field of template.fields) {
+        let length = field.length;
+        if (length === VARIABLE_LENGTH) {
+          length = set.uint8();
+          if (length === 255) {
+            length = set.uint16();
+          }
+        }
+        const value = set.bytes(length);
+        if (field.enterprise === undefined) {
+          values.set(field.id, value);
+        }
+      }
+      // A record that reads nothing would be read again forever
+      if (set.remaining === start) {
+        return;
+      }
+      yield values;
+    }
+  }
+}
@@ -0,0 +1,48 @@
+// Sequential big-endian reads within a region of a packet, failing on reads
+// past its end
+export class Reader {
+  offset: number;
+
+  constructor(private readonly buffer: Buffer, offset = 0, readonly end = buffer.length) {
+    this.offset = offset;
+  }
+
+  get remaining(): number {
+    return this.end - this.offset;
+  }
+
+  bytes(length: number): Buffer {
+    if (length > this.remaining) {
+      throw new Error('Truncated flow export packet');
+    }
+    const bytes = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  uint8(): number {
+    return this.bytes(1).readUInt8(0);
+  }
+
+  uint16(): number {
+    return this.bytes(2).readUInt16BE(0);
+  }
+
+  uint32(): number {
+    return this.bytes(4).readUInt32BE(0);
+  }
+
+  uint64(): number {
+    return Number(this.bytes(8).readBigUInt64BE(0));
+  }
+
+  // Reader over the next length bytes, which this reader skips
+  region(length: number): Reader {
+    if (length > this.remaining) {
+      throw new Error('Truncated flow export packet');
+    }
+    const region = new Reader(this.buffer, this.offset, this.offset + length);
+    this.offset += length;
+    return region;
+  }
+}
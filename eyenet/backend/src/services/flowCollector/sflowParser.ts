@@ -0,0 +1,240 @@
+import { FlowRecord } from './flowRecord';
+import { formatIpAddress } from '../../utils/ip';
+import { Reader } from './reader';
+
+const SFLOW_VERSION = 5;
+
+// Sample and record formats, enterprise 0
+const FLOW_SAMPLE = 1;
+const COUNTER_SAMPLE = 2;
+const EXPANDED_FLOW_SAMPLE = 3;
+const EXPANDED_COUNTER_SAMPLE = 4;
+const RAW_PACKET_HEADER = 1;
+const EXTENDED_SWITCH = 1001;
+const GENERIC_INTERFACE_COUNTERS = 1;
+
+const HEADER_ETHERNET = 1;
+const HEADER_IPV4 = 11;
+const HEADER_IPV6 = 12;
+
+const ETHERTYPE_IPV4 = 0x0800;
+const ETHERTYPE_IPV6 = 0x86dd;
+const ETHERTYPE_VLAN = 0x8100;
+const ETHERTYPE_QINQ = 0x88a8;
+
+const PROTOCOL_TCP = 6;
+const PROTOCOL_UDP = 17;
+
+// Interface counters from a counter sample; octets are 64-bit, packets the
+// sum of the 32-bit unicast, multicast and broadcast counters
+export interface InterfaceCounters {
+  agent: string;
+  ifIndex: number;
+  bytesIn: number;
+  bytesOut: number;
+  packetsIn: number;
+  packetsOut: number;
+}
+
+export interface SflowDatagram {
+  agent: string;
+  flows: FlowRecord[];
+  counters: InterfaceCounters[];
+}
+
+interface DecodedHeader {
+  sourceIp: string;
+  destinationIp: string;
+  protocol: number;
+  sourcePort: number;
+  destinationPort: number;
+  vlanId?: number;
+}
+
+// sFlow datagrams start with a 32-bit version, NetFlow and IPFIX packets
+// with a 16-bit one
+export function isSflowDatagram(packet: Buffer): boolean {
+  return packet.length >= 4 && packet.readUInt32BE(0) === SFLOW_VERSION;
+}
+
+function readAddress(reader: Reader): string | null {
+  const type = reader.uint32();
+  if (type === 1) {
+    return formatIpAddress(reader.bytes(4));
+  }
+  if (type === 2) {
+    return formatIpAddress(reader.bytes(16));
+  }
+  return null;
+}
+
+// Decodes the addresses and ports of a sampled packet. Packets that are not
+// IP, or are cut off before the addresses, give null.
+function decodeHeader(headerProtocol: number, header: Buffer): DecodedHeader | null {
+  let offset = 0;
+  let etherType: number;
+  let vlanId: number | undefined;
+
+  if (headerProtocol === HEADER_ETHERNET) {
+    if (header.length < 14) {
+      return null;
+    }
+    etherType = header.readUInt16BE(12);
+    offset = 14;
+    while ((etherType === ETHERTYPE_VLAN || etherType === ETHERTYPE_QINQ) && header.length >= offset + 4) {
+      // The innermost tag is the customer VLAN
+      vlanId = header.readUInt16BE(offset) & 0x0fff;
+      etherType = header.readUInt16BE(offset + 2);
+      offset += 4;
+    }
+  } else if (headerProtocol === HEADER_IPV4) {
+    etherType = ETHERTYPE_IPV4;
+  } else if (headerProtocol === HEADER_IPV6) {
+    etherType = ETHERTYPE_IPV6;
+  } else {
+    return null;
+  }
+
+  let protocol: number;
+  let sourceIp: string;
+  let destinationIp: string;
+  let transportOffset: number;
+
+  if (etherType === ETHERTYPE_IPV4) {
+    if (header.length < offset + 20) {
+      return null;
+    }
+    const headerLength = (header[offset] & 0x0f) * 4;
+    const fragmentOffset = header.readUInt16BE(offset + 6) & 0x1fff;
+    protocol = header[offset + 9];
+    sourceIp = formatIpAddress(header.subarray(offset + 12, offset + 16));
+    destinationIp = formatIpAddress(header.subarray(offset + 16, offset + 20));
+    // Only the first fragment carries the ports
+    transportOffset = fragmentOffset === 0 ? offset + headerLength : -1;
+  } else if (etherType === ETHERTYPE_IPV6) {
+    if (header.length < offset + 40) {
+      return null;
+    }
+    protocol = header[offset + 6];
+    sourceIp = formatIpAddress(header.subarray(offset + 8, offset + 24));
+    destinationIp = formatIpAddress(header.subarray(offset + 24, offset + 40));
+    transportOffset = offset + 40;
+  } else {
+    return null;
+  }
+
+  let sourcePort = 0;
+  let destinationPort = 0;
+  if ((protocol === PROTOCOL_TCP || protocol === PROTOCOL_UDP)
+    && transportOffset >= 0 && header.length >= transportOffset + 4) {
+    sourcePort = header.readUInt16BE(transportOffset);
+    destinationPort = header.readUInt16BE(transportOffset + 2);
+  }
+
+  return { sourceIp, destinationIp, protocol, sourcePort, destinationPort, vlanId };
+}
+
+// One sampled packet stands for samplingRate packets, so its frame length
+// and count are scaled up to estimate the traffic
+function readFlowSample(sample: Reader, expanded: boolean, agent: string, now: Date): FlowRecord[] {
+  sample.uint32(); // sequence number
+  sample.bytes(expanded ? 8 : 4); // source ID
+  const samplingRate = sample.uint32() || 1;
+  sample.bytes(expanded ? 24 : 16); // sample pool, drops, input and output interfaces
+  const recordCount = sample.uint32();
+
+  let header: DecodedHeader | null = null;
+  let frameLength = 0;
+  let switchVlan: number | undefined;
+
+  for (let i = 0; i < recordCount; i++) {
+    const format = sample.uint32();
+    const record = sample.region(sample.uint32());
+    if (format === RAW_PACKET_HEADER) {
+      const headerProtocol = record.uint32();
+      frameLength = record.uint32();
+      record.uint32(); // bytes stripped
+      header = decodeHeader(headerProtocol, record.bytes(record.uint32()));
+    } else if (format === EXTENDED_SWITCH) {
+      switchVlan = record.uint32() || undefined;
+    }
+  }
+
+  if (!header) {
+    return [];
+  }
+  return [{
+    exporter: agent,
+    sourceIp: header.sourceIp,
+    destinationIp: header.destinationIp,
+    sourcePort: header.sourcePort,
+    destinationPort: header.destinationPort,
+    protocol: header.protocol,
+    bytes: frameLength * samplingRate,
+    packets: samplingRate,
+    startTime: now,
+    endTime: now,
+    vlanId: switchVlan ?? header.vlanId,
+    direction: 'ingress'
+  }];
+}
+
+function readCounterSample(sample: Reader, expanded: boolean, agent: string): InterfaceCounters[] {
+  sample.uint32(); // sequence number
+  sample.bytes(expanded ? 8 : 4); // source ID
+  const recordCount = sample.uint32();
+
+  const counters: InterfaceCounters[] = [];
+  for (let i = 0; i < recordCount; i++) {
+    const format = sample.uint32();
+    const record = sample.region(sample.uint32());
+    if (format !== GENERIC_INTERFACE_COUNTERS) {
+      continue;
+    }
+
+    const ifIndex = record.uint32();
+    record.bytes(20); // type, speed, direction, status
+    const bytesIn = record.uint64();
+    const packetsIn = record.uint32() + record.uint32() + record.uint32();
+    record.bytes(12); // discards, errors, unknown protocols
+    const bytesOut = record.uint64();
+    const packetsOut = record.uint32() + record.uint32() + record.uint32();
+    counters.push({ agent, ifIndex, bytesIn, bytesOut, packetsIn, packetsOut });
+  }
+  return counters;
+}
+
+// Parses an sFlow v5 datagram. Flow samples become flow records, generic
+// interface counter samples become interface counters; other samples and
+// records are skipped. The agent address identifies the switch, falling
+// back to the address the datagram came from.
+export function parseSflowDatagram(packet: Buffer, sender: string, now: Date = new Date()): SflowDatagram {
+  const reader = new Reader(packet);
+  const version = reader.uint32();
+  if (version !== SFLOW_VERSION) {
+    throw new Error(`Unsupported sFlow version ${version}`);
+  }
+
+  const agent = readAddress(reader) || sender;
+  reader.bytes(12); // sub-agent ID, sequence number, uptime
+  const sampleCount = reader.uint32();
+
+  const datagram: SflowDatagram = { agent, flows: [], counters: [] };
+  for (let i = 0; i < sampleCount; i++) {
+    const dataFormat = reader.uint32();
+    const sample = reader.region(reader.uint32());
+    // The top 20 bits hold the enterprise, only standard samples are decoded
+    if (dataFormat >>> 12 !== 0) {
+      continue;
+    }
+
+    const format = dataFormat & 0xfff;
+    if (format === FLOW_SAMPLE || format === EXPANDED_FLOW_SAMPLE) {
+      datagram.flows.push(...readFlowSample(sample, format === EXPANDED_FLOW_SAMPLE, agent, now));
+    } else if (format === COUNTER_SAMPLE || format === EXPANDED_COUNTER_SAMPLE) {
+      datagram.counters.push(...readCounterSample(sample, format === EXPANDED_COUNTER_SAMPLE, agent));
+    }
+  }
+
+  return datagram;
+}
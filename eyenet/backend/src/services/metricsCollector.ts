@@ -0,0 +1,105 @@
+import { NetworkControllerManager, NoActiveControllerError } from './networkControllerManager';
+import { MonitoringService } from './monitoringService';
+import { NetworkMetrics, NetworkMetricsSample } from '../models/networkMetrics';
+import { UsageSample } from '../models/usageSample';
+import { AlertEngine, AlertObservation } from './alertEngine';
+
+// Periodically samples the network controllers and persists the results in
+// the network_metrics and usage_samples time-series collections
+export class MetricsCollector {
+  private collectionInterval: NodeJS.Timeout | null = null;
+
+  // The monitoring service should be dedicated to the collector so rates are
+  // computed over the collection interval rather than between API requests
+  constructor(
+    private readonly manager: NetworkControllerManager,
+    private readonly monitoringService: MonitoringService,
+    private readonly interval: number = 60000,
+    private readonly alertEngine: AlertEngine | null = null
+  ) {}
+
+  start() {
+    if (this.collectionInterval) {
+      clearInterval(this.collectionInterval);
+    }
+
+    this.collectionInterval = setInterval(async () => {
+      try {
+        await this.collect();
+      } catch (error) {
+        if (error instanceof NoActiveControllerError) {
+          console.warn('Skipping metrics collection:', error.message);
+        } else {
+          console.error('Metrics collection failed:', error);
+        }
+        await this.evaluateAlerts(null);
+      }
+    }, this.interval);
+  }
+
+  stop() {
+    if (this.collectionInterval) {
+      clearInterval(this.collectionInterval);
+      this.collectionInterval = null;
+    }
+  }
+
+  async collect(): Promise<NetworkMetrics> {
+    const { data, stats, devices, departments, applications } = await this.monitoringService.collectSnapshot();
+
+    const sample: NetworkMetrics = {
+      timestamp: stats.timestamp,
+      source: this.manager.getActiveControllerType(),
+      latency: data.networkStatus.latency,
+      packetLoss: data.networkStatus.packetLoss,
+      status: data.networkStatus.status,
+      download: data.bandwidth.download,
+      upload: data.bandwidth.upload,
+      bytesIn: stats.bytesIn,
+      bytesOut: stats.bytesOut,
+      packetsIn: stats.packetsIn,
+      packetsOut: stats.packetsOut,
+      activeConnections: stats.activeConnections
+    };
+
+    await NetworkMetricsSample.create(sample);
+
+    const totalBytes = applications.reduce((total, application) => total + application.bytes, 0);
+    const usageSamples = [
+      ...departments.map(department => ({
+        timestamp: stats.timestamp,
+        meta: { kind: 'department', key: department.id },
+        bytes: department.bytes,
+        bandwidth: department.bandwidth,
+        usage: department.usage
+      })),
+      ...applications.map(application => ({
+        timestamp: stats.timestamp,
+        meta: { kind: 'application', key: application.id },
+        bytes: application.bytes,
+        bandwidth: application.bandwidth,
+        usage: totalBytes > 0 ? (application.bytes / totalBytes) * 100 : 0
+      }))
+    ];
+
+    if (usageSamples.length > 0) {
+      await UsageSample.insertMany(usageSamples);
+    }
+
+    await this.evaluateAlerts({ metrics: sample, devices });
+    return sample;
+  }
+
+  // Alert evaluation failures must not stop collection
+  private async evaluateAlerts(observation: AlertObservation | null) {
+    if (!this.alertEngine) {
+      return;
+    }
+
+    try {
+      await this.alertEngine.evaluate(observation);
+    } catch (error) {
+      console.error('Alert evaluation failed:', error);
+    }
+  }
+}
@@ -0,0 +1,168 @@
+import { NetworkMetrics, NetworkMetricsSample } from '../models/networkMetrics';
+import { MetricsRollup, NetworkMetricsRollup } from '../models/networkMetricsRollup';
+import { MetricsBucket, RetentionTier, RollupField, RollupStats } from '../types/monitoring';
+
+export const ROLLUP_FIELDS: RollupField[] = ['latency', 'packetLoss', 'download', 'upload', 'activeConnections'];
+
+// Upper bound on the number of buckets a single history query may produce
+export const MAX_BUCKETS = 5000;
+
+const BUCKET_UNITS: { [unit: string]: number } = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+};
+
+// Parses durations such as "30s", "5m", "1h" or "1d" into milliseconds
+export function parseDuration(value: string): number | null {
+  const match = /^(\d+)([smhd])$/.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const amount = parseInt(match[1], 10);
+  return amount > 0 ? amount * BUCKET_UNITS[match[2]] : null;
+}
+
+// Nearest-rank percentile of an ascending sorted list
+function percentile(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(0, rank - 1)];
+}
+
+export function summarize(values: number[]): RollupStats {
+  if (values.length === 0) {
+    return { min: 0, avg: 0, max: 0, p95: 0 };
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const sum = sorted.reduce((total, value) => total + value, 0);
+
+  return {
+    min: sorted[0],
+    avg: sum / sorted.length,
+    max: sorted[sorted.length - 1],
+    p95: percentile(sorted, 95)
+  };
+}
+
+// Groups samples into fixed-size buckets aligned to the epoch and computes
+// min/avg/max/p95 for every rolled up field
+export function rollupSamples(samples: NetworkMetrics[], bucketMs: number): MetricsBucket[] {
+  const groups = new Map<number, NetworkMetrics[]>();
+
+  for (const sample of samples) {
+    const bucketStart = Math.floor(sample.timestamp.getTime() / bucketMs) * bucketMs;
+    const group = groups.get(bucketStart);
+    if (group) {
+      group.push(sample);
+    } else {
+      groups.set(bucketStart, [sample]);
+    }
+  }
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([bucketStart, group]) => {
+      const bucket = {
+        timestamp: new Date(bucketStart),
+        count: group.length
+      } as MetricsBucket;
+
+      for (const field of ROLLUP_FIELDS) {
+        bucket[field] = summarize(group.map(sample => sample[field]));
+      }
+
+      return bucket;
+    });
+}
+
+// Raw samples in [start, end), oldest first. This is also the history the
+// MLService implementations consume.
+export async function getMetricsHistory(start: Date, end: Date): Promise<NetworkMetrics[]> {
+  return NetworkMetricsSample
+    .find({ timestamp: { $gte: start, $lt: end } })
+    .sort({ timestamp: 1 })
+    .lean<NetworkMetrics[]>();
+}
+
+export async function getMetricsRollup(start: Date, end: Date, bucketMs: number): Promise<MetricsBucket[]> {
+  const samples = await getMetricsHistory(start, end);
+  return rollupSamples(samples, bucketMs);
+}
+
+// Combines stored rollups into coarser buckets. min, max and avg are exact;
+// the merged p95 is the largest contributing p95, which is an upper bound.
+export function mergeRollups(rollups: MetricsBucket[], bucketMs: number): MetricsBucket[] {
+  const groups = new Map<number, MetricsBucket[]>();
+
+  for (const rollup of rollups) {
+    const bucketStart = Math.floor(rollup.timestamp.getTime() / bucketMs) * bucketMs;
+    const group = groups.get(bucketStart);
+    if (group) {
+      group.push(rollup);
+    } else {
+      groups.set(bucketStart, [rollup]);
+    }
+  }
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([bucketStart, group]) => {
+      const count = group.reduce((total, rollup) => total + rollup.count, 0);
+      const bucket = {
+        timestamp: new Date(bucketStart),
+        count
+      } as MetricsBucket;
+
+      for (const field of ROLLUP_FIELDS) {
+        const stats = group.map(rollup => rollup[field]);
+        bucket[field] = {
+          min: Math.min(...stats.map(stat => stat.min)),
+          avg: count > 0
+            ? group.reduce((total, rollup) => total + rollup[field].avg * rollup.count, 0) / count
+            : 0,
+          max: Math.max(...stats.map(stat => stat.max)),
+          p95: Math.max(...stats.map(stat => stat.p95))
+        };
+      }
+
+      return bucket;
+    });
+}
+
+export interface MetricsHistoryResult {
+  tier: string;
+  bucketMs: number | null;
+  samples?: NetworkMetrics[];
+  buckets?: MetricsBucket[];
+}
+
+// Reads history from raw samples when tier is null, otherwise from the given
+// rollup tier. Buckets finer than the tier resolution are widened to it.
+export async function queryMetricsHistory(
+  start: Date,
+  end: Date,
+  bucketMs: number | null,
+  tier: RetentionTier | null
+): Promise<MetricsHistoryResult> {
+  if (!tier) {
+    if (!bucketMs) {
+      return { tier: 'raw', bucketMs: null, samples: await getMetricsHistory(start, end) };
+    }
+    return { tier: 'raw', bucketMs, buckets: await getMetricsRollup(start, end, bucketMs) };
+  }
+
+  const effectiveBucketMs = Math.max(bucketMs || 0, tier.resolutionMs);
+  const rollups = await NetworkMetricsRollup
+    .find({ tier: tier.name, timestamp: { $gte: start, $lt: end } }, { _id: 0, tier: 0 })
+    .sort({ timestamp: 1 })
+    .lean<MetricsRollup[]>();
+
+  const buckets = effectiveBucketMs === tier.resolutionMs
+    ? rollups
+    : mergeRollups(rollups, effectiveBucketMs);
+
+  return { tier: tier.name, bucketMs: effectiveBucketMs, buckets };
+}
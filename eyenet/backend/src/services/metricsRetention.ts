@@ -0,0 +1,153 @@
+import { NetworkMetrics, NetworkMetricsSample } from '../models/networkMetrics';
+import { NetworkMetricsRollup } from '../models/networkMetricsRollup';
+import { RetentionTier } from '../types/monitoring';
+import { getMetricsRollup, parseDuration } from './metricsHistory';
+
+export interface RetentionPolicy {
+  rawRetentionMs: number;
+  // Rollup tiers ordered from finest to coarsest resolution
+  tiers: RetentionTier[];
+}
+
+const DEFAULT_RAW_RETENTION = '7d';
+const DEFAULT_ROLLUP_TIERS = '5m:90d,1h:730d';
+
+// Reads the retention policy from the environment. METRICS_ROLLUP_TIERS is a
+// comma separated list of resolution:retention pairs, e.g. "5m:90d,1h:730d".
+export function loadRetentionPolicy(env: NodeJS.ProcessEnv = process.env): RetentionPolicy {
+  const rawRetention = env.METRICS_RAW_RETENTION || DEFAULT_RAW_RETENTION;
+  const rawRetentionMs = parseDuration(rawRetention);
+  if (!rawRetentionMs) {
+    throw new Error(`Invalid METRICS_RAW_RETENTION: ${rawRetention}`);
+  }
+
+  const tiers = (env.METRICS_ROLLUP_TIERS || DEFAULT_ROLLUP_TIERS)
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(entry => {
+      const [resolution, retention] = entry.split(':');
+      const resolutionMs = parseDuration(resolution || '');
+      const retentionMs = parseDuration(retention || '');
+      if (!resolutionMs || !retentionMs) {
+        throw new Error(`Invalid METRICS_ROLLUP_TIERS entry: ${entry}`);
+      }
+      return { name: resolution, resolutionMs, retentionMs };
+    })
+    .sort((a, b) => a.resolutionMs - b.resolutionMs);
+
+  return { rawRetentionMs, tiers };
+}
+
+// Picks the finest storage tier that still holds data for the start of the
+// requested range. Returns null for raw samples.
+export function selectTier(policy: RetentionPolicy, start: Date, now: Date = new Date()): RetentionTier | null {
+  const age = now.getTime() - start.getTime();
+  if (age <= policy.rawRetentionMs || policy.tiers.length === 0) {
+    return null;
+  }
+
+  return policy.tiers.find(tier => age <= tier.retentionMs) || policy.tiers[policy.tiers.length - 1];
+}
+
+// Compacts raw samples into the rollup tiers and deletes data that has
+// outlived its tier's retention. Raw samples live in a time-series
+// collection, where deletes filtering on the time field need MongoDB 7, so
+// they expire through the collection's expireAfterSeconds instead.
+export class MetricsRetentionJob {
+  private retentionInterval: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly policy: RetentionPolicy,
+    private readonly interval: number = 5 * 60 * 1000
+  ) {}
+
+  start() {
+    if (this.retentionInterval) {
+      clearInterval(this.retentionInterval);
+    }
+
+    this.applyRawRetention().catch(error => console.error('Failed to set raw metrics retention:', error));
+
+    this.retentionInterval = setInterval(async () => {
+      try {
+        await this.run();
+      } catch (error) {
+        console.error('Metrics retention job failed:', error);
+      }
+    }, this.interval);
+  }
+
+  stop() {
+    if (this.retentionInterval) {
+      clearInterval(this.retentionInterval);
+      this.retentionInterval = null;
+    }
+  }
+
+  // Sets the expiry of the raw samples collection to the raw retention,
+  // creating the collection first when no sample has been stored yet
+  async applyRawRetention(): Promise<void> {
+    await NetworkMetricsSample.createCollection();
+    await NetworkMetricsSample.db.db!.command({
+      collMod: NetworkMetricsSample.collection.collectionName,
+      expireAfterSeconds: Math.ceil(this.policy.rawRetentionMs / 1000)
+    });
+  }
+
+  async run(now: Date = new Date()): Promise<void> {
+    for (const tier of this.policy.tiers) {
+      await this.compact(tier, now);
+    }
+    await this.expire(now);
+  }
+
+  private async compact(tier: RetentionTier, now: Date): Promise<void> {
+    const latest = await NetworkMetricsRollup
+      .findOne({ tier: tier.name })
+      .sort({ timestamp: -1 })
+      .lean();
+
+    let from: number;
+    if (latest) {
+      from = latest.timestamp.getTime() + tier.resolutionMs;
+    } else {
+      const oldest = await NetworkMetricsSample
+        .findOne()
+        .sort({ timestamp: 1 })
+        .lean<NetworkMetrics>();
+      if (!oldest) {
+        return;
+      }
+      from = Math.floor(oldest.timestamp.getTime() / tier.resolutionMs) * tier.resolutionMs;
+    }
+
+    // Only buckets that have fully closed are compacted
+    const to = Math.floor(now.getTime() / tier.resolutionMs) * tier.resolutionMs;
+    if (from >= to) {
+      return;
+    }
+
+    const buckets = await getMetricsRollup(new Date(from), new Date(to), tier.resolutionMs);
+    if (buckets.length === 0) {
+      return;
+    }
+
+    await NetworkMetricsRollup.bulkWrite(buckets.map(bucket => ({
+      updateOne: {
+        filter: { tier: tier.name, timestamp: bucket.timestamp },
+        update: { $set: { ...bucket, tier: tier.name } },
+        upsert: true
+      }
+    })));
+  }
+
+  private async expire(now: Date): Promise<void> {
+    for (const tier of this.policy.tiers) {
+      await NetworkMetricsRollup.deleteMany({
+        tier: tier.name,
+        timestamp: { $lt: new Date(now.getTime() - tier.retentionMs) }
+      });
+    }
+  }
+}
@@ -0,0 +1,199 @@
+import {
+  ControllerFailure,
+  NetworkController,
+  NetworkDevice,
+  NetworkFlow,
+  NetworkStats
+} from '../interfaces/networkController';
+import {
+  BandwidthData,
+  FlowDelta,
+  MonitoringData,
+  NetworkMetrics
+} from '../types/monitoring';
+import { DepartmentDefinition, DepartmentUsageDetail, attributeDepartmentUsage, loadDepartments } from './departmentUsage';
+import { ApplicationUsageDetail, attributeApplicationUsage } from './applicationUsage';
+import { TrafficClassifier } from './trafficClassifier';
+import { toMbps } from '../utils/units';
+import { AggregateResult, NetworkControllerManager } from './networkControllerManager';
+
+// Number of previous snapshots an application's trend is measured against
+const TREND_WINDOW = 5;
+
+export interface MonitoringSnapshot {
+  data: MonitoringData;
+  stats: NetworkStats;
+  devices: NetworkDevice[];
+  flows: NetworkFlow[];
+  departments: DepartmentUsageDetail[];
+  applications: ApplicationUsageDetail[];
+  // Controllers that failed in aggregate mode, once each
+  failures: ControllerFailure[];
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Turns raw controller data into the MonitoringData shape consumed by the
+// dashboard. Controllers report cumulative counters, so rates are derived from
+// the difference between consecutive snapshots.
+export class MonitoringService {
+  private lastStats: NetworkStats | null = null;
+  private lastFlowBytes = new Map<string, number>();
+  private recentApplicationBandwidth = new Map<string, number[]>();
+
+  constructor(
+    private readonly controller: NetworkController,
+    private readonly departmentLoader: () => Promise<DepartmentDefinition[]> = loadDepartments,
+    private readonly classifier: TrafficClassifier = new TrafficClassifier()
+  ) {}
+
+  async collect(): Promise<MonitoringData> {
+    const snapshot = await this.collectSnapshot();
+    return snapshot.data;
+  }
+
+  // Same as collect(), but also returns the raw controller data the metrics
+  // were derived from
+  async collectSnapshot(): Promise<MonitoringSnapshot> {
+    const requestStart = Date.now();
+    const statsResult = await this.fetch(manager => manager.collectStats(), controller => controller.getStats());
+    const stats = statsResult.data;
+    const latency = Date.now() - requestStart;
+
+    const [devicesResult, flowsResult, departmentDefinitions] = await Promise.all([
+      this.fetch(manager => manager.collectDevices(), controller => controller.getDevices()),
+      this.fetch(manager => manager.collectFlows(), controller => controller.getFlows()),
+      this.departmentLoader()
+    ]);
+    const devices = devicesResult.data;
+    const flows = flowsResult.data;
+
+    const failures = new Map<string, ControllerFailure>();
+    for (const failure of [...statsResult.failures, ...devicesResult.failures, ...flowsResult.failures]) {
+      if (!failures.has(failure.source)) {
+        failures.set(failure.source, failure);
+      }
+    }
+
+    const previousStats = this.lastStats;
+    const elapsedSeconds = previousStats
+      ? (stats.timestamp.getTime() - previousStats.timestamp.getTime()) / 1000
+      : 0;
+    const flowDeltas = this.computeFlowDeltas(flows);
+    const departments = attributeDepartmentUsage(departmentDefinitions, devices, flowDeltas, elapsedSeconds);
+    const applications = attributeApplicationUsage(
+      this.classifier,
+      flowDeltas,
+      elapsedSeconds,
+      this.recentApplicationBandwidth
+    );
+    this.recordApplicationBandwidth(applications, previousStats !== null);
+
+    const data: MonitoringData = {
+      networkStatus: this.buildNetworkMetrics(devices, latency),
+      bandwidth: this.buildBandwidth(stats, previousStats, elapsedSeconds),
+      departments: departments.map(({ id, name, usage, bandwidth }) => ({ id, name, usage, bandwidth })),
+      applications: applications.map(({ id, name, type, bandwidth, status, trend }) => ({
+        id,
+        name,
+        type,
+        bandwidth,
+        status,
+        trend
+      }))
+    };
+
+    if (failures.size > 0) {
+      data.failures = Array.from(failures.values());
+    }
+
+    this.lastStats = stats;
+    return { data, stats, devices, flows, departments, applications, failures: Array.from(failures.values()) };
+  }
+
+  // A manager in aggregate mode also reports the controllers that failed,
+  // so partial data is not passed off as complete
+  private async fetch<T>(
+    aggregate: (manager: NetworkControllerManager) => Promise<AggregateResult<T>>,
+    single: (controller: NetworkController) => Promise<T>
+  ): Promise<{ data: T; failures: ControllerFailure[] }> {
+    const controller = this.controller;
+    if (controller instanceof NetworkControllerManager && controller.getMode() === 'aggregate') {
+      return aggregate(controller);
+    }
+    return { data: await single(controller), failures: [] };
+  }
+
+  private buildNetworkMetrics(devices: NetworkDevice[], latency: number): NetworkMetrics {
+    const online = devices.filter(device => device.status === 'online').length;
+
+    let status: NetworkMetrics['status'] = 'online';
+    if (devices.length > 0 && online === 0) {
+      status = 'offline';
+    } else if (online < devices.length) {
+      status = 'degraded';
+    }
+
+    // Gateways monitored by the controller measure the path out of the
+    // network. Without them the round trip of the controller statistics
+    // request stands in for the latency, and no loss is known. A gateway
+    // that is down still counts towards the loss.
+    const gateways = devices.filter(device => device.status === 'online' && device.latency !== undefined);
+    const lossReports = devices.filter(device => device.packetLoss !== undefined);
+
+    return {
+      // In milliseconds
+      latency: gateways.length > 0 ? average(gateways.map(device => device.latency!)) : latency,
+      // In percent
+      packetLoss: lossReports.length > 0 ? average(lossReports.map(device => device.packetLoss!)) : 0,
+      status
+    };
+  }
+
+  private buildBandwidth(
+    stats: NetworkStats,
+    previousStats: NetworkStats | null,
+    elapsedSeconds: number
+  ): BandwidthData {
+    return {
+      download: previousStats ? toMbps(stats.bytesIn - previousStats.bytesIn, elapsedSeconds) : 0,
+      upload: previousStats ? toMbps(stats.bytesOut - previousStats.bytesOut, elapsedSeconds) : 0,
+      timestamp: stats.timestamp.toISOString()
+    };
+  }
+
+  // Keeps the last TREND_WINDOW bandwidth samples per application. The first
+  // snapshot has no interval to measure over and is not recorded.
+  private recordApplicationBandwidth(applications: ApplicationUsageDetail[], hasInterval: boolean) {
+    if (!hasInterval) {
+      return;
+    }
+
+    const recent = new Map<string, number[]>();
+    for (const application of applications) {
+      const history = this.recentApplicationBandwidth.get(application.id) || [];
+      recent.set(application.id, [...history, application.bandwidth].slice(-TREND_WINDOW));
+    }
+    this.recentApplicationBandwidth = recent;
+  }
+
+  // Bytes transferred per flow since the previous snapshot. New flows and
+  // flows whose counters went backwards count from zero.
+  private computeFlowDeltas(flows: NetworkFlow[]): FlowDelta[] {
+    const currentBytes = new Map<string, number>();
+
+    const deltas = flows.map(flow => {
+      const previous = this.lastFlowBytes.get(flow.id);
+      const bytes = previous !== undefined && flow.bytesTransferred >= previous
+        ? flow.bytesTransferred - previous
+        : flow.bytesTransferred;
+      currentBytes.set(flow.id, flow.bytesTransferred);
+      return { flow, bytes };
+    });
+
+    this.lastFlowBytes = currentBytes;
+    return deltas;
+  }
+}
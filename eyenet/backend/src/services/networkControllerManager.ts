@@ -1,91 +1,460 @@
-import { NetworkController, NetworkDevice, NetworkFlow, NetworkStats, QoSPolicy } from '../interfaces/networkController';
+import { EventEmitter } from 'events';
+import {
+  ControllerFailure,
+  ControllerType,
+  DeviceStatusEvent,
+  InterfaceStats,
+  NetworkController,
+  NetworkDevice,
+  NetworkFlow,
+  NetworkStats,
+  QoSPolicy,
+  supportsInterfaceStats
+} from '../interfaces/networkController';
 import { OpenDaylightController } from './controllers/openDaylightController';
 import { PfSenseController } from './controllers/pfSenseController';
 import { MikroTikController } from './controllers/mikroTikController';
+import { SnmpController } from './controllers/snmpController';
+import { FlowCollectorController } from './controllers/flowCollectorController';
+import { normalizeMacAddress } from '../utils/mac';
+import { normalizeIpAddress } from '../utils/ip';
 
-export class NetworkControllerManager implements NetworkController {
+export class NoActiveControllerError extends Error {
+  constructor(message = 'No active controller available') {
+    super(message);
+    this.name = 'NoActiveControllerError';
+  }
+}
+
+// In failover mode one healthy controller serves every call; in aggregate
+// mode calls fan out to all healthy controllers and the results are merged
+export type ControllerMode = 'failover' | 'aggregate';
+
+export interface AggregateResult<T> {
+  data: T;
+  // Controllers that answered, in priority order
+  sources: string[];
+  failures: ControllerFailure[];
+}
+
+// Controllers with a lower priority value are preferred; between equal
+// priorities the higher weight wins, then the configuration order
+export interface ControllerPreference {
+  priority?: number;
+  weight?: number;
+}
+
+// Emitted as 'failover' whenever the active controller changes
+export interface FailoverEvent {
+  from: string | null;
+  to: string | null;
+  reason: string;
+  timestamp: Date;
+}
+
+interface ControllerHealth {
+  consecutiveFailures: number;
+  consecutiveSuccesses: number;
+}
+
+const DEFAULT_PRIORITY = 100;
+const DEFAULT_WEIGHT = 1;
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_RECOVERY_THRESHOLD = 3;
+// Number of failover events kept for the controller status API
+const FAILOVER_HISTORY_LIMIT = 50;
+
+export type OpenDaylightConfig = ConstructorParameters<typeof OpenDaylightController>[0];
+export type PfSenseConfig = ConstructorParameters<typeof PfSenseController>[0];
+export type MikroTikConfig = ConstructorParameters<typeof MikroTikController>[0];
+export type SnmpConfig = ConstructorParameters<typeof SnmpController>[0];
+export type FlowCollectorConfig = NonNullable<ConstructorParameters<typeof FlowCollectorController>[0]>;
+
+// A controller instance. The name identifies it in logs, failover events
+// and device sources, so several controllers of one type can coexist.
+export type ControllerEntry = ControllerPreference & { name: string } & (
+  | { type: 'openDaylight'; config: OpenDaylightConfig }
+  | { type: 'pfSense'; config: PfSenseConfig }
+  | { type: 'mikroTik'; config: MikroTikConfig }
+  | { type: 'snmp'; config: SnmpConfig }
+  | { type: 'flowCollector'; config: FlowCollectorConfig }
+);
+
+export function createController(entry: ControllerEntry): NetworkController {
+  switch (entry.type) {
+    case 'openDaylight':
+      return new OpenDaylightController(entry.config);
+    case 'pfSense':
+      return new PfSenseController(entry.config);
+    case 'mikroTik':
+      return new MikroTikController(entry.config);
+    case 'snmp':
+      return new SnmpController(entry.config);
+    case 'flowCollector':
+      return new FlowCollectorController(entry.config);
+  }
+}
+
+// Entries with the same key can reuse a running controller
+function entryKey({ name, type, config }: ControllerEntry): string {
+  return JSON.stringify({ name, type, config });
+}
+
+function comparePreference(a: ControllerPreference, b: ControllerPreference): number {
+  return (a.priority ?? DEFAULT_PRIORITY) - (b.priority ?? DEFAULT_PRIORITY) ||
+    (b.weight ?? DEFAULT_WEIGHT) - (a.weight ?? DEFAULT_WEIGHT);
+}
+
+function flowKey(flow: NetworkFlow): string {
+  return [
+    flow.protocol.toLowerCase(),
+    normalizeIpAddress(flow.sourceIp),
+    flow.sourcePort,
+    normalizeIpAddress(flow.destinationIp),
+    flow.destinationPort
+  ].join('|');
+}
+
+export class NetworkControllerManager extends EventEmitter implements NetworkController {
+  // Sorted by preference, most preferred first
   private controllers: NetworkController[] = [];
+  private entries = new Map<NetworkController, ControllerEntry>();
+  // Controllers from the constructor config, kept across setControllers
+  private staticEntries: ControllerEntry[] = [];
   private activeController: NetworkController | null = null;
   private failoverInterval: NodeJS.Timeout | null = null;
+  private health = new Map<NetworkController, ControllerHealth>();
+  private failoverEvents: FailoverEvent[] = [];
+  // Aggregate mode state
+  private healthyControllers = new Set<NetworkController>();
+  private lastErrors = new Map<NetworkController, string>();
+  private lastStats = new Map<NetworkController, NetworkStats>();
+  private deviceOwners = new Map<string, NetworkController>();
 
   constructor(
     private readonly config: {
-      openDaylight?: {
-        host: string;
-        port: number;
-        username: string;
-        password: string;
-      };
-      pfSense?: {
-        host: string;
-        apiKey: string;
-        apiSecret: string;
-        verifySsl?: boolean;
-      };
-      mikroTik?: {
+      openDaylight?: ControllerPreference & {
         host: string;
         port: number;
         username: string;
         password: string;
       };
+      pfSense?: ControllerPreference & PfSenseConfig;
+      mikroTik?: ControllerPreference & MikroTikConfig;
+      snmp?: ControllerPreference & SnmpConfig;
+      flowCollector?: ControllerPreference & FlowCollectorConfig;
       failoverCheckInterval?: number;
+      // Consecutive failed health checks before failing over
+      failureThreshold?: number;
+      // Consecutive successful health checks before failing back
+      recoveryThreshold?: number;
+      mode?: ControllerMode;
     }
   ) {
+    super();
     this.initializeControllers();
     this.startFailoverCheck();
   }
 
+  // Controllers configured through the constructor are named after their class
   private initializeControllers() {
-    if (this.config.openDaylight) {
-      this.controllers.push(new OpenDaylightController(this.config.openDaylight));
+    const { openDaylight, pfSense, mikroTik, snmp, flowCollector } = this.config;
+    if (openDaylight) {
+      this.staticEntries.push({
+        name: 'OpenDaylightController',
+        type: 'openDaylight',
+        config: openDaylight,
+        priority: openDaylight.priority,
+        weight: openDaylight.weight
+      });
+    }
+    if (pfSense) {
+      this.staticEntries.push({
+        name: 'PfSenseController',
+        type: 'pfSense',
+        config: pfSense,
+        priority: pfSense.priority,
+        weight: pfSense.weight
+      });
+    }
+    if (mikroTik) {
+      this.staticEntries.push({
+        name: 'MikroTikController',
+        type: 'mikroTik',
+        config: mikroTik,
+        priority: mikroTik.priority,
+        weight: mikroTik.weight
+      });
     }
-    if (this.config.pfSense) {
-      this.controllers.push(new PfSenseController(this.config.pfSense));
+    if (snmp) {
+      this.staticEntries.push({
+        name: 'SnmpController',
+        type: 'snmp',
+        config: snmp,
+        priority: snmp.priority,
+        weight: snmp.weight
+      });
     }
-    if (this.config.mikroTik) {
-      this.controllers.push(new MikroTikController(this.config.mikroTik));
+    if (flowCollector) {
+      this.staticEntries.push({
+        name: 'FlowCollectorController',
+        type: 'flowCollector',
+        config: flowCollector,
+        priority: flowCollector.priority,
+        weight: flowCollector.weight
+      });
     }
+
+    this.staticEntries.forEach(entry => this.addController(entry));
+    this.sortControllers();
+  }
+
+  private addController(entry: ControllerEntry): NetworkController {
+    const controller = createController(entry);
+    this.controllers.push(controller);
+    this.entries.set(controller, entry);
+    this.health.set(controller, { consecutiveFailures: 0, consecutiveSuccesses: 0 });
+    // Device status changes are passed on with the controller that saw them
+    if (controller instanceof EventEmitter) {
+      controller.on('deviceStatus', (event: DeviceStatusEvent) => {
+        if (this.entries.has(controller)) {
+          this.emit('deviceStatus', { ...event, source: this.nameOf(controller) });
+        }
+      });
+    }
+    return controller;
+  }
+
+  // Array.prototype.sort is stable, so ties keep the configuration order
+  private sortControllers() {
+    this.controllers.sort((a, b) => comparePreference(this.entries.get(a)!, this.entries.get(b)!));
+  }
+
+  private nameOf(controller: NetworkController): string {
+    return this.entries.get(controller)!.name;
+  }
+
+  // Replaces the controllers added at runtime; those from the constructor
+  // config stay. Unchanged controllers keep their connection and health
+  // state, new ones are connected and removed ones disconnected.
+  async setControllers(entries: ControllerEntry[]): Promise<void> {
+    const running = new Map<string, NetworkController>();
+    this.entries.forEach((entry, controller) => running.set(entryKey(entry), controller));
+
+    const kept = new Set<NetworkController>();
+    const added: NetworkController[] = [];
+    for (const entry of [...this.staticEntries, ...entries]) {
+      const existing = running.get(entryKey(entry));
+      if (existing && !kept.has(existing)) {
+        // Only the preference may have changed
+        this.entries.set(existing, entry);
+        kept.add(existing);
+      } else {
+        added.push(this.addController(entry));
+      }
+    }
+    const removed = this.controllers.filter(controller => !kept.has(controller) && !added.includes(controller));
+    this.controllers = this.controllers.filter(controller => !removed.includes(controller));
+    this.sortControllers();
+
+    await Promise.all(added.map(async controller => {
+      try {
+        await controller.connect();
+      } catch (error) {
+        console.error(`Failed to connect to controller ${this.nameOf(controller)}:`, (error as Error).message);
+        this.lastErrors.set(controller, (error as Error).message);
+      }
+    }));
+
+    if (this.isAggregate()) {
+      await this.refreshHealth(true);
+    } else if (!this.activeController || removed.includes(this.activeController)) {
+      const reason = this.activeController
+        ? `${this.nameOf(this.activeController)} was removed`
+        : 'Controllers changed';
+      try {
+        await this.selectActiveController(reason);
+      } catch (error) {
+        if (!(error instanceof NoActiveControllerError)) {
+          throw error;
+        }
+        console.warn('No healthy controller after reload');
+      }
+    }
+
+    for (const controller of removed) {
+      this.entries.delete(controller);
+      this.health.delete(controller);
+      this.healthyControllers.delete(controller);
+      this.lastErrors.delete(controller);
+      this.lastStats.delete(controller);
+      this.deviceOwners.forEach((owner, deviceId) => {
+        if (owner === controller) {
+          this.deviceOwners.delete(deviceId);
+        }
+      });
+      if (controller instanceof EventEmitter) {
+        controller.removeAllListeners('deviceStatus');
+      }
+      try {
+        await controller.disconnect();
+      } catch (error) {
+        console.error('Error disconnecting controller:', error);
+      }
+    }
+  }
+
+  private get failureThreshold(): number {
+    return this.config.failureThreshold || DEFAULT_FAILURE_THRESHOLD;
+  }
+
+  private get recoveryThreshold(): number {
+    return this.config.recoveryThreshold || DEFAULT_RECOVERY_THRESHOLD;
   }
 
   private startFailoverCheck() {
     const interval = this.config.failoverCheckInterval || 30000; // Default 30 seconds
     this.failoverInterval = setInterval(async () => {
-      await this.checkAndFailover();
+      try {
+        if (this.isAggregate()) {
+          await this.refreshHealth();
+        } else {
+          await this.checkAndFailover();
+        }
+      } catch (error) {
+        console.error('Failover check failed:', error);
+      }
     }, interval);
   }
 
+  // Fails over once the active controller failed failureThreshold checks in
+  // a row, and fails back to a preferred controller once it passed
+  // recoveryThreshold checks in a row. Controllers preferred over the active
+  // one are checked too, so their recovery is noticed. Every controller is
+  // checked at most once per tick so the thresholds count ticks.
   private async checkAndFailover() {
     if (!this.activeController) {
-      await this.selectActiveController();
+      await this.selectActiveController('No active controller');
       return;
     }
 
-    try {
-      const isHealthy = await this.activeController.healthCheck();
-      if (!isHealthy) {
-        console.log('Active controller is unhealthy, initiating failover...');
-        await this.selectActiveController();
+    const active = this.activeController;
+    const preferred = this.controllers.slice(0, this.controllers.indexOf(active));
+    const checked = new Map<NetworkController, boolean>();
+    await Promise.all([...preferred, active].map(async controller => {
+      checked.set(controller, await this.probe(controller));
+    }));
+
+    const { consecutiveFailures } = this.health.get(active)!;
+    if (consecutiveFailures >= this.failureThreshold) {
+      await this.selectActiveController(
+        `${this.nameOf(active)} failed ${consecutiveFailures} consecutive health checks`,
+        checked,
+        active
+      );
+      return;
+    }
+
+    const recovered = preferred.find(controller =>
+      this.health.get(controller)!.consecutiveSuccesses >= this.recoveryThreshold
+    );
+    if (recovered) {
+      const { consecutiveSuccesses } = this.health.get(recovered)!;
+      this.setActiveController(
+        recovered,
+        `${this.nameOf(recovered)} recovered after ${consecutiveSuccesses} consecutive successful health checks`
+      );
+    }
+  }
+
+  // Selects the most preferred healthy controller, skipping the one that is
+  // being failed over from. Controllers already checked this tick are judged
+  // by that result instead of being checked again.
+  private async selectActiveController(
+    reason: string,
+    checked = new Map<NetworkController, boolean>(),
+    exclude?: NetworkController
+  ) {
+    for (const controller of this.controllers) {
+      if (controller === exclude) {
+        continue;
+      }
+      const isHealthy = checked.has(controller) ? checked.get(controller)! : await this.probe(controller);
+      if (isHealthy) {
+        this.setActiveController(controller, reason);
+        return;
       }
+    }
+    this.setActiveController(null, reason);
+    throw new NoActiveControllerError('No healthy controllers available');
+  }
+
+  private setActiveController(controller: NetworkController | null, reason: string) {
+    if (controller === this.activeController) {
+      return;
+    }
+
+    const event: FailoverEvent = {
+      from: this.activeController ? this.nameOf(this.activeController) : null,
+      to: controller ? this.nameOf(controller) : null,
+      reason,
+      timestamp: new Date()
+    };
+    this.activeController = controller;
+
+    this.failoverEvents.push(event);
+    if (this.failoverEvents.length > FAILOVER_HISTORY_LIMIT) {
+      this.failoverEvents.shift();
+    }
+    this.emit('failover', event);
+  }
+
+  // Runs a health check and updates the consecutive failure and success counts
+  private async probe(controller: NetworkController): Promise<boolean> {
+    let isHealthy = false;
+    try {
+      isHealthy = await controller.healthCheck();
     } catch (error) {
-      console.error('Error during health check:', error);
-      await this.selectActiveController();
+      console.error('Error checking controller health:', error);
+      this.lastErrors.set(controller, (error as Error).message);
     }
+
+    const health = this.health.get(controller)!;
+    if (isHealthy) {
+      health.consecutiveSuccesses++;
+      health.consecutiveFailures = 0;
+    } else {
+      health.consecutiveFailures++;
+      health.consecutiveSuccesses = 0;
+    }
+    return isHealthy;
   }
 
-  private async selectActiveController() {
-    for (const controller of this.controllers) {
-      try {
-        const isHealthy = await controller.healthCheck();
-        if (isHealthy) {
-          this.activeController = controller;
-          console.log('Selected new active controller:', controller.constructor.name);
-          return;
+  // Health checks every controller in parallel. The same thresholds as in
+  // failover mode decide when a controller leaves or rejoins the healthy
+  // set, except on connect where a single successful check is enough.
+  private async refreshHealth(initial = false) {
+    await Promise.all(this.controllers.map(async controller => {
+      const isHealthy = await this.probe(controller);
+      const health = this.health.get(controller)!;
+
+      if (!this.healthyControllers.has(controller)) {
+        if (initial ? isHealthy : health.consecutiveSuccesses >= this.recoveryThreshold) {
+          this.healthyControllers.add(controller);
         }
-      } catch (error) {
-        console.error('Error checking controller health:', error);
+      } else if (health.consecutiveFailures >= this.failureThreshold) {
+        console.warn('Controller is unhealthy:', this.nameOf(controller));
+        this.healthyControllers.delete(controller);
       }
-    }
-    throw new Error('No healthy controllers available');
+    }));
+  }
+
+  getMode(): ControllerMode {
+    return this.config.mode || 'failover';
+  }
+
+  private isAggregate(): boolean {
+    return this.getMode() === 'aggregate';
   }
 
   async connect(): Promise<void> {
@@ -99,7 +468,15 @@ export class NetworkControllerManager implements NetworkController {
       }
     }
 
-    await this.selectActiveController();
+    if (this.isAggregate()) {
+      await this.refreshHealth(true);
+      if (this.healthyControllers.size === 0) {
+        throw new Error(`Failed to connect to any controllers: ${errors.map(e => e.message).join(', ')}`);
+      }
+      return;
+    }
+
+    await this.selectActiveController('Connected');
     
     if (!this.activeController) {
       throw new Error(`Failed to connect to any controllers: ${errors.map(e => e.message).join(', ')}`);
@@ -116,56 +493,313 @@ export class NetworkControllerManager implements NetworkController {
     );
 
     this.activeController = null;
+    this.healthyControllers.clear();
   }
 
   private ensureActiveController() {
     if (!this.activeController) {
-      throw new Error('No active controller available');
+      throw new NoActiveControllerError();
     }
   }
 
   async getDevices(): Promise<NetworkDevice[]> {
+    if (this.isAggregate()) {
+      return (await this.collectDevices()).data;
+    }
     this.ensureActiveController();
     return this.activeController!.getDevices();
   }
 
   async getFlows(): Promise<NetworkFlow[]> {
+    if (this.isAggregate()) {
+      return (await this.collectFlows()).data;
+    }
     this.ensureActiveController();
     return this.activeController!.getFlows();
   }
 
   async getStats(): Promise<NetworkStats> {
+    if (this.isAggregate()) {
+      return (await this.collectStats()).data;
+    }
     this.ensureActiveController();
     return this.activeController!.getStats();
   }
 
+  // Per-port counters. Controllers without the capability report no ports.
+  async getInterfaceStats(): Promise<InterfaceStats[]> {
+    if (this.isAggregate()) {
+      return (await this.collectInterfaceStats()).data;
+    }
+    this.ensureActiveController();
+    const controller = this.activeController!;
+    return supportsInterfaceStats(controller) ? controller.getInterfaceStats() : [];
+  }
+
+  // In aggregate mode a policy goes to the controller that reported the
+  // target device, or to every healthy controller when none did
   async applyQoSPolicy(policy: QoSPolicy): Promise<void> {
+    if (this.isAggregate()) {
+      return this.routePolicy(policy, controller => controller.applyQoSPolicy(policy));
+    }
     this.ensureActiveController();
     return this.activeController!.applyQoSPolicy(policy);
   }
 
+  async updateQoSPolicy(policy: QoSPolicy): Promise<void> {
+    if (this.isAggregate()) {
+      return this.routePolicy(policy, controller => controller.updateQoSPolicy(policy));
+    }
+    this.ensureActiveController();
+    return this.activeController!.updateQoSPolicy(policy);
+  }
+
+  // In aggregate mode the policy is removed from every healthy controller,
+  // wherever it was installed
+  async removeQoSPolicy(policyId: string): Promise<void> {
+    if (this.isAggregate()) {
+      await this.fanOut(controller => controller.removeQoSPolicy(policyId));
+      return;
+    }
+    this.ensureActiveController();
+    return this.activeController!.removeQoSPolicy(policyId);
+  }
+
+  async listQoSPolicies(): Promise<QoSPolicy[]> {
+    if (this.isAggregate()) {
+      return (await this.collectQoSPolicies()).data;
+    }
+    this.ensureActiveController();
+    return this.activeController!.listQoSPolicies();
+  }
+
+  private async routePolicy(
+    policy: QoSPolicy,
+    operation: (controller: NetworkController) => Promise<void>
+  ): Promise<void> {
+    const owner = this.deviceOwners.get(policy.targetDevice);
+    if (owner && this.healthyControllers.has(owner)) {
+      return operation(owner);
+    }
+    await this.fanOut(operation);
+  }
+
   async healthCheck(): Promise<boolean> {
+    if (this.isAggregate()) {
+      await this.refreshHealth();
+      return this.healthyControllers.size > 0;
+    }
     this.ensureActiveController();
     return this.activeController!.healthCheck();
   }
 
+  // Devices from every healthy controller, tagged with their source.
+  // Devices are de-duplicated by MAC address, the most preferred
+  // controller wins.
+  async collectDevices(): Promise<AggregateResult<NetworkDevice[]>> {
+    const { results, failures } = await this.fanOut(controller => controller.getDevices());
+
+    const devices = new Map<string, NetworkDevice>();
+    const owners = new Map<string, NetworkController>();
+    for (const { controller, value } of results) {
+      const source = this.nameOf(controller);
+      for (const device of value) {
+        const key = device.macAddress
+          ? `mac:${normalizeMacAddress(device.macAddress)}`
+          : `${source}:${device.id}`;
+        if (!devices.has(key)) {
+          devices.set(key, { ...device, source });
+        }
+        if (!owners.has(device.id)) {
+          owners.set(device.id, controller);
+        }
+      }
+    }
+    this.deviceOwners = owners;
+
+    return { data: Array.from(devices.values()), sources: results.map(r => this.nameOf(r.controller)), failures };
+  }
+
+  // Flows from every healthy controller, tagged with their source. A flow
+  // seen by several controllers on its path is kept once, from the most
+  // preferred controller, so its bytes are not counted twice.
+  async collectFlows(): Promise<AggregateResult<NetworkFlow[]>> {
+    const { results, failures } = await this.fanOut(controller => controller.getFlows());
+
+    const flows = new Map<string, NetworkFlow>();
+    for (const { controller, value } of results) {
+      const source = this.nameOf(controller);
+      for (const flow of value) {
+        const key = flowKey(flow);
+        if (!flows.has(key)) {
+          flows.set(key, { ...flow, id: `${source}:${flow.id}`, source });
+        }
+      }
+    }
+
+    return { data: Array.from(flows.values()), sources: results.map(r => this.nameOf(r.controller)), failures };
+  }
+
+  // Counters summed over all controllers. Controllers that did not answer
+  // but passed their last health check contribute their last reported
+  // counters, so the totals do not drop and jump back when one of them is
+  // briefly unavailable. The counters of a controller that failed its last
+  // health check are dropped and it is reported as failed.
+  async collectStats(): Promise<AggregateResult<NetworkStats>> {
+    const { results, failures } = await this.fanOut(controller => controller.getStats());
+    for (const { controller, value } of results) {
+      this.lastStats.set(controller, value);
+    }
+    this.lastStats.forEach((_stats, controller) => {
+      if (this.healthyControllers.has(controller) && this.health.get(controller)!.consecutiveFailures === 0) {
+        return;
+      }
+      this.lastStats.delete(controller);
+      const source = this.nameOf(controller);
+      if (!failures.some(failure => failure.source === source)) {
+        failures.push({ source, error: this.lastErrors.get(controller) ?? 'Failed its last health check' });
+      }
+    });
+
+    const data: NetworkStats = {
+      bytesIn: 0,
+      bytesOut: 0,
+      packetsIn: 0,
+      packetsOut: 0,
+      activeConnections: 0,
+      timestamp: new Date(0)
+    };
+    this.lastStats.forEach(stats => {
+      data.bytesIn += stats.bytesIn;
+      data.bytesOut += stats.bytesOut;
+      data.packetsIn += stats.packetsIn;
+      data.packetsOut += stats.packetsOut;
+      data.activeConnections += stats.activeConnections;
+    });
+    for (const { value } of results) {
+      if (new Date(value.timestamp) > data.timestamp) {
+        data.timestamp = new Date(value.timestamp);
+      }
+    }
+
+    return { data, sources: results.map(r => this.nameOf(r.controller)), failures };
+  }
+
+  // Installed policies from every healthy controller, tagged with their
+  // source. A policy installed on several controllers is listed once per
+  // controller.
+  async collectQoSPolicies(): Promise<AggregateResult<QoSPolicy[]>> {
+    const { results, failures } = await this.fanOut(controller => controller.listQoSPolicies());
+
+    const data: QoSPolicy[] = [];
+    for (const { controller, value } of results) {
+      const source = this.nameOf(controller);
+      data.push(...value.map(policy => ({ ...policy, source })));
+    }
+
+    return { data, sources: results.map(r => this.nameOf(r.controller)), failures };
+  }
+
+  // Ports from every healthy controller that reports them, tagged with
+  // their source
+  async collectInterfaceStats(): Promise<AggregateResult<InterfaceStats[]>> {
+    const { results, failures } = await this.fanOut(async controller =>
+      supportsInterfaceStats(controller) ? controller.getInterfaceStats() : null
+    );
+
+    const data: InterfaceStats[] = [];
+    const sources: string[] = [];
+    for (const { controller, value } of results) {
+      if (!value) {
+        continue;
+      }
+      const source = this.nameOf(controller);
+      sources.push(source);
+      data.push(...value.map(port => ({ ...port, source })));
+    }
+
+    return { data, sources, failures };
+  }
+
+  // Runs the operation on every healthy controller in parallel. Failures
+  // are reported alongside the results; only a call where every controller
+  // failed is an error.
+  private async fanOut<T>(operation: (controller: NetworkController) => Promise<T>): Promise<{
+    results: Array<{ controller: NetworkController; value: T }>;
+    failures: ControllerFailure[];
+  }> {
+    const targets = this.controllers.filter(controller => this.healthyControllers.has(controller));
+    if (targets.length === 0) {
+      throw new NoActiveControllerError('No healthy controllers available');
+    }
+
+    const settled = await Promise.allSettled(targets.map(operation));
+    const results: Array<{ controller: NetworkController; value: T }> = [];
+    const failures: ControllerFailure[] = [];
+    settled.forEach((outcome, index) => {
+      const controller = targets[index];
+      if (outcome.status === 'fulfilled') {
+        this.lastErrors.delete(controller);
+        results.push({ controller, value: outcome.value });
+      } else {
+        const failure = {
+          source: this.nameOf(controller),
+          error: (outcome.reason as Error)?.message || String(outcome.reason)
+        };
+        console.warn(`Controller ${failure.source} failed:`, failure.error);
+        this.lastErrors.set(controller, failure.error);
+        failures.push(failure);
+      }
+    });
+
+    if (results.length === 0) {
+      throw new Error(`All controllers failed: ${failures.map(f => `${f.source}: ${f.error}`).join(', ')}`);
+    }
+    return { results, failures };
+  }
+
+  // Most recent active controller changes, oldest first
+  getFailoverEvents(): FailoverEvent[] {
+    return [...this.failoverEvents];
+  }
+
+  // Name of the active controller
   getActiveControllerType(): string {
-    return this.activeController ? this.activeController.constructor.name : 'None';
+    if (this.isAggregate()) {
+      return 'Aggregate';
+    }
+    return this.activeController ? this.nameOf(this.activeController) : 'None';
   }
 
+  // In aggregate mode every healthy controller is active
   async getAllControllersStatus(): Promise<Array<{
-    type: string;
+    name: string;
+    type: ControllerType;
     healthy: boolean;
     active: boolean;
+    lastError: string | null;
+    consecutiveFailures: number;
+    consecutiveSuccesses: number;
   }>> {
-    const statuses = await Promise.all(
-      this.controllers.map(async controller => ({
-        type: controller.constructor.name,
-        healthy: await controller.healthCheck(),
-        active: controller === this.activeController
-      }))
-    );
+    // A controller whose health check throws is reported as unhealthy with
+    // the error instead of failing the whole status
+    const checks = await Promise.allSettled(this.controllers.map(controller => controller.healthCheck()));
 
-    return statuses;
+    return this.controllers.map((controller, index) => {
+      const check = checks[index];
+      if (check.status === 'rejected') {
+        this.lastErrors.set(controller, (check.reason as Error)?.message || String(check.reason));
+      }
+      return {
+        name: this.nameOf(controller),
+        type: this.entries.get(controller)!.type,
+        healthy: check.status === 'fulfilled' && check.value,
+        active: this.isAggregate()
+          ? this.healthyControllers.has(controller)
+          : controller === this.activeController,
+        lastError: this.lastErrors.get(controller) ?? null,
+        ...this.health.get(controller)!
+      };
+    });
   }
 }
@@ -0,0 +1,127 @@
+import mongoose from 'mongoose';
+import { AlertNotification, NotificationChannelConfig, NotificationChannelType, Notifier } from '../interfaces/notifier';
+import { AlertRule } from '../models/alertRule';
+import {
+  NOTIFICATION_SECRET_FIELDS,
+  NotificationChannel,
+  NotificationChannelDefinition
+} from '../models/notificationChannel';
+import { NotificationDelivery } from '../models/notificationDelivery';
+import { AlertEvent } from './alertEngine';
+import { NotificationError } from './notifiers/notification';
+import { decryptSecrets } from '../utils/secrets';
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  initialDelayMs: 1000,
+  maxDelayMs: 60000
+};
+
+type ChannelDocument = NotificationChannelDefinition & { _id: mongoose.Types.ObjectId };
+
+// Exponential backoff after the given failed attempt (1-based)
+export function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  return Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** (attempt - 1));
+}
+
+export function toNotification(event: AlertEvent): AlertNotification {
+  const { alert } = event;
+  return {
+    event: event.event === 'resolved' ? 'resolved' : 'fired',
+    alertId: alert._id.toString(),
+    ruleName: alert.ruleName,
+    severity: alert.severity,
+    subject: alert.subject,
+    message: alert.message,
+    value: alert.value,
+    firedAt: alert.firedAt,
+    resolvedAt: alert.resolvedAt
+  };
+}
+
+// Sends fired and resolved alerts to the notification channels of their rule.
+// Every channel gets its own delivery log entry recording each attempt.
+export class NotificationDispatcher {
+  constructor(
+    private readonly notifiers: Partial<Record<NotificationChannelType, Notifier>>,
+    // Decrypts the channel secrets, see CONTROLLER_CREDENTIALS_KEY
+    private readonly credentialKey: Buffer | null = null,
+    private readonly retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY,
+    private readonly sleep: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms))
+  ) {}
+
+  async dispatch(event: AlertEvent): Promise<void> {
+    if (event.event === 'acknowledged') {
+      return;
+    }
+
+    const rule = await AlertRule.findById(event.alert.ruleId).lean();
+    if (!rule || !rule.notificationChannels || rule.notificationChannels.length === 0) {
+      return;
+    }
+
+    const channels = await NotificationChannel.find({
+      _id: { $in: rule.notificationChannels },
+      enabled: true
+    }).lean<ChannelDocument[]>();
+
+    const notification = toNotification(event);
+    await Promise.all(channels.map(channel => this.deliver(channel, notification, event)));
+  }
+
+  private async deliver(channel: ChannelDocument, notification: AlertNotification, event: AlertEvent) {
+    const delivery = new NotificationDelivery({
+      alertId: event.alert._id,
+      ruleId: event.alert.ruleId,
+      channelId: channel._id,
+      channelName: channel.name,
+      channelType: channel.type,
+      event: notification.event
+    });
+    const notifier = this.notifiers[channel.type];
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        if (!notifier) {
+          throw new NotificationError(`No ${channel.type} notifier is configured`, false);
+        }
+        await notifier.send(notification, this.channelConfig(channel));
+
+        delivery.attempts.push({ at: new Date(), error: null });
+        delivery.status = 'delivered';
+        delivery.deliveredAt = new Date();
+        await delivery.save();
+        return;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        delivery.attempts.push({ at: new Date(), error: message });
+
+        const retryable = !(error instanceof NotificationError) || error.retryable;
+        if (!retryable || attempt >= this.retryPolicy.maxAttempts) {
+          delivery.status = 'failed';
+          await delivery.save();
+          console.error(`Notification to ${channel.name} failed after ${attempt} attempt(s):`, message);
+          return;
+        }
+
+        await delivery.save();
+        await this.sleep(backoffDelay(this.retryPolicy, attempt));
+      }
+    }
+  }
+
+  // A secret that cannot be decrypted will not decrypt on a retry either
+  private channelConfig(channel: ChannelDocument): NotificationChannelConfig {
+    try {
+      return decryptSecrets(channel.config || {}, NOTIFICATION_SECRET_FIELDS, this.credentialKey);
+    } catch (error) {
+      throw new NotificationError(`Cannot decrypt the channel secret: ${(error as Error).message}`, false);
+    }
+  }
+}
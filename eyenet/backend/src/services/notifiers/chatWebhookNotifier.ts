@@ -0,0 +1,55 @@
+import { AlertNotification, NotificationChannelConfig, Notifier } from '../../interfaces/notifier';
+import { NotificationError, notificationFacts, notificationTitle, postJson } from './notification';
+
+const COLORS: { [severity: string]: string } = {
+  low: '#2eb886',
+  medium: '#daa038',
+  high: '#a30200'
+};
+const RESOLVED_COLOR = '#2eb886';
+
+function color(notification: AlertNotification): string {
+  return notification.event === 'resolved' ? RESOLVED_COLOR : COLORS[notification.severity] || COLORS.medium;
+}
+
+// Slack incoming webhook payload with a colored attachment
+export function formatSlackMessage(notification: AlertNotification) {
+  return {
+    text: notificationTitle(notification),
+    attachments: [{
+      color: color(notification),
+      text: notification.message,
+      fields: notificationFacts(notification).map(([title, value]) => ({ title, value, short: true })),
+      ts: Math.floor((notification.resolvedAt || notification.firedAt).getTime() / 1000)
+    }]
+  };
+}
+
+// Microsoft Teams incoming webhook payload (legacy MessageCard format)
+export function formatTeamsMessage(notification: AlertNotification) {
+  return {
+    '@type': 'MessageCard',
+    '@context': 'https://schema.org/extensions',
+    themeColor: color(notification).slice(1),
+    summary: notificationTitle(notification),
+    title: notificationTitle(notification),
+    text: notification.message,
+    sections: [{
+      facts: notificationFacts(notification).map(([name, value]) => ({ name, value }))
+    }]
+  };
+}
+
+// Posts to Slack or Teams style incoming webhooks
+export class ChatWebhookNotifier implements Notifier {
+  constructor(private readonly format: 'slack' | 'teams') {}
+
+  async send(notification: AlertNotification, channel: NotificationChannelConfig): Promise<void> {
+    if (!channel.url) {
+      throw new NotificationError(`${this.format} channel has no URL`, false);
+    }
+
+    const payload = this.format === 'slack' ? formatSlackMessage(notification) : formatTeamsMessage(notification);
+    await postJson(channel.url, JSON.stringify(payload));
+  }
+}
@@ -0,0 +1,60 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { AlertNotification, NotificationChannelConfig, Notifier } from '../../interfaces/notifier';
+import { NotificationError, notificationText, notificationTitle } from './notification';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+}
+
+// Built from SMTP_* variables; returns null when SMTP_HOST is not set
+export function loadSmtpConfig(env: NodeJS.ProcessEnv = process.env): SmtpConfig | null {
+  if (!env.SMTP_HOST) {
+    return null;
+  }
+
+  return {
+    host: env.SMTP_HOST,
+    port: parseInt(env.SMTP_PORT || '587', 10),
+    secure: env.SMTP_SECURE === 'true',
+    username: env.SMTP_USERNAME,
+    password: env.SMTP_PASSWORD,
+    from: env.SMTP_FROM || 'eyenet@localhost'
+  };
+}
+
+export class EmailNotifier implements Notifier {
+  private transporter: Transporter;
+
+  constructor(private readonly config: SmtpConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.username ? { user: config.username, pass: config.password } : undefined
+    });
+  }
+
+  async send(notification: AlertNotification, channel: NotificationChannelConfig): Promise<void> {
+    if (!channel.recipients || channel.recipients.length === 0) {
+      throw new NotificationError('Email channel has no recipients', false);
+    }
+
+    try {
+      await this.transporter.sendMail({
+        from: this.config.from,
+        to: channel.recipients,
+        subject: notificationTitle(notification),
+        text: notificationText(notification)
+      });
+    } catch (error: any) {
+      // 5xx SMTP replies are permanent, 4xx and connection errors are transient
+      const permanent = typeof error.responseCode === 'number' && error.responseCode >= 500;
+      throw new NotificationError(`SMTP delivery failed: ${error.message}`, !permanent);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import axios from 'axios';
+import { AlertNotification } from '../../interfaces/notifier';
+
+const REQUEST_TIMEOUT = 10000;
+
+// Thrown by notifiers; failures that cannot succeed on a later attempt, such
+// as a rejected recipient or a 4xx response, are not retried
+export class NotificationError extends Error {
+  constructor(message: string, readonly retryable = true) {
+    super(message);
+    this.name = 'NotificationError';
+  }
+}
+
+export function notificationTitle(notification: AlertNotification): string {
+  const state = notification.event === 'fired' ? 'FIRING' : 'RESOLVED';
+  return `[${state}] [${notification.severity.toUpperCase()}] ${notification.ruleName}`;
+}
+
+// Name/value pairs shown below the title by every channel
+export function notificationFacts(notification: AlertNotification): [string, string][] {
+  const facts: [string, string][] = [
+    ['Subject', notification.subject],
+    ['Severity', notification.severity],
+    ['Fired at', notification.firedAt.toISOString()]
+  ];
+  if (notification.value !== null) {
+    facts.push(['Value', String(notification.value)]);
+  }
+  if (notification.resolvedAt) {
+    facts.push(['Resolved at', notification.resolvedAt.toISOString()]);
+  }
+  return facts;
+}
+
+export function notificationText(notification: AlertNotification): string {
+  return [
+    notification.message,
+    '',
+    ...notificationFacts(notification).map(([name, value]) => `${name}: ${value}`)
+  ].join('\n');
+}
+
+// Posts a JSON body, turning HTTP failures into NotificationErrors. Client
+// errors other than timeouts and rate limiting are not retried.
+export async function postJson(url: string, body: string, headers: Record<string, string> = {}): Promise<void> {
+  try {
+    await axios.post(url, body, {
+      headers: { 'Content-Type': 'application/json', ...headers },
+      timeout: REQUEST_TIMEOUT
+    });
+  } catch (error: any) {
+    const status: number | undefined = error.response?.status;
+    if (status === undefined) {
+      throw new NotificationError(`Request to ${url} failed: ${error.message}`);
+    }
+    const retryable = status >= 500 || status === 408 || status === 429;
+    throw new NotificationError(`Request to ${url} failed with status ${status}`, retryable);
+  }
+}
@@ -0,0 +1,32 @@
+import crypto from 'crypto';
+import { AlertNotification, NotificationChannelConfig, Notifier } from '../../interfaces/notifier';
+import { NotificationError, postJson } from './notification';
+
+export const SIGNATURE_HEADER = 'X-EyeNet-Signature';
+export const TIMESTAMP_HEADER = 'X-EyeNet-Timestamp';
+
+// HMAC-SHA256 over "<timestamp>.<body>"; receivers should recompute it and
+// reject stale timestamps to prevent replays
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+// Posts the notification as JSON to an arbitrary endpoint
+export class WebhookNotifier implements Notifier {
+  async send(notification: AlertNotification, channel: NotificationChannelConfig): Promise<void> {
+    if (!channel.url) {
+      throw new NotificationError('Webhook channel has no URL', false);
+    }
+
+    const body = JSON.stringify(notification);
+    const headers: Record<string, string> = {};
+    if (channel.secret) {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      headers[TIMESTAMP_HEADER] = timestamp;
+      headers[SIGNATURE_HEADER] = signPayload(channel.secret, timestamp, body);
+    }
+
+    await postJson(channel.url, body, headers);
+  }
+}
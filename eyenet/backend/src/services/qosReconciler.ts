@@ -0,0 +1,149 @@
+import { QoSPolicy } from '../interfaces/networkController';
+import { QoSPolicyDefinition, QoSPolicyModel, toQoSPolicy } from '../models/qosPolicy';
+import { NetworkControllerManager, NoActiveControllerError } from './networkControllerManager';
+import { parseCidr } from '../utils/cidr';
+
+// missing: stored but not installed; changed: installed with different
+// settings; orphaned: installed but no longer stored
+export type QoSDriftKind = 'missing' | 'changed' | 'orphaned';
+
+export interface QoSDrift {
+  policyId: string;
+  kind: QoSDriftKind;
+  // Controller the live policy came from, in aggregate mode
+  source?: string;
+  stored?: QoSPolicy;
+  live?: QoSPolicy;
+}
+
+export interface QoSReconcileResult {
+  drift: QoSDrift[];
+  // Policies re-applied or removed to fix the drift
+  fixed: number;
+  failures: Array<{ policyId: string; error: string }>;
+}
+
+// Ranges compare by value, so "10.0.0.5" matches "10.0.0.5/32"
+function normalizeCidr(cidr?: string): string | null {
+  const range = cidr ? parseCidr(cidr) : null;
+  return range ? `${range.family}:${range.network.toString(16)}/${range.mask.toString(16)}` : null;
+}
+
+// The settings a controller enforces, in a form that compares equal
+// however the controller reports them. Ports without a protocol are TCP
+// ports. Fair sharing is left out, most controllers do not enforce it.
+export function qosPolicyFingerprint(policy: QoSPolicy): string {
+  const ports = [...(policy.ports || [])].sort((a, b) => a - b);
+  let protocol = policy.protocol?.toLowerCase() || null;
+  if (protocol === 'any') {
+    protocol = null;
+  }
+  if (!protocol && ports.length > 0) {
+    protocol = 'tcp';
+  }
+
+  return JSON.stringify([
+    policy.name,
+    policy.targetDevice,
+    policy.bandwidth.min || 0,
+    policy.bandwidth.max,
+    policy.priority,
+    protocol,
+    ports,
+    normalizeCidr(policy.sourceCidr),
+    normalizeCidr(policy.destinationCidr)
+  ]);
+}
+
+export function findQoSDrift(stored: QoSPolicy[], live: QoSPolicy[]): QoSDrift[] {
+  const drift: QoSDrift[] = [];
+  const storedById = new Map(stored.map(policy => [policy.id, policy]));
+  const liveIds = new Set(live.map(policy => policy.id));
+
+  for (const policy of stored) {
+    if (!liveIds.has(policy.id)) {
+      drift.push({ policyId: policy.id, kind: 'missing', stored: policy });
+    }
+  }
+  for (const policy of live) {
+    const storedPolicy = storedById.get(policy.id);
+    if (!storedPolicy) {
+      drift.push({ policyId: policy.id, kind: 'orphaned', source: policy.source, live: policy });
+    } else if (qosPolicyFingerprint(storedPolicy) !== qosPolicyFingerprint(policy)) {
+      drift.push({ policyId: policy.id, kind: 'changed', source: policy.source, stored: storedPolicy, live: policy });
+    }
+  }
+  return drift;
+}
+
+// Periodically compares the QoS Policy collection with the policies
+// installed on the controllers. Drift is always reported; with fix set,
+// missing and changed policies are re-applied and orphaned ones removed.
+export class QoSReconciler {
+  private reconcileInterval: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly manager: NetworkControllerManager,
+    private readonly fix: boolean = false,
+    private readonly interval: number = 300000
+  ) {}
+
+  start() {
+    if (this.reconcileInterval) {
+      clearInterval(this.reconcileInterval);
+    }
+
+    this.reconcileInterval = setInterval(async () => {
+      try {
+        await this.run();
+      } catch (error) {
+        if (error instanceof NoActiveControllerError) {
+          console.warn('Skipping QoS reconciliation:', error.message);
+        } else {
+          console.error('QoS reconciliation failed:', error);
+        }
+      }
+    }, this.interval);
+  }
+
+  stop() {
+    if (this.reconcileInterval) {
+      clearInterval(this.reconcileInterval);
+      this.reconcileInterval = null;
+    }
+  }
+
+  async run(fix: boolean = this.fix): Promise<QoSReconcileResult> {
+    const records = await QoSPolicyModel.find().lean<Array<QoSPolicyDefinition & { _id: unknown }>>();
+    const stored = records.map(toQoSPolicy);
+    const live = await this.manager.listQoSPolicies();
+
+    const result: QoSReconcileResult = { drift: findQoSDrift(stored, live), fixed: 0, failures: [] };
+    for (const drift of result.drift) {
+      console.warn(`QoS policy ${drift.policyId} is ${drift.kind}${drift.source ? ` on ${drift.source}` : ''}`);
+    }
+    if (!fix) {
+      return result;
+    }
+
+    // A policy that drifted on several controllers is fixed once
+    const handled = new Set<string>();
+    for (const drift of result.drift) {
+      if (handled.has(drift.policyId)) {
+        continue;
+      }
+      handled.add(drift.policyId);
+      try {
+        if (drift.kind === 'orphaned') {
+          await this.manager.removeQoSPolicy(drift.policyId);
+        } else {
+          await this.manager.updateQoSPolicy(drift.stored!);
+        }
+        result.fixed++;
+      } catch (error) {
+        result.failures.push({ policyId: drift.policyId, error: (error as Error)?.message || String(error) });
+      }
+    }
+    return result;
+  }
+}
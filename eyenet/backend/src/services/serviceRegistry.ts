@@ -0,0 +1,269 @@
+import { ControllerPreference, NetworkControllerManager } from './networkControllerManager';
+import { MonitoringService } from './monitoringService';
+import { MetricsCollector } from './metricsCollector';
+import { TrafficClassifier, loadSignatureCatalog } from './trafficClassifier';
+import { loadDepartments } from './departmentUsage';
+import { MetricsRetentionJob, RetentionPolicy, loadRetentionPolicy } from './metricsRetention';
+import { AlertEngine } from './alertEngine';
+import { NotificationDispatcher } from './notificationDispatcher';
+import { EmailNotifier, loadSmtpConfig } from './notifiers/emailNotifier';
+import { WebhookNotifier } from './notifiers/webhookNotifier';
+import { ChatWebhookNotifier } from './notifiers/chatWebhookNotifier';
+import { DeviceInventory, loadOfflineGracePeriod } from './deviceInventory';
+import { ControllerRegistry } from './controllerRegistry';
+import { QoSReconciler } from './qosReconciler';
+import { loadCredentialKey } from '../utils/encryption';
+import {
+  PFSENSE_AUTH_MODES,
+  PfSenseAuthMode,
+  SNMP_AUTH_PROTOCOLS,
+  SNMP_PRIV_PROTOCOLS,
+  SnmpAuthProtocol,
+  SnmpPrivProtocol
+} from '../interfaces/controllerConfig';
+
+type NetworkControllerManagerConfig = ConstructorParameters<typeof NetworkControllerManager>[0];
+
+let networkControllerManager: NetworkControllerManager | null = null;
+let trafficClassifier: TrafficClassifier | null = null;
+let monitoringService: MonitoringService | null = null;
+let metricsCollector: MetricsCollector | null = null;
+let retentionPolicy: RetentionPolicy | null = null;
+let metricsRetentionJob: MetricsRetentionJob | null = null;
+let alertEngine: AlertEngine | null = null;
+let notificationDispatcher: NotificationDispatcher | null = null;
+let deviceInventory: DeviceInventory | null = null;
+let controllerRegistry: ControllerRegistry | null = null;
+let qosReconciler: QoSReconciler | null = null;
+
+// <PREFIX>_PRIORITY and <PREFIX>_WEIGHT, when set
+function loadControllerPreference(env: NodeJS.ProcessEnv, prefix: string): ControllerPreference {
+  const preference: ControllerPreference = {};
+  for (const [field, suffix] of [['priority', 'PRIORITY'], ['weight', 'WEIGHT']] as const) {
+    const value = env[`${prefix}_${suffix}`];
+    if (value !== undefined) {
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed)) {
+        throw new Error(`Invalid ${prefix}_${suffix}: ${value}`);
+      }
+      preference[field] = parsed;
+    }
+  }
+  return preference;
+}
+
+// Build the controller configuration from the environment; a controller is
+// only configured when its host variable is set
+export function loadControllerConfig(env: NodeJS.ProcessEnv = process.env): NetworkControllerManagerConfig {
+  const config: NetworkControllerManagerConfig = {};
+
+  if (env.OPENDAYLIGHT_HOST) {
+    config.openDaylight = {
+      host: env.OPENDAYLIGHT_HOST,
+      port: parseInt(env.OPENDAYLIGHT_PORT || '8181', 10),
+      username: env.OPENDAYLIGHT_USERNAME || 'admin',
+      password: env.OPENDAYLIGHT_PASSWORD || 'admin',
+      ...loadControllerPreference(env, 'OPENDAYLIGHT')
+    };
+  }
+
+  if (env.PFSENSE_HOST) {
+    const authMode = (env.PFSENSE_AUTH_MODE || 'apikey') as PfSenseAuthMode;
+    if (!PFSENSE_AUTH_MODES.includes(authMode)) {
+      throw new Error(`Invalid PFSENSE_AUTH_MODE: ${authMode}`);
+    }
+    config.pfSense = {
+      host: env.PFSENSE_HOST,
+      authMode,
+      apiKey: env.PFSENSE_API_KEY || '',
+      apiSecret: env.PFSENSE_API_SECRET || '',
+      username: env.PFSENSE_USERNAME,
+      password: env.PFSENSE_PASSWORD,
+      verifySsl: env.PFSENSE_VERIFY_SSL === 'true',
+      ...loadControllerPreference(env, 'PFSENSE')
+    };
+  }
+
+  if (env.MIKROTIK_HOST) {
+    config.mikroTik = {
+      host: env.MIKROTIK_HOST,
+      port: parseInt(env.MIKROTIK_PORT || '8728', 10),
+      username: env.MIKROTIK_USERNAME || 'admin',
+      password: env.MIKROTIK_PASSWORD || '',
+      streaming: env.MIKROTIK_STREAMING === 'true',
+      ...loadControllerPreference(env, 'MIKROTIK')
+    };
+    if (env.MIKROTIK_MAX_FLOWS) {
+      config.mikroTik.maxFlows = parseInt(env.MIKROTIK_MAX_FLOWS, 10);
+    }
+  }
+
+  if (env.SNMP_HOST) {
+    const version = env.SNMP_VERSION || '2c';
+    if (version !== '2c' && version !== '3') {
+      throw new Error(`Invalid SNMP_VERSION: ${version}`);
+    }
+    const authProtocol = env.SNMP_AUTH_PROTOCOL as SnmpAuthProtocol | undefined;
+    if (authProtocol && !SNMP_AUTH_PROTOCOLS.includes(authProtocol)) {
+      throw new Error(`Invalid SNMP_AUTH_PROTOCOL: ${authProtocol}`);
+    }
+    const privProtocol = env.SNMP_PRIV_PROTOCOL as SnmpPrivProtocol | undefined;
+    if (privProtocol && !SNMP_PRIV_PROTOCOLS.includes(privProtocol)) {
+      throw new Error(`Invalid SNMP_PRIV_PROTOCOL: ${privProtocol}`);
+    }
+    config.snmp = {
+      host: env.SNMP_HOST,
+      port: parseInt(env.SNMP_PORT || '161', 10),
+      version,
+      community: env.SNMP_COMMUNITY || 'public',
+      username: env.SNMP_USERNAME,
+      authProtocol,
+      authKey: env.SNMP_AUTH_KEY,
+      privProtocol,
+      privKey: env.SNMP_PRIV_KEY,
+      ...loadControllerPreference(env, 'SNMP')
+    };
+  }
+
+  if (env.FLOW_COLLECTOR_PORT) {
+    const port = Number(env.FLOW_COLLECTOR_PORT);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      throw new Error(`Invalid FLOW_COLLECTOR_PORT: ${env.FLOW_COLLECTOR_PORT}`);
+    }
+    config.flowCollector = {
+      address: env.FLOW_COLLECTOR_ADDRESS || '0.0.0.0',
+      port,
+      ...loadControllerPreference(env, 'FLOW_COLLECTOR')
+    };
+    if (env.FLOW_COLLECTOR_MAX_FLOWS) {
+      config.flowCollector.maxFlows = parseInt(env.FLOW_COLLECTOR_MAX_FLOWS, 10);
+    }
+  }
+
+  if (env.CONTROLLER_FAILOVER_INTERVAL) {
+    config.failoverCheckInterval = parseInt(env.CONTROLLER_FAILOVER_INTERVAL, 10);
+  }
+
+  if (env.CONTROLLER_FAILURE_THRESHOLD) {
+    config.failureThreshold = parseInt(env.CONTROLLER_FAILURE_THRESHOLD, 10);
+  }
+
+  if (env.CONTROLLER_RECOVERY_THRESHOLD) {
+    config.recoveryThreshold = parseInt(env.CONTROLLER_RECOVERY_THRESHOLD, 10);
+  }
+
+  if (env.CONTROLLER_MODE) {
+    if (env.CONTROLLER_MODE !== 'failover' && env.CONTROLLER_MODE !== 'aggregate') {
+      throw new Error(`Invalid CONTROLLER_MODE: ${env.CONTROLLER_MODE}`);
+    }
+    config.mode = env.CONTROLLER_MODE;
+  }
+
+  return config;
+}
+
+// Shared manager instance used by the API routes and background services
+export function getNetworkControllerManager(): NetworkControllerManager {
+  if (!networkControllerManager) {
+    networkControllerManager = new NetworkControllerManager(loadControllerConfig());
+  }
+  return networkControllerManager;
+}
+
+// Key the credentials stored in the database are encrypted with, null
+// without CONTROLLER_CREDENTIALS_KEY
+export function getCredentialKey(): Buffer | null {
+  return process.env.CONTROLLER_CREDENTIALS_KEY ? loadCredentialKey() : null;
+}
+
+// Controllers stored in the database, in addition to those configured
+// through the environment. Without CONTROLLER_CREDENTIALS_KEY only
+// controllers without credentials can be stored.
+export function getControllerRegistry(): ControllerRegistry {
+  if (!controllerRegistry) {
+    controllerRegistry = new ControllerRegistry(getNetworkControllerManager(), getCredentialKey());
+  }
+  return controllerRegistry;
+}
+
+export function getTrafficClassifier(): TrafficClassifier {
+  if (!trafficClassifier) {
+    trafficClassifier = new TrafficClassifier(loadSignatureCatalog());
+  }
+  return trafficClassifier;
+}
+
+export function getMonitoringService(): MonitoringService {
+  if (!monitoringService) {
+    monitoringService = new MonitoringService(getNetworkControllerManager(), loadDepartments, getTrafficClassifier());
+  }
+  return monitoringService;
+}
+
+export function getMetricsCollector(): MetricsCollector {
+  if (!metricsCollector) {
+    const interval = parseInt(process.env.METRICS_COLLECTION_INTERVAL || '60000', 10);
+    const manager = getNetworkControllerManager();
+    metricsCollector = new MetricsCollector(
+      manager,
+      new MonitoringService(manager, loadDepartments, getTrafficClassifier()),
+      interval,
+      getAlertEngine()
+    );
+  }
+  return metricsCollector;
+}
+
+// Evaluated by the metrics collector after every collection
+export function getAlertEngine(): AlertEngine {
+  if (!alertEngine) {
+    alertEngine = new AlertEngine();
+  }
+  return alertEngine;
+}
+
+// Email notifications are only available when SMTP is configured
+export function getNotificationDispatcher(): NotificationDispatcher {
+  if (!notificationDispatcher) {
+    const smtpConfig = loadSmtpConfig();
+    notificationDispatcher = new NotificationDispatcher({
+      email: smtpConfig ? new EmailNotifier(smtpConfig) : undefined,
+      webhook: new WebhookNotifier(),
+      slack: new ChatWebhookNotifier('slack'),
+      teams: new ChatWebhookNotifier('teams')
+    }, getCredentialKey());
+  }
+  return notificationDispatcher;
+}
+
+export function getDeviceInventory(): DeviceInventory {
+  if (!deviceInventory) {
+    const interval = parseInt(process.env.DEVICE_DISCOVERY_INTERVAL || '60000', 10);
+    deviceInventory = new DeviceInventory(getNetworkControllerManager(), loadOfflineGracePeriod(), interval);
+  }
+  return deviceInventory;
+}
+
+export function getRetentionPolicy(): RetentionPolicy {
+  if (!retentionPolicy) {
+    retentionPolicy = loadRetentionPolicy();
+  }
+  return retentionPolicy;
+}
+
+export function getMetricsRetentionJob(): MetricsRetentionJob {
+  if (!metricsRetentionJob) {
+    const interval = parseInt(process.env.METRICS_RETENTION_INTERVAL || '300000', 10);
+    metricsRetentionJob = new MetricsRetentionJob(getRetentionPolicy(), interval);
+  }
+  return metricsRetentionJob;
+}
+
+// Drift is only fixed automatically with QOS_RECONCILE_FIX=true
+export function getQoSReconciler(): QoSReconciler {
+  if (!qosReconciler) {
+    const interval = parseInt(process.env.QOS_RECONCILE_INTERVAL || '300000', 10);
+    qosReconciler = new QoSReconciler(getNetworkControllerManager(), process.env.QOS_RECONCILE_FIX === 'true', interval);
+  }
+  return qosReconciler;
+}
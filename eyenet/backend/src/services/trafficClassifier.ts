@@ -0,0 +1,167 @@
+import fs from 'fs';
+import { NetworkFlow } from '../interfaces/networkController';
+import { CidrRange, isValidCidr, ipInRange, parseCidr } from '../utils/cidr';
+
+export interface ApplicationThresholds {
+  // Bandwidth in Mbps at which the application is reported as high / critical
+  high: number;
+  critical: number;
+}
+
+export interface ApplicationSignature {
+  id: string;
+  name: string;
+  type: string;
+  ports?: number[];
+  protocols?: string[];
+  // Server side address ranges, including published SaaS ranges
+  cidrs?: string[];
+  thresholds?: ApplicationThresholds;
+}
+
+export interface Classification {
+  signature: ApplicationSignature;
+  // Address of the endpoint using the application
+  clientIp: string;
+}
+
+export const DEFAULT_THRESHOLDS: ApplicationThresholds = { high: 50, critical: 100 };
+
+export const UNCLASSIFIED_APPLICATION: ApplicationSignature = {
+  id: 'other',
+  name: 'Other',
+  type: 'Unknown'
+};
+
+// Signatures are evaluated in order and the first match wins, so address
+// based SaaS signatures come before generic port based ones
+export const DEFAULT_APPLICATION_SIGNATURES: ApplicationSignature[] = [
+  {
+    id: 'microsoft-teams',
+    name: 'Microsoft Teams',
+    type: 'Communication',
+    cidrs: ['13.107.64.0/18', '52.112.0.0/14', '52.122.0.0/15'],
+    thresholds: { high: 100, critical: 200 }
+  },
+  {
+    id: 'zoom',
+    name: 'Zoom',
+    type: 'Communication',
+    cidrs: ['170.114.0.0/16', '206.247.0.0/16'],
+    thresholds: { high: 100, critical: 200 }
+  },
+  { id: 'stun-turn', name: 'STUN/TURN', type: 'Communication', ports: [3478, 3479, 3480, 3481], protocols: ['udp'] },
+  { id: 'sip', name: 'SIP', type: 'Communication', ports: [5060, 5061] },
+  { id: 'dns', name: 'DNS', type: 'Infrastructure', ports: [53] },
+  { id: 'ntp', name: 'NTP', type: 'Infrastructure', ports: [123], protocols: ['udp'] },
+  { id: 'ssh', name: 'SSH', type: 'Remote Access', ports: [22], protocols: ['tcp'] },
+  { id: 'rdp', name: 'RDP', type: 'Remote Access', ports: [3389] },
+  { id: 'smb', name: 'SMB', type: 'File Transfer', ports: [445], protocols: ['tcp'] },
+  { id: 'ftp', name: 'FTP', type: 'File Transfer', ports: [20, 21], protocols: ['tcp'] },
+  { id: 'email', name: 'Email', type: 'Email', ports: [25, 110, 143, 465, 587, 993, 995], protocols: ['tcp'] },
+  { id: 'https', name: 'HTTPS', type: 'Web', ports: [443] },
+  { id: 'http', name: 'HTTP', type: 'Web', ports: [80, 8080], protocols: ['tcp'] }
+];
+
+// Loads the signature catalog from the JSON file named by
+// APPLICATION_SIGNATURES_FILE, falling back to the built-in catalog
+export function loadSignatureCatalog(env: NodeJS.ProcessEnv = process.env): ApplicationSignature[] {
+  if (!env.APPLICATION_SIGNATURES_FILE) {
+    return DEFAULT_APPLICATION_SIGNATURES;
+  }
+
+  const signatures = JSON.parse(fs.readFileSync(env.APPLICATION_SIGNATURES_FILE, 'utf8'));
+  if (!Array.isArray(signatures)) {
+    throw new Error('Application signature catalog must be a JSON array');
+  }
+
+  for (const signature of signatures) {
+    const error = validateSignature(signature);
+    if (error) {
+      throw new Error(`Invalid application signature ${JSON.stringify(signature.id)}: ${error}`);
+    }
+  }
+
+  return signatures;
+}
+
+function validateSignature(signature: ApplicationSignature): string | null {
+  if (!signature.id || !signature.name || !signature.type) {
+    return 'id, name and type are required';
+  }
+  if (!signature.ports && !signature.protocols && !signature.cidrs) {
+    return 'at least one of ports, protocols or cidrs is required';
+  }
+  if (signature.cidrs && !signature.cidrs.every(isValidCidr)) {
+    return 'cidrs must be valid CIDR ranges';
+  }
+  if (signature.thresholds && !(signature.thresholds.high < signature.thresholds.critical)) {
+    return 'thresholds.high must be lower than thresholds.critical';
+  }
+  return null;
+}
+
+interface CompiledSignature {
+  signature: ApplicationSignature;
+  ports: Set<number> | null;
+  protocols: Set<string> | null;
+  ranges: CidrRange[] | null;
+}
+
+// Rule based classifier mapping flows to applications. A signature matches
+// when every criterion it defines matches the server side of the flow.
+export class TrafficClassifier {
+  private compiled: CompiledSignature[];
+
+  constructor(private readonly signatures: ApplicationSignature[] = DEFAULT_APPLICATION_SIGNATURES) {
+    this.compiled = signatures.map(signature => ({
+      signature,
+      ports: signature.ports ? new Set(signature.ports) : null,
+      protocols: signature.protocols ? new Set(signature.protocols.map(protocol => protocol.toLowerCase())) : null,
+      ranges: signature.cidrs
+        ? signature.cidrs.map(parseCidr).filter((range): range is CidrRange => range !== null)
+        : null
+    }));
+  }
+
+  getSignatures(): ApplicationSignature[] {
+    return this.signatures;
+  }
+
+  findSignature(id: string): ApplicationSignature | undefined {
+    if (id === UNCLASSIFIED_APPLICATION.id) {
+      return UNCLASSIFIED_APPLICATION;
+    }
+    return this.signatures.find(signature => signature.id === id);
+  }
+
+  classify(flow: NetworkFlow): Classification {
+    const protocol = String(flow.protocol).toLowerCase();
+
+    for (const entry of this.compiled) {
+      if (entry.protocols && !entry.protocols.has(protocol)) {
+        continue;
+      }
+
+      // Try the destination as the server first, then the reverse direction
+      if (this.matchesServer(entry, flow.destinationIp, flow.destinationPort)) {
+        return { signature: entry.signature, clientIp: flow.sourceIp };
+      }
+      if (this.matchesServer(entry, flow.sourceIp, flow.sourcePort)) {
+        return { signature: entry.signature, clientIp: flow.destinationIp };
+      }
+    }
+
+    return { signature: UNCLASSIFIED_APPLICATION, clientIp: flow.sourceIp };
+  }
+
+  private matchesServer(entry: CompiledSignature, ip: string, port: number): boolean {
+    if (entry.ports && !entry.ports.has(port)) {
+      return false;
+    }
+    if (entry.ranges && !entry.ranges.some(range => ipInRange(ip, range))) {
+      return false;
+    }
+    return true;
+  }
+}
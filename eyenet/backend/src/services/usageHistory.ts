@@ -0,0 +1,51 @@
+import { UsageKind, UsageMeasurement, UsageSample } from '../models/usageSample';
+import { RollupStats } from '../types/monitoring';
+import { summarize } from './metricsHistory';
+
+export interface UsageHistoryBucket {
+  timestamp: Date;
+  count: number;
+  bytes: number;
+  bandwidth: RollupStats;
+  usage: RollupStats;
+}
+
+export function rollupUsage(samples: UsageMeasurement[], bucketMs: number): UsageHistoryBucket[] {
+  const groups = new Map<number, UsageMeasurement[]>();
+
+  for (const sample of samples) {
+    const bucketStart = Math.floor(sample.timestamp.getTime() / bucketMs) * bucketMs;
+    const group = groups.get(bucketStart);
+    if (group) {
+      group.push(sample);
+    } else {
+      groups.set(bucketStart, [sample]);
+    }
+  }
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([bucketStart, group]) => ({
+      timestamp: new Date(bucketStart),
+      count: group.length,
+      bytes: group.reduce((total, sample) => total + sample.bytes, 0),
+      bandwidth: summarize(group.map(sample => sample.bandwidth)),
+      usage: summarize(group.map(sample => sample.usage))
+    }));
+}
+
+// Usage history of a single department or application in [start, end)
+export async function getUsageHistory(
+  kind: UsageKind,
+  key: string,
+  start: Date,
+  end: Date,
+  bucketMs: number
+): Promise<UsageHistoryBucket[]> {
+  const samples = await UsageSample
+    .find({ 'meta.kind': kind, 'meta.key': key, timestamp: { $gte: start, $lt: end } })
+    .sort({ timestamp: 1 })
+    .lean<UsageMeasurement[]>();
+
+  return rollupUsage(samples, bucketMs);
+}
@@ -0,0 +1,261 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import mongoose from 'mongoose';
+import { AlertEngine, AlertEvent, compare } from '../services/alertEngine';
+import { Alert } from '../models/alert';
+import { AlertRule } from '../models/alertRule';
+import { NetworkMetrics } from '../models/networkMetrics';
+import { NetworkDevice } from '../interfaces/networkController';
+
+jest.mock('../models/alertRule', () => ({
+  AlertRule: { find: jest.fn() }
+}));
+
+jest.mock('../models/alert', () => ({
+  Alert: { find: jest.fn(), create: jest.fn(), findOneAndUpdate: jest.fn() }
+}));
+
+const MINUTE = 60 * 1000;
+const T0 = new Date('2024-06-01T12:00:00Z');
+
+const at = (minutes: number) => new Date(T0.getTime() + minutes * MINUTE);
+
+const metrics = (minutes: number, overrides: Partial<NetworkMetrics> = {}): NetworkMetrics => ({
+  timestamp: at(minutes),
+  source: 'openDaylight',
+  latency: 20,
+  packetLoss: 0,
+  status: 'online',
+  download: 100,
+  upload: 50,
+  bytesIn: 0,
+  bytesOut: 0,
+  packetsIn: 0,
+  packetsOut: 0,
+  activeConnections: 10,
+  ...overrides
+});
+
+const device = (id: string, status: 'online' | 'offline'): NetworkDevice => ({
+  id,
+  name: id,
+  type: 'switch',
+  ipAddress: '10.0.0.1',
+  status,
+  lastSeen: T0
+});
+
+describe('AlertEngine', () => {
+  let rules: any[];
+  let alerts: any[];
+  let events: AlertEvent[];
+  let engine: AlertEngine;
+
+  const makeAlert = (fields: Record<string, unknown>) => {
+    const alert: any = {
+      acknowledgedAt: null,
+      acknowledgedBy: null,
+      resolvedAt: null,
+      ...fields,
+      _id: new mongoose.Types.ObjectId()
+    };
+    alert.save = jest.fn(async () => alert);
+    alert.toObject = () => {
+      const { save, toObject, ...plain } = alert;
+      return plain;
+    };
+    return alert;
+  };
+
+  const addRule = (condition: Record<string, unknown>, name = 'rule') => {
+    const rule = { _id: new mongoose.Types.ObjectId(), name, severity: 'high', enabled: true, condition };
+    rules.push(rule);
+    return rule;
+  };
+
+  beforeEach(() => {
+    rules = [];
+    alerts = [];
+    events = [];
+
+    (AlertRule.find as jest.Mock).mockImplementation(() => ({
+      lean: async () => rules.filter(rule => rule.enabled)
+    }));
+    (Alert.find as jest.Mock).mockImplementation(async (query: any) =>
+      alerts.filter(alert => query.status.$in.includes(alert.status)));
+    (Alert.create as jest.Mock).mockImplementation(async (fields: any) => {
+      const alert = makeAlert(fields);
+      alerts.push(alert);
+      return alert;
+    });
+    (Alert.findOneAndUpdate as jest.Mock).mockImplementation(async (filter: any, update: any) => {
+      const alert = alerts.find(a => a._id.toString() === filter._id && a.status === filter.status);
+      return alert ? Object.assign(alert, update) : null;
+    });
+
+    engine = new AlertEngine(T0);
+    engine.on('alert', (event: AlertEvent) => events.push(event));
+  });
+
+  describe('compare', () => {
+    it('should support every operator', () => {
+      expect(compare(2, '>', 1)).toBe(true);
+      expect(compare(1, '>=', 1)).toBe(true);
+      expect(compare(1, '<', 1)).toBe(false);
+      expect(compare(1, '<=', 1)).toBe(true);
+      expect(compare(1, '=', 1)).toBe(true);
+      expect(compare(1, '!=', 1)).toBe(false);
+    });
+  });
+
+  it('should fire and resolve static threshold alerts', async () => {
+    addRule({ type: 'threshold', metric: 'latency', operator: '>', value: 80 });
+
+    await engine.evaluate({ metrics: metrics(0, { latency: 95 }), devices: [] }, at(0));
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ status: 'firing', subject: 'network', value: 95, severity: 'high' });
+    expect(events.map(e => e.event)).toEqual(['fired']);
+
+    // Still breaching: no duplicate alert
+    await engine.evaluate({ metrics: metrics(1, { latency: 99 }), devices: [] }, at(1));
+    expect(alerts).toHaveLength(1);
+
+    await engine.evaluate({ metrics: metrics(2, { latency: 30 }), devices: [] }, at(2));
+    expect(alerts[0].status).toBe('resolved');
+    expect(alerts[0].resolvedAt).toEqual(at(2));
+    expect(events.map(e => e.event)).toEqual(['fired', 'resolved']);
+  });
+
+  it('should only fire once the condition held for its duration', async () => {
+    addRule({ type: 'threshold', metric: 'latency', operator: '>', value: 80, duration: '5m' });
+
+    await engine.evaluate({ metrics: metrics(0, { latency: 95 }), devices: [] }, at(0));
+    await engine.evaluate({ metrics: metrics(4, { latency: 95 }), devices: [] }, at(4));
+    expect(alerts).toHaveLength(0);
+
+    await engine.evaluate({ metrics: metrics(5, { latency: 95 }), devices: [] }, at(5));
+    expect(alerts).toHaveLength(1);
+  });
+
+  it('should restart the duration when the condition clears', async () => {
+    addRule({ type: 'threshold', metric: 'latency', operator: '>', value: 80, duration: '5m' });
+
+    await engine.evaluate({ metrics: metrics(0, { latency: 95 }), devices: [] }, at(0));
+    await engine.evaluate({ metrics: metrics(3, { latency: 20 }), devices: [] }, at(3));
+    await engine.evaluate({ metrics: metrics(4, { latency: 95 }), devices: [] }, at(4));
+    await engine.evaluate({ metrics: metrics(6, { latency: 95 }), devices: [] }, at(6));
+    expect(alerts).toHaveLength(0);
+
+    await engine.evaluate({ metrics: metrics(9, { latency: 95 }), devices: [] }, at(9));
+    expect(alerts).toHaveLength(1);
+  });
+
+  it('should compare the percent change over the window', async () => {
+    addRule({ type: 'rateOfChange', metric: 'download', operator: '>=', value: 50, window: '5m' });
+
+    await engine.evaluate({ metrics: metrics(0, { download: 100 }), devices: [] }, at(0));
+    // Not enough history for the window yet
+    await engine.evaluate({ metrics: metrics(3, { download: 300 }), devices: [] }, at(3));
+    expect(alerts).toHaveLength(0);
+
+    await engine.evaluate({ metrics: metrics(5, { download: 140 }), devices: [] }, at(5));
+    expect(alerts).toHaveLength(0);
+
+    await engine.evaluate({ metrics: metrics(8, { download: 600 }), devices: [] }, at(8));
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].value).toBe(100);
+  });
+
+  it('should fire when no data arrives for the duration', async () => {
+    addRule({ type: 'absence', duration: '5m' });
+
+    await engine.evaluate(null, at(4));
+    expect(alerts).toHaveLength(0);
+
+    await engine.evaluate(null, at(5));
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].message).toBe('No data from network for 300s');
+
+    await engine.evaluate({ metrics: metrics(6), devices: [] }, at(6));
+    expect(alerts[0].status).toBe('resolved');
+  });
+
+  it('should track missing data per device', async () => {
+    addRule({ type: 'absence', duration: '2m', deviceId: 'sw1' });
+
+    await engine.evaluate({ metrics: metrics(0), devices: [device('sw1', 'online')] }, at(0));
+    await engine.evaluate({ metrics: metrics(3), devices: [device('sw2', 'online')] }, at(3));
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].subject).toBe('sw1');
+  });
+
+  it('should raise one alert per offline device', async () => {
+    addRule({ type: 'deviceStatus', status: 'offline' });
+
+    await engine.evaluate({
+      metrics: metrics(0),
+      devices: [device('sw1', 'offline'), device('sw2', 'online'), device('sw3', 'offline')]
+    }, at(0));
+    expect(alerts.map(alert => alert.subject)).toEqual(['sw1', 'sw3']);
+
+    await engine.evaluate({
+      metrics: metrics(1),
+      devices: [device('sw1', 'online'), device('sw2', 'online'), device('sw3', 'offline')]
+    }, at(1));
+    expect(alerts.map(alert => alert.status)).toEqual(['resolved', 'firing']);
+  });
+
+  it('should treat devices that are no longer reported as offline', async () => {
+    addRule({ type: 'deviceStatus', status: 'online' }, 'up');
+    addRule({ type: 'deviceStatus', status: 'offline', deviceId: 'sw2' }, 'sw2 down');
+
+    await engine.evaluate({
+      metrics: metrics(0),
+      devices: [device('sw1', 'online'), device('sw2', 'online')]
+    }, at(0));
+    expect(alerts.map(alert => [alert.ruleName, alert.subject, alert.status])).toEqual([
+      ['up', 'sw1', 'firing'],
+      ['up', 'sw2', 'firing']
+    ]);
+
+    await engine.evaluate({ metrics: metrics(1), devices: [device('sw1', 'online')] }, at(1));
+    expect(alerts.map(alert => [alert.ruleName, alert.subject, alert.status])).toEqual([
+      ['up', 'sw1', 'firing'],
+      ['up', 'sw2', 'resolved'],
+      ['sw2 down', 'sw2', 'firing']
+    ]);
+    expect(alerts[2].message).toBe('Device sw2 is no longer reported');
+  });
+
+  it('should keep acknowledged alerts until they resolve', async () => {
+    addRule({ type: 'threshold', metric: 'packetLoss', operator: '>', value: 5 });
+    await engine.evaluate({ metrics: metrics(0, { packetLoss: 10 }), devices: [] }, at(0));
+
+    const acknowledged = await engine.acknowledge(alerts[0]._id.toString(), 'ops@example.com');
+    expect(acknowledged).toMatchObject({ status: 'acknowledged', acknowledgedBy: 'ops@example.com' });
+    expect(await engine.acknowledge(alerts[0]._id.toString(), 'ops@example.com')).toBeNull();
+
+    await engine.evaluate({ metrics: metrics(1, { packetLoss: 10 }), devices: [] }, at(1));
+    expect(alerts).toHaveLength(1);
+
+    await engine.evaluate({ metrics: metrics(2, { packetLoss: 0 }), devices: [] }, at(2));
+    expect(alerts[0].status).toBe('resolved');
+    expect(events.map(e => e.event)).toEqual(['fired', 'acknowledged', 'resolved']);
+  });
+
+  it('should resolve alerts of disabled rules', async () => {
+    const rule = addRule({ type: 'threshold', metric: 'latency', operator: '>', value: 80 });
+    await engine.evaluate({ metrics: metrics(0, { latency: 95 }), devices: [] }, at(0));
+
+    rule.enabled = false;
+    await engine.evaluate({ metrics: metrics(1, { latency: 95 }), devices: [] }, at(1));
+    expect(alerts[0].status).toBe('resolved');
+  });
+
+  it('should leave alerts untouched when collection fails', async () => {
+    addRule({ type: 'threshold', metric: 'latency', operator: '>', value: 80 });
+    await engine.evaluate({ metrics: metrics(0, { latency: 95 }), devices: [] }, at(0));
+
+    await engine.evaluate(null, at(1));
+    expect(alerts[0].status).toBe('firing');
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, jest } from '@jest/globals';
+import crypto from 'crypto';
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import axios from 'axios';
+import notificationRoutes from '../../../api/routes/notifications';
+import { NotificationChannel } from '../../../models/notificationChannel';
+import { decryptSecret } from '../../../utils/encryption';
+import { signToken } from '../../../utils/jwt';
+
+describe('notification routes', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  const userToken = signToken({ userId: 'user-1', email: 'ops@example.com', role: 'user' });
+  const adminToken = signToken({ userId: 'admin-1', email: 'admin@example.com', role: 'admin' });
+  const key = crypto.randomBytes(32);
+  const channelId = '507f1f77bcf86cd799439011';
+
+  const request = (method: string, path: string, token: string, data?: unknown) => axios.request({
+    method,
+    url: `${baseUrl}${path}`,
+    data,
+    headers: { Authorization: `Bearer ${token}` },
+    validateStatus: () => true
+  });
+
+  beforeAll(async () => {
+    process.env.CONTROLLER_CREDENTIALS_KEY = key.toString('hex');
+    const app = express();
+    app.use(express.json());
+    app.use('/notifications', notificationRoutes);
+    server = http.createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    delete process.env.CONTROLLER_CREDENTIALS_KEY;
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should let any logged-in user list channels', async () => {
+    jest.spyOn(NotificationChannel, 'find').mockReturnValue({
+      sort: () => Promise.resolve([])
+    } as any);
+
+    const response = await request('get', '/notifications/channels', userToken);
+
+    expect(response.status).toBe(200);
+    expect(response.data).toEqual([]);
+  });
+
+  it('should only let admins change channels', async () => {
+    const findById = jest.spyOn(NotificationChannel, 'findById');
+    const findByIdAndDelete = jest.spyOn(NotificationChannel, 'findByIdAndDelete');
+    const channel = { name: 'hook', type: 'webhook', config: { url: 'http://127.0.0.1:9/' } };
+
+    const responses = await Promise.all([
+      request('post', '/notifications/channels', userToken, channel),
+      request('put', `/notifications/channels/${channelId}`, userToken, channel),
+      request('delete', `/notifications/channels/${channelId}`, userToken)
+    ]);
+
+    expect(responses.map(response => response.status)).toEqual([403, 403, 403]);
+    expect(findById).not.toHaveBeenCalled();
+    expect(findByIdAndDelete).not.toHaveBeenCalled();
+  });
+
+  it('should reject requests without a token', async () => {
+    const response = await axios.get(`${baseUrl}/notifications/channels`, { validateStatus: () => true });
+    expect(response.status).toBe(401);
+  });
+
+  it('should store webhook secrets encrypted and mask them', async () => {
+    jest.spyOn(NotificationChannel, 'findOne').mockResolvedValue(null);
+    let stored: any;
+    jest.spyOn(NotificationChannel.prototype, 'save').mockImplementation(async function(this: any) {
+      stored = this.toObject();
+      return this;
+    });
+
+    const response = await request('post', '/notifications/channels', adminToken, {
+      name: 'hook',
+      type: 'webhook',
+      config: { url: 'http://127.0.0.1:9/', secret: 's3cret' }
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.data.config.secret).toBe('********');
+    expect(stored.config.secret).toMatch(/^enc:v1:/);
+    expect(decryptSecret(stored.config.secret, key)).toBe('s3cret');
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { Controller, ControllerDefinition } from '../models/controller';
+import { ControllerRegistry, toControllerEntry } from '../services/controllerRegistry';
+import { ControllerEntry, NetworkControllerManager } from '../services/networkControllerManager';
+import { decryptSecret, encryptSecret, isEncrypted, loadCredentialKey } from '../utils/encryption';
+
+const key = crypto.randomBytes(32);
+
+const definition = (overrides: Partial<ControllerDefinition> = {}): ControllerDefinition => ({
+  name: 'Branch router',
+  type: 'mikroTik',
+  enabled: true,
+  priority: 10,
+  weight: 1,
+  config: { host: '10.1.0.1', password: encryptSecret('s3cret', key) },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+describe('controller credentials', () => {
+  it('should round trip secrets and reject other keys', () => {
+    const encrypted = encryptSecret('s3cret', key);
+
+    expect(isEncrypted(encrypted)).toBe(true);
+    expect(encrypted).not.toContain('s3cret');
+    expect(encryptSecret('s3cret', key)).not.toBe(encrypted);
+    expect(decryptSecret(encrypted, key)).toBe('s3cret');
+    expect(() => decryptSecret(encrypted, crypto.randomBytes(32))).toThrow();
+  });
+
+  it('should read a 32 byte key in hex or base64', () => {
+    const hex = key.toString('hex');
+    expect(loadCredentialKey({ CONTROLLER_CREDENTIALS_KEY: hex })).toEqual(key);
+    expect(loadCredentialKey({ CONTROLLER_CREDENTIALS_KEY: key.toString('base64') })).toEqual(key);
+    expect(() => loadCredentialKey({})).toThrow('CONTROLLER_CREDENTIALS_KEY is not set');
+    expect(() => loadCredentialKey({ CONTROLLER_CREDENTIALS_KEY: 'short' })).toThrow('Invalid CONTROLLER_CREDENTIALS_KEY');
+  });
+});
+
+describe('toControllerEntry', () => {
+  it('should decrypt credentials and apply the default settings', () => {
+    expect(toControllerEntry(definition(), key)).toEqual({
+      name: 'Branch router',
+      type: 'mikroTik',
+      priority: 10,
+      weight: 1,
+      config: { host: '10.1.0.1', port: 8728, username: 'admin', password: 's3cret', streaming: false }
+    });
+  });
+
+  it('should require the key for stored credentials', () => {
+    expect(() => toControllerEntry(definition(), null)).toThrow('CONTROLLER_CREDENTIALS_KEY is not set');
+    expect(toControllerEntry(definition({ config: { host: '10.1.0.1' } }), null).config)
+      .toMatchObject({ password: '' });
+  });
+
+  it('should decrypt SNMPv3 keys', () => {
+    const entry = toControllerEntry(definition({
+      type: 'snmp',
+      config: {
+        host: '10.1.0.2',
+        version: '3',
+        username: 'monitor',
+        authProtocol: 'sha256',
+        authKey: encryptSecret('auth-key', key),
+        privProtocol: 'aes',
+        privKey: encryptSecret('priv-key', key)
+      }
+    }), key);
+
+    expect(entry.config).toEqual({
+      host: '10.1.0.2',
+      port: 161,
+      version: '3',
+      community: 'public',
+      username: 'monitor',
+      authProtocol: 'sha256',
+      authKey: 'auth-key',
+      privProtocol: 'aes',
+      privKey: 'priv-key'
+    });
+  });
+
+  it('should decrypt the pfSense login for token authentication', () => {
+    const entry = toControllerEntry(definition({
+      type: 'pfSense',
+      config: { host: '10.1.0.3', authMode: 'jwt', username: 'admin', password: encryptSecret('pfsense', key) }
+    }), key);
+
+    expect(entry.config).toEqual({
+      host: '10.1.0.3',
+      authMode: 'jwt',
+      apiKey: '',
+      apiSecret: '',
+      username: 'admin',
+      password: 'pfsense',
+      verifySsl: false
+    });
+  });
+});
+
+describe('ControllerRegistry', () => {
+  let setControllers: jest.Mock<(entries: ControllerEntry[]) => Promise<void>>;
+  let stored: ControllerDefinition[];
+  let registry: ControllerRegistry;
+
+  beforeEach(() => {
+    stored = [];
+    jest.spyOn(Controller, 'find').mockReturnValue({ lean: async () => stored } as any);
+    setControllers = jest.fn<(entries: ControllerEntry[]) => Promise<void>>().mockResolvedValue();
+    registry = new ControllerRegistry({ setControllers } as unknown as NetworkControllerManager, key);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should hand the enabled controllers to the manager', async () => {
+    stored = [
+      definition(),
+      definition({ name: 'Second branch', config: { host: '10.2.0.1', password: encryptSecret('other', key) } })
+    ];
+
+    await registry.reload();
+
+    expect(Controller.find).toHaveBeenCalledWith({ enabled: true });
+    const entries = setControllers.mock.calls[0][0];
+    expect(entries.map(entry => [entry.name, entry.type, (entry.config as any).password])).toEqual([
+      ['Branch router', 'mikroTik', 's3cret'],
+      ['Second branch', 'mikroTik', 'other']
+    ]);
+  });
+
+  it('should skip controllers whose credentials cannot be decrypted', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    stored = [
+      definition({ name: 'Rotated', config: { host: '10.3.0.1', password: encryptSecret('x', crypto.randomBytes(32)) } }),
+      definition()
+    ];
+
+    await registry.reload();
+
+    expect(setControllers.mock.calls[0][0].map(entry => entry.name)).toEqual(['Branch router']);
+  });
+
+  it('should apply overlapping reloads in order', async () => {
+    let release!: () => void;
+    setControllers.mockImplementationOnce(() => new Promise<void>(resolve => { release = resolve; }));
+
+    const first = registry.reload();
+    const second = registry.reload();
+    await new Promise(resolve => setImmediate(resolve));
+    expect(setControllers).toHaveBeenCalledTimes(1);
+
+    release();
+    await Promise.all([first, second]);
+    expect(setControllers).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reload when the controller collection changes', async () => {
+    const stream = Object.assign(new EventEmitter(), { close: jest.fn(async () => undefined) });
+    jest.spyOn(Controller, 'watch').mockReturnValue(stream as any);
+
+    registry.start();
+    stream.emit('change', { operationType: 'update' });
+    await new Promise(resolve => setImmediate(resolve));
+    expect(setControllers).toHaveBeenCalledTimes(1);
+
+    await registry.stop();
+    expect(stream.close).toHaveBeenCalled();
+  });
+
+  it('should stop watching when change streams are not available', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const stream = Object.assign(new EventEmitter(), { close: jest.fn(async () => undefined) });
+    jest.spyOn(Controller, 'watch').mockReturnValue(stream as any);
+
+    registry.start();
+    stream.emit('error', new Error('The $changeStream stage is only supported on replica sets'));
+
+    expect(stream.close).toHaveBeenCalled();
+    expect(console.warn).toHaveBeenCalledWith('Not watching the controller collection:', expect.stringContaining('replica sets'));
+  });
+
+  it('should encrypt plaintext credentials only', () => {
+    const alreadyEncrypted = encryptSecret('kept', key);
+    const settings = registry.encryptCredentials({ host: 'fw', apiKey: 'key', apiSecret: 'plain', password: alreadyEncrypted });
+
+    expect(settings.apiKey).toBe('key');
+    expect(decryptSecret(settings.apiSecret!, key)).toBe('plain');
+    expect(settings.password).toBe(alreadyEncrypted);
+  });
+
+  it('should refuse to store credentials without a key', () => {
+    const keyless = new ControllerRegistry({ setControllers } as unknown as NetworkControllerManager, null);
+
+    expect(() => keyless.encryptCredentials({ host: 'fw', password: 'plain' })).toThrow('CONTROLLER_CREDENTIALS_KEY is not set');
+    expect(keyless.encryptCredentials({ host: 'fw' })).toEqual({ host: 'fw' });
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import dgram from 'dgram';
+import { FlowCollectorController } from '../../services/controllers/flowCollectorController';
+import { NetflowParser } from '../../services/flowCollector/netflowParser';
+
+const EXPORT_SECONDS = 1700000000;
+const UPTIME = 600000;
+
+const ipv4 = (address: string) => Buffer.from(address.split('.').map(Number));
+const u8 = (value: number) => Buffer.from([value]);
+const u16 = (value: number) => {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16BE(value);
+  return buffer;
+};
+const u32 = (value: number) => {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value);
+  return buffer;
+};
+const u64 = (value: number) => {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64BE(BigInt(value));
+  return buffer;
+};
+
+// A set or flowset: id, length including the header, then the content
+// padded to 4 bytes
+function set(id: number, ...parts: Buffer[]): Buffer {
+  const content = Buffer.concat(parts);
+  const padding = Buffer.alloc((4 - (content.length % 4)) % 4);
+  return Buffer.concat([u16(id), u16(4 + content.length + padding.length), content, padding]);
+}
+
+function netflowV5(...records: { src: string; dst: string; srcPort: number; dstPort: number; protocol: number; packets: number; bytes: number }[]): Buffer {
+  const header = Buffer.concat([u16(5), u16(records.length), u32(UPTIME), u32(EXPORT_SECONDS), u32(0), u32(1), u8(0), u8(0), u16(0)]);
+  return Buffer.concat([header, ...records.map(record => Buffer.concat([
+    ipv4(record.src), ipv4(record.dst), ipv4('0.0.0.0'), u16(1), u16(2),
+    u32(record.packets), u32(record.bytes), u32(UPTIME - 5000), u32(UPTIME - 1000),
+    u16(record.srcPort), u16(record.dstPort), u8(0), u8(0x18), u8(record.protocol), u8(0),
+    u16(0), u16(0), u8(24), u8(24), u16(0)
+  ]))]);
+}
+
+function netflowV9(sourceId: number, ...flowsets: Buffer[]): Buffer {
+  const header = Buffer.concat([u16(9), u16(flowsets.length), u32(UPTIME), u32(EXPORT_SECONDS), u32(1), u32(sourceId)]);
+  return Buffer.concat([header, ...flowsets]);
+}
+
+function ipfix(domainId: number, ...sets: Buffer[]): Buffer {
+  const body = Buffer.concat(sets);
+  return Buffer.concat([u16(10), u16(16 + body.length), u32(EXPORT_SECONDS), u32(1), u32(domainId), body]);
+}
+
+// Template 256: src, dst, ports, protocol, bytes, packets, first and last
+// switched relative to the uptime
+const V9_TEMPLATE = set(0,
+  u16(256), u16(9),
+  u16(8), u16(4), u16(12), u16(4), u16(7), u16(2), u16(11), u16(2), u16(4), u16(1),
+  u16(1), u16(4), u16(2), u16(4), u16(22), u16(4), u16(21), u16(4)
+);
+
+const v9Record = (src: string, dst: string, bytes: number) => Buffer.concat([
+  ipv4(src), ipv4(dst), u16(53000), u16(443), u8(6), u32(bytes), u32(10), u32(UPTIME - 3000), u32(UPTIME - 2000)
+]);
+
+describe('NetflowParser', () => {
+  let parser: NetflowParser;
+
+  beforeEach(() => {
+    parser = new NetflowParser();
+  });
+
+  it('should parse NetFlow v5 records', () => {
+    const [record] = parser.parse(netflowV5({ src: '10.0.0.5', dst: '8.8.8.8', srcPort: 40000, dstPort: 53, protocol: 17, packets: 2, bytes: 140 }), '192.0.2.1');
+
+    expect(record).toEqual({
+      exporter: '192.0.2.1',
+      sourceIp: '10.0.0.5',
+      destinationIp: '8.8.8.8',
+      sourcePort: 40000,
+      destinationPort: 53,
+      protocol: 17,
+      bytes: 140,
+      packets: 2,
+      startTime: new Date(EXPORT_SECONDS * 1000 - 5000),
+      endTime: new Date(EXPORT_SECONDS * 1000 - 1000),
+      direction: 'ingress'
+    });
+  });
+
+  it('should decode NetFlow v9 data with a cached template', () => {
+    // Data before its template cannot be decoded
+    expect(parser.parse(netflowV9(1, set(256, v9Record('10.0.0.5', '10.0.0.6', 1000))), '192.0.2.1')).toEqual([]);
+
+    const records = parser.parse(netflowV9(1, V9_TEMPLATE, set(256, v9Record('10.0.0.5', '10.0.0.6', 1000), v9Record('10.0.0.7', '10.0.0.8', 2000))), '192.0.2.1');
+    expect(records.map(record => [record.sourceIp, record.destinationIp, record.protocol, record.bytes])).toEqual([
+      ['10.0.0.5', '10.0.0.6', 6, 1000],
+      ['10.0.0.7', '10.0.0.8', 6, 2000]
+    ]);
+    expect(records[0].startTime).toEqual(new Date(EXPORT_SECONDS * 1000 - 3000));
+
+    // Later packets reuse the template
+    expect(parser.parse(netflowV9(1, set(256, v9Record('10.0.0.9', '10.0.0.6', 10))), '192.0.2.1')).toHaveLength(1);
+  });
+
+  it('should keep templates per exporter and source ID', () => {
+    parser.parse(netflowV9(1, V9_TEMPLATE), '192.0.2.1');
+
+    expect(parser.parse(netflowV9(2, set(256, v9Record('10.0.0.5', '10.0.0.6', 1))), '192.0.2.1')).toEqual([]);
+    expect(parser.parse(netflowV9(1, set(256, v9Record('10.0.0.5', '10.0.0.6', 1))), '192.0.2.2')).toEqual([]);
+  });
+
+  it('should expire templates that are not refreshed', () => {
+    parser = new NetflowParser(1000);
+    parser.parse(netflowV9(1, V9_TEMPLATE), '192.0.2.1', 0);
+
+    expect(parser.parse(netflowV9(1, set(256, v9Record('10.0.0.5', '10.0.0.6', 1))), '192.0.2.1', 500)).toHaveLength(1);
+    expect(parser.parse(netflowV9(1, set(256, v9Record('10.0.0.5', '10.0.0.6', 1))), '192.0.2.1', 2000)).toEqual([]);
+  });
+
+  it('should skip NetFlow v9 options data', () => {
+    const optionsTemplate = set(1, u16(257), u16(4), u16(8), u16(1), u16(4), u16(34), u16(4), u16(36), u16(2));
+    const optionsData = set(257, u32(1), u32(100), u16(60));
+
+    expect(parser.parse(netflowV9(1, optionsTemplate, V9_TEMPLATE, optionsData, set(256, v9Record('10.0.0.5', '10.0.0.6', 1))), '192.0.2.1'))
+      .toHaveLength(1);
+  });
+
+  it('should decode IPFIX with IPv6, variable length and enterprise fields', () => {
+    const template = set(2,
+      u16(300), u16(8),
+      u16(27), u16(16), u16(28), u16(16), u16(4), u16(1), u16(85), u16(8),
+      u16(152), u16(8), u16(61), u16(1),
+      // Interface name, variable length
+      u16(82), u16(65535),
+      // Enterprise-specific element
+      u16(0x8000 | 1), u16(2), u32(9)
+    );
+    const source = Buffer.from('20010db8000000000000000000000001', 'hex');
+    const destination = Buffer.from('20010db8000000010000000000000002', 'hex');
+    const data = set(300, source, destination, u8(17), u64(123456), u64(EXPORT_SECONDS * 1000 - 100), u8(1), u8(4), Buffer.from('eth0'), u16(7));
+
+    const [record] = parser.parse(ipfix(5, template, data), '2001:db8::fe');
+    expect(record).toMatchObject({
+      exporter: '2001:db8::fe',
+      sourceIp: '2001:db8::1',
+      destinationIp: '2001:db8:0:1::2',
+      protocol: 17,
+      bytes: 123456,
+      startTime: new Date(EXPORT_SECONDS * 1000 - 100),
+      direction: 'egress'
+    });
+  });
+
+  it('should withdraw IPFIX templates', () => {
+    const template = set(2, u16(300), u16(2), u16(8), u16(4), u16(12), u16(4));
+    const data = set(300, ipv4('10.0.0.1'), ipv4('10.0.0.2'));
+    expect(parser.parse(ipfix(1, template, data), '192.0.2.1')).toHaveLength(1);
+
+    expect(parser.parse(ipfix(1, set(2, u16(300), u16(0)), data), '192.0.2.1')).toEqual([]);
+  });
+
+  it('should reject malformed packets', () => {
+    expect(() => parser.parse(Buffer.from([0, 7, 0, 0]), '192.0.2.1')).toThrow('Unsupported flow export version 7');
+    expect(() => parser.parse(netflowV5({ src: '10.0.0.5', dst: '8.8.8.8', srcPort: 1, dstPort: 2, protocol: 6, packets: 1, bytes: 1 }).subarray(0, 50), '192.0.2.1'))
+      .toThrow('Truncated');
+    expect(() => parser.parse(netflowV9(1, Buffer.concat([u16(256), u16(200)])), '192.0.2.1')).toThrow('Malformed flow set');
+  });
+
+  it('should reject templates whose records have no length', () => {
+    const template = set(0, u16(256), u16(1), u16(1), u16(0));
+    expect(() => parser.parse(netflowV9(1, template, set(256, u32(0))), '192.0.2.1')).toThrow('Malformed template');
+    expect(() => parser.parse(ipfix(1, set(2, u16(300), u16(1), u16(8), u16(0)), set(300, u32(0))), '192.0.2.1'))
+      .toThrow('Malformed template');
+  });
+});
+
+describe('FlowCollectorController', () => {
+  let collector: FlowCollectorController;
+  let exporter: dgram.Socket;
+
+  const send = (packet: Buffer) => new Promise<void>((resolve, reject) => {
+    exporter.send(packet, collector.getPort()!, '127.0.0.1', error => (error ? reject(error) : resolve()));
+  });
+
+  const waitFor = async (condition: () => Promise<boolean>) => {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      if (await condition()) {
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    throw new Error('Timed out waiting for the collector');
+  };
+
+  beforeEach(async () => {
+    collector = new FlowCollectorController({ address: '127.0.0.1', port: 0 });
+    await collector.connect();
+    exporter = dgram.createSocket('udp4');
+  });
+
+  afterEach(async () => {
+    await collector.disconnect();
+    exporter.close();
+    jest.restoreAllMocks();
+  });
+
+  it('should collect flows replayed over UDP', async () => {
+    await send(netflowV9(1, V9_TEMPLATE, set(256, v9Record('10.0.0.5', '10.0.0.6', 1000))));
+    await send(netflowV9(1, set(256, v9Record('10.0.0.5', '10.0.0.6', 500))));
+    await send(netflowV5({ src: '10.0.0.7', dst: '8.8.8.8', srcPort: 40000, dstPort: 53, protocol: 17, packets: 2, bytes: 140 }));
+    await waitFor(async () => (await collector.getStats()).bytesIn === 1640);
+
+    const flows = await collector.getFlows();
+    expect(flows.map(flow => [flow.sourceIp, flow.destinationIp, flow.protocol, flow.bytesTransferred, flow.packetsTransferred])).toEqual([
+      ['10.0.0.5', '10.0.0.6', 'tcp', 1500, 20],
+      ['10.0.0.7', '8.8.8.8', 'udp', 140, 2]
+    ]);
+    expect((await collector.getStats()).activeConnections).toBe(2);
+
+    const [device] = await collector.getDevices();
+    expect(device).toMatchObject({ id: '127.0.0.1', type: 'NetFlow v5 Exporter', status: 'online' });
+    expect(await collector.healthCheck()).toBe(true);
+  });
+
+  it('should drop malformed packets and keep collecting', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    await send(Buffer.from([0, 7, 0, 0]));
+    await send(netflowV5({ src: '10.0.0.7', dst: '8.8.8.8', srcPort: 40000, dstPort: 53, protocol: 17, packets: 2, bytes: 140 }));
+
+    await waitFor(async () => (await collector.getFlows()).length === 1);
+    expect(warn).toHaveBeenCalledWith('Dropping flow export from 127.0.0.1:', 'Unsupported flow export version 7');
+  });
+
+  it('should bound the flow table and expire idle flows', async () => {
+    await collector.disconnect();
+    collector = new FlowCollectorController({ maxFlows: 2, flowTimeout: 1000 });
+    const now = Date.now();
+    const flow = (dstPort: number) => netflowV5({ src: '10.0.0.7', dst: '8.8.8.8', srcPort: 40000, dstPort, protocol: 6, packets: 1, bytes: 1 });
+
+    collector.receive(flow(1), '192.0.2.1', now - 5000);
+    collector.receive(flow(2), '192.0.2.1', now);
+    collector.receive(flow(3), '192.0.2.1', now);
+    collector.receive(flow(4), '192.0.2.1', now);
+
+    expect((await collector.getFlows()).map(f => f.destinationPort)).toEqual([3, 4]);
+    expect((await collector.getStats()).bytesIn).toBe(4);
+    expect(await collector.healthCheck()).toBe(false);
+  });
+});
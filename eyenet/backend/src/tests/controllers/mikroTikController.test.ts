@@ -125,6 +125,20 @@ describe('MikroTikController', () => {
       expect(devices[0].ipAddress).toBe('unknown');
     });
 
+    it('should report interfaces that are down or disabled as offline', async () => {
+      mockClient.connect.mockResolvedValueOnce(undefined);
+      await controller.connect();
+
+      mockClient.write.mockResolvedValueOnce([
+        { '.id': '*1', name: 'ether1', type: 'ether', running: 'true', disabled: 'false' },
+        { '.id': '*2', name: 'ether2', type: 'ether', running: 'false', disabled: 'false' },
+        { '.id': '*3', name: 'ether3', type: 'ether', running: 'true', disabled: 'true' }
+      ]);
+
+      const devices = await controller.getDevices();
+      expect(devices.map(device => device.status)).toEqual(['online', 'offline', 'offline']);
+    });
+
     it('should throw error on API failure', async () => {
       // First connect
       mockClient.connect.mockResolvedValueOnce(undefined);
@@ -158,6 +172,7 @@ describe('MikroTikController', () => {
         id: '*1',
         sourceIp: '192.168.1.2',
         destinationIp: '192.168.1.3',
+        addressFamily: 'ipv4',
         sourcePort: 80,
         destinationPort: 443,
         protocol: 'tcp',
@@ -168,6 +183,29 @@ describe('MikroTikController', () => {
       });
     });
 
+    it('should parse bracketed IPv6 endpoints', async () => {
+      mockClient.connect.mockResolvedValueOnce(undefined);
+      await controller.connect();
+
+      mockClient.write.mockResolvedValueOnce([{
+        '.id': '*2',
+        'src-address': '[2001:db8::2]:51000',
+        'dst-address': '[2001:db8:0:1::3]:443',
+        protocol: 'tcp'
+      }, {
+        '.id': '*3',
+        'src-address': 'fe80::1',
+        'dst-address': 'ff02::1',
+        protocol: 'ipv6-icmp'
+      }]);
+
+      const flows = await controller.getFlows();
+      expect(flows.map(flow => [flow.sourceIp, flow.sourcePort, flow.destinationIp, flow.destinationPort, flow.addressFamily])).toEqual([
+        ['2001:db8::2', 51000, '2001:db8:0:1::3', 443, 'ipv6'],
+        ['fe80::1', 0, 'ff02::1', 0, 'ipv6']
+      ]);
+    });
+
     it('should handle missing byte and packet counts', async () => {
       // First connect
       mockClient.connect.mockResolvedValueOnce(undefined);
@@ -198,48 +236,70 @@ describe('MikroTikController', () => {
   });
 
   describe('getStats', () => {
-    it('should return aggregated network statistics', async () => {
-      // First connect
-      mockClient.connect.mockResolvedValueOnce(undefined);
-      await controller.connect();
-
-      // Mock interface and connection print commands
-      mockClient.write.mockImplementation((command: string) => {
+    // Answers interface prints with the given counters, one list per poll.
+    // Without count-only the router would print every connection.
+    const counters = (...polls: any[][]) => {
+      mockClient.write.mockImplementation((command: string, words: string[]) => {
         if (command === '/interface/print') {
-          return Promise.resolve([{
-            'rx-byte': '1000',
-            'tx-byte': '2000',
-            'rx-packet': '100',
-            'tx-packet': '200'
-          }]);
+          return Promise.resolve(polls.shift() || []);
         } else if (command === '/ip/firewall/connection/print') {
-          return Promise.resolve({ '.count': '5' });
+          return Promise.resolve(words.includes('=count-only=') ? [{ ret: '5' }] : [{ '.id': '*1', protocol: 'tcp' }]);
         }
         return Promise.resolve([]);
       });
+    };
 
-      const stats = await controller.getStats();
-      expect(stats).toEqual({
-        bytesIn: 1000,
-        bytesOut: 2000,
-        packetsIn: 100,
-        packetsOut: 200,
+    const iface = (name: string, rx: number, tx: number) => ({
+      name,
+      'rx-byte': String(rx),
+      'tx-byte': String(tx),
+      'rx-packet': String(rx / 10),
+      'tx-packet': String(tx / 10)
+    });
+
+    beforeEach(async () => {
+      mockClient.connect.mockResolvedValueOnce(undefined);
+      await controller.connect();
+    });
+
+    it('should count the traffic since the previous poll', async () => {
+      counters(
+        [iface('ether1', 1000, 2000)],
+        [iface('ether1', 1500, 2600)],
+        [iface('ether1', 2500, 3000), iface('ether2', 50000, 50000)]
+      );
+
+      expect(await controller.getStats()).toEqual({
+        bytesIn: 0,
+        bytesOut: 0,
+        packetsIn: 0,
+        packetsOut: 0,
         activeConnections: 5,
         timestamp: expect.any(Date)
       });
+      expect(await controller.getStats()).toMatchObject({ bytesIn: 500, bytesOut: 600, packetsIn: 50, packetsOut: 60 });
+      // ether2 is new and only counts from the next poll
+      expect(await controller.getStats()).toMatchObject({ bytesIn: 1500, bytesOut: 1000 });
+      expect(mockClient.write).toHaveBeenCalledWith('/ip/firewall/connection/print', ['=count-only=']);
+      expect(mockClient.write).toHaveBeenCalledWith('/interface/print', ['=.proplist=name,rx-byte,tx-byte,rx-packet,tx-packet']);
     });
 
-    it('should handle missing statistics', async () => {
-      // First connect
-      mockClient.connect.mockResolvedValueOnce(undefined);
-      await controller.connect();
+    it('should keep counting when the counters start over', async () => {
+      counters(
+        [iface('ether1', 5000, 5000)],
+        [iface('ether1', 8000, 9000)],
+        [iface('ether1', 300, 400)]
+      );
+
+      await controller.getStats();
+      await controller.getStats();
+      expect(await controller.getStats()).toMatchObject({ bytesIn: 3300, bytesOut: 4400 });
+    });
 
-      // Mock interface and connection print commands
+    it('should handle missing statistics', async () => {
       mockClient.write.mockImplementation((command: string) => {
         if (command === '/interface/print') {
           return Promise.resolve([{}]);
-        } else if (command === '/ip/firewall/connection/print') {
-          return Promise.resolve({});
         }
         return Promise.resolve([]);
       });
@@ -256,95 +316,347 @@ describe('MikroTikController', () => {
     });
 
     it('should throw error on API failure', async () => {
-      // First connect
-      mockClient.connect.mockResolvedValueOnce(undefined);
-      await controller.connect();
-
       mockClient.write.mockRejectedValueOnce(new Error('API Error'));
 
       await expect(controller.getStats()).rejects.toThrow('API Error');
     });
   });
 
-  describe('applyQoSPolicy', () => {
-    it('should successfully apply QoS policy without ports', async () => {
-      // First connect
+  describe('getInterfaceStats', () => {
+    beforeEach(async () => {
       mockClient.connect.mockResolvedValueOnce(undefined);
       await controller.connect();
+    });
 
-      const policy: QoSPolicy = {
-        id: 'qos1',
-        name: 'High Priority',
-        targetDevice: 'ether1',
-        bandwidth: {
-          min: 10,
-          max: 100
-        },
-        priority: 1
-      };
+    it('should report the counters and current rates of each interface', async () => {
+      // monitor-traffic fails without the interfaces to watch
+      mockClient.write.mockImplementation((command: string, words: string[]) => {
+        if (command === '/interface/print') {
+          return Promise.resolve([
+            { '.id': '*1', name: 'ether1', 'rx-byte': '1000', 'tx-byte': '2000', 'rx-packet': '10', 'tx-packet': '20' },
+            { '.id': '*2', name: 'ether2', 'rx-byte': '0', 'tx-byte': '0', 'rx-packet': '0', 'tx-packet': '0' }
+          ]);
+        } else if (command === '/interface/monitor-traffic') {
+          if (!words.includes('=interface=ether1,ether2') || !words.includes('=once=')) {
+            return Promise.reject(new Error('missing value(s) of argument(s) interface'));
+          }
+          return Promise.resolve([{ name: 'ether1', 'rx-bits-per-second': '8000000', 'tx-bits-per-second': '1000000' }]);
+        }
+        return Promise.resolve([]);
+      });
 
-      mockClient.write.mockResolvedValueOnce([]);
+      expect(await controller.getInterfaceStats()).toEqual([{
+        deviceId: 'mikrotik.example.com',
+        portId: '*1',
+        name: 'ether1',
+        bytesIn: 1000,
+        bytesOut: 2000,
+        packetsIn: 10,
+        packetsOut: 20,
+        inBitsPerSecond: 8000000,
+        outBitsPerSecond: 1000000,
+        timestamp: expect.any(Date)
+      }, {
+        deviceId: 'mikrotik.example.com',
+        portId: '*2',
+        name: 'ether2',
+        bytesIn: 0,
+        bytesOut: 0,
+        packetsIn: 0,
+        packetsOut: 0,
+        timestamp: expect.any(Date)
+      }]);
+      expect(mockClient.write).toHaveBeenCalledWith('/interface/monitor-traffic', ['=interface=ether1,ether2', '=once=']);
+    });
 
-      await expect(controller.applyQoSPolicy(policy)).resolves.not.toThrow();
-      expect(mockClient.write).toHaveBeenCalledWith('/queue/simple/add', expect.objectContaining({
-        name: policy.name,
-        target: policy.targetDevice,
-        'max-limit': '100M/100M',
-        'limit-at': '10M/10M',
-        priority: '1'
-      }));
+    it('should throw error on API failure', async () => {
+      mockClient.write.mockRejectedValueOnce(new Error('API Error'));
+
+      await expect(controller.getInterfaceStats()).rejects.toThrow('API Error');
     });
+  });
 
-    it('should apply QoS policy with ports', async () => {
-      // First connect
+  describe('QoS policies', () => {
+    const policy: QoSPolicy = {
+      id: 'qos1',
+      name: 'High Priority',
+      targetDevice: 'ether1',
+      bandwidth: {
+        min: 10,
+        max: 100
+      },
+      priority: 1
+    };
+
+    // Answers print commands from the given tables, other commands with []
+    const routerState = (state: { queues?: any[]; simpleQueues?: any[]; rules?: any[]; queueTypes?: any[] }) => {
+      mockClient.write.mockImplementation(async (command: string) => {
+        if (command === '/queue/tree/print') {
+          return state.queues || [];
+        }
+        if (command === '/queue/simple/print') {
+          return state.simpleQueues || [];
+        }
+        if (command === '/ip/firewall/mangle/print') {
+          return state.rules || [];
+        }
+        if (command === '/queue/type/print') {
+          return state.queueTypes || [];
+        }
+        return [];
+      });
+    };
+
+    const commands = () => mockClient.write.mock.calls.filter((call: any[]) => !call[0].endsWith('/print'));
+
+    // Value of an attribute in the words sent with a command
+    const attribute = (words: string[], name: string) => words.find(word => word.startsWith(`=${name}=`))?.slice(name.length + 2);
+
+    beforeEach(async () => {
       mockClient.connect.mockResolvedValueOnce(undefined);
       await controller.connect();
+    });
 
-      const policy: QoSPolicy = {
-        id: 'qos1',
-        name: 'High Priority',
-        targetDevice: 'ether1',
-        bandwidth: {
-          min: 10,
-          max: 100
-        },
-        priority: 1,
-        ports: [80, 443],
-        protocol: 'tcp'
-      };
-
-      mockClient.write
-        .mockResolvedValueOnce([]) // queue/simple/add
-        .mockResolvedValueOnce([]) // first mangle rule
-        .mockResolvedValueOnce([]); // second mangle rule
+    it('should add the queue tree before the mangle rules that feed it', async () => {
+      routerState({});
 
       await expect(controller.applyQoSPolicy(policy)).resolves.not.toThrow();
-      expect(mockClient.write).toHaveBeenCalledWith('/ip/firewall/mangle/add', expect.objectContaining({
-        chain: 'prerouting',
-        'dst-port': '80',
-        protocol: 'tcp'
-      }));
+      expect(commands().map((call: any[]) => [call[0], attribute(call[1], 'name') || attribute(call[1], 'action')])).toEqual([
+        ['/queue/tree/add', 'High Priority'],
+        ['/queue/tree/add', 'High Priority traffic'],
+        ['/ip/firewall/mangle/add', 'mark-connection'],
+        ['/ip/firewall/mangle/add', 'mark-packet']
+      ]);
+      expect(mockClient.write).toHaveBeenCalledWith('/queue/tree/add', [
+        '=name=High Priority',
+        '=parent=ether1',
+        '=max-limit=100M',
+        '=limit-at=10M',
+        '=comment=QoS policy qos1'
+      ]);
+    });
+
+    it('should add PCQ queue types for fair sharing', async () => {
+      routerState({});
+
+      await controller.applyQoSPolicy({ ...policy, sourceCidr: '10.1.0.0/16', fairShare: true });
+      expect(commands().map((call: any[]) => call[0]).slice(0, 2)).toEqual(['/queue/type/add', '/queue/type/add']);
+      expect(mockClient.write).toHaveBeenCalledWith('/queue/type/add', [
+        '=name=qos-qos1-up',
+        '=kind=pcq',
+        '=pcq-classifier=src-address',
+        '=pcq-rate=0'
+      ]);
+    });
+
+    it('should replace an installed policy', async () => {
+      routerState({
+        queues: [
+          { '.id': '*5', name: 'High Priority', parent: 'ether1', comment: 'QoS policy qos1' },
+          { '.id': '*7', name: 'High Priority traffic', parent: 'High Priority', comment: 'QoS policy qos1' },
+          { '.id': '*6', name: 'manual', parent: 'ether1', comment: 'manual' }
+        ],
+        rules: [{ '.id': '*A', comment: 'QoS policy qos1', 'dst-port': '8080' }]
+      });
+
+      await controller.updateQoSPolicy({ ...policy, ports: [443] });
+
+      expect(commands().map((call: any[]) => call[0])).toEqual([
+        '/ip/firewall/mangle/remove',
+        '/queue/tree/remove',
+        '/queue/tree/remove',
+        '/queue/tree/add',
+        '/queue/tree/add',
+        '/ip/firewall/mangle/add',
+        '/ip/firewall/mangle/add'
+      ]);
+      expect(mockClient.write).toHaveBeenCalledWith('/ip/firewall/mangle/remove', ['=.id=*A']);
+      expect(mockClient.write).toHaveBeenCalledWith('/ip/firewall/mangle/add', expect.arrayContaining(['=dst-port=443']));
+    });
+
+    it('should remove everything tagged with a policy, children first', async () => {
+      routerState({
+        queues: [
+          { '.id': '*5', name: 'High Priority', parent: 'ether1', comment: 'QoS policy qos1' },
+          { '.id': '*7', name: 'High Priority upload', parent: 'High Priority', comment: 'QoS policy qos1' },
+          { '.id': '*8', name: 'Other', parent: 'ether1', comment: 'QoS policy qos2' }
+        ],
+        simpleQueues: [{ '.id': '*9', comment: 'QoS policy qos1' }],
+        rules: [{ '.id': '*A', comment: 'QoS policy qos1' }, { '.id': '*B', comment: 'QoS policy qos10' }],
+        queueTypes: [
+          { '.id': '*C', name: 'qos-qos1-up' },
+          { '.id': '*D', name: 'qos-qos2-up' },
+          { '.id': '*E', name: 'default' }
+        ]
+      });
+
+      await controller.removeQoSPolicy('qos1');
+
+      expect(commands()).toEqual([
+        ['/ip/firewall/mangle/remove', ['=.id=*A']],
+        ['/queue/tree/remove', ['=.id=*7']],
+        ['/queue/tree/remove', ['=.id=*5']],
+        ['/queue/simple/remove', ['=.id=*9']],
+        ['/queue/type/remove', ['=.id=*C']]
+      ]);
+    });
+
+    it('should list installed policies from their queue trees and mangle rules', async () => {
+      routerState({
+        queues: [{
+          '.id': '*5',
+          name: 'High Priority',
+          parent: 'ether1',
+          'max-limit': '100000000',
+          'limit-at': '10M',
+          comment: 'QoS policy qos1'
+        }, {
+          '.id': '*7',
+          name: 'High Priority traffic',
+          parent: 'High Priority',
+          'packet-mark': 'qos-qos1',
+          priority: '1',
+          queue: 'default',
+          comment: 'QoS policy qos1'
+        }, { '.id': '*6', name: 'manual', parent: 'ether2', comment: 'set up by hand' }],
+        rules: [
+          { '.id': '*A', comment: 'QoS policy qos1', action: 'mark-connection', protocol: 'udp', 'dst-port': '5004' },
+          { '.id': '*B', comment: 'QoS policy qos1', action: 'mark-connection', protocol: 'udp', 'dst-port': '5006' },
+          { '.id': '*C', comment: 'QoS policy qos1', action: 'mark-packet', 'connection-mark': 'qos-qos1-conn' }
+        ]
+      });
+
+      expect(await controller.listQoSPolicies()).toEqual([{
+        ...policy,
+        ports: [5004, 5006],
+        protocol: 'udp'
+      }]);
+    });
+
+    it('should not touch the router for a policy it cannot enforce', async () => {
+      routerState({});
+
+      await expect(controller.applyQoSPolicy({ ...policy, fairShare: true })).rejects.toThrow('sourceCidr');
+      expect(mockClient.write).not.toHaveBeenCalled();
     });
 
     it('should throw error on API failure', async () => {
-      // First connect
+      mockClient.write.mockRejectedValueOnce(new Error('API Error'));
+
+      await expect(controller.applyQoSPolicy(policy)).rejects.toThrow('API Error');
+    });
+  });
+
+  describe('streaming', () => {
+    let streams: { [command: string]: (error: Error | null, packet?: any) => void };
+    let stop: jest.Mock;
+
+    const connection = (id: string, bytes = '100') => ({
+      '.id': id,
+      'src-address': '192.168.1.100:12345',
+      'dst-address': '10.0.0.1:80',
+      protocol: 'tcp',
+      bytes,
+      packets: '1'
+    });
+
+    beforeEach(async () => {
+      streams = {};
+      stop = jest.fn(() => Promise.resolve());
+      mockClient.stream = jest.fn((params: string[], callback: any) => {
+        streams[params[0]] = callback;
+        return { stop };
+      });
       mockClient.connect.mockResolvedValueOnce(undefined);
+      controller = new MikroTikController({ ...config, streaming: true, maxFlows: 2, flowTimeout: 60000 });
       await controller.connect();
+    });
 
-      const policy: QoSPolicy = {
-        id: 'qos1',
-        name: 'High Priority',
-        targetDevice: 'ether1',
-        bandwidth: {
-          min: 10,
-          max: 100
-        },
-        priority: 1
-      };
+    it('should follow the connection and interface tables', () => {
+      expect(mockClient.stream).toHaveBeenCalledWith(
+        ['/ip/firewall/connection/print', '=follow=', '=.proplist=.id,src-address,dst-address,protocol,bytes,packets'],
+        expect.any(Function)
+      );
+      expect(mockClient.stream).toHaveBeenCalledWith(
+        ['/interface/print', '=follow=', '=.proplist=.id,name,running,disabled'],
+        expect.any(Function)
+      );
+    });
 
-      mockClient.write.mockRejectedValueOnce(new Error('API Error'));
+    it('should keep the flow table up to date from the stream', async () => {
+      streams['/ip/firewall/connection/print'](null, [connection('*1'), connection('*2')]);
+      streams['/ip/firewall/connection/print'](null, { '.id': '*1', bytes: '500' });
+      streams['/ip/firewall/connection/print'](null, { '.id': '*2', '.dead': 'yes' });
 
-      await expect(controller.applyQoSPolicy(policy)).rejects.toThrow('API Error');
+      const flows = await controller.getFlows();
+      expect(mockClient.write).not.toHaveBeenCalled();
+      expect(flows).toEqual([expect.objectContaining({
+        id: '*1',
+        sourceIp: '192.168.1.100',
+        destinationPort: 80,
+        bytesTransferred: 500
+      })]);
+    });
+
+    it('should drop the least recently updated connections when the table is full', async () => {
+      streams['/ip/firewall/connection/print'](null, [connection('*1'), connection('*2')]);
+      streams['/ip/firewall/connection/print'](null, connection('*1', '200'));
+      streams['/ip/firewall/connection/print'](null, connection('*3'));
+
+      const flows = await controller.getFlows();
+      expect(flows.map(flow => flow.id)).toEqual(['*1', '*3']);
+    });
+
+    it('should drop connections that were not updated for too long', async () => {
+      const now = jest.spyOn(Date, 'now');
+      now.mockReturnValue(1000000);
+      streams['/ip/firewall/connection/print'](null, connection('*1'));
+      now.mockReturnValue(1030000);
+      streams['/ip/firewall/connection/print'](null, connection('*2'));
+
+      now.mockReturnValue(1070000);
+      const flows = await controller.getFlows();
+      now.mockRestore();
+      expect(flows.map(flow => flow.id)).toEqual(['*2']);
+    });
+
+    it('should emit link up and down changes as device status events', () => {
+      const events: any[] = [];
+      controller.on('deviceStatus', event => events.push(event));
+
+      streams['/interface/print'](null, [
+        { '.id': '*1', name: 'ether1', running: 'true', disabled: 'false' },
+        { '.id': '*2', name: 'ether2', running: 'false', disabled: 'false' }
+      ]);
+      streams['/interface/print'](null, { '.id': '*1', name: 'ether1', running: 'false', disabled: 'false' });
+      streams['/interface/print'](null, { '.id': '*2', name: 'ether2', running: 'false', disabled: 'false' });
+      streams['/interface/print'](null, { '.id': '*2', name: 'ether2', running: 'true', disabled: 'false' });
+      // A removed interface is forgotten, so one added again only records its status
+      streams['/interface/print'](null, { '.id': '*2', '.dead': 'yes' });
+      streams['/interface/print'](null, { '.id': '*2', name: 'ether2', running: 'false', disabled: 'false' });
+
+      expect(events).toEqual([
+        { deviceId: '*1', name: 'ether1', status: 'offline', timestamp: expect.any(Date) },
+        { deviceId: '*2', name: 'ether2', status: 'online', timestamp: expect.any(Date) }
+      ]);
+    });
+
+    it('should poll and restart the stream after it fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      streams['/ip/firewall/connection/print'](new Error('connection lost'));
+      mockClient.write.mockResolvedValueOnce([connection('*1')]);
+
+      const flows = await controller.getFlows();
+      expect(mockClient.write).toHaveBeenCalledWith('/ip/firewall/connection/print', []);
+      expect(flows.map(flow => flow.id)).toEqual(['*1']);
+      expect(mockClient.stream).toHaveBeenCalledTimes(3);
+    });
+
+    it('should stop the streams on disconnect', async () => {
+      await controller.disconnect();
+
+      expect(stop).toHaveBeenCalledTimes(2);
+      expect(mockClient.close).toHaveBeenCalled();
     });
   });
 
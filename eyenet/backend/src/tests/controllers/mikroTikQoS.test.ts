@@ -0,0 +1,123 @@
+import { describe, it, expect } from '@jest/globals';
+import { compileQoSPolicy, decompileQoSPolicy, parseRate } from '../../services/controllers/mikroTikQoS';
+import { QoSPolicy } from '../../interfaces/networkController';
+
+const basePolicy: QoSPolicy = {
+  id: 'video',
+  name: 'Video',
+  targetDevice: 'ether1',
+  bandwidth: { min: 5, max: 20 },
+  priority: 2
+};
+
+describe('MikroTik QoS compiler', () => {
+  it('should shape marked packets in a child of the policy queue', () => {
+    const compiled = compileQoSPolicy(basePolicy);
+
+    expect(compiled.queueTypes).toEqual([]);
+    expect(compiled.queues).toEqual([{
+      name: 'Video',
+      parent: 'ether1',
+      'max-limit': '20M',
+      'limit-at': '5M',
+      comment: 'QoS policy video'
+    }, {
+      name: 'Video traffic',
+      parent: 'Video',
+      'packet-mark': 'qos-video',
+      priority: '2',
+      'max-limit': '20M',
+      'limit-at': '5M',
+      queue: 'default',
+      comment: 'QoS policy video'
+    }]);
+    expect(compiled.mangleMenu).toBe('/ip/firewall/mangle');
+    expect(compiled.mangle).toEqual([{
+      chain: 'forward',
+      action: 'mark-connection',
+      'connection-mark': 'no-mark',
+      'new-connection-mark': 'qos-video-conn',
+      passthrough: 'yes',
+      comment: 'QoS policy video'
+    }, {
+      chain: 'forward',
+      action: 'mark-packet',
+      'connection-mark': 'qos-video-conn',
+      'new-packet-mark': 'qos-video',
+      passthrough: 'no',
+      comment: 'QoS policy video'
+    }]);
+  });
+
+  it('should mark the connections of each port', () => {
+    const { mangle } = compileQoSPolicy({ ...basePolicy, ports: [80, 443], destinationCidr: '10.0.0.0/24' });
+
+    expect(mangle.filter(rule => rule.action === 'mark-connection')).toEqual([80, 443].map(port => expect.objectContaining({
+      protocol: 'tcp',
+      'dst-port': String(port),
+      'dst-address': '10.0.0.0/24'
+    })));
+    expect(mangle.filter(rule => rule.action === 'mark-packet')).toHaveLength(1);
+  });
+
+  it('should leave out the protocol when any protocol matches', () => {
+    const { mangle } = compileQoSPolicy({ ...basePolicy, protocol: 'any', sourceCidr: '10.1.0.0/16' });
+
+    expect(mangle[0]).not.toHaveProperty('protocol');
+    expect(mangle[0]['src-address']).toBe('10.1.0.0/16');
+  });
+
+  it('should mark IPv6 traffic in the IPv6 mangle table', () => {
+    expect(compileQoSPolicy({ ...basePolicy, sourceCidr: '2001:db8::/48' }).mangleMenu).toBe('/ipv6/firewall/mangle');
+  });
+
+  it('should share the bandwidth between the hosts of the source range in both directions', () => {
+    const compiled = compileQoSPolicy({ ...basePolicy, sourceCidr: '10.1.0.0/16', fairShare: true, perUserMax: 2.5 });
+
+    expect(compiled.queueTypes).toEqual([
+      { name: 'qos-video-up', kind: 'pcq', 'pcq-classifier': 'src-address', 'pcq-rate': '2500000' },
+      { name: 'qos-video-down', kind: 'pcq', 'pcq-classifier': 'dst-address', 'pcq-rate': '2500000' }
+    ]);
+    expect(compiled.queues.map(queue => [queue.name, queue.parent, queue['packet-mark'], queue.queue])).toEqual([
+      ['Video', 'global', undefined, undefined],
+      ['Video upload', 'Video', 'qos-video-up', 'qos-video-up'],
+      ['Video download', 'Video', 'qos-video-down', 'qos-video-down']
+    ]);
+    expect(compiled.mangle.filter(rule => rule.action === 'mark-packet')).toEqual([
+      expect.objectContaining({ 'src-address': '10.1.0.0/16', 'in-interface': 'ether1', 'new-packet-mark': 'qos-video-up' }),
+      expect.objectContaining({ 'dst-address': '10.1.0.0/16', 'out-interface': 'ether1', 'new-packet-mark': 'qos-video-down' })
+    ]);
+  });
+
+  it('should reject fair sharing without a source range', () => {
+    expect(() => compileQoSPolicy({ ...basePolicy, fairShare: true })).toThrow('sourceCidr');
+  });
+
+  it('should read back compiled policies', () => {
+    const policies: QoSPolicy[] = [
+      basePolicy,
+      { ...basePolicy, ports: [5004, 5006], protocol: 'udp', destinationCidr: '10.0.0.0/24' },
+      { ...basePolicy, sourceCidr: '10.1.0.0/16', fairShare: true, perUserMax: 2 },
+      { ...basePolicy, sourceCidr: '10.1.0.0/16', fairShare: true },
+      { ...basePolicy, targetDevice: 'global', sourceCidr: '10.1.0.0/16', fairShare: true }
+    ];
+
+    for (const policy of policies) {
+      const { queues, mangle, queueTypes } = compileQoSPolicy(policy);
+      const otherTypes = [{ name: 'default' }, { name: 'qos-other-up', kind: 'pcq' }];
+      expect(decompileQoSPolicy(policy.id, queues, mangle, [...otherTypes, ...queueTypes])).toEqual(policy);
+    }
+  });
+
+  it('should not read back a policy without its parent queue', () => {
+    expect(decompileQoSPolicy('video', [], [], [])).toBeNull();
+  });
+
+  it('should parse RouterOS rates in Mbit/s', () => {
+    expect(parseRate('100M')).toBe(100);
+    expect(parseRate('100M/50M')).toBe(100);
+    expect(parseRate('2500000')).toBe(2.5);
+    expect(parseRate('512k')).toBe(0.512);
+    expect(parseRate('')).toBe(0);
+  });
+});
@@ -2,6 +2,27 @@ import { describe, it, expect, jest, beforeEach } from '@jest/globals';
 import axios from 'axios';
 import { OpenDaylightController } from '../../services/controllers/openDaylightController';
 import { QoSPolicy } from '../../interfaces/networkController';
+import { compileQoSPolicy, qosMeterId } from '../../services/controllers/openDaylightQoS';
+
+// Config datastore holding the meters and flows of the given policies, all
+// on openflow:1
+function configResponse(policies: QoSPolicy[]): any {
+  const compiled = policies.map(compileQoSPolicy);
+  return {
+    data: {
+      nodes: {
+        node: [{
+          id: 'openflow:1',
+          'flow-node-inventory:meter': compiled.map(c => (c.meter['flow-node-inventory:meter'] as any[])[0]),
+          'flow-node-inventory:table': [{
+            id: 0,
+            flow: compiled.flatMap(c => c.flows.map(flow => (flow.body['flow-node-inventory:flow'] as any[])[0]))
+          }]
+        }]
+      }
+    }
+  };
+}
 
 // Mock axios
 jest.mock('axios');
@@ -152,6 +173,7 @@ describe('OpenDaylightController', () => {
         id: 'flow1',
         sourceIp: '192.168.1.1',
         destinationIp: '192.168.1.2',
+        addressFamily: 'ipv4',
         sourcePort: 80,
         destinationPort: 443,
         protocol: 'TCP',
@@ -162,6 +184,29 @@ describe('OpenDaylightController', () => {
       });
     });
 
+    it('should read IPv6 matches and strip prefix lengths', async () => {
+      mockClient.get
+        .mockResolvedValueOnce({
+          data: { 'network-topology': { topology: [{ node: [{ 'node-id': 'openflow:1' }] }] } }
+        })
+        .mockResolvedValueOnce({
+          data: {
+            'flow-node-inventory:table': [{
+              flow: [{
+                id: 'flow6',
+                match: {
+                  'ipv6-source': '2001:db8::1/128',
+                  'ipv6-destination': '2001:db8::2/128'
+                }
+              }]
+            }]
+          }
+        });
+
+      const [flow] = await controller.getFlows();
+      expect(flow).toMatchObject({ sourceIp: '2001:db8::1', destinationIp: '2001:db8::2', addressFamily: 'ipv6' });
+    });
+
     it('should handle empty flow table response', async () => {
       mockClient.get
         .mockResolvedValueOnce({
@@ -193,64 +238,96 @@ describe('OpenDaylightController', () => {
   });
 
   describe('getStats', () => {
-    it('should return aggregated network statistics', async () => {
-      // Mock getDevices response
-      const mockDevicesResponse = {
-        data: {
-          'network-topology': {
-            topology: [{
-              node: [{
-                'node-id': 'openflow:1'
-              }]
+    // Operational inventory with two switches, as returned by
+    // /restconf/operational/opendaylight-inventory:nodes
+    const mockInventoryResponse = {
+      data: {
+        nodes: {
+          node: [{
+            id: 'openflow:1',
+            'node-connector': [{
+              id: 'openflow:1:1',
+              'flow-node-inventory:name': 's1-eth1',
+              'opendaylight-port-statistics:flow-capable-node-connector-statistics': {
+                bytes: { received: 1000, transmitted: 2000 },
+                packets: { received: 10, transmitted: 20 }
+              }
+            }, {
+              id: 'openflow:1:2',
+              'flow-node-inventory:name': 's1-eth2',
+              'opendaylight-port-statistics:flow-capable-node-connector-statistics': {
+                bytes: { received: 300, transmitted: 400 },
+                packets: { received: 3, transmitted: 4 }
+              }
+            }],
+            'flow-node-inventory:table': [{
+              id: 0,
+              'opendaylight-flow-table-statistics:flow-table-statistics': { 'active-flows': 5 }
+            }, {
+              id: 1,
+              'opendaylight-flow-table-statistics:flow-table-statistics': { 'active-flows': 2 }
             }]
-          }
-        }
-      };
-
-      // Mock flow statistics response
-      const mockStatsResponse = {
-        data: {
-          'flow-node-inventory:flow-statistics': {
-            'bytes-received': 1000,
-            'bytes-transmitted': 2000,
-            'packets-received': 100,
-            'packets-transmitted': 200,
-            'active-flows': 5
-          }
+          }, {
+            id: 'openflow:2',
+            'node-connector': [{
+              id: 'openflow:2:LOCAL',
+              'opendaylight-port-statistics:flow-capable-node-connector-statistics': {
+                bytes: { received: 50, transmitted: 60 },
+                packets: { received: 1, transmitted: 1 }
+              }
+            }]
+          }]
         }
-      };
+      }
+    };
 
-      mockClient.get
-        .mockResolvedValueOnce(mockDevicesResponse)
-        .mockResolvedValueOnce(mockStatsResponse);
+    it('should sum the port counters of every switch', async () => {
+      mockClient.get.mockResolvedValueOnce(mockInventoryResponse);
 
       const stats = await controller.getStats();
+      expect(mockClient.get).toHaveBeenCalledWith('/restconf/operational/opendaylight-inventory:nodes');
       expect(stats).toEqual({
-        bytesIn: 1000,
-        bytesOut: 2000,
-        packetsIn: 100,
-        packetsOut: 200,
-        activeConnections: 5,
+        bytesIn: 1350,
+        bytesOut: 2460,
+        packetsIn: 14,
+        packetsOut: 25,
+        activeConnections: 7,
         timestamp: expect.any(Date)
       });
     });
 
+    it('should report the counters of each port', async () => {
+      mockClient.get.mockResolvedValueOnce(mockInventoryResponse);
+
+      const interfaces = await controller.getInterfaceStats();
+      expect(interfaces).toEqual([
+        {
+          deviceId: 'openflow:1',
+          portId: 'openflow:1:1',
+          name: 's1-eth1',
+          bytesIn: 1000,
+          bytesOut: 2000,
+          packetsIn: 10,
+          packetsOut: 20,
+          timestamp: expect.any(Date)
+        },
+        expect.objectContaining({ deviceId: 'openflow:1', portId: 'openflow:1:2', name: 's1-eth2', bytesIn: 300 }),
+        // Ports without a name are named after their connector
+        expect.objectContaining({ deviceId: 'openflow:2', portId: 'openflow:2:LOCAL', name: 'openflow:2:LOCAL', bytesOut: 60 })
+      ]);
+    });
+
     it('should handle empty statistics response', async () => {
-      mockClient.get
-        .mockResolvedValueOnce({
-          data: {
-            'network-topology': {
-              topology: [{
-                node: [{
-                  'node-id': 'openflow:1'
-                }]
-              }]
-            }
+      mockClient.get.mockResolvedValueOnce({
+        data: {
+          nodes: {
+            node: [{
+              id: 'openflow:1',
+              'node-connector': [{ id: 'openflow:1:1' }]
+            }]
           }
-        })
-        .mockResolvedValueOnce({
-          data: {}
-        });
+        }
+      });
 
       const stats = await controller.getStats();
       expect(stats).toEqual({
@@ -271,49 +348,163 @@ describe('OpenDaylightController', () => {
   });
 
   describe('applyQoSPolicy', () => {
-    it('should successfully apply QoS policy', async () => {
-      const policy: QoSPolicy = {
-        id: 'qos1',
-        name: 'High Priority',
-        targetDevice: 'openflow:1',
-        bandwidth: {
-          min: 10,
-          max: 100
-        },
-        priority: 1
-      };
+    const policy: QoSPolicy = {
+      id: 'qos1',
+      name: 'High Priority',
+      targetDevice: 'openflow:1',
+      bandwidth: {
+        min: 10,
+        max: 100
+      },
+      priority: 1,
+      ports: [80, 443],
+      protocol: 'tcp',
+      destinationCidr: '10.0.0.0/24'
+    };
+    const node = '/restconf/config/opendaylight-inventory:nodes/node/openflow:1';
+
+    it('should install the meter and then one flow per port', async () => {
+      mockClient.get.mockRejectedValueOnce({ response: { status: 404 } });
+      mockClient.put.mockResolvedValue({});
+
+      await controller.applyQoSPolicy(policy);
+
+      expect(mockClient.get).toHaveBeenCalledWith('/restconf/config/opendaylight-inventory:nodes');
+      const paths = mockClient.put.mock.calls.map((call: any[]) => call[0]);
+      expect(paths).toEqual([
+        `${node}/flow-node-inventory:meter/${qosMeterId('qos1')}`,
+        `${node}/flow-node-inventory:table/0/flow/qos1-80`,
+        `${node}/flow-node-inventory:table/0/flow/qos1-443`
+      ]);
+
+      expect(mockClient.put.mock.calls[2][1]).toEqual({
+        'flow-node-inventory:flow': [{
+          id: 'qos1-443',
+          table_id: 0,
+          'flow-name': 'High Priority',
+          priority: 1,
+          match: {
+            'ethernet-match': { 'ethernet-type': { type: 2048 } },
+            'ip-match': { 'ip-protocol': 6 },
+            'ipv4-destination': '10.0.0.0/24',
+            'tcp-destination-port': 443
+          },
+          instructions: {
+            instruction: [
+              { order: 0, meter: { 'meter-id': qosMeterId('qos1') } },
+              {
+                order: 1,
+                'apply-actions': {
+                  action: [{ order: 0, 'output-action': { 'output-node-connector': 'NORMAL' } }]
+                }
+              }
+            ]
+          }
+        }]
+      });
+      expect(mockClient.delete).not.toHaveBeenCalled();
+    });
 
-      mockClient.put.mockResolvedValueOnce({});
-
-      await expect(controller.applyQoSPolicy(policy)).resolves.not.toThrow();
-      expect(mockClient.put).toHaveBeenCalledWith(
-        `/restconf/config/opendaylight-inventory:nodes/node/${policy.targetDevice}/flow-node-inventory:table/0/flow/${policy.id}`,
-        expect.objectContaining({
-          'flow-node-inventory:flow': expect.arrayContaining([
-            expect.objectContaining({
-              id: policy.id,
-              priority: policy.priority
-            })
-          ])
-        })
-      );
+    it('should remove flows for ports the policy no longer has', async () => {
+      mockClient.get.mockResolvedValueOnce(configResponse([{ ...policy, ports: [80, 8080] }]));
+      mockClient.put.mockResolvedValue({});
+      mockClient.delete.mockResolvedValue({});
+
+      await controller.updateQoSPolicy(policy);
+
+      expect(mockClient.put).toHaveBeenCalledTimes(3);
+      expect(mockClient.delete.mock.calls.map((call: any[]) => call[0])).toEqual([
+        `${node}/flow-node-inventory:table/0/flow/qos1-8080`
+      ]);
+    });
+
+    it('should reject a policy that cannot be compiled without calling the controller', async () => {
+      await expect(controller.applyQoSPolicy({ ...policy, sourceCidr: 'not-a-range' }))
+        .rejects.toThrow('Invalid sourceCidr: not-a-range');
+      expect(mockClient.put).not.toHaveBeenCalled();
+    });
+
+    it('should throw error on API failure', async () => {
+      mockClient.get.mockResolvedValueOnce({ data: {} });
+      mockClient.put.mockRejectedValueOnce(new Error('API Error'));
+
+      await expect(controller.applyQoSPolicy(policy)).rejects.toThrow('API Error');
+    });
+  });
+
+  describe('removeQoSPolicy', () => {
+    const policy: QoSPolicy = {
+      id: 'qos1',
+      name: 'High Priority',
+      targetDevice: 'openflow:1',
+      bandwidth: { min: 10, max: 100 },
+      priority: 1,
+      ports: [80, 443],
+      protocol: 'tcp'
+    };
+    const node = '/restconf/config/opendaylight-inventory:nodes/node/openflow:1';
+
+    it('should delete the flows and then the meter', async () => {
+      mockClient.get.mockResolvedValueOnce(configResponse([policy]));
+      mockClient.delete.mockResolvedValue({});
+
+      await controller.removeQoSPolicy('qos1');
+
+      expect(mockClient.delete.mock.calls.map((call: any[]) => call[0])).toEqual([
+        `${node}/flow-node-inventory:table/0/flow/qos1-80`,
+        `${node}/flow-node-inventory:table/0/flow/qos1-443`,
+        `${node}/flow-node-inventory:meter/${qosMeterId('qos1')}`
+      ]);
+    });
+
+    it('should do nothing when the policy is not installed', async () => {
+      mockClient.get.mockResolvedValueOnce(configResponse([{ ...policy, id: 'other' }]));
+
+      await controller.removeQoSPolicy('qos1');
+      expect(mockClient.delete).not.toHaveBeenCalled();
+    });
+
+    it('should skip flows that are already gone', async () => {
+      mockClient.get.mockResolvedValueOnce(configResponse([policy]));
+      mockClient.delete
+        .mockRejectedValueOnce({ response: { status: 404 } })
+        .mockResolvedValue({});
+
+      await expect(controller.removeQoSPolicy('qos1')).resolves.toBeUndefined();
+      expect(mockClient.delete).toHaveBeenCalledTimes(3);
     });
 
     it('should throw error on API failure', async () => {
+      mockClient.get.mockResolvedValueOnce(configResponse([policy]));
+      mockClient.delete.mockRejectedValueOnce({ response: { status: 500 }, message: 'Server Error' });
+
+      await expect(controller.removeQoSPolicy('qos1')).rejects.toMatchObject({ message: 'Server Error' });
+    });
+  });
+
+  describe('listQoSPolicies', () => {
+    it('should read installed policies back from the config datastore', async () => {
       const policy: QoSPolicy = {
         id: 'qos1',
-        name: 'High Priority',
+        name: 'Video',
         targetDevice: 'openflow:1',
-        bandwidth: {
-          min: 10,
-          max: 100
-        },
-        priority: 1
+        bandwidth: { min: 0, max: 20 },
+        priority: 3,
+        ports: [5004],
+        protocol: 'udp'
       };
+      const response = configResponse([policy]);
+      // Meters that were not installed for a policy are ignored
+      response.data.nodes.node[0]['flow-node-inventory:meter'].push({ 'meter-id': 7, 'meter-name': 'other-app' });
+      mockClient.get.mockResolvedValueOnce(response);
 
-      mockClient.put.mockRejectedValueOnce(new Error('API Error'));
+      expect(await controller.listQoSPolicies()).toEqual([policy]);
+    });
 
-      await expect(controller.applyQoSPolicy(policy)).rejects.toThrow('API Error');
+    it('should list nothing when the datastore is empty', async () => {
+      mockClient.get.mockRejectedValueOnce({ response: { status: 404 } });
+
+      expect(await controller.listQoSPolicies()).toEqual([]);
     });
   });
 
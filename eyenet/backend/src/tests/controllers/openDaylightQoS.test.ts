@@ -0,0 +1,115 @@
+import { describe, it, expect } from '@jest/globals';
+import { compileQoSPolicy, decompileQoSPolicy, qosFlowIds, qosMeterId } from '../../services/controllers/openDaylightQoS';
+import { QoSPolicy } from '../../interfaces/networkController';
+
+const basePolicy: QoSPolicy = {
+  id: 'video',
+  name: 'Video',
+  targetDevice: 'openflow:1',
+  bandwidth: { min: 5, max: 20 },
+  priority: 2
+};
+
+describe('OpenDaylight QoS compiler', () => {
+  it('should give each policy a stable meter ID', () => {
+    const meterId = qosMeterId('video');
+    expect(meterId).toBe(qosMeterId('video'));
+    expect(meterId).not.toBe(qosMeterId('voice'));
+    expect(meterId).toBeGreaterThan(0);
+    expect(meterId).toBeLessThanOrEqual(0xffff0000);
+  });
+
+  it('should remark traffic above the minimum and drop traffic above the maximum', () => {
+    const { meterId, meter } = compileQoSPolicy(basePolicy);
+
+    expect(meter).toEqual({
+      'flow-node-inventory:meter': [{
+        'meter-id': meterId,
+        'meter-name': 'video',
+        flags: 'meter-kbps',
+        'meter-band-headers': {
+          'meter-band-header': [{
+            'band-id': 0,
+            'dscp-remark-rate': 5000,
+            'dscp-remark-burst-size': 0,
+            'prec-level': 1,
+            'meter-band-types': { flags: 'ofpmbt-dscp-remark' }
+          }, {
+            'band-id': 1,
+            'drop-rate': 20000,
+            'drop-burst-size': 0,
+            'meter-band-types': { flags: 'ofpmbt-drop' }
+          }]
+        }
+      }]
+    });
+  });
+
+  it('should only add a drop band without a minimum', () => {
+    const { meter } = compileQoSPolicy({ ...basePolicy, bandwidth: { min: 0, max: 50 } });
+    const bands = (meter['flow-node-inventory:meter'] as any)[0]['meter-band-headers']['meter-band-header'];
+
+    expect(bands).toEqual([expect.objectContaining({ 'band-id': 0, 'drop-rate': 50000 })]);
+  });
+
+  it('should match all IPv4 traffic in a single flow by default', () => {
+    const { flows } = compileQoSPolicy(basePolicy);
+
+    expect(flows.map(flow => flow.id)).toEqual(['video']);
+    expect((flows[0].body['flow-node-inventory:flow'] as any)[0].match).toEqual({
+      'ethernet-match': { 'ethernet-type': { type: 2048 } }
+    });
+  });
+
+  it('should match UDP ports and IPv6 prefixes', () => {
+    const { flows } = compileQoSPolicy({
+      ...basePolicy,
+      protocol: 'UDP',
+      ports: [5004],
+      sourceCidr: '2001:db8:1::/48',
+      destinationCidr: '2001:db8:2::10'
+    });
+
+    expect((flows[0].body['flow-node-inventory:flow'] as any)[0].match).toEqual({
+      'ethernet-match': { 'ethernet-type': { type: 34525 } },
+      'ip-match': { 'ip-protocol': 17 },
+      'ipv6-source': '2001:db8:1::/48',
+      'ipv6-destination': '2001:db8:2::10/128',
+      'udp-destination-port': 5004
+    });
+  });
+
+  it('should treat ports without a protocol as TCP ports', () => {
+    const { flows } = compileQoSPolicy({ ...basePolicy, ports: [22] });
+
+    expect((flows[0].body['flow-node-inventory:flow'] as any)[0].match).toMatchObject({
+      'ip-match': { 'ip-protocol': 6 },
+      'tcp-destination-port': 22
+    });
+  });
+
+  it('should name one flow per port', () => {
+    expect(qosFlowIds({ ...basePolicy, ports: [80, 443] })).toEqual(['video-80', 'video-443']);
+  });
+
+  it('should read back the policy it compiled', () => {
+    const policy: QoSPolicy = {
+      ...basePolicy,
+      protocol: 'udp',
+      ports: [5004, 5006],
+      sourceCidr: '10.1.0.0/16',
+      destinationCidr: '10.2.0.5/32'
+    };
+    const { meter, flows } = compileQoSPolicy(policy);
+    const installed = flows.map(flow => (flow.body['flow-node-inventory:flow'] as any)[0]);
+
+    expect(decompileQoSPolicy('openflow:1', (meter['flow-node-inventory:meter'] as any)[0], installed)).toEqual(policy);
+  });
+
+  it('should reject policies that cannot be expressed as OpenFlow matches', () => {
+    expect(() => compileQoSPolicy({ ...basePolicy, protocol: 'icmp', ports: [80] })).toThrow('Ports can only be matched');
+    expect(() => compileQoSPolicy({ ...basePolicy, protocol: 'bogus' })).toThrow('Invalid protocol: bogus');
+    expect(() => compileQoSPolicy({ ...basePolicy, sourceCidr: '10.0.0.0/8', destinationCidr: '2001:db8::/32' }))
+      .toThrow('same address family');
+  });
+});
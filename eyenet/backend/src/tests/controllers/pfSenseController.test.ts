@@ -32,7 +32,12 @@ describe('PfSenseController', () => {
       get: jest.fn(),
       put: jest.fn(),
       post: jest.fn(),
-      delete: jest.fn()
+      delete: jest.fn(),
+      request: jest.fn(),
+      interceptors: {
+        request: { use: jest.fn() },
+        response: { use: jest.fn() }
+      }
     };
 
     // Mock axios.create to return our mock client
@@ -63,19 +68,26 @@ describe('PfSenseController', () => {
   });
 
   describe('getDevices', () => {
-    it('should return list of network interfaces', async () => {
-      const mockResponse = {
-        data: {
-          data: [{
-            if: 'em0',
-            descr: 'WAN',
-            ipaddr: '192.168.1.1',
-            enable: true
-          }]
+    // Responses of the interface, gateway, ARP and DHCP lease endpoints
+    const respond = (data: { [url: string]: any[] | Error }) => {
+      mockClient.get.mockImplementation(async (url: string) => {
+        const result = data[url] ?? [];
+        if (result instanceof Error) {
+          throw result;
         }
-      };
+        return { data: { data: result } };
+      });
+    };
 
-      mockClient.get.mockResolvedValueOnce(mockResponse);
+    it('should return list of network interfaces', async () => {
+      respond({
+        '/interface': [{
+          if: 'em0',
+          descr: 'WAN',
+          ipaddr: '192.168.1.1',
+          enable: true
+        }]
+      });
 
       const devices = await controller.getDevices();
       expect(devices).toHaveLength(1);
@@ -90,24 +102,114 @@ describe('PfSenseController', () => {
     });
 
     it('should handle interface without description', async () => {
-      const mockResponse = {
-        data: {
-          data: [{
-            if: 'em0',
-            ipaddr: '192.168.1.1',
-            enable: true
-          }]
-        }
-      };
-
-      mockClient.get.mockResolvedValueOnce(mockResponse);
+      respond({
+        '/interface': [{
+          if: 'em0',
+          ipaddr: '192.168.1.1',
+          enable: true
+        }]
+      });
 
       const devices = await controller.getDevices();
       expect(devices[0].name).toBe('em0');
     });
 
+    it('should report gateways with their latency and packet loss', async () => {
+      respond({
+        '/status/gateway': [
+          { name: 'WAN_DHCP', srcip: '198.51.100.2', monitorip: '198.51.100.1', delay: '4.512ms', loss: '0.0%', status: 'online' },
+          { name: 'LTE', srcip: '10.64.0.2', monitorip: '10.64.0.1', delay: '0ms', loss: '100.0%', status: 'down' },
+          { name: 'VPN', srcip: '10.8.0.2', monitorip: '', delay: '', loss: '', status: 'none' }
+        ]
+      });
+
+      const devices = await controller.getDevices();
+      expect(devices).toEqual([{
+        id: 'gateway:WAN_DHCP',
+        name: 'WAN_DHCP',
+        type: 'pfSense Gateway',
+        ipAddress: '198.51.100.1',
+        status: 'online',
+        lastSeen: expect.any(Date),
+        latency: 4.512,
+        packetLoss: 0
+      }, {
+        id: 'gateway:LTE',
+        name: 'LTE',
+        type: 'pfSense Gateway',
+        ipAddress: '10.64.0.1',
+        status: 'offline',
+        lastSeen: expect.any(Date),
+        latency: 0,
+        packetLoss: 100
+      }, {
+        id: 'gateway:VPN',
+        name: 'VPN',
+        type: 'pfSense Gateway',
+        ipAddress: '10.8.0.2',
+        status: 'online',
+        lastSeen: expect.any(Date)
+      }]);
+    });
+
+    it('should merge DHCP leases and ARP entries into one device per host', async () => {
+      respond({
+        '/services/dhcpd/lease': [
+          { ip: '192.168.1.10', mac: 'AA:BB:CC:00:00:01', hostname: 'laptop', if: 'lan', online: 'offline', state: 'active' },
+          { ip: '192.168.1.11', mac: 'aa:bb:cc:00:00:02', hostname: 'printer', if: 'lan', online: 'offline', state: 'active' },
+          { ip: '192.168.1.12', mac: 'aa:bb:cc:00:00:03', hostname: 'old', if: 'lan', online: 'offline', state: 'expired' }
+        ],
+        '/diagnostics/arp': [
+          { ip: '192.168.1.10', mac: 'aa:bb:cc:00:00:01', interface: 'em1', status: 'expires in 1190 seconds' },
+          { ip: '192.168.1.20', mac: 'aa:bb:cc:00:00:04', hostname: '?', interface: 'em1', status: 'expires in 600 seconds' },
+          { ip: '192.168.1.1', mac: 'aa:bb:cc:ff:ff:ff', interface: 'em1', status: 'permanent' },
+          { ip: '192.168.1.30', mac: '(incomplete)', interface: 'em1', status: 'expired' }
+        ]
+      });
+
+      const devices = await controller.getDevices();
+      expect(devices).toEqual([{
+        id: 'client:aa:bb:cc:00:00:01',
+        name: 'laptop',
+        type: 'DHCP Client',
+        ipAddress: '192.168.1.10',
+        status: 'online',
+        lastSeen: expect.any(Date),
+        macAddress: 'aa:bb:cc:00:00:01',
+        interface: 'lan'
+      }, {
+        id: 'client:aa:bb:cc:00:00:02',
+        name: 'printer',
+        type: 'DHCP Client',
+        ipAddress: '192.168.1.11',
+        status: 'offline',
+        lastSeen: expect.any(Date),
+        macAddress: 'aa:bb:cc:00:00:02',
+        interface: 'lan'
+      }, {
+        id: 'client:aa:bb:cc:00:00:04',
+        name: '192.168.1.20',
+        type: 'ARP Entry',
+        ipAddress: '192.168.1.20',
+        status: 'online',
+        lastSeen: expect.any(Date),
+        macAddress: 'aa:bb:cc:00:00:04',
+        interface: 'em1'
+      }]);
+    });
+
+    it('should list devices without DHCP leases when the DHCP server is off', async () => {
+      respond({
+        '/diagnostics/arp': [{ ip: '192.168.1.20', mac: 'aa:bb:cc:00:00:04', interface: 'em1', status: 'expires in 600 seconds' }],
+        '/services/dhcpd/lease': new Error('DHCP server is disabled')
+      });
+
+      const devices = await controller.getDevices();
+      expect(devices.map(device => device.id)).toEqual(['client:aa:bb:cc:00:00:04']);
+    });
+
     it('should throw error on API failure', async () => {
-      mockClient.get.mockRejectedValueOnce(new Error('API Error'));
+      respond({ '/interface': new Error('API Error') });
 
       await expect(controller.getDevices()).rejects.toThrow('API Error');
     });
@@ -139,6 +241,7 @@ describe('PfSenseController', () => {
         id: '192.168.1.2:80-192.168.1.3:443',
         sourceIp: '192.168.1.2',
         destinationIp: '192.168.1.3',
+        addressFamily: 'ipv4',
         sourcePort: 80,
         destinationPort: 443,
         protocol: 'tcp',
@@ -171,6 +274,25 @@ describe('PfSenseController', () => {
       expect(flows[0].endTime).toBeUndefined();
     });
 
+    it('should bracket IPv6 addresses in flow IDs', async () => {
+      mockClient.get.mockResolvedValueOnce({
+        data: {
+          data: [{
+            src: '2001:db8::2',
+            sport: '51000',
+            dst: '2001:db8::3',
+            dport: '443',
+            proto: 'tcp',
+            creation: 1600000000
+          }]
+        }
+      });
+
+      const [flow] = await controller.getFlows();
+      expect(flow.id).toBe('[2001:db8::2]:51000-[2001:db8::3]:443');
+      expect(flow.addressFamily).toBe('ipv6');
+    });
+
     it('should throw error on API failure', async () => {
       mockClient.get.mockRejectedValueOnce(new Error('API Error'));
 
@@ -252,45 +374,108 @@ describe('PfSenseController', () => {
     });
   });
 
-  describe('applyQoSPolicy', () => {
-    it('should successfully apply QoS policy', async () => {
-      const policy: QoSPolicy = {
-        id: 'qos1',
-        name: 'High Priority',
-        targetDevice: 'em0',
-        bandwidth: {
-          min: 10,
-          max: 100
-        },
-        priority: 1
-      };
+  describe('QoS policies', () => {
+    const policy: QoSPolicy = {
+      id: 'qos1',
+      name: 'High Priority',
+      targetDevice: 'em0',
+      bandwidth: {
+        min: 10,
+        max: 100
+      },
+      priority: 1
+    };
 
-      mockClient.post.mockResolvedValueOnce({});
+    const installed = (queues: any[], rules: any[]) => {
+      mockClient.get.mockImplementation(async (url: string) => url === '/firewall/traffic_shaper'
+        ? { data: { data: [{ interface: 'em0', queue: queues }] } }
+        : { data: { data: rules } });
+    };
+
+    it('should add a queue and a match rule that assigns traffic to it', async () => {
+      installed([], []);
+      mockClient.post.mockResolvedValue({});
 
       await expect(controller.applyQoSPolicy(policy)).resolves.not.toThrow();
       expect(mockClient.post).toHaveBeenCalledWith(
         '/firewall/traffic_shaper/queue',
         expect.objectContaining({
           interface: policy.targetDevice,
+          name: expect.stringMatching(/^qos_[0-9a-f]{8}$/),
           bandwidth: policy.bandwidth,
           priority: policy.priority,
-          description: policy.name
+          description: 'QoS policy qos1: High Priority'
         })
       );
+      const queueName = mockClient.post.mock.calls[0][1].name;
+      expect(mockClient.post).toHaveBeenCalledWith('/firewall/rule', expect.objectContaining({
+        type: 'match',
+        floating: true,
+        interface: 'em0',
+        protocol: 'any',
+        src: 'any',
+        dst: 'any',
+        defaultqueue: queueName,
+        descr: 'QoS policy qos1'
+      }));
     });
 
-    it('should throw error on API failure', async () => {
-      const policy: QoSPolicy = {
-        id: 'qos1',
-        name: 'High Priority',
-        targetDevice: 'em0',
-        bandwidth: {
-          min: 10,
-          max: 100
-        },
-        priority: 1
-      };
+    it('should add one rule per port', async () => {
+      installed([], []);
+      mockClient.post.mockResolvedValue({});
+
+      await controller.applyQoSPolicy({ ...policy, ports: [80, 443], sourceCidr: '2001:db8::/32' });
+
+      const rules = mockClient.post.mock.calls.filter((call: any[]) => call[0] === '/firewall/rule').map((call: any[]) => call[1]);
+      expect(rules).toEqual([
+        expect.objectContaining({ ipprotocol: 'inet6', protocol: 'tcp', src: '2001:db8::/32', dstport: '80' }),
+        expect.objectContaining({ ipprotocol: 'inet6', protocol: 'tcp', src: '2001:db8::/32', dstport: '443' })
+      ]);
+    });
+
+    it('should replace an installed policy', async () => {
+      installed(
+        [{ name: 'qos_1', description: 'QoS policy qos1: Old name' }, { name: 'lan', description: 'LAN' }],
+        [{ tracker: 101, descr: 'QoS policy qos1' }, { tracker: 102, descr: 'Allow LAN' }]
+      );
+      mockClient.delete.mockResolvedValue({});
+      mockClient.post.mockResolvedValue({});
+
+      await controller.updateQoSPolicy(policy);
 
+      expect(mockClient.delete.mock.calls).toEqual([
+        ['/firewall/rule', { data: { tracker: 101, apply: true } }],
+        ['/firewall/traffic_shaper/queue', { data: { interface: 'em0', name: 'qos_1' } }]
+      ]);
+      expect(mockClient.post).toHaveBeenCalledTimes(2);
+    });
+
+    it('should remove nothing when the policy is not installed', async () => {
+      installed([{ name: 'lan', description: 'LAN' }], []);
+
+      await controller.removeQoSPolicy('qos1');
+      expect(mockClient.delete).not.toHaveBeenCalled();
+    });
+
+    it('should list installed policies from their queues and rules', async () => {
+      installed(
+        [{ name: 'qos_1', description: 'QoS policy qos1: High Priority', bandwidth: { min: 10, max: 100 }, priority: 1 }],
+        [
+          { tracker: 101, descr: 'QoS policy qos1', protocol: 'udp', destination: { address: '10.0.0.0/24', port: '5004' } },
+          { tracker: 102, descr: 'QoS policy qos1', protocol: 'udp', destination: { address: '10.0.0.0/24', port: '5006' } }
+        ]
+      );
+
+      expect(await controller.listQoSPolicies()).toEqual([{
+        ...policy,
+        ports: [5004, 5006],
+        protocol: 'udp',
+        destinationCidr: '10.0.0.0/24'
+      }]);
+    });
+
+    it('should throw error on API failure', async () => {
+      installed([], []);
       mockClient.post.mockRejectedValueOnce(new Error('API Error'));
 
       await expect(controller.applyQoSPolicy(policy)).rejects.toThrow('API Error');
@@ -314,16 +499,110 @@ describe('PfSenseController', () => {
   });
 
   describe('authentication', () => {
-    it('should generate correct authorization header', () => {
-      // Verify that axios.create was called with the correct headers
-      expect(mockAxios.create).toHaveBeenCalledWith(
-        expect.objectContaining({
-          headers: expect.objectContaining({
-            'Authorization': expect.stringMatching(/^PFSense test-key:\d+:[^:]+:[a-f0-9]{64}$/),
-            'Content-Type': 'application/json'
-          })
-        })
+    // Runs a request through the interceptor the controller registered
+    const sign = (client: any = mockClient) => {
+      const interceptor = client.interceptors.request.use.mock.calls[0][0];
+      return interceptor({ headers: {} });
+    };
+
+    const rejectResponse = (error: unknown) => {
+      const [, onRejected] = mockClient.interceptors.response.use.mock.calls[0];
+      return onRejected(error);
+    };
+
+    const jwt = (exp: number) =>
+      `header.${Buffer.from(JSON.stringify({ exp })).toString('base64url')}.signature`;
+
+    const jwtController = () => new PfSenseController({
+      host: 'pfsense.example.com',
+      authMode: 'jwt',
+      username: 'admin',
+      password: 'pfsense'
+    });
+
+    it('should not send a fixed authorization header', () => {
+      expect(mockAxios.create).toHaveBeenCalledWith({
+        baseURL: 'https://pfsense.example.com/api/v1',
+        headers: { 'Content-Type': 'application/json' },
+        httpsAgent: expect.anything()
+      });
+    });
+
+    it('should sign every request with a fresh nonce', async () => {
+      const first = await sign();
+      const second = await sign();
+
+      expect(first.headers.Authorization).toMatch(/^PFSense test-key:\d+:[^:]+:[a-f0-9]{64}$/);
+      expect(second.headers.Authorization).toMatch(/^PFSense test-key:\d+:[^:]+:[a-f0-9]{64}$/);
+      expect(second.headers.Authorization).not.toBe(first.headers.Authorization);
+    });
+
+    it('should use basic authentication', async () => {
+      jest.clearAllMocks();
+      new PfSenseController({ host: 'pfsense.example.com', authMode: 'basic', username: 'admin', password: 'pfsense' });
+
+      const request = await sign();
+      expect(request.headers.Authorization).toBe(`Basic ${Buffer.from('admin:pfsense').toString('base64')}`);
+    });
+
+    it('should request an access token and reuse it until it nears expiry', async () => {
+      jest.clearAllMocks();
+      const token = jwt(Math.floor(Date.now() / 1000) + 3600);
+      mockAxios.post.mockResolvedValueOnce({ data: { data: { token } } });
+      jwtController();
+
+      const [first, second] = await Promise.all([sign(), sign()]);
+
+      expect(mockAxios.post).toHaveBeenCalledTimes(1);
+      expect(mockAxios.post).toHaveBeenCalledWith(
+        'https://pfsense.example.com/api/v1/access_token',
+        {},
+        expect.objectContaining({ auth: { username: 'admin', password: 'pfsense' } })
       );
+      expect(first.headers.Authorization).toBe(`Bearer ${token}`);
+      expect(second.headers.Authorization).toBe(`Bearer ${token}`);
+    });
+
+    it('should refresh an access token that is about to expire', async () => {
+      jest.clearAllMocks();
+      const expiring = jwt(Math.floor(Date.now() / 1000) + 30);
+      const fresh = jwt(Math.floor(Date.now() / 1000) + 3600);
+      mockAxios.post
+        .mockResolvedValueOnce({ data: { data: { token: expiring } } })
+        .mockResolvedValueOnce({ data: { data: { token: fresh } } });
+      jwtController();
+
+      expect((await sign()).headers.Authorization).toBe(`Bearer ${expiring}`);
+      expect((await sign()).headers.Authorization).toBe(`Bearer ${fresh}`);
+      expect(mockAxios.post).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry a rejected request once with a new token', async () => {
+      jest.clearAllMocks();
+      const stale = jwt(Math.floor(Date.now() / 1000) + 3600);
+      const fresh = jwt(Math.floor(Date.now() / 1000) + 3600);
+      mockAxios.post
+        .mockResolvedValueOnce({ data: { data: { token: stale } } })
+        .mockResolvedValueOnce({ data: { data: { token: fresh } } });
+      mockClient.request.mockResolvedValueOnce({ data: 'ok' });
+      jwtController();
+      await sign();
+
+      const request: any = { url: '/system/status', headers: {} };
+      await expect(rejectResponse({ config: request, response: { status: 401 } })).resolves.toEqual({ data: 'ok' });
+      expect(mockClient.request).toHaveBeenCalledWith(expect.objectContaining({ url: '/system/status' }));
+      expect((await sign()).headers.Authorization).toBe(`Bearer ${fresh}`);
+
+      const error = { config: request, response: { status: 401 } };
+      await expect(rejectResponse(error)).rejects.toBe(error);
+      expect(mockClient.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry rejected requests signed with an API key', async () => {
+      const error = { config: { headers: {} }, response: { status: 401 } };
+
+      await expect(rejectResponse(error)).rejects.toBe(error);
+      expect(mockClient.request).not.toHaveBeenCalled();
     });
   });
 });
@@ -0,0 +1,248 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import dgram from 'dgram';
+import snmp from 'net-snmp';
+import { SnmpController, counterDelta, counterValue } from '../../services/controllers/snmpController';
+
+const { ObjectType, MibProviderType } = snmp;
+const readOnly = 2; // MaxAccess "read-only"
+const notAccessible = 0;
+
+// Counter64 values are served as 8 byte big-endian buffers
+function counter64(value: bigint): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64BE(value);
+  return buffer;
+}
+
+async function freeUdpPort(): Promise<number> {
+  const socket = dgram.createSocket('udp4');
+  await new Promise<void>(resolve => socket.bind(0, '127.0.0.1', () => resolve()));
+  const { port } = socket.address();
+  await new Promise<void>(resolve => socket.close(() => resolve()));
+  return port;
+}
+
+const column = (number: number, name: string, type: number, maxAccess = readOnly) => ({ number, name, type, maxAccess });
+
+// Local SNMP agent serving the parts of SNMPv2-MIB, IF-MIB, IP-MIB and
+// LLDP-MIB the controller reads
+function createSimulator(port: number) {
+  const agent = snmp.createAgent({ port, address: '127.0.0.1', disableAuthorization: true }, () => undefined);
+  agent.getAuthorizer().addCommunity('public');
+  const mib = agent.getMib();
+
+  for (const [name, oid, scalarType] of [
+    ['sysDescr', '1.3.6.1.2.1.1.1', ObjectType.OctetString],
+    ['sysUpTime', '1.3.6.1.2.1.1.3', ObjectType.TimeTicks],
+    ['sysName', '1.3.6.1.2.1.1.5', ObjectType.OctetString]
+  ] as const) {
+    mib.registerProvider({ name, type: MibProviderType.Scalar, oid, scalarType, maxAccess: readOnly });
+  }
+  mib.setScalarValue('sysDescr', 'Cisco IOS Software, C2960 Software\nCompiled Mon 12-Mar-18');
+  mib.setScalarValue('sysUpTime', 1000);
+  mib.setScalarValue('sysName', 'access-sw-1');
+
+  mib.registerProvider({
+    name: 'ifTable',
+    type: MibProviderType.Table,
+    oid: '1.3.6.1.2.1.2.2.1',
+    maxAccess: notAccessible,
+    tableColumns: [
+      column(1, 'ifIndex', ObjectType.Integer),
+      column(2, 'ifDescr', ObjectType.OctetString),
+      column(3, 'ifType', ObjectType.Integer),
+      column(6, 'ifPhysAddress', ObjectType.OctetString),
+      column(8, 'ifOperStatus', ObjectType.Integer),
+      column(10, 'ifInOctets', ObjectType.Counter32),
+      column(11, 'ifInUcastPkts', ObjectType.Counter32),
+      column(16, 'ifOutOctets', ObjectType.Counter32),
+      column(17, 'ifOutUcastPkts', ObjectType.Counter32)
+    ],
+    tableIndex: [{ columnName: 'ifIndex' }]
+  });
+  mib.addTableRow('ifTable', [1, 'GigabitEthernet0/1', 6, Buffer.from('00163e000001', 'hex'), 1, 4294967000, 10, 500, 5]);
+  mib.addTableRow('ifTable', [2, 'GigabitEthernet0/2', 6, Buffer.from('00163e000002', 'hex'), 2, 0, 0, 0, 0]);
+
+  mib.registerProvider({
+    name: 'ifXTable',
+    type: MibProviderType.Table,
+    oid: '1.3.6.1.2.1.31.1.1.1',
+    maxAccess: notAccessible,
+    tableColumns: [
+      column(1, 'ifName', ObjectType.OctetString),
+      column(6, 'ifHCInOctets', ObjectType.Counter64),
+      column(7, 'ifHCInUcastPkts', ObjectType.Counter64),
+      column(10, 'ifHCOutOctets', ObjectType.Counter64),
+      column(11, 'ifHCOutUcastPkts', ObjectType.Counter64)
+    ],
+    tableAugments: 'ifTable'
+  });
+  // Only the second interface has 64-bit counters
+  mib.addTableRow('ifXTable', [2, 'Gi0/2', counter64(BigInt(1000)), counter64(BigInt(10)), counter64(BigInt(2000)), counter64(BigInt(20))]);
+
+  mib.registerProvider({
+    name: 'ipAddrTable',
+    type: MibProviderType.Table,
+    oid: '1.3.6.1.2.1.4.20.1',
+    maxAccess: notAccessible,
+    tableColumns: [
+      column(1, 'ipAdEntAddr', ObjectType.IpAddress),
+      column(2, 'ipAdEntIfIndex', ObjectType.Integer)
+    ],
+    tableIndex: [{ columnName: 'ipAdEntAddr' }]
+  });
+  mib.addTableRow('ipAddrTable', ['10.0.0.2', 1]);
+
+  mib.registerProvider({
+    name: 'ipNetToMediaTable',
+    type: MibProviderType.Table,
+    oid: '1.3.6.1.2.1.4.22.1',
+    maxAccess: notAccessible,
+    tableColumns: [
+      column(1, 'ipNetToMediaIfIndex', ObjectType.Integer),
+      column(2, 'ipNetToMediaPhysAddress', ObjectType.OctetString),
+      column(3, 'ipNetToMediaNetAddress', ObjectType.IpAddress),
+      column(4, 'ipNetToMediaType', ObjectType.Integer)
+    ],
+    tableIndex: [{ columnName: 'ipNetToMediaIfIndex' }, { columnName: 'ipNetToMediaNetAddress' }]
+  });
+  mib.addTableRow('ipNetToMediaTable', [1, Buffer.from('00163e0000aa', 'hex'), '10.0.0.10', 3]);
+  mib.addTableRow('ipNetToMediaTable', [1, Buffer.from('00163e0000bb', 'hex'), '10.0.0.11', 3]);
+  mib.addTableRow('ipNetToMediaTable', [1, Buffer.from('00163e0000cc', 'hex'), '10.0.0.12', 2]);
+
+  mib.registerProvider({
+    name: 'lldpRemTable',
+    type: MibProviderType.Table,
+    oid: '1.0.8802.1.1.2.1.4.1.1',
+    maxAccess: notAccessible,
+    tableColumns: [
+      column(1, 'lldpRemTimeMark', ObjectType.TimeTicks, notAccessible),
+      column(2, 'lldpRemLocalPortNum', ObjectType.Integer, notAccessible),
+      column(3, 'lldpRemIndex', ObjectType.Integer, notAccessible),
+      column(4, 'lldpRemChassisIdSubtype', ObjectType.Integer),
+      column(5, 'lldpRemChassisId', ObjectType.OctetString),
+      column(9, 'lldpRemSysName', ObjectType.OctetString)
+    ],
+    tableIndex: [
+      { columnName: 'lldpRemTimeMark' },
+      { columnName: 'lldpRemLocalPortNum' },
+      { columnName: 'lldpRemIndex' }
+    ]
+  });
+  mib.addTableRow('lldpRemTable', [0, 1, 1, 4, Buffer.from('00163e0000aa', 'hex'), 'core-sw-1']);
+
+  return { agent, mib };
+}
+
+describe('SnmpController', () => {
+  let simulator: ReturnType<typeof createSimulator>;
+  let controller: SnmpController;
+
+  beforeEach(async () => {
+    const port = await freeUdpPort();
+    simulator = createSimulator(port);
+    controller = new SnmpController({ host: '127.0.0.1', port, version: '2c', community: 'public', timeout: 1000 });
+    await controller.connect();
+  });
+
+  afterEach(async () => {
+    await controller.disconnect();
+    await new Promise(resolve => simulator.agent.close(resolve));
+  });
+
+  it('should report the agent, its interfaces and its neighbours as devices', async () => {
+    const devices = await controller.getDevices();
+
+    expect(devices.map(d => [d.id, d.name, d.type, d.ipAddress, d.status, d.macAddress])).toEqual([
+      ['127.0.0.1', 'access-sw-1', 'Cisco IOS Software, C2960 Software', '127.0.0.1', 'online', undefined],
+      ['127.0.0.1:if1', 'GigabitEthernet0/1', 'ethernetCsmacd', '10.0.0.2', 'online', '00:16:3e:00:00:01'],
+      ['127.0.0.1:if2', 'Gi0/2', 'ethernetCsmacd', 'unknown', 'offline', '00:16:3e:00:00:02'],
+      ['127.0.0.1:lldp:00:16:3e:00:00:aa', 'core-sw-1', 'LLDP Neighbor', '10.0.0.10', 'online', '00:16:3e:00:00:aa'],
+      ['127.0.0.1:arp:10.0.0.11', '10.0.0.11', 'ARP Entry', '10.0.0.11', 'online', '00:16:3e:00:00:bb']
+    ]);
+  });
+
+  it('should handle counter wraps and agent restarts', async () => {
+    const { mib } = simulator;
+    const first = await controller.getStats();
+    expect(first.bytesIn).toBe(0);
+
+    // The 32-bit ifInOctets of the first interface wraps past 2^32
+    mib.setTableSingleCell('ifTable', 10, [1], 200);
+    mib.setTableSingleCell('ifXTable', 6, [2], counter64(BigInt(1500)));
+    mib.setScalarValue('sysUpTime', 2000);
+    const second = await controller.getStats();
+    expect(second.bytesIn).toBe(496 + 500);
+    expect(second.bytesOut).toBe(0);
+
+
+    // After a restart the counters count from zero again
+    mib.setTableSingleCell('ifTable', 10, [1], 100);
+    mib.setTableSingleCell('ifXTable', 6, [2], counter64(BigInt(50)));
+    mib.setScalarValue('sysUpTime', 10);
+    const third = await controller.getStats();
+    expect(third.bytesIn).toBe(996 + 150);
+  });
+
+  it('should report the counters and rates of each interface', async () => {
+    const first = await controller.getInterfaceStats();
+    expect(first).toEqual([{
+      deviceId: '127.0.0.1',
+      portId: '1',
+      name: 'GigabitEthernet0/1',
+      bytesIn: 4294967000,
+      bytesOut: 500,
+      packetsIn: 10,
+      packetsOut: 5,
+      timestamp: expect.any(Date)
+    }, {
+      deviceId: '127.0.0.1',
+      portId: '2',
+      name: 'Gi0/2',
+      bytesIn: 1000,
+      bytesOut: 2000,
+      packetsIn: 10,
+      packetsOut: 20,
+      timestamp: expect.any(Date)
+    }]);
+
+    simulator.mib.setTableSingleCell('ifXTable', 6, [2], counter64(BigInt(1500)));
+    const [, second] = await controller.getInterfaceStats();
+    expect(second.bytesIn).toBe(1500);
+    expect(second.inBitsPerSecond).toBeGreaterThan(0);
+    expect(second.outBitsPerSecond).toBe(0);
+  });
+
+  it('should check health with sysUpTime', async () => {
+    expect(await controller.healthCheck()).toBe(true);
+
+    await new Promise(resolve => simulator.agent.close(resolve));
+    simulator.agent.close = (callback: () => void) => callback();
+    expect(await controller.healthCheck()).toBe(false);
+  });
+
+  it('should not report flows or accept QoS policies', async () => {
+    expect(await controller.getFlows()).toEqual([]);
+    await expect(controller.applyQoSPolicy({
+      id: 'p1',
+      name: 'Voice',
+      targetDevice: '127.0.0.1',
+      bandwidth: { min: 1, max: 10 },
+      priority: 1
+    })).rejects.toThrow('not supported');
+  });
+});
+
+describe('counterDelta', () => {
+  it('should account for 32 and 64-bit wraps', () => {
+    expect(counterDelta(BigInt(10), BigInt(25), 32)).toBe(BigInt(15));
+    expect(counterDelta(BigInt(4294967290), BigInt(4), 32)).toBe(BigInt(10));
+    expect(counterDelta(BigInt('18446744073709551610'), BigInt(4), 64)).toBe(BigInt(10));
+  });
+
+  it('should read Counter32 numbers and Counter64 buffers', () => {
+    expect(counterValue(42)).toBe(BigInt(42));
+    expect(counterValue(Buffer.from('0100000000', 'hex'))).toBe(BigInt(4294967296));
+    expect(counterValue(undefined)).toBe(BigInt(0));
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from '@jest/globals';
+import { DepartmentDefinition, attributeDepartmentUsage } from '../services/departmentUsage';
+import { NetworkDevice, NetworkFlow } from '../interfaces/networkController';
+
+describe('attributeDepartmentUsage', () => {
+  const departments: DepartmentDefinition[] = [
+    { id: 'eng', name: 'Engineering', cidrs: ['10.1.0.0/16'], vlanIds: [], deviceIds: [] },
+    { id: 'hr', name: 'HR', cidrs: [], vlanIds: [30], deviceIds: ['printer-1'] }
+  ];
+
+  const devices: NetworkDevice[] = [{
+    id: 'printer-1',
+    name: 'HR Printer',
+    type: 'printer',
+    ipAddress: '10.2.0.50',
+    status: 'online',
+    lastSeen: new Date()
+  }];
+
+  const flow = (sourceIp: string, destinationIp: string, vlanId?: number): NetworkFlow => ({
+    id: `${sourceIp}-${destinationIp}`,
+    sourceIp,
+    destinationIp,
+    addressFamily: sourceIp.includes(':') ? 'ipv6' : 'ipv4',
+    sourcePort: 50000,
+    destinationPort: 443,
+    protocol: 'tcp',
+    bytesTransferred: 0,
+    packetsTransferred: 0,
+    startTime: new Date(),
+    vlanId
+  });
+
+  it('should attribute bytes by CIDR, device address and VLAN', () => {
+    const usage = attributeDepartmentUsage(departments, devices, [
+      { flow: flow('10.1.2.3', '8.8.8.8'), bytes: 6000 },
+      { flow: flow('10.9.9.9', '10.2.0.50'), bytes: 1000 },
+      { flow: flow('10.9.9.10', '1.1.1.1', 30), bytes: 3000 }
+    ], 1);
+
+    expect(usage.map(department => [department.id, department.bytes])).toEqual([
+      ['eng', 6000],
+      ['hr', 4000]
+    ]);
+    expect(usage[0].usage).toBeCloseTo(60);
+    expect(usage[0].bandwidth).toBeCloseTo(0.048);
+    expect(usage[1].topTalkers.map(talker => talker.ip)).toEqual(['10.9.9.10', '10.2.0.50']);
+  });
+
+  it('should attribute IPv6 flows by prefix and device address', () => {
+    const usage = attributeDepartmentUsage([
+      { id: 'lab', name: 'Lab', cidrs: ['2001:db8:10::/48'], vlanIds: [], deviceIds: ['nas-1'] }
+    ], [{ ...devices[0], id: 'nas-1', ipAddress: '2001:DB8:20::0:5' }], [
+      { flow: flow('2001:db8:10::7', '2606:4700::1111'), bytes: 700 },
+      { flow: flow('2001:db8:99::1', '2001:db8:20::5'), bytes: 300 },
+      { flow: flow('10.1.2.3', '8.8.8.8'), bytes: 1000 }
+    ], 1);
+
+    expect(usage[0].bytes).toBe(1000);
+    expect(usage[0].topTalkers.map(talker => talker.ip)).toEqual(['2001:db8:10::7', '2001:db8:20::5']);
+  });
+
+  it('should count a flow between two departments for both', () => {
+    const usage = attributeDepartmentUsage(departments, devices, [
+      { flow: flow('10.1.0.1', '10.2.0.50'), bytes: 500 }
+    ], 1);
+
+    expect(usage.find(department => department.id === 'eng')?.bytes).toBe(500);
+    expect(usage.find(department => department.id === 'hr')?.bytes).toBe(500);
+  });
+
+  it('should count a flow inside one department once', () => {
+    const usage = attributeDepartmentUsage(departments, devices, [
+      { flow: flow('10.1.0.1', '10.1.0.2'), bytes: 500 }
+    ], 1);
+
+    const engineering = usage.find(department => department.id === 'eng');
+    expect(engineering?.bytes).toBe(500);
+    expect(engineering?.topTalkers).toHaveLength(2);
+  });
+
+  it('should ignore invalid ranges', () => {
+    const usage = attributeDepartmentUsage([
+      { id: 'bad', name: 'Bad', cidrs: ['10.0.0.0/33', 'not-a-range'], vlanIds: [], deviceIds: [] }
+    ], [], [{ flow: flow('10.0.0.1', '10.0.0.2'), bytes: 100 }], 1);
+
+    expect(usage[0].bytes).toBe(0);
+  });
+});
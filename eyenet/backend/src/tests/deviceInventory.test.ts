@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { NetworkDevice } from '../interfaces/networkController';
+import { Device } from '../models/device';
+import {
+  DeviceInventory,
+  deviceIdentityKey,
+  loadOfflineGracePeriod
+} from '../services/deviceInventory';
+import { normalizeMacAddress } from '../utils/mac';
+import { NetworkControllerManager, NoActiveControllerError } from '../services/networkControllerManager';
+
+const NOW = new Date('2024-06-01T12:00:00Z');
+
+const device = (id: string, overrides: Partial<NetworkDevice> = {}): NetworkDevice => ({
+  id,
+  name: id,
+  type: 'switch',
+  ipAddress: '10.0.0.1',
+  status: 'online',
+  lastSeen: NOW,
+  ...overrides
+});
+
+describe('deviceInventory', () => {
+  describe('deviceIdentityKey', () => {
+    it('should prefer the MAC address so devices match across controllers', () => {
+      const mac = device('*1', { macAddress: 'AA-BB-CC-DD-EE-FF' });
+      expect(deviceIdentityKey('MikroTikController', mac)).toBe('mac:aa:bb:cc:dd:ee:ff');
+      expect(deviceIdentityKey('PfSenseController', { ...mac, macAddress: 'aabb.ccdd.eeff' }))
+        .toBe('mac:aa:bb:cc:dd:ee:ff');
+    });
+
+    it('should fall back to the controller and device ID', () => {
+      expect(deviceIdentityKey('OpenDaylightController', device('openflow:1'))).toBe('OpenDaylightController:openflow:1');
+    });
+  });
+
+  it('should normalize MAC addresses', () => {
+    expect(normalizeMacAddress('AA:BB:CC:DD:EE:FF')).toBe('aa:bb:cc:dd:ee:ff');
+    expect(normalizeMacAddress('not-a-mac')).toBe('not-a-mac');
+  });
+
+  it('should read the grace period from the environment', () => {
+    expect(loadOfflineGracePeriod({})).toBe(5 * 60 * 1000);
+    expect(loadOfflineGracePeriod({ DEVICE_OFFLINE_GRACE_PERIOD: '30s' })).toBe(30 * 1000);
+    expect(() => loadOfflineGracePeriod({ DEVICE_OFFLINE_GRACE_PERIOD: 'soon' })).toThrow('Invalid DEVICE_OFFLINE_GRACE_PERIOD');
+  });
+
+  describe('DeviceInventory', () => {
+    let existing: any[];
+    let bulkWrite: jest.Mock<(operations: any[]) => Promise<unknown>>;
+    let updateMany: jest.Mock<(filter: any, update: any) => Promise<{ modifiedCount: number }>>;
+    let manager: { getDevices: jest.Mock<() => Promise<NetworkDevice[]>>; getActiveControllerType: () => string };
+    let inventory: DeviceInventory;
+
+    beforeEach(() => {
+      existing = [];
+      jest.spyOn(Device, 'find').mockReturnValue({ lean: async () => existing } as any);
+      bulkWrite = jest.fn<(operations: any[]) => Promise<unknown>>().mockResolvedValue({});
+      updateMany = jest.fn<(filter: any, update: any) => Promise<{ modifiedCount: number }>>()
+        .mockResolvedValue({ modifiedCount: 0 });
+      jest.spyOn(Device, 'bulkWrite').mockImplementation(bulkWrite as any);
+      jest.spyOn(Device, 'updateMany').mockImplementation(updateMany as any);
+
+      manager = {
+        getDevices: jest.fn<() => Promise<NetworkDevice[]>>().mockResolvedValue([]),
+        getActiveControllerType: () => 'OpenDaylightController'
+      };
+      inventory = new DeviceInventory(manager as unknown as NetworkControllerManager, 5 * 60 * 1000);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should insert newly discovered devices with first seen time and history', async () => {
+      const result = await inventory.reconcile('OpenDaylightController', [device('openflow:1', { vlanId: 10 })], NOW);
+
+      expect(result).toEqual({ added: 1, updated: 0, markedOffline: 0 });
+      const [operation] = bulkWrite.mock.calls[0][0];
+      expect(operation.insertOne.document).toMatchObject({
+        identityKey: 'OpenDaylightController:openflow:1',
+        source: 'OpenDaylightController',
+        sourceDeviceId: 'openflow:1',
+        vlanId: 10,
+        firstSeen: NOW,
+        lastSeen: NOW,
+        statusHistory: [{ status: 'online', at: NOW, reason: 'reported' }]
+      });
+    });
+
+    it('should update known devices and only record status changes', async () => {
+      existing = [
+        { identityKey: 'OpenDaylightController:openflow:1', status: 'online' },
+        { identityKey: 'OpenDaylightController:openflow:2', status: 'online' }
+      ];
+
+      const result = await inventory.reconcile('OpenDaylightController', [
+        device('openflow:1', { name: 'core-1' }),
+        device('openflow:2', { status: 'offline' })
+      ], NOW);
+
+      expect(result).toEqual({ added: 0, updated: 2, markedOffline: 0 });
+      const [unchanged, changed] = bulkWrite.mock.calls[0][0];
+      expect(unchanged.updateOne.update).toEqual({ $set: expect.objectContaining({ name: 'core-1', lastSeen: NOW }) });
+      expect(changed.updateOne.update.$push.statusHistory.$each).toEqual([
+        { status: 'offline', at: NOW, reason: 'reported' }
+      ]);
+    });
+
+    it('should collapse duplicate reports of the same device', async () => {
+      await inventory.reconcile('MikroTikController', [
+        device('*1', { macAddress: 'aa:bb:cc:dd:ee:ff' }),
+        device('*2', { macAddress: 'AA:BB:CC:DD:EE:FF' })
+      ], NOW);
+      expect(bulkWrite.mock.calls[0][0]).toHaveLength(1);
+    });
+
+    it('should mark devices offline once the grace period has passed', async () => {
+      updateMany.mockResolvedValue({ modifiedCount: 2 });
+
+      expect(await inventory.markMissing(NOW)).toBe(2);
+      const [filter, update] = updateMany.mock.calls[0];
+      expect(filter).toEqual({ status: 'online', lastSeen: { $lt: new Date(NOW.getTime() - 5 * 60 * 1000) } });
+      expect(update.$set.status).toBe('offline');
+      expect(update.$push.statusHistory.$each).toEqual([{ status: 'offline', at: NOW, reason: 'missing' }]);
+    });
+
+    it('should discover through the active controller', async () => {
+      manager.getDevices.mockResolvedValue([device('openflow:1')]);
+      const result = await inventory.run(NOW);
+      expect(result.added).toBe(1);
+      expect(updateMany).toHaveBeenCalled();
+    });
+
+    it('should still age out devices when no controller is available', async () => {
+      manager.getDevices.mockRejectedValue(new NoActiveControllerError());
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      updateMany.mockResolvedValue({ modifiedCount: 3 });
+
+      expect(await inventory.run(NOW)).toEqual({ added: 0, updated: 0, markedOffline: 3 });
+      expect(bulkWrite).not.toHaveBeenCalled();
+    });
+  });
+});
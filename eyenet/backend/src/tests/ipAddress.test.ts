@@ -0,0 +1,59 @@
+import { describe, it, expect } from '@jest/globals';
+import { formatHost, formatIpAddress, normalizeIpAddress, parseIpv6, splitAddressPort } from '../utils/ip';
+import { ipInRange, isValidCidr, parseCidr } from '../utils/cidr';
+
+describe('IP address utilities', () => {
+  it('should parse the IPv6 text forms', () => {
+    expect(parseIpv6('::')).toBe(BigInt(0));
+    expect(parseIpv6('::1')).toBe(BigInt(1));
+    expect(parseIpv6('2001:DB8::ff')).toBe((BigInt(0x20010db8) << BigInt(96)) + BigInt(0xff));
+    expect(parseIpv6('::ffff:10.0.0.1')).toBe((BigInt(0xffff) << BigInt(32)) + BigInt(0x0a000001));
+    expect(parseIpv6('fe80::1%eth0')).toBe((BigInt(0xfe80) << BigInt(112)) + BigInt(1));
+    for (const invalid of ['1::2::3', '1:2:3:4:5:6:7', '12345::', 'g::1', '10.0.0.1', '1:2:3:4:5:6:7:8:9']) {
+      expect(parseIpv6(invalid)).toBeNull();
+    }
+  });
+
+  it('should format and normalize addresses', () => {
+    expect(formatIpAddress(Buffer.from('00000000000000000000000000000001', 'hex'))).toBe('::1');
+    expect(formatIpAddress(Buffer.from('20010db8000000010000000000000000', 'hex'))).toBe('2001:db8:0:1::');
+    expect(formatIpAddress(Buffer.from('20010db8000100020003000400050006', 'hex'))).toBe('2001:db8:1:2:3:4:5:6');
+    expect(normalizeIpAddress('2001:DB8:0:0:0:0:0:1')).toBe('2001:db8::1');
+    expect(normalizeIpAddress('::FFFF:10.0.0.1')).toBe('::ffff:10.0.0.1');
+    expect(normalizeIpAddress(' 10.0.0.1 ')).toBe('10.0.0.1');
+    expect(normalizeIpAddress('unknown')).toBe('unknown');
+  });
+
+  it('should split addresses and ports', () => {
+    expect(splitAddressPort('10.0.0.1:443')).toEqual({ address: '10.0.0.1', port: 443 });
+    expect(splitAddressPort('[2001:db8::1]:443')).toEqual({ address: '2001:db8::1', port: 443 });
+    expect(splitAddressPort('[2001:db8::1]')).toEqual({ address: '2001:db8::1', port: undefined });
+    expect(splitAddressPort('2001:db8::1')).toEqual({ address: '2001:db8::1' });
+    expect(splitAddressPort('10.0.0.1')).toEqual({ address: '10.0.0.1' });
+    expect(formatHost('2001:db8::1')).toBe('[2001:db8::1]');
+    expect(formatHost('router.local')).toBe('router.local');
+  });
+});
+
+describe('CIDR ranges', () => {
+  it('should match IPv4 and IPv6 ranges by family', () => {
+    const v4 = parseCidr('10.1.0.0/16')!;
+    const v6 = parseCidr('2001:db8:1::/48')!;
+
+    expect(ipInRange('10.1.200.3', v4)).toBe(true);
+    expect(ipInRange('10.2.0.1', v4)).toBe(false);
+    expect(ipInRange('::ffff:10.1.0.9', v4)).toBe(true);
+    expect(ipInRange('2001:db8:1:ffff::1', v6)).toBe(true);
+    expect(ipInRange('2001:db8:2::1', v6)).toBe(false);
+    expect(ipInRange('10.1.0.1', v6)).toBe(false);
+    expect(ipInRange('not-an-ip', v4)).toBe(false);
+  });
+
+  it('should validate prefixes per family', () => {
+    expect(isValidCidr('::/0')).toBe(true);
+    expect(isValidCidr('2001:db8::1')).toBe(true);
+    expect(isValidCidr('2001:db8::/129')).toBe(false);
+    expect(isValidCidr('10.0.0.0/33')).toBe(false);
+    expect(ipInRange('2001:db8::2', parseCidr('2001:db8::1')!)).toBe(false);
+  });
+});
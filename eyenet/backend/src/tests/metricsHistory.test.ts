@@ -0,0 +1,82 @@
+import { describe, it, expect } from '@jest/globals';
+import { mergeRollups, parseDuration, rollupSamples, summarize } from '../services/metricsHistory';
+import { NetworkMetrics } from '../models/networkMetrics';
+
+describe('metricsHistory', () => {
+  const sample = (timestamp: string, latency: number): NetworkMetrics => ({
+    timestamp: new Date(timestamp),
+    source: 'OpenDaylightController',
+    latency,
+    packetLoss: 0,
+    status: 'online',
+    download: latency * 2,
+    upload: latency,
+    bytesIn: 0,
+    bytesOut: 0,
+    packetsIn: 0,
+    packetsOut: 0,
+    activeConnections: 1
+  });
+
+  describe('parseDuration', () => {
+    it('should parse supported units', () => {
+      expect(parseDuration('30s')).toBe(30 * 1000);
+      expect(parseDuration('5m')).toBe(5 * 60 * 1000);
+      expect(parseDuration('1h')).toBe(60 * 60 * 1000);
+      expect(parseDuration('1d')).toBe(24 * 60 * 60 * 1000);
+    });
+
+    it('should reject malformed sizes', () => {
+      expect(parseDuration('0m')).toBeNull();
+      expect(parseDuration('5 minutes')).toBeNull();
+      expect(parseDuration('1w')).toBeNull();
+    });
+  });
+
+  describe('summarize', () => {
+    it('should compute min, avg, max and nearest-rank p95', () => {
+      const values = Array.from({ length: 100 }, (_, i) => i + 1);
+      expect(summarize(values)).toEqual({ min: 1, avg: 50.5, max: 100, p95: 95 });
+    });
+
+    it('should return zeros for an empty bucket', () => {
+      expect(summarize([])).toEqual({ min: 0, avg: 0, max: 0, p95: 0 });
+    });
+  });
+
+  describe('rollupSamples', () => {
+    it('should group samples into aligned buckets', () => {
+      const buckets = rollupSamples([
+        sample('2024-01-01T00:00:10Z', 10),
+        sample('2024-01-01T00:04:50Z', 30),
+        sample('2024-01-01T00:05:00Z', 20)
+      ], 5 * 60 * 1000);
+
+      expect(buckets).toHaveLength(2);
+      expect(buckets[0].timestamp).toEqual(new Date('2024-01-01T00:00:00Z'));
+      expect(buckets[0].count).toBe(2);
+      expect(buckets[0].latency).toEqual({ min: 10, avg: 20, max: 30, p95: 30 });
+      expect(buckets[0].download.max).toBe(60);
+      expect(buckets[1].timestamp).toEqual(new Date('2024-01-01T00:05:00Z'));
+      expect(buckets[1].latency.avg).toBe(20);
+    });
+  });
+
+  describe('mergeRollups', () => {
+    it('should combine fine rollups into coarser buckets', () => {
+      const fiveMinutes = rollupSamples([
+        sample('2024-01-01T00:00:00Z', 10),
+        sample('2024-01-01T00:01:00Z', 20),
+        sample('2024-01-01T00:05:00Z', 60)
+      ], 5 * 60 * 1000);
+
+      const merged = mergeRollups(fiveMinutes, 60 * 60 * 1000);
+      expect(merged).toHaveLength(1);
+      expect(merged[0].count).toBe(3);
+      expect(merged[0].latency.min).toBe(10);
+      expect(merged[0].latency.max).toBe(60);
+      expect(merged[0].latency.avg).toBeCloseTo(30);
+      expect(merged[0].latency.p95).toBe(60);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import mongoose from 'mongoose';
+import { MetricsRetentionJob, loadRetentionPolicy, selectTier } from '../services/metricsRetention';
+import { NetworkMetricsSample } from '../models/networkMetrics';
+import { NetworkMetricsRollup } from '../models/networkMetricsRollup';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('metricsRetention', () => {
+  describe('loadRetentionPolicy', () => {
+    it('should default to 7 days raw, 5m for 90 days and 1h for 2 years', () => {
+      const policy = loadRetentionPolicy({});
+      expect(policy.rawRetentionMs).toBe(7 * DAY);
+      expect(policy.tiers).toEqual([
+        { name: '5m', resolutionMs: 5 * 60 * 1000, retentionMs: 90 * DAY },
+        { name: '1h', resolutionMs: 60 * 60 * 1000, retentionMs: 730 * DAY }
+      ]);
+    });
+
+    it('should order configured tiers by resolution', () => {
+      const policy = loadRetentionPolicy({
+        METRICS_RAW_RETENTION: '2d',
+        METRICS_ROLLUP_TIERS: '1d:3650d, 15m:30d'
+      });
+      expect(policy.rawRetentionMs).toBe(2 * DAY);
+      expect(policy.tiers.map(tier => tier.name)).toEqual(['15m', '1d']);
+    });
+
+    it('should reject malformed tiers', () => {
+      expect(() => loadRetentionPolicy({ METRICS_ROLLUP_TIERS: '5m' })).toThrow('Invalid METRICS_ROLLUP_TIERS entry: 5m');
+      expect(() => loadRetentionPolicy({ METRICS_RAW_RETENTION: 'forever' })).toThrow('Invalid METRICS_RAW_RETENTION');
+    });
+  });
+
+  describe('selectTier', () => {
+    const policy = loadRetentionPolicy({});
+    const now = new Date('2024-06-01T00:00:00Z');
+
+    it('should use raw samples for recent ranges', () => {
+      expect(selectTier(policy, new Date(now.getTime() - DAY), now)).toBeNull();
+    });
+
+    it('should use the 5 minute tier beyond raw retention', () => {
+      expect(selectTier(policy, new Date(now.getTime() - 30 * DAY), now)?.name).toBe('5m');
+    });
+
+    it('should use the hourly tier for long ranges', () => {
+      expect(selectTier(policy, new Date(now.getTime() - 365 * DAY), now)?.name).toBe('1h');
+      expect(selectTier(policy, new Date(now.getTime() - 5000 * DAY), now)?.name).toBe('1h');
+    });
+  });
+
+  // Runs against a real MongoDB so the raw samples are stored in an actual
+  // time-series collection; set TEST_MONGODB_URI to enable
+  const describeWithMongo = process.env.TEST_MONGODB_URI ? describe : describe.skip;
+
+  describeWithMongo('MetricsRetentionJob', () => {
+    const job = new MetricsRetentionJob(loadRetentionPolicy({
+      METRICS_RAW_RETENTION: '2d',
+      METRICS_ROLLUP_TIERS: '1h:30d'
+    }));
+
+    beforeAll(async () => {
+      await mongoose.connect(process.env.TEST_MONGODB_URI!);
+      await mongoose.connection.dropDatabase();
+    });
+
+    afterAll(async () => {
+      await mongoose.connection.dropDatabase();
+      await mongoose.disconnect();
+    });
+
+    it('should expire raw samples through the time-series collection', async () => {
+      await job.applyRawRetention();
+
+      const [collection] = await mongoose.connection.db!
+        .listCollections({ name: NetworkMetricsSample.collection.collectionName })
+        .toArray();
+      expect(collection.type).toBe('timeseries');
+      expect((collection as any).options.expireAfterSeconds).toBe(2 * DAY / 1000);
+    });
+
+    it('should compact and expire without deleting from the time-series collection', async () => {
+      const now = new Date();
+      await NetworkMetricsSample.create([
+        { timestamp: new Date(now.getTime() - 3 * 60 * 60 * 1000), source: 'openDaylight', latency: 10 },
+        { timestamp: new Date(now.getTime() - 2 * 60 * 60 * 1000), source: 'openDaylight', latency: 20 }
+      ]);
+
+      await job.run(now);
+
+      expect(await NetworkMetricsRollup.countDocuments({ tier: '1h' })).toBeGreaterThanOrEqual(2);
+    });
+  });
+});
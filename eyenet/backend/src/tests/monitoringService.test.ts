@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { MonitoringService } from '../services/monitoringService';
+import { NetworkController, NetworkDevice, NetworkFlow, NetworkStats } from '../interfaces/networkController';
+import { NetworkControllerManager } from '../services/networkControllerManager';
+
+describe('MonitoringService', () => {
+  let controller: jest.Mocked<NetworkController>;
+  let service: MonitoringService;
+
+  const device = (id: string, status: 'online' | 'offline'): NetworkDevice => ({
+    id,
+    name: id,
+    type: 'test',
+    ipAddress: '10.0.0.1',
+    status,
+    lastSeen: new Date()
+  });
+
+  const flow = (id: string, sourceIp: string, destinationPort: number, bytes: number): NetworkFlow => ({
+    id,
+    sourceIp,
+    destinationIp: '203.0.113.10',
+    addressFamily: 'ipv4',
+    sourcePort: 50000,
+    destinationPort,
+    protocol: 'tcp',
+    bytesTransferred: bytes,
+    packetsTransferred: 1,
+    startTime: new Date(),
+    endTime: undefined
+  });
+
+  const stats = (bytesIn: number, bytesOut: number, timestamp: Date): NetworkStats => ({
+    bytesIn,
+    bytesOut,
+    packetsIn: 0,
+    packetsOut: 0,
+    activeConnections: 0,
+    timestamp
+  });
+
+  beforeEach(() => {
+    controller = {
+      connect: jest.fn<() => Promise<void>>(),
+      disconnect: jest.fn<() => Promise<void>>(),
+      getDevices: jest.fn<() => Promise<NetworkDevice[]>>(),
+      getFlows: jest.fn<() => Promise<NetworkFlow[]>>(),
+      getStats: jest.fn<() => Promise<NetworkStats>>(),
+      applyQoSPolicy: jest.fn<NetworkController['applyQoSPolicy']>(),
+      updateQoSPolicy: jest.fn<NetworkController['updateQoSPolicy']>(),
+      removeQoSPolicy: jest.fn<NetworkController['removeQoSPolicy']>(),
+      listQoSPolicies: jest.fn<NetworkController['listQoSPolicies']>(),
+      healthCheck: jest.fn<() => Promise<boolean>>()
+    };
+    controller.getDevices.mockResolvedValue([device('sw1', 'online')]);
+    controller.getFlows.mockResolvedValue([]);
+
+    service = new MonitoringService(controller, async () => [{
+      id: 'eng',
+      name: 'Engineering',
+      cidrs: ['10.1.1.0/24'],
+      vlanIds: [],
+      deviceIds: []
+    }]);
+  });
+
+  it('should report zero bandwidth on the first snapshot', async () => {
+    controller.getStats.mockResolvedValueOnce(stats(1000, 500, new Date('2024-01-01T00:00:00Z')));
+
+    const data = await service.collect();
+    expect(data.bandwidth).toEqual({
+      download: 0,
+      upload: 0,
+      timestamp: '2024-01-01T00:00:00.000Z'
+    });
+  });
+
+  it('should derive bandwidth in Mbps from counter deltas', async () => {
+    controller.getStats
+      .mockResolvedValueOnce(stats(0, 0, new Date('2024-01-01T00:00:00Z')))
+      .mockResolvedValueOnce(stats(10000000, 5000000, new Date('2024-01-01T00:00:10Z')));
+
+    await service.collect();
+    const data = await service.collect();
+    expect(data.bandwidth.download).toBeCloseTo(8);
+    expect(data.bandwidth.upload).toBeCloseTo(4);
+  });
+
+  it('should mark the network degraded when some devices are offline', async () => {
+    controller.getStats.mockResolvedValueOnce(stats(0, 0, new Date()));
+    controller.getDevices.mockResolvedValueOnce([device('sw1', 'online'), device('sw2', 'offline')]);
+
+    const data = await service.collect();
+    expect(data.networkStatus.status).toBe('degraded');
+  });
+
+  it('should take latency and packet loss from monitored gateways', async () => {
+    controller.getStats.mockResolvedValueOnce(stats(0, 0, new Date()));
+    controller.getDevices.mockResolvedValueOnce([
+      device('sw1', 'online'),
+      { ...device('gateway:WAN', 'online'), latency: 12, packetLoss: 1 },
+      { ...device('gateway:WAN2', 'online'), latency: 20, packetLoss: 0 },
+      { ...device('gateway:LTE', 'offline'), latency: 0, packetLoss: 100 }
+    ]);
+
+    const data = await service.collect();
+    expect(data.networkStatus.latency).toBe(16);
+    expect(data.networkStatus.packetLoss).toBeCloseTo(101 / 3);
+  });
+
+  it('should report no packet loss without monitored gateways', async () => {
+    controller.getStats.mockResolvedValueOnce(stats(0, 0, new Date()));
+
+    const data = await service.collect();
+    expect(data.networkStatus.packetLoss).toBe(0);
+    expect(data.networkStatus.latency).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should attribute traffic shares to departments and applications', async () => {
+    controller.getStats.mockResolvedValueOnce(stats(0, 0, new Date()));
+    controller.getFlows.mockResolvedValueOnce([
+      flow('f1', '10.1.1.5', 443, 3000),
+      flow('f2', '10.1.2.7', 53, 1000)
+    ]);
+
+    const data = await service.collect();
+    expect(data.departments).toEqual([
+      { id: 'eng', name: 'Engineering', usage: 75, bandwidth: 0 }
+    ]);
+    expect(data.applications.map(app => app.id)).toEqual(['https', 'dns']);
+  });
+
+  it('should report application trends against recent snapshots', async () => {
+    controller.getStats
+      .mockResolvedValueOnce(stats(0, 0, new Date('2024-01-01T00:00:00Z')))
+      .mockResolvedValueOnce(stats(0, 0, new Date('2024-01-01T00:00:01Z')))
+      .mockResolvedValueOnce(stats(0, 0, new Date('2024-01-01T00:00:02Z')));
+    controller.getFlows
+      .mockResolvedValueOnce([flow('f1', '10.1.1.5', 443, 0)])
+      .mockResolvedValueOnce([flow('f1', '10.1.1.5', 443, 1000000)])
+      .mockResolvedValueOnce([flow('f1', '10.1.1.5', 443, 3000000)]);
+
+    await service.collect();
+    const steady = await service.collect();
+    const rising = await service.collect();
+
+    expect(steady.applications[0].trend).toBe('stable');
+    expect(rising.applications[0].bandwidth).toBeCloseTo(16);
+    expect(rising.applications[0].trend).toBe('up');
+  });
+
+  it('should propagate controller errors', async () => {
+    controller.getStats.mockRejectedValueOnce(new Error('No active controller available'));
+
+    await expect(service.collect()).rejects.toThrow('No active controller available');
+  });
+
+  it('should report the controllers that failed in aggregate mode', async () => {
+    const failure = { source: 'Branch', error: 'timeout' };
+    const manager = Object.assign(Object.create(NetworkControllerManager.prototype), {
+      getMode: () => 'aggregate',
+      collectStats: async () => ({ data: stats(0, 0, new Date()), sources: ['Core'], failures: [failure] }),
+      collectDevices: async () => ({ data: [device('sw1', 'online')], sources: ['Core'], failures: [failure] }),
+      collectFlows: async () => ({ data: [], sources: ['Core'], failures: [] })
+    }) as NetworkControllerManager;
+
+    const snapshot = await new MonitoringService(manager, async () => []).collectSnapshot();
+    expect(snapshot.failures).toEqual([failure]);
+    expect(snapshot.data.failures).toEqual([failure]);
+    expect(snapshot.devices).toHaveLength(1);
+  });
+
+  it('should leave out failures when every controller answered', async () => {
+    controller.getStats.mockResolvedValue(stats(0, 0, new Date()));
+
+    const snapshot = await service.collectSnapshot();
+    expect(snapshot.failures).toEqual([]);
+    expect(snapshot.data).not.toHaveProperty('failures');
+  });
+});
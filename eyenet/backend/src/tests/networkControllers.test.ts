@@ -1,9 +1,10 @@
 import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
-import { NetworkControllerManager } from '../services/networkControllerManager';
+import { EventEmitter } from 'events';
+import { FailoverEvent, NetworkControllerManager } from '../services/networkControllerManager';
 import { OpenDaylightController } from '../services/controllers/openDaylightController';
 import { PfSenseController } from '../services/controllers/pfSenseController';
 import { MikroTikController } from '../services/controllers/mikroTikController';
-import { NetworkDevice, NetworkFlow, NetworkStats, QoSPolicy } from '../interfaces/networkController';
+import { DeviceStatusEvent, InterfaceStats, NetworkDevice, NetworkFlow, NetworkStats, QoSPolicy } from '../interfaces/networkController';
 
 // Mock the controllers to avoid actual network calls
 jest.mock('../services/controllers/openDaylightController');
@@ -17,8 +18,11 @@ describe('NetworkControllerManager', () => {
   let mockODLGetDevices: jest.MockedFunction<() => Promise<NetworkDevice[]>>;
   let mockODLGetFlows: jest.MockedFunction<() => Promise<NetworkFlow[]>>;
   let mockODLGetStats: jest.MockedFunction<() => Promise<NetworkStats>>;
+  let mockODLGetInterfaceStats: jest.MockedFunction<() => Promise<InterfaceStats[]>>;
   let mockODLApplyQoSPolicy: jest.MockedFunction<(policy: QoSPolicy) => Promise<void>>;
   let mockODLHealthCheck: jest.MockedFunction<() => Promise<boolean>>;
+  let mockODLListQoSPolicies: jest.MockedFunction<() => Promise<QoSPolicy[]>>;
+  let mockODLRemoveQoSPolicy: jest.MockedFunction<(policyId: string) => Promise<void>>;
 
   let mockPFSConnect: jest.MockedFunction<() => Promise<void>>;
   let mockPFSDisconnect: jest.MockedFunction<() => Promise<void>>;
@@ -27,6 +31,8 @@ describe('NetworkControllerManager', () => {
   let mockPFSGetStats: jest.MockedFunction<() => Promise<NetworkStats>>;
   let mockPFSApplyQoSPolicy: jest.MockedFunction<(policy: QoSPolicy) => Promise<void>>;
   let mockPFSHealthCheck: jest.MockedFunction<() => Promise<boolean>>;
+  let mockPFSListQoSPolicies: jest.MockedFunction<() => Promise<QoSPolicy[]>>;
+  let mockPFSRemoveQoSPolicy: jest.MockedFunction<(policyId: string) => Promise<void>>;
 
   let mockMTConnect: jest.MockedFunction<() => Promise<void>>;
   let mockMTDisconnect: jest.MockedFunction<() => Promise<void>>;
@@ -35,6 +41,8 @@ describe('NetworkControllerManager', () => {
   let mockMTGetStats: jest.MockedFunction<() => Promise<NetworkStats>>;
   let mockMTApplyQoSPolicy: jest.MockedFunction<(policy: QoSPolicy) => Promise<void>>;
   let mockMThealthCheck: jest.MockedFunction<() => Promise<boolean>>;
+  let mockMTListQoSPolicies: jest.MockedFunction<() => Promise<QoSPolicy[]>>;
+  let mockMTRemoveQoSPolicy: jest.MockedFunction<(policyId: string) => Promise<void>>;
 
   const config = {
     openDaylight: {
@@ -54,7 +62,18 @@ describe('NetworkControllerManager', () => {
       username: 'admin',
       password: 'admin'
     },
-    failoverCheckInterval: 100 // Reduce interval for faster tests
+    failoverCheckInterval: 100, // Reduce interval for faster tests
+    failureThreshold: 1 // Fail over on the first failed health check
+  };
+
+  const waitFor = async (condition: () => boolean, timeout = 2000) => {
+    const deadline = Date.now() + timeout;
+    while (!condition()) {
+      if (Date.now() > deadline) {
+        throw new Error('Timed out waiting for condition');
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
   };
 
   beforeEach(() => {
@@ -67,8 +86,11 @@ describe('NetworkControllerManager', () => {
     mockODLGetDevices = jest.fn<() => Promise<NetworkDevice[]>>();
     mockODLGetFlows = jest.fn<() => Promise<NetworkFlow[]>>();
     mockODLGetStats = jest.fn<() => Promise<NetworkStats>>();
+    mockODLGetInterfaceStats = jest.fn<() => Promise<InterfaceStats[]>>();
     mockODLApplyQoSPolicy = jest.fn<(policy: QoSPolicy) => Promise<void>>();
     mockODLHealthCheck = jest.fn<() => Promise<boolean>>();
+    mockODLListQoSPolicies = jest.fn<() => Promise<QoSPolicy[]>>().mockResolvedValue([]);
+    mockODLRemoveQoSPolicy = jest.fn<(policyId: string) => Promise<void>>().mockResolvedValue();
 
     // Create mock functions with proper types for pfSense
     mockPFSConnect = jest.fn<() => Promise<void>>();
@@ -78,6 +100,8 @@ describe('NetworkControllerManager', () => {
     mockPFSGetStats = jest.fn<() => Promise<NetworkStats>>();
     mockPFSApplyQoSPolicy = jest.fn<(policy: QoSPolicy) => Promise<void>>();
     mockPFSHealthCheck = jest.fn<() => Promise<boolean>>();
+    mockPFSListQoSPolicies = jest.fn<() => Promise<QoSPolicy[]>>().mockResolvedValue([]);
+    mockPFSRemoveQoSPolicy = jest.fn<(policyId: string) => Promise<void>>().mockResolvedValue();
 
     // Create mock functions with proper types for MikroTik
     mockMTConnect = jest.fn<() => Promise<void>>();
@@ -87,6 +111,8 @@ describe('NetworkControllerManager', () => {
     mockMTGetStats = jest.fn<() => Promise<NetworkStats>>();
     mockMTApplyQoSPolicy = jest.fn<(policy: QoSPolicy) => Promise<void>>();
     mockMThealthCheck = jest.fn<() => Promise<boolean>>();
+    mockMTListQoSPolicies = jest.fn<() => Promise<QoSPolicy[]>>().mockResolvedValue([]);
+    mockMTRemoveQoSPolicy = jest.fn<(policyId: string) => Promise<void>>().mockResolvedValue();
 
     // Set default implementations for OpenDaylight
     mockODLConnect.mockResolvedValue();
@@ -149,8 +175,11 @@ describe('NetworkControllerManager', () => {
       this.getDevices = mockODLGetDevices;
       this.getFlows = mockODLGetFlows;
       this.getStats = mockODLGetStats;
+      this.getInterfaceStats = mockODLGetInterfaceStats;
       this.applyQoSPolicy = mockODLApplyQoSPolicy;
       this.healthCheck = mockODLHealthCheck;
+      this.listQoSPolicies = mockODLListQoSPolicies;
+      this.removeQoSPolicy = mockODLRemoveQoSPolicy;
       return this;
     });
 
@@ -164,11 +193,13 @@ describe('NetworkControllerManager', () => {
       this.getStats = mockPFSGetStats;
       this.applyQoSPolicy = mockPFSApplyQoSPolicy;
       this.healthCheck = mockPFSHealthCheck;
+      this.listQoSPolicies = mockPFSListQoSPolicies;
+      this.removeQoSPolicy = mockPFSRemoveQoSPolicy;
       return this;
     });
 
     // Create a mock constructor for MikroTik
-    (MockMikroTikController as jest.Mock).mockImplementation(function (this: any) {
+    (MockMikroTikController as unknown as jest.Mock).mockImplementation(function (this: any) {
       this.constructor = { name: 'MikroTikController' };
       this.connect = mockMTConnect;
       this.disconnect = mockMTDisconnect;
@@ -177,6 +208,8 @@ describe('NetworkControllerManager', () => {
       this.getStats = mockMTGetStats;
       this.applyQoSPolicy = mockMTApplyQoSPolicy;
       this.healthCheck = mockMThealthCheck;
+      this.listQoSPolicies = mockMTListQoSPolicies;
+      this.removeQoSPolicy = mockMTRemoveQoSPolicy;
       return this;
     });
 
@@ -226,6 +259,165 @@ describe('NetworkControllerManager', () => {
     });
   });
 
+  describe('Priority and hysteresis', () => {
+    let preferenceManager: NetworkControllerManager;
+    let events: Array<FailoverEvent & { odlChecks: number }>;
+
+    const start = async (overrides: object) => {
+      preferenceManager = new NetworkControllerManager({ ...config, failoverCheckInterval: 20, ...overrides });
+      preferenceManager.on('failover', (event: FailoverEvent) => {
+        events.push({ ...event, odlChecks: mockODLHealthCheck.mock.calls.length });
+      });
+      await preferenceManager.connect();
+    };
+
+    beforeEach(async () => {
+      // Stop the shared manager's checks so the health check counts are exact
+      await manager.disconnect();
+      events = [];
+    });
+
+    afterEach(async () => {
+      await preferenceManager.disconnect();
+    });
+
+    it('should prefer the controller with the lowest priority value', async () => {
+      await start({
+        pfSense: { ...config.pfSense, priority: 2 },
+        mikroTik: { ...config.mikroTik, priority: 1 }
+      });
+
+      expect(preferenceManager.getActiveControllerType()).toBe('MikroTikController');
+    });
+
+    it('should break priority ties by weight', async () => {
+      await start({
+        openDaylight: { ...config.openDaylight, priority: 1, weight: 1 },
+        pfSense: { ...config.pfSense, priority: 1, weight: 5 }
+      });
+
+      expect(preferenceManager.getActiveControllerType()).toBe('PfSenseController');
+    });
+
+    it('should fail over after consecutive failures and fail back after consecutive successes', async () => {
+      mockODLHealthCheck
+        .mockResolvedValueOnce(true)   // connect
+        .mockResolvedValueOnce(false)
+        .mockResolvedValueOnce(true)   // resets the failure count
+        .mockResolvedValueOnce(false)
+        .mockResolvedValueOnce(false)  // second failure in a row
+        .mockResolvedValue(true);
+
+      await start({ failureThreshold: 2, recoveryThreshold: 2 });
+      await waitFor(() => events.length === 3);
+
+      expect(events.map(e => [e.from, e.to])).toEqual([
+        [null, 'OpenDaylightController'],
+        ['OpenDaylightController', 'PfSenseController'],
+        ['PfSenseController', 'OpenDaylightController']
+      ]);
+      expect(events[1].odlChecks).toBe(5);
+      expect(events[1].reason).toBe('OpenDaylightController failed 2 consecutive health checks');
+      expect(events[2].odlChecks).toBe(7);
+      expect(events[2].reason).toBe('OpenDaylightController recovered after 2 consecutive successful health checks');
+      expect(preferenceManager.getFailoverEvents()).toHaveLength(3);
+    });
+
+    it('should check every controller once per tick when failing over', async () => {
+      mockODLHealthCheck.mockResolvedValue(false);
+      mockPFSHealthCheck
+        .mockResolvedValueOnce(true)   // connect
+        .mockResolvedValueOnce(false)  // a single failed tick is not enough
+        .mockResolvedValueOnce(false)
+        .mockResolvedValue(true);
+      mockMThealthCheck.mockResolvedValue(true);
+
+      await start({ failureThreshold: 2 });
+      await waitFor(() => events.length === 2);
+
+      expect(events.map(e => [e.from, e.to])).toEqual([
+        [null, 'PfSenseController'],
+        ['PfSenseController', 'MikroTikController']
+      ]);
+      expect(events[1].reason).toBe('PfSenseController failed 2 consecutive health checks');
+      // Once on connect and once on each of the two ticks
+      expect(events[1].odlChecks).toBe(3);
+    });
+  });
+
+  describe('Runtime controllers', () => {
+    beforeEach(async () => {
+      await manager.connect();
+    });
+
+    it('should add several controllers of one type and keep the configured ones', async () => {
+      await manager.setControllers([
+        { name: 'Branch A', type: 'mikroTik', config: { ...config.mikroTik, host: '10.1.0.1' } },
+        { name: 'Branch B', type: 'mikroTik', config: { ...config.mikroTik, host: '10.2.0.1' }, priority: 1 }
+      ]);
+
+      const status = await manager.getAllControllersStatus();
+      expect(status.map(s => s.name)).toEqual([
+        'Branch B',
+        'OpenDaylightController',
+        'PfSenseController',
+        'MikroTikController',
+        'Branch A'
+      ]);
+      expect(mockMTConnect).toHaveBeenCalledTimes(3);
+      expect(manager.getActiveControllerType()).toBe('OpenDaylightController');
+    });
+
+    it('should keep unchanged controllers and disconnect removed ones', async () => {
+      const branch = { name: 'Branch A', type: 'mikroTik' as const, config: config.mikroTik, priority: 1 };
+      await manager.setControllers([branch]);
+      await manager.setControllers([branch]);
+      expect(mockMTConnect).toHaveBeenCalledTimes(2);
+
+      await manager.setControllers([]);
+      expect(mockMTDisconnect).toHaveBeenCalledTimes(1);
+      expect((await manager.getAllControllersStatus()).map(s => s.name)).toEqual([
+        'OpenDaylightController',
+        'PfSenseController',
+        'MikroTikController'
+      ]);
+    });
+
+    it('should select a new active controller when the active one is removed', async () => {
+      const events: FailoverEvent[] = [];
+      manager.on('failover', (event: FailoverEvent) => events.push(event));
+      await manager.setControllers([{ name: 'Core', type: 'openDaylight', config: config.openDaylight, priority: 1 }]);
+      mockODLHealthCheck.mockResolvedValue(true);
+
+      // The new controller takes over once it passed the recovery threshold
+      await waitFor(() => manager.getActiveControllerType() === 'Core');
+
+      await manager.setControllers([]);
+
+      expect(manager.getActiveControllerType()).toBe('OpenDaylightController');
+      expect(events[events.length - 1]).toMatchObject({ from: 'Core', to: 'OpenDaylightController', reason: 'Core was removed' });
+    });
+
+    it('should pass on device status changes with the controller that saw them', async () => {
+      const router = Object.assign(new EventEmitter(), {
+        connect: mockMTConnect,
+        disconnect: mockMTDisconnect,
+        healthCheck: mockMThealthCheck
+      });
+      (MikroTikController as unknown as jest.Mock).mockImplementationOnce(() => router);
+      const events: DeviceStatusEvent[] = [];
+      manager.on('deviceStatus', (event: DeviceStatusEvent) => events.push(event));
+      await manager.setControllers([{ name: 'Branch', type: 'mikroTik', config: config.mikroTik }]);
+
+      const event: DeviceStatusEvent = { deviceId: '*1', name: 'ether1', status: 'offline', timestamp: new Date() };
+      router.emit('deviceStatus', event);
+      await manager.setControllers([]);
+      router.emit('deviceStatus', event);
+
+      expect(events).toEqual([{ ...event, source: 'Branch' }]);
+    });
+  });
+
   describe('Network Operations', () => {
     beforeEach(async () => {
       await manager.connect();
@@ -253,6 +445,7 @@ describe('NetworkControllerManager', () => {
         id: 'test-flow',
         sourceIp: '192.168.1.2',
         destinationIp: '192.168.1.3',
+        addressFamily: 'ipv4',
         sourcePort: 80,
         destinationPort: 443,
         protocol: 'TCP',
@@ -302,4 +495,199 @@ describe('NetworkControllerManager', () => {
       expect(mockODLApplyQoSPolicy).toHaveBeenCalledWith(policy);
     });
   });
+
+  describe('Aggregate mode', () => {
+    let aggregateManager: NetworkControllerManager;
+    let warnSpy: ReturnType<typeof jest.spyOn>;
+
+    const device = (id: string, macAddress?: string): NetworkDevice => ({
+      id,
+      name: id,
+      type: 'switch',
+      ipAddress: '10.0.0.1',
+      status: 'online',
+      lastSeen: new Date(),
+      macAddress
+    });
+
+    const flow = (id: string, protocol: string): NetworkFlow => ({
+      id,
+      sourceIp: '10.0.0.2',
+      destinationIp: '10.0.0.3',
+      addressFamily: 'ipv4',
+      sourcePort: 5000,
+      destinationPort: 443,
+      protocol,
+      bytesTransferred: 1000,
+      packetsTransferred: 10,
+      startTime: new Date()
+    });
+
+    const stats = (bytes: number, timestamp: Date): NetworkStats => ({
+      bytesIn: bytes,
+      bytesOut: bytes,
+      packetsIn: 1,
+      packetsOut: 1,
+      activeConnections: 1,
+      timestamp
+    });
+
+    beforeEach(async () => {
+      // Partial failures are logged as warnings
+      warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      aggregateManager = new NetworkControllerManager({ ...config, mode: 'aggregate' });
+      await aggregateManager.connect();
+    });
+
+    afterEach(async () => {
+      await aggregateManager.disconnect();
+      warnSpy.mockRestore();
+    });
+
+    it('should merge devices from every controller and tag their source', async () => {
+      mockODLGetDevices.mockResolvedValue([device('core-1', 'AA:BB:CC:DD:EE:01')]);
+      mockPFSGetDevices.mockResolvedValue([device('edge-1'), device('lan-host', 'aa-bb-cc-dd-ee-01')]);
+      mockMTGetDevices.mockResolvedValue([device('branch-1')]);
+
+      const result = await aggregateManager.collectDevices();
+
+      expect(result.sources).toEqual(['OpenDaylightController', 'PfSenseController', 'MikroTikController']);
+      expect(result.failures).toEqual([]);
+      expect(result.data.map(d => [d.id, d.source])).toEqual([
+        ['core-1', 'OpenDaylightController'],
+        ['edge-1', 'PfSenseController'],
+        ['branch-1', 'MikroTikController']
+      ]);
+    });
+
+    it('should count a flow seen by several controllers once', async () => {
+      mockODLGetFlows.mockResolvedValue([flow('f1', 'TCP')]);
+      mockMTGetFlows.mockResolvedValue([flow('f9', 'tcp')]);
+
+      const flows = await aggregateManager.getFlows();
+
+      expect(flows).toHaveLength(1);
+      expect(flows[0]).toMatchObject({ id: 'OpenDaylightController:f1', source: 'OpenDaylightController' });
+    });
+
+    it('should report partial failures and keep the other results', async () => {
+      mockODLGetDevices.mockResolvedValue([device('core-1')]);
+      mockPFSGetDevices.mockRejectedValue(new Error('connect ETIMEDOUT'));
+
+      const result = await aggregateManager.collectDevices();
+
+      expect(result.data.map(d => d.id)).toEqual(['core-1']);
+      expect(result.failures).toEqual([{ source: 'PfSenseController', error: 'connect ETIMEDOUT' }]);
+      const status = await aggregateManager.getAllControllersStatus();
+      expect(status.find(s => s.name === 'PfSenseController')!.lastError).toBe('connect ETIMEDOUT');
+    });
+
+    it('should fail when every controller fails', async () => {
+      for (const getDevices of [mockODLGetDevices, mockPFSGetDevices, mockMTGetDevices]) {
+        getDevices.mockRejectedValue(new Error('unreachable'));
+      }
+
+      await expect(aggregateManager.getDevices()).rejects.toThrow('All controllers failed');
+    });
+
+    it('should sum stats and keep the last counters of a failed controller', async () => {
+      const earlier = new Date('2024-01-01T00:00:00Z');
+      const later = new Date('2024-01-01T00:01:00Z');
+      mockODLGetStats.mockResolvedValue(stats(100, earlier));
+      mockPFSGetStats.mockResolvedValue(stats(200, later));
+      mockMTGetStats.mockResolvedValue(stats(300, earlier));
+
+      const first = await aggregateManager.getStats();
+      expect(first.bytesIn).toBe(600);
+      expect(first.activeConnections).toBe(3);
+      expect(first.timestamp).toEqual(later);
+
+      mockODLGetStats.mockResolvedValue(stats(150, later));
+      mockPFSGetStats.mockRejectedValue(new Error('timeout'));
+
+      const second = await aggregateManager.getStats();
+      expect(second.bytesIn).toBe(650);
+    });
+
+    it('should drop the counters of a controller that failed its last health check', async () => {
+      mockODLGetStats.mockResolvedValue(stats(100, new Date()));
+      mockPFSGetStats.mockResolvedValue(stats(200, new Date()));
+      mockMTGetStats.mockResolvedValue(stats(300, new Date()));
+      await aggregateManager.getStats();
+
+      mockPFSHealthCheck.mockResolvedValue(false);
+      await aggregateManager.healthCheck();
+
+      const result = await aggregateManager.collectStats();
+      expect(result.data.bytesIn).toBe(400);
+      expect(result.sources).toEqual(['OpenDaylightController', 'MikroTikController']);
+      expect(result.failures).toEqual([{ source: 'PfSenseController', error: 'Failed its last health check' }]);
+    });
+
+    it('should report controllers whose health check throws as unhealthy', async () => {
+      mockPFSHealthCheck.mockRejectedValue(new Error('getaddrinfo ENOTFOUND pfsense.example.com'));
+
+      const status = await aggregateManager.getAllControllersStatus();
+
+      expect(status.map(s => [s.name, s.healthy])).toEqual([
+        ['OpenDaylightController', true],
+        ['PfSenseController', false],
+        ['MikroTikController', true]
+      ]);
+      expect(status[1].lastError).toBe('getaddrinfo ENOTFOUND pfsense.example.com');
+    });
+
+    it('should collect port counters from the controllers that report them', async () => {
+      mockODLGetInterfaceStats.mockResolvedValue([{
+        deviceId: 'openflow:1',
+        portId: 'openflow:1:1',
+        name: 's1-eth1',
+        bytesIn: 100,
+        bytesOut: 200,
+        packetsIn: 1,
+        packetsOut: 2,
+        timestamp: new Date()
+      }]);
+
+      const result = await aggregateManager.collectInterfaceStats();
+
+      expect(result.sources).toEqual(['OpenDaylightController']);
+      expect(result.data).toEqual([expect.objectContaining({ portId: 'openflow:1:1', source: 'OpenDaylightController' })]);
+    });
+
+    it('should list installed QoS policies with their source and remove them everywhere', async () => {
+      const policy: QoSPolicy = {
+        id: 'p1',
+        name: 'Branch',
+        targetDevice: 'branch-1',
+        bandwidth: { min: 1, max: 10 },
+        priority: 1
+      };
+      mockMTListQoSPolicies.mockResolvedValue([policy]);
+
+      expect(await aggregateManager.listQoSPolicies()).toEqual([{ ...policy, source: 'MikroTikController' }]);
+
+      await aggregateManager.removeQoSPolicy('p1');
+      for (const remove of [mockODLRemoveQoSPolicy, mockPFSRemoveQoSPolicy, mockMTRemoveQoSPolicy]) {
+        expect(remove).toHaveBeenCalledWith('p1');
+      }
+    });
+
+    it('should apply a QoS policy through the controller that reported the device', async () => {
+      mockMTGetDevices.mockResolvedValue([device('branch-1')]);
+      await aggregateManager.getDevices();
+
+      const policy: QoSPolicy = {
+        id: 'p1',
+        name: 'Branch',
+        targetDevice: 'branch-1',
+        bandwidth: { min: 1, max: 10 },
+        priority: 1
+      };
+      await aggregateManager.applyQoSPolicy(policy);
+
+      expect(mockMTApplyQoSPolicy).toHaveBeenCalledWith(policy);
+      expect(mockODLApplyQoSPolicy).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { AlertEvent } from '../services/alertEngine';
+import { NotificationDispatcher, backoffDelay } from '../services/notificationDispatcher';
+import { NotificationError } from '../services/notifiers/notification';
+import { AlertRule } from '../models/alertRule';
+import { NotificationChannel } from '../models/notificationChannel';
+import { NotificationDelivery } from '../models/notificationDelivery';
+import { AlertNotification, NotificationChannelConfig, Notifier } from '../interfaces/notifier';
+import { encryptSecret } from '../utils/encryption';
+
+describe('NotificationDispatcher', () => {
+  const key = crypto.randomBytes(32);
+  const ruleId = new mongoose.Types.ObjectId();
+  const emailChannel = {
+    _id: new mongoose.Types.ObjectId(),
+    name: 'NOC email',
+    type: 'email',
+    enabled: true,
+    config: { recipients: ['noc@example.com'] }
+  };
+  const webhookChannel = {
+    _id: new mongoose.Types.ObjectId(),
+    name: 'Pager',
+    type: 'webhook',
+    enabled: true,
+    config: { url: 'http://127.0.0.1/hook' }
+  };
+
+  const event = (type: AlertEvent['event']): AlertEvent => ({
+    event: type,
+    alert: {
+      _id: new mongoose.Types.ObjectId(),
+      ruleId,
+      ruleName: 'High latency',
+      severity: 'high',
+      status: type === 'resolved' ? 'resolved' : 'firing',
+      subject: 'network',
+      message: 'latency is 95 (> 80)',
+      value: 95,
+      firedAt: new Date('2024-06-01T12:00:00Z'),
+      acknowledgedAt: null,
+      acknowledgedBy: null,
+      resolvedAt: null,
+      updatedAt: new Date('2024-06-01T12:00:00Z')
+    }
+  });
+
+  let deliveries: any[];
+  let sleeps: number[];
+  let email: jest.Mock<(n: AlertNotification, c: NotificationChannelConfig) => Promise<void>>;
+  let webhook: jest.Mock<(n: AlertNotification, c: NotificationChannelConfig) => Promise<void>>;
+  let dispatcher: NotificationDispatcher;
+
+  const routeTo = (channels: any[]) => {
+    jest.spyOn(AlertRule, 'findById').mockReturnValue({
+      lean: async () => ({ _id: ruleId, notificationChannels: channels.map(channel => channel._id) })
+    } as any);
+    jest.spyOn(NotificationChannel, 'find').mockReturnValue({ lean: async () => channels } as any);
+  };
+
+  beforeEach(() => {
+    deliveries = [];
+    sleeps = [];
+    jest.spyOn(NotificationDelivery.prototype, 'save').mockImplementation(async function(this: any) {
+      if (!deliveries.includes(this)) {
+        deliveries.push(this);
+      }
+      return this;
+    });
+
+    email = jest.fn<(n: AlertNotification, c: NotificationChannelConfig) => Promise<void>>().mockResolvedValue();
+    webhook = jest.fn<(n: AlertNotification, c: NotificationChannelConfig) => Promise<void>>().mockResolvedValue();
+    const notifiers: Record<string, Notifier> = { email: { send: email }, webhook: { send: webhook } };
+    dispatcher = new NotificationDispatcher(
+      notifiers,
+      key,
+      { maxAttempts: 3, initialDelayMs: 100, maxDelayMs: 150 },
+      async ms => { sleeps.push(ms); }
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should deliver to every channel the rule routes to', async () => {
+    routeTo([emailChannel, webhookChannel]);
+    await dispatcher.dispatch(event('fired'));
+
+    expect(email).toHaveBeenCalledWith(expect.objectContaining({ event: 'fired', ruleName: 'High latency' }), emailChannel.config);
+    expect(webhook).toHaveBeenCalledTimes(1);
+    expect(deliveries.map(d => [d.channelName, d.status, d.attempts.length])).toEqual([
+      ['NOC email', 'delivered', 1],
+      ['Pager', 'delivered', 1]
+    ]);
+  });
+
+  it('should not notify acknowledgements', async () => {
+    routeTo([emailChannel]);
+    await dispatcher.dispatch(event('acknowledged'));
+    expect(email).not.toHaveBeenCalled();
+  });
+
+  it('should skip rules without channels', async () => {
+    routeTo([]);
+    await dispatcher.dispatch(event('resolved'));
+    expect(deliveries).toHaveLength(0);
+  });
+
+  it('should retry with backoff and log every attempt', async () => {
+    routeTo([webhookChannel]);
+    webhook.mockRejectedValueOnce(new Error('ECONNREFUSED')).mockRejectedValueOnce(new Error('timeout'));
+
+    await dispatcher.dispatch(event('resolved'));
+
+    expect(webhook).toHaveBeenCalledTimes(3);
+    expect(sleeps).toEqual([100, 150]);
+    expect(deliveries[0].status).toBe('delivered');
+    expect(deliveries[0].event).toBe('resolved');
+    expect(deliveries[0].attempts.map((a: any) => a.error)).toEqual(['ECONNREFUSED', 'timeout', null]);
+  });
+
+  it('should give up after the last attempt', async () => {
+    routeTo([webhookChannel]);
+    webhook.mockRejectedValue(new Error('ECONNREFUSED'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await dispatcher.dispatch(event('fired'));
+
+    expect(webhook).toHaveBeenCalledTimes(3);
+    expect(deliveries[0].status).toBe('failed');
+    expect(deliveries[0].attempts).toHaveLength(3);
+  });
+
+  it('should not retry permanent failures', async () => {
+    routeTo([emailChannel]);
+    email.mockRejectedValue(new NotificationError('Mailbox unavailable', false));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await dispatcher.dispatch(event('fired'));
+
+    expect(email).toHaveBeenCalledTimes(1);
+    expect(sleeps).toEqual([]);
+    expect(deliveries[0].status).toBe('failed');
+  });
+
+  it('should fail channels without a configured notifier', async () => {
+    routeTo([{ ...webhookChannel, type: 'slack', name: 'Slack' }]);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await dispatcher.dispatch(event('fired'));
+    expect(deliveries[0].attempts[0].error).toBe('No slack notifier is configured');
+  });
+
+  it('should send the decrypted secret and keep plaintext ones', async () => {
+    const signed = { ...webhookChannel, config: { url: 'http://127.0.0.1/hook', secret: encryptSecret('s3cret', key) } };
+    const legacy = { ...webhookChannel, _id: new mongoose.Types.ObjectId(), config: { url: 'http://127.0.0.1/old', secret: 'plain' } };
+    routeTo([signed, legacy]);
+
+    await dispatcher.dispatch(event('fired'));
+
+    expect(webhook.mock.calls.map(call => call[1])).toEqual([
+      { url: 'http://127.0.0.1/hook', secret: 's3cret' },
+      { url: 'http://127.0.0.1/old', secret: 'plain' }
+    ]);
+  });
+
+  it('should not retry secrets that cannot be decrypted', async () => {
+    const otherKey = crypto.randomBytes(32);
+    routeTo([{ ...webhookChannel, config: { url: 'http://127.0.0.1/hook', secret: encryptSecret('s3cret', otherKey) } }]);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await dispatcher.dispatch(event('fired'));
+
+    expect(webhook).not.toHaveBeenCalled();
+    expect(deliveries[0].status).toBe('failed');
+    expect(deliveries[0].attempts).toHaveLength(1);
+    expect(deliveries[0].attempts[0].error).toMatch(/^Cannot decrypt the channel secret/);
+  });
+
+  describe('backoffDelay', () => {
+    it('should double the delay up to the maximum', () => {
+      const policy = { maxAttempts: 10, initialDelayMs: 1000, maxDelayMs: 5000 };
+      expect([1, 2, 3, 4].map(attempt => backoffDelay(policy, attempt))).toEqual([1000, 2000, 4000, 5000]);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import net from 'net';
+import { AddressInfo } from 'net';
+import { EmailNotifier, loadSmtpConfig } from '../../services/notifiers/emailNotifier';
+import { NotificationError } from '../../services/notifiers/notification';
+import { AlertNotification } from '../../interfaces/notifier';
+
+interface ReceivedMail {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+// Minimal SMTP sink accepting plain text sessions; recipients in rejected get
+// the given reply code
+function createSmtpSink(rejected: Map<string, number>) {
+  const received: ReceivedMail[] = [];
+  const server = net.createServer(socket => {
+    let mail: ReceivedMail = { from: '', to: [], data: '' };
+    let inData = false;
+    let buffer = '';
+
+    socket.write('220 localhost ESMTP sink\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            received.push(mail);
+            mail = { from: '', to: [], data: '' };
+            socket.write('250 Queued\r\n');
+          } else {
+            mail.data += `${line}\n`;
+          }
+          continue;
+        }
+
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === 'EHLO' || command === 'HELO') {
+          socket.write('250 localhost\r\n');
+        } else if (command === 'MAIL') {
+          mail.from = line.slice(10).trim();
+          socket.write('250 OK\r\n');
+        } else if (command === 'RCPT') {
+          const recipient = line.slice(8).trim().replace(/[<>]/g, '');
+          const code = rejected.get(recipient);
+          if (code) {
+            socket.write(`${code} Mailbox unavailable\r\n`);
+          } else {
+            mail.to.push(recipient);
+            socket.write('250 OK\r\n');
+          }
+        } else if (command === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (command === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+  return { server, received };
+}
+
+describe('EmailNotifier', () => {
+  let sink: ReturnType<typeof createSmtpSink>;
+  let rejected: Map<string, number>;
+  let notifier: EmailNotifier;
+
+  const notification: AlertNotification = {
+    event: 'fired',
+    alertId: 'alert-1',
+    ruleName: 'High latency',
+    severity: 'high',
+    subject: 'network',
+    message: 'latency is 95 (> 80)',
+    value: 95,
+    firedAt: new Date('2024-06-01T12:00:00Z'),
+    resolvedAt: null
+  };
+
+  beforeEach(async () => {
+    rejected = new Map();
+    sink = createSmtpSink(rejected);
+    await new Promise<void>(resolve => sink.server.listen(0, '127.0.0.1', resolve));
+    const { port } = sink.server.address() as AddressInfo;
+    notifier = new EmailNotifier({ host: '127.0.0.1', port, secure: false, from: 'eyenet@example.com' });
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => sink.server.close(resolve));
+  });
+
+  it('should send the alert to every recipient', async () => {
+    await notifier.send(notification, { recipients: ['ops@example.com', 'noc@example.com'] });
+
+    expect(sink.received).toHaveLength(1);
+    expect(sink.received[0].to).toEqual(['ops@example.com', 'noc@example.com']);
+    expect(sink.received[0].data).toContain('Subject: [FIRING] [HIGH] High latency');
+    expect(sink.received[0].data).toContain('latency is 95 (> 80)');
+  });
+
+  it('should not retry permanently rejected recipients', async () => {
+    rejected.set('gone@example.com', 550);
+    const error = await notifier.send(notification, { recipients: ['gone@example.com'] }).catch(e => e);
+    expect(error).toBeInstanceOf(NotificationError);
+    expect(error.retryable).toBe(false);
+  });
+
+  it('should retry temporary failures', async () => {
+    rejected.set('busy@example.com', 451);
+    const error = await notifier.send(notification, { recipients: ['busy@example.com'] }).catch(e => e);
+    expect(error).toBeInstanceOf(NotificationError);
+    expect(error.retryable).toBe(true);
+  });
+
+  it('should reject channels without recipients', async () => {
+    await expect(notifier.send(notification, {})).rejects.toThrow('Email channel has no recipients');
+  });
+
+  describe('loadSmtpConfig', () => {
+    it('should only configure SMTP when a host is set', () => {
+      expect(loadSmtpConfig({})).toBeNull();
+      expect(loadSmtpConfig({ SMTP_HOST: 'mail.example.com', SMTP_USERNAME: 'eyenet' })).toEqual({
+        host: 'mail.example.com',
+        port: 587,
+        secure: false,
+        username: 'eyenet',
+        password: undefined,
+        from: 'eyenet@localhost'
+      });
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, WebhookNotifier, signPayload } from '../../services/notifiers/webhookNotifier';
+import { ChatWebhookNotifier } from '../../services/notifiers/chatWebhookNotifier';
+import { NotificationError } from '../../services/notifiers/notification';
+import { AlertNotification } from '../../interfaces/notifier';
+
+interface ReceivedRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('webhook notifiers', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let received: ReceivedRequest[];
+  let responseStatus: number;
+
+  const notification: AlertNotification = {
+    event: 'resolved',
+    alertId: 'alert-1',
+    ruleName: 'Switch offline',
+    severity: 'medium',
+    subject: 'sw1',
+    message: 'Device sw1 is offline',
+    value: null,
+    firedAt: new Date('2024-06-01T12:00:00Z'),
+    resolvedAt: new Date('2024-06-01T12:05:00Z')
+  };
+
+  beforeEach(async () => {
+    received = [];
+    responseStatus = 200;
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        received.push({ url: req.url || '', headers: req.headers, body });
+        res.statusCode = responseStatus;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  describe('WebhookNotifier', () => {
+    it('should post the notification signed with the channel secret', async () => {
+      await new WebhookNotifier().send(notification, { url: `${baseUrl}/hook`, secret: 's3cret' });
+
+      expect(received).toHaveLength(1);
+      const { headers, body } = received[0];
+      expect(JSON.parse(body)).toMatchObject({ event: 'resolved', alertId: 'alert-1', subject: 'sw1' });
+      const timestamp = headers[TIMESTAMP_HEADER.toLowerCase()] as string;
+      expect(headers[SIGNATURE_HEADER.toLowerCase()]).toBe(signPayload('s3cret', timestamp, body));
+    });
+
+    it('should not sign payloads without a secret', async () => {
+      await new WebhookNotifier().send(notification, { url: `${baseUrl}/hook` });
+      expect(received[0].headers[SIGNATURE_HEADER.toLowerCase()]).toBeUndefined();
+    });
+
+    it('should only retry server errors, timeouts and rate limiting', async () => {
+      const send = () => new WebhookNotifier().send(notification, { url: `${baseUrl}/hook` }).catch(e => e);
+
+      responseStatus = 503;
+      expect(await send()).toMatchObject({ retryable: true });
+      responseStatus = 429;
+      expect(await send()).toMatchObject({ retryable: true });
+      responseStatus = 404;
+      const error = await send();
+      expect(error).toBeInstanceOf(NotificationError);
+      expect(error.retryable).toBe(false);
+    });
+  });
+
+  describe('ChatWebhookNotifier', () => {
+    it('should post Slack incoming webhook payloads', async () => {
+      await new ChatWebhookNotifier('slack').send(notification, { url: `${baseUrl}/slack` });
+
+      const payload = JSON.parse(received[0].body);
+      expect(payload.text).toBe('[RESOLVED] [MEDIUM] Switch offline');
+      expect(payload.attachments[0].color).toBe('#2eb886');
+      expect(payload.attachments[0].fields).toContainEqual({ title: 'Subject', value: 'sw1', short: true });
+    });
+
+    it('should post Teams MessageCard payloads', async () => {
+      await new ChatWebhookNotifier('teams').send(notification, { url: `${baseUrl}/teams` });
+
+      const payload = JSON.parse(received[0].body);
+      expect(payload['@type']).toBe('MessageCard');
+      expect(payload.title).toBe('[RESOLVED] [MEDIUM] Switch offline');
+      expect(payload.sections[0].facts).toContainEqual({ name: 'Resolved at', value: '2024-06-01T12:05:00.000Z' });
+    });
+  });
+});
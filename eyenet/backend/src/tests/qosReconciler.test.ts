@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { QoSPolicy } from '../interfaces/networkController';
+import { QoSPolicyModel } from '../models/qosPolicy';
+import { NetworkControllerManager } from '../services/networkControllerManager';
+import { QoSReconciler, findQoSDrift, qosPolicyFingerprint } from '../services/qosReconciler';
+
+const policy = (id: string, overrides: Partial<QoSPolicy> = {}): QoSPolicy => ({
+  id,
+  name: `Policy ${id}`,
+  targetDevice: 'ether1',
+  bandwidth: { min: 10, max: 100 },
+  priority: 1,
+  ...overrides
+});
+
+describe('qosReconciler', () => {
+  describe('qosPolicyFingerprint', () => {
+    it('should ignore differences in how controllers report a policy', () => {
+      const stored = policy('a', { ports: [443, 80], destinationCidr: '10.0.0.5', protocol: 'TCP' });
+      const live = policy('a', { ports: [80, 443], destinationCidr: '10.0.0.5/32', protocol: 'tcp', source: 'MikroTikController' });
+      expect(qosPolicyFingerprint(live)).toBe(qosPolicyFingerprint(stored));
+
+      // Ports without a protocol are TCP ports
+      expect(qosPolicyFingerprint(policy('a', { ports: [22] }))).toBe(qosPolicyFingerprint(policy('a', { ports: [22], protocol: 'tcp' })));
+      expect(qosPolicyFingerprint(policy('a', { protocol: 'any' }))).toBe(qosPolicyFingerprint(policy('a')));
+    });
+
+    it('should tell changed settings apart', () => {
+      expect(qosPolicyFingerprint(policy('a', { bandwidth: { min: 10, max: 50 } }))).not.toBe(qosPolicyFingerprint(policy('a')));
+      expect(qosPolicyFingerprint(policy('a', { ports: [80] }))).not.toBe(qosPolicyFingerprint(policy('a', { ports: [8080] })));
+    });
+  });
+
+  it('should find missing, changed and orphaned policies', () => {
+    const stored = [policy('a'), policy('b'), policy('c')];
+    const live = [
+      policy('a'),
+      policy('b', { priority: 5, source: 'PfSenseController' }),
+      policy('z', { source: 'MikroTikController' })
+    ];
+
+    expect(findQoSDrift(stored, live)).toEqual([
+      { policyId: 'c', kind: 'missing', stored: stored[2] },
+      { policyId: 'b', kind: 'changed', source: 'PfSenseController', stored: stored[1], live: live[1] },
+      { policyId: 'z', kind: 'orphaned', source: 'MikroTikController', live: live[2] }
+    ]);
+  });
+
+  describe('QoSReconciler', () => {
+    let manager: {
+      listQoSPolicies: jest.Mock<() => Promise<QoSPolicy[]>>;
+      updateQoSPolicy: jest.Mock<(policy: QoSPolicy) => Promise<void>>;
+      removeQoSPolicy: jest.Mock<(policyId: string) => Promise<void>>;
+    };
+    let reconciler: QoSReconciler;
+
+    const record = (id: string, overrides: Record<string, unknown> = {}) => ({
+      _id: id,
+      name: `Policy ${id}`,
+      targetDevice: 'ether1',
+      bandwidth: { min: 10, max: 100 },
+      priority: 1,
+      ports: [],
+      ...overrides
+    });
+
+    beforeEach(() => {
+      jest.spyOn(QoSPolicyModel, 'find').mockReturnValue({
+        lean: async () => [record('a'), record('b', { ports: [443], protocol: 'tcp' })]
+      } as any);
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      manager = {
+        listQoSPolicies: jest.fn<() => Promise<QoSPolicy[]>>().mockResolvedValue([
+          policy('b', { ports: [8443], protocol: 'tcp' }),
+          policy('z')
+        ]),
+        updateQoSPolicy: jest.fn<(policy: QoSPolicy) => Promise<void>>().mockResolvedValue(),
+        removeQoSPolicy: jest.fn<(policyId: string) => Promise<void>>().mockResolvedValue()
+      };
+      reconciler = new QoSReconciler(manager as unknown as NetworkControllerManager);
+    });
+
+    it('should only report drift unless asked to fix it', async () => {
+      const result = await reconciler.run();
+
+      expect(result.drift.map(d => [d.policyId, d.kind])).toEqual([['a', 'missing'], ['b', 'changed'], ['z', 'orphaned']]);
+      expect(result.fixed).toBe(0);
+      expect(manager.updateQoSPolicy).not.toHaveBeenCalled();
+      expect(manager.removeQoSPolicy).not.toHaveBeenCalled();
+    });
+
+    it('should re-apply stored policies and remove orphaned ones', async () => {
+      manager.removeQoSPolicy.mockRejectedValueOnce(new Error('timeout'));
+
+      const result = await reconciler.run(true);
+
+      expect(manager.updateQoSPolicy.mock.calls.map(call => call[0])).toEqual([
+        policy('a'),
+        policy('b', { ports: [443], protocol: 'tcp' })
+      ]);
+      expect(manager.removeQoSPolicy).toHaveBeenCalledWith('z');
+      expect(result.fixed).toBe(2);
+      expect(result.failures).toEqual([{ policyId: 'z', error: 'timeout' }]);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect } from '@jest/globals';
+import { isSflowDatagram, parseSflowDatagram } from '../services/flowCollector/sflowParser';
+import { FlowCollectorController } from '../services/controllers/flowCollectorController';
+
+const u16 = (value: number) => {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16BE(value);
+  return buffer;
+};
+const u32 = (value: number) => {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value);
+  return buffer;
+};
+const u64 = (value: number) => {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64BE(BigInt(value));
+  return buffer;
+};
+const ipv4 = (address: string) => Buffer.from(address.split('.').map(Number));
+const pad = (buffer: Buffer) => Buffer.concat([buffer, Buffer.alloc((4 - (buffer.length % 4)) % 4)]);
+
+// Format and length prefixed sample or record
+const item = (format: number, ...parts: Buffer[]) => {
+  const content = pad(Buffer.concat(parts));
+  return Buffer.concat([u32(format), u32(content.length), content]);
+};
+
+function datagram(agent: Buffer, ...samples: Buffer[]): Buffer {
+  const agentAddress = agent.length === 4 ? Buffer.concat([u32(1), agent]) : Buffer.concat([u32(2), agent]);
+  return Buffer.concat([u32(5), agentAddress, u32(0), u32(1), u32(360000), u32(samples.length), ...samples]);
+}
+
+const ethernet = (etherType: number, payload: Buffer, vlanId?: number) => Buffer.concat([
+  Buffer.from('00163e000001', 'hex'),
+  Buffer.from('00163e000002', 'hex'),
+  ...(vlanId === undefined ? [] : [u16(0x8100), u16(vlanId)]),
+  u16(etherType),
+  payload
+]);
+
+const ipv4Packet = (src: string, dst: string, protocol: number, transport: Buffer) => Buffer.concat([
+  Buffer.from([0x45, 0, 0, 60, 0, 0, 0x40, 0, 64, protocol, 0, 0]),
+  ipv4(src),
+  ipv4(dst),
+  transport
+]);
+
+const ipv6Packet = (src: string, dst: string, nextHeader: number, transport: Buffer) => Buffer.concat([
+  Buffer.from([0x60, 0, 0, 0, 0, 20, nextHeader, 64]),
+  Buffer.from(src, 'hex'),
+  Buffer.from(dst, 'hex'),
+  transport
+]);
+
+const ports = (source: number, destination: number) => Buffer.concat([u16(source), u16(destination), Buffer.alloc(16)]);
+
+const rawHeader = (headerProtocol: number, frameLength: number, header: Buffer) =>
+  item(1, u32(headerProtocol), u32(frameLength), u32(4), u32(header.length), header);
+
+const flowSample = (samplingRate: number, ...records: Buffer[]) =>
+  item(1, u32(1), u32(3), u32(samplingRate), u32(1000), u32(0), u32(3), u32(4), u32(records.length), ...records);
+
+const expandedFlowSample = (samplingRate: number, ...records: Buffer[]) =>
+  item(3, u32(1), u32(0), u32(3), u32(samplingRate), u32(1000), u32(0), u32(0), u32(3), u32(0), u32(4), u32(records.length), ...records);
+
+const interfaceCounters = (ifIndex: number, bytesIn: number, bytesOut: number, packetsIn: number, packetsOut: number) => item(1,
+  u32(ifIndex), u32(6), u64(1e9), u32(1), u32(3),
+  u64(bytesIn), u32(packetsIn), u32(0), u32(0), u32(0), u32(0), u32(0),
+  u64(bytesOut), u32(packetsOut), u32(0), u32(0), u32(0), u32(0), u32(0)
+);
+
+const counterSample = (...records: Buffer[]) => item(2, u32(1), u32(3), u32(records.length), ...records);
+
+const AGENT = ipv4('192.0.2.10');
+const NOW = new Date('2026-01-05T10:00:00Z');
+
+describe('sFlow parser', () => {
+  it('should tell sFlow datagrams from NetFlow packets', () => {
+    expect(isSflowDatagram(datagram(AGENT))).toBe(true);
+    expect(isSflowDatagram(Buffer.from([0, 5, 0, 1]))).toBe(false);
+    expect(isSflowDatagram(Buffer.from([0, 9, 0, 1]))).toBe(false);
+  });
+
+  it('should scale sampled Ethernet/IPv4 packets by the sampling rate', () => {
+    const header = ethernet(0x0800, ipv4Packet('10.0.0.5', '10.0.0.6', 6, ports(51000, 443)), 20);
+    const { agent, flows } = parseSflowDatagram(datagram(AGENT, flowSample(512, rawHeader(1, 1500, header))), '198.51.100.1', NOW);
+
+    expect(agent).toBe('192.0.2.10');
+    expect(flows).toEqual([{
+      exporter: '192.0.2.10',
+      sourceIp: '10.0.0.5',
+      destinationIp: '10.0.0.6',
+      sourcePort: 51000,
+      destinationPort: 443,
+      protocol: 6,
+      bytes: 1500 * 512,
+      packets: 512,
+      startTime: NOW,
+      endTime: NOW,
+      vlanId: 20,
+      direction: 'ingress'
+    }]);
+  });
+
+  it('should decode IPv6 headers in expanded flow samples', () => {
+    const header = ipv6Packet('20010db8000000000000000000000001', '20010db8000000000000000000000002', 17, ports(5353, 5353));
+    // Extended switch data gives the VLAN
+    const extendedSwitch = item(1001, u32(30), u32(0), u32(30), u32(0));
+    const { flows } = parseSflowDatagram(datagram(AGENT, expandedFlowSample(100, rawHeader(12, 90, header), extendedSwitch)), '198.51.100.1', NOW);
+
+    expect(flows[0]).toMatchObject({
+      sourceIp: '2001:db8::1',
+      destinationIp: '2001:db8::2',
+      protocol: 17,
+      sourcePort: 5353,
+      bytes: 9000,
+      packets: 100,
+      vlanId: 30
+    });
+  });
+
+  it('should skip samples of non-IP traffic and unknown formats', () => {
+    const arp = ethernet(0x0806, Buffer.alloc(28));
+    const enterpriseSample = item((9 << 12) | 1, u32(0));
+    const { flows, counters } = parseSflowDatagram(datagram(AGENT, flowSample(10, rawHeader(1, 64, arp)), enterpriseSample), '198.51.100.1', NOW);
+
+    expect(flows).toEqual([]);
+    expect(counters).toEqual([]);
+  });
+
+  it('should read generic interface counters', () => {
+    const { counters } = parseSflowDatagram(datagram(AGENT, counterSample(interfaceCounters(3, 5e9, 2e9, 1000, 800))), '198.51.100.1', NOW);
+
+    expect(counters).toEqual([{ agent: '192.0.2.10', ifIndex: 3, bytesIn: 5e9, bytesOut: 2e9, packetsIn: 1000, packetsOut: 800 }]);
+  });
+
+  it('should reject truncated datagrams', () => {
+    const packet = datagram(AGENT, counterSample(interfaceCounters(3, 1, 1, 1, 1)));
+    expect(() => parseSflowDatagram(packet.subarray(0, packet.length - 10), '198.51.100.1', NOW)).toThrow('Truncated');
+  });
+
+  it('should feed the flow collector', async () => {
+    const collector = new FlowCollectorController();
+    const header = ethernet(0x0800, ipv4Packet('10.0.0.5', '10.0.0.6', 17, ports(40000, 53)));
+
+    collector.receive(datagram(AGENT, flowSample(256, rawHeader(1, 100, header))), '198.51.100.1');
+    collector.receive(datagram(AGENT, flowSample(256, rawHeader(1, 200, header))), '198.51.100.1');
+    collector.receive(datagram(AGENT, counterSample(interfaceCounters(1, 1000, 500, 10, 5), interfaceCounters(2, 100, 50, 1, 1))), '198.51.100.1');
+    // Newer counters replace the interface's previous ones
+    collector.receive(datagram(AGENT, counterSample(interfaceCounters(1, 3000, 700, 30, 7))), '198.51.100.1');
+
+    const flows = await collector.getFlows();
+    expect(flows).toHaveLength(1);
+    expect(flows[0]).toMatchObject({ protocol: 'udp', bytesTransferred: 300 * 256, packetsTransferred: 512 });
+
+    expect(await collector.getStats()).toMatchObject({ bytesIn: 3100, bytesOut: 750, packetsIn: 31, packetsOut: 8, activeConnections: 1 });
+    expect(await collector.getDevices()).toMatchObject([{ id: '192.0.2.10', type: 'sFlow Agent' }]);
+  });
+});
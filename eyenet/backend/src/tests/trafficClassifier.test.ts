@@ -0,0 +1,83 @@
+import { describe, it, expect } from '@jest/globals';
+import { TrafficClassifier, UNCLASSIFIED_APPLICATION } from '../services/trafficClassifier';
+import { applicationStatus, applicationTrend, attributeApplicationUsage } from '../services/applicationUsage';
+import { NetworkFlow } from '../interfaces/networkController';
+
+describe('TrafficClassifier', () => {
+  const flow = (overrides: Partial<NetworkFlow>): NetworkFlow => ({
+    id: 'flow',
+    sourceIp: '10.0.0.5',
+    destinationIp: '198.51.100.7',
+    addressFamily: 'ipv4',
+    sourcePort: 51000,
+    destinationPort: 443,
+    protocol: 'tcp',
+    bytesTransferred: 0,
+    packetsTransferred: 0,
+    startTime: new Date(),
+    ...overrides
+  });
+
+  const classifier = new TrafficClassifier();
+
+  it('should prefer SaaS address ranges over generic ports', () => {
+    const result = classifier.classify(flow({ destinationIp: '52.113.1.1' }));
+    expect(result.signature.id).toBe('microsoft-teams');
+    expect(result.clientIp).toBe('10.0.0.5');
+  });
+
+  it('should fall back to port and protocol signatures', () => {
+    expect(classifier.classify(flow({})).signature.id).toBe('https');
+    expect(classifier.classify(flow({ destinationPort: 123, protocol: 'UDP' })).signature.id).toBe('ntp');
+    expect(classifier.classify(flow({ destinationPort: 22, protocol: 'udp' })).signature).toBe(UNCLASSIFIED_APPLICATION);
+  });
+
+  it('should match flows reported in the reverse direction', () => {
+    const result = classifier.classify(flow({
+      sourceIp: '198.51.100.7',
+      sourcePort: 53,
+      destinationIp: '10.0.0.9',
+      destinationPort: 40000,
+      protocol: 'udp'
+    }));
+    expect(result.signature.id).toBe('dns');
+    expect(result.clientIp).toBe('10.0.0.9');
+  });
+
+  it('should use a custom catalog', () => {
+    const custom = new TrafficClassifier([
+      { id: 'backup', name: 'Backup', type: 'Storage', cidrs: ['192.0.2.0/24'], ports: [9000] }
+    ]);
+    expect(custom.classify(flow({ destinationIp: '192.0.2.10', destinationPort: 9000 })).signature.id).toBe('backup');
+    expect(custom.classify(flow({ destinationIp: '192.0.2.10' })).signature.id).toBe('other');
+  });
+
+  describe('application usage', () => {
+    it('should rate status against per-application thresholds', () => {
+      expect(applicationStatus(10)).toBe('normal');
+      expect(applicationStatus(60)).toBe('high');
+      expect(applicationStatus(150, { high: 100, critical: 200 })).toBe('high');
+      expect(applicationStatus(250, { high: 100, critical: 200 })).toBe('critical');
+    });
+
+    it('should derive trend from the mean of recent samples', () => {
+      expect(applicationTrend(10, [])).toBe('stable');
+      expect(applicationTrend(12, [10, 10])).toBe('up');
+      expect(applicationTrend(8, [10, 10])).toBe('down');
+      expect(applicationTrend(10.5, [10, 10])).toBe('stable');
+    });
+
+    it('should sum bytes and top users per application', () => {
+      const usage = attributeApplicationUsage(classifier, [
+        { flow: flow({ sourceIp: '10.0.0.1' }), bytes: 1000 },
+        { flow: flow({ sourceIp: '10.0.0.2' }), bytes: 3000 },
+        { flow: flow({ destinationPort: 53, protocol: 'udp' }), bytes: 500 }
+      ], 1, new Map());
+
+      expect(usage[0].id).toBe('https');
+      expect(usage[0].bytes).toBe(4000);
+      expect(usage[0].topUsers.map(user => user.ip)).toEqual(['10.0.0.2', '10.0.0.1']);
+      expect(usage[1].id).toBe('dns');
+    });
+  });
+});
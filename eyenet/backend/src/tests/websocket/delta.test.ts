@@ -0,0 +1,28 @@
+import { describe, it, expect } from '@jest/globals';
+import { applyMergePatch, createMergePatch } from '../../websocket/delta';
+
+describe('createMergePatch', () => {
+  it('should return undefined for equal values', () => {
+    expect(createMergePatch({ a: 1, b: { c: [1, 2] } }, { a: 1, b: { c: [1, 2] } })).toBeUndefined();
+    expect(createMergePatch(3, 3)).toBeUndefined();
+  });
+
+  it('should only include changed fields', () => {
+    expect(createMergePatch({ a: 1, b: { c: 2, d: 3 } }, { a: 1, b: { c: 2, d: 4 } })).toEqual({ b: { d: 4 } });
+  });
+
+  it('should mark removed fields with null', () => {
+    expect(createMergePatch({ a: 1, b: 2 }, { a: 1 })).toEqual({ b: null });
+  });
+
+  it('should replace arrays and non-object values whole', () => {
+    expect(createMergePatch({ list: [1, 2] }, { list: [1, 3] })).toEqual({ list: [1, 3] });
+    expect(createMergePatch([1], [2])).toEqual([2]);
+  });
+
+  it('should round-trip through applyMergePatch', () => {
+    const previous = { status: 'online', bandwidth: { download: 1, upload: 2 }, devices: ['a'], gone: true };
+    const next = { status: 'degraded', bandwidth: { download: 1, upload: 5 }, devices: ['a', 'b'], added: { x: 1 } };
+    expect(applyMergePatch(previous, createMergePatch(previous, next))).toEqual(next);
+  });
+});
@@ -0,0 +1,266 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import NetworkMonitor from '../../websocket/networkMonitor';
+import { MonitoringService, MonitoringSnapshot } from '../../services/monitoringService';
+import { signToken } from '../../utils/jwt';
+
+describe('NetworkMonitor', () => {
+  let monitor: NetworkMonitor;
+  let server: http.Server;
+  let sockets: WebSocket[];
+  let port: number;
+  let collectSnapshot: jest.Mock<() => Promise<MonitoringSnapshot>>;
+
+  const snapshot = {
+    data: {
+      networkStatus: { latency: 12, packetLoss: 0, status: 'online' },
+      bandwidth: { download: 10, upload: 5, timestamp: '2024-01-01T00:00:00.000Z' },
+      departments: [],
+      applications: []
+    },
+    stats: {},
+    devices: [
+      { id: 'sw1', name: 'sw1', type: 'switch', ipAddress: '10.0.0.1', status: 'online' },
+      { id: 'openflow:1', name: 'openflow:1', type: 'switch', ipAddress: '10.0.0.2', status: 'online' },
+      { id: '10.0.0.1:if2', name: 'ge-0/0/2', type: 'switch', ipAddress: '10.0.0.1', status: 'online' }
+    ],
+    flows: [],
+    departments: [{ id: 'eng', name: 'Engineering', usage: 100, bandwidth: 3, bytes: 10, topTalkers: [] }],
+    applications: [],
+    failures: []
+  } as unknown as MonitoringSnapshot;
+
+  const token = signToken({ userId: 'user-1', email: 'ops@example.com', role: 'user' });
+
+  const connect = (query = ''): Promise<{ ws: WebSocket; messages: any[]; closed: Promise<number> }> => {
+    const ws = new WebSocket(`ws://127.0.0.1:${port}/ws${query}`);
+    sockets.push(ws);
+    const messages: any[] = [];
+    ws.on('message', (data) => messages.push(JSON.parse(data.toString())));
+    const closed = new Promise<number>(resolve => ws.on('close', (code) => resolve(code)));
+    return new Promise(resolve => ws.on('open', () => resolve({ ws, messages, closed })));
+  };
+
+  const waitFor = async (predicate: () => boolean, timeout = 2000) => {
+    const start = Date.now();
+    while (!predicate()) {
+      if (Date.now() - start > timeout) {
+        throw new Error('Timed out waiting for condition');
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  };
+
+  const withLatency = (latency: number) => ({
+    ...snapshot,
+    data: { ...snapshot.data, networkStatus: { ...snapshot.data.networkStatus, latency } }
+  }) as MonitoringSnapshot;
+
+  const start = async (options = {}) => {
+    monitor = new NetworkMonitor(server, { collectSnapshot } as unknown as MonitoringService, {
+      interval: 20,
+      authTimeout: 100,
+      ...options
+    });
+  };
+
+  beforeEach(async () => {
+    sockets = [];
+    collectSnapshot = jest.fn<() => Promise<MonitoringSnapshot>>().mockResolvedValue(snapshot);
+    server = http.createServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+    await start();
+  });
+
+  afterEach(async () => {
+    sockets.forEach(ws => ws.terminate());
+    monitor.stop();
+    await new Promise(resolve => server.close(resolve));
+    // Let the server side close handlers run before the test ends
+    await new Promise(resolve => setTimeout(resolve, 10));
+  });
+
+  it('should close sockets that do not authenticate in time', async () => {
+    const { closed } = await connect();
+    expect(await closed).toBe(4408);
+  });
+
+  it('should close sockets presenting an invalid token', async () => {
+    const { ws, closed } = await connect();
+    ws.send(JSON.stringify({ type: 'auth', token: 'not-a-jwt' }));
+    expect(await closed).toBe(4401);
+  });
+
+  it('should close sockets subscribing before authenticating', async () => {
+    const { ws, closed } = await connect();
+    ws.send(JSON.stringify({ type: 'subscribe', channels: ['status'] }));
+    expect(await closed).toBe(4401);
+  });
+
+  it('should only deliver subscribed channels', async () => {
+    const { ws, messages } = await connect();
+    ws.send(JSON.stringify({ type: 'auth', token }));
+    ws.send(JSON.stringify({ type: 'subscribe', channels: ['status', 'department:eng'] }));
+
+    await waitFor(() => messages.filter(m => m.type === 'data').length >= 2);
+    await new Promise(resolve => setTimeout(resolve, 60));
+
+    expect(messages[0]).toEqual({ type: 'auth', ok: true });
+    expect(messages[1]).toMatchObject({ type: 'subscribed', channels: ['status', 'department:eng'] });
+    const channels = new Set(messages.filter(m => m.type === 'data').map(m => m.channel));
+    expect(channels).toEqual(new Set(['status', 'department:eng']));
+    expect(messages.find(m => m.channel === 'department:eng').payload.bandwidth).toBe(3);
+  });
+
+  it('should deliver device channels whose IDs contain colons', async () => {
+    const { ws, messages } = await connect(`?token=${token}`);
+    ws.send(JSON.stringify({ type: 'subscribe', channels: ['device:openflow:1', 'device:10.0.0.1:if2'] }));
+
+    await waitFor(() => messages.filter(m => m.type === 'data').length >= 2);
+
+    expect(messages.some(m => m.type === 'error')).toBe(false);
+    expect(messages.find(m => m.channel === 'device:openflow:1').payload.ipAddress).toBe('10.0.0.2');
+    expect(messages.find(m => m.channel === 'device:10.0.0.1:if2').payload.name).toBe('ge-0/0/2');
+  });
+
+  it('should accept the token as a query parameter and support unsubscribe', async () => {
+    const { ws, messages } = await connect(`?token=${token}`);
+    await waitFor(() => messages.length >= 1);
+
+    ws.send(JSON.stringify({ type: 'subscribe', channels: ['bandwidth', 'alerts'] }));
+    ws.send(JSON.stringify({ type: 'unsubscribe', channels: ['bandwidth'] }));
+    await waitFor(() => messages.filter(m => m.type === 'subscribed').length >= 2);
+    messages.length = 0;
+
+    monitor.publish('alerts', { id: 'alert-1' });
+    await waitFor(() => messages.some(m => m.channel === 'alerts'));
+    await new Promise(resolve => setTimeout(resolve, 60));
+    expect(messages.some(m => m.channel === 'bandwidth')).toBe(false);
+  });
+
+  it('should reject unknown channels', async () => {
+    const { ws, messages } = await connect(`?token=${token}`);
+    ws.send(JSON.stringify({ type: 'subscribe', channels: ['everything'] }));
+    await waitFor(() => messages.some(m => m.type === 'error'));
+    expect(messages.find(m => m.type === 'error').error).toBe('Unknown channels: everything');
+  });
+
+  it('should not accept upgrades outside the socket path', async () => {
+    const ws = new WebSocket(`ws://127.0.0.1:${port}/other`);
+    sockets.push(ws);
+    await expect(new Promise((resolve, reject) => {
+      ws.on('open', resolve);
+      ws.on('error', reject);
+    })).rejects.toThrow();
+  });
+
+  it('should evict clients that stop answering heartbeats', async () => {
+    monitor.stop();
+    await start({ heartbeatInterval: 30 });
+
+    const { ws, closed } = await connect(`?token=${token}`);
+    // Stop the client from answering pings
+    (ws as any)._receiver.removeAllListeners('ping');
+    (ws as any).pong = () => undefined;
+
+    await closed;
+    expect((monitor as any).clients.size).toBe(0);
+  });
+
+  it('should keep clients that answer heartbeats', async () => {
+    monitor.stop();
+    await start({ heartbeatInterval: 30 });
+
+    const { ws } = await connect(`?token=${token}`);
+    await new Promise(resolve => setTimeout(resolve, 150));
+    expect(ws.readyState).toBe(WebSocket.OPEN);
+  });
+
+  it('should send sequenced deltas with periodic full snapshots', async () => {
+    monitor.stop();
+    let latency = 0;
+    collectSnapshot.mockImplementation(async () => withLatency(++latency));
+    await start({ fullSnapshotInterval: 3 });
+
+    const { ws, messages } = await connect(`?token=${token}`);
+    ws.send(JSON.stringify({ type: 'subscribe', channels: ['status'], delta: true }));
+    await waitFor(() => messages.filter(m => m.channel === 'status').length >= 5);
+
+    const updates = messages.filter(m => m.channel === 'status').slice(0, 5);
+    const seqs = updates.map(m => m.seq);
+    seqs.forEach((seq, i) => i > 0 && expect(seq).toBe(seqs[i - 1] + 1));
+
+    const first = updates[0];
+    expect(first.type).toBe('data');
+    const deltas = updates.filter(m => m.type === 'delta');
+    expect(deltas.length).toBeGreaterThan(0);
+    expect(Object.keys(deltas[0].patch)).toEqual(['latency']);
+    // Every third update is a full snapshot
+    expect(updates.filter(m => m.type === 'data').length).toBeGreaterThanOrEqual(2);
+  });
+
+  it('should skip unchanged payloads', async () => {
+    const { ws, messages } = await connect(`?token=${token}`);
+    ws.send(JSON.stringify({ type: 'subscribe', channels: ['status'], delta: true }));
+    await waitFor(() => messages.some(m => m.channel === 'status'));
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(messages.filter(m => m.channel === 'status')).toHaveLength(1);
+  });
+
+  it('should replay missed messages when resuming', async () => {
+    monitor.stop();
+    let latency = 0;
+    collectSnapshot.mockImplementation(async () => withLatency(++latency));
+    await start({ fullSnapshotInterval: 100 });
+
+    // Keeps the status channel updating while the resuming client is away
+    const keeper = await connect(`?token=${token}`);
+    keeper.ws.send(JSON.stringify({ type: 'subscribe', channels: ['status'] }));
+
+    const first = await connect(`?token=${token}`);
+    first.ws.send(JSON.stringify({ type: 'subscribe', channels: ['status', 'alerts'], delta: true }));
+    await waitFor(() => first.messages.some(m => m.channel === 'status'));
+    const subscribed = first.messages.find(m => m.type === 'subscribed');
+    const lastSeen = first.messages.filter(m => m.channel === 'status').pop();
+    first.ws.terminate();
+
+    monitor.publish('alerts', { id: 'alert-1' });
+    await new Promise(resolve => setTimeout(resolve, 80));
+
+    const second = await connect(`?token=${token}`);
+    second.ws.send(JSON.stringify({
+      type: 'subscribe',
+      channels: ['status', 'alerts'],
+      delta: true,
+      resume: { epoch: subscribed.epoch, seq: { status: lastSeen.seq, alerts: 0 } }
+    }));
+    await waitFor(() => second.messages.some(m => m.channel === 'alerts'));
+
+    const replayed = second.messages.filter(m => m.channel === 'status');
+    expect(replayed[0].seq).toBe(lastSeen.seq + 1);
+    expect(replayed[0].type).toBe('delta');
+    expect(second.messages.find(m => m.channel === 'alerts').payload).toEqual({ id: 'alert-1' });
+  });
+
+  it('should send a full snapshot when resuming from another epoch', async () => {
+    const warmup = await connect(`?token=${token}`);
+    warmup.ws.send(JSON.stringify({ type: 'subscribe', channels: ['status'] }));
+    await waitFor(() => warmup.messages.some(m => m.channel === 'status'));
+
+    const { ws, messages } = await connect(`?token=${token}`);
+    ws.send(JSON.stringify({
+      type: 'subscribe',
+      channels: ['status'],
+      delta: true,
+      resume: { epoch: 'stale', seq: { status: 1 } }
+    }));
+    await waitFor(() => messages.some(m => m.channel === 'status'));
+    expect(messages.find(m => m.channel === 'status')).toMatchObject({
+      type: 'data',
+      payload: { latency: 12, packetLoss: 0, status: 'online' }
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from '@jest/globals';
+import { isValidChannel, parseClientMessage } from '../../websocket/protocol';
+
+describe('isValidChannel', () => {
+  it('should accept static and parameterized channels', () => {
+    expect(isValidChannel('status')).toBe(true);
+    expect(isValidChannel('alerts')).toBe(true);
+    expect(isValidChannel('department:eng')).toBe(true);
+  });
+
+  it('should accept IDs that contain colons', () => {
+    expect(isValidChannel('device:openflow:1')).toBe(true);
+    expect(isValidChannel('device:10.0.0.1:if2')).toBe(true);
+    expect(isValidChannel('device:fe80::1')).toBe(true);
+  });
+
+  it('should reject unknown kinds and empty IDs', () => {
+    expect(isValidChannel('everything')).toBe(false);
+    expect(isValidChannel('port:1')).toBe(false);
+    expect(isValidChannel('device:')).toBe(false);
+    expect(isValidChannel('device:sw 1')).toBe(false);
+  });
+});
+
+describe('parseClientMessage', () => {
+  it('should parse subscriptions with options', () => {
+    expect(parseClientMessage(JSON.stringify({
+      type: 'subscribe',
+      channels: ['device:openflow:1'],
+      delta: true,
+      resume: { epoch: 'e1', seq: { 'device:openflow:1': 4 } }
+    }))).toEqual({
+      type: 'subscribe',
+      channels: ['device:openflow:1'],
+      delta: true,
+      resume: { epoch: 'e1', seq: { 'device:openflow:1': 4 } }
+    });
+  });
+
+  it('should reject malformed messages', () => {
+    expect(parseClientMessage('not json')).toBeNull();
+    expect(parseClientMessage(JSON.stringify({ type: 'subscribe', channels: [1] }))).toBeNull();
+    expect(parseClientMessage(JSON.stringify({ type: 'subscribe', channels: [], delta: 'yes' }))).toBeNull();
+    expect(parseClientMessage(JSON.stringify({ type: 'auth' }))).toBeNull();
+  });
+});
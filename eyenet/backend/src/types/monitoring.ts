@@ -1,3 +1,5 @@
+import { ControllerFailure, NetworkFlow } from '../interfaces/networkController';
+
 export type NetworkState = 'online' | 'offline' | 'degraded';
 
 export interface NetworkMetrics {
@@ -13,11 +15,22 @@ export interface BandwidthData {
 }
 
 export interface DepartmentUsage {
+  id: string;
   name: string;
+  // Share of all traffic in the last interval, in percent
   usage: number;
+  // Throughput in Mbps
+  bandwidth: number;
+}
+
+export interface TopTalker {
+  ip: string;
+  bytes: number;
+  bandwidth: number;
 }
 
 export interface ApplicationUsage {
+  id: string;
   name: string;
   type: string;
   bandwidth: number;
@@ -30,4 +43,33 @@ export interface MonitoringData {
   bandwidth: BandwidthData;
   departments: DepartmentUsage[];
   applications: ApplicationUsage[];
+  // Set when some controllers failed in aggregate mode; the data then only
+  // covers the controllers that answered
+  failures?: ControllerFailure[];
+}
+
+export type RollupField = 'latency' | 'packetLoss' | 'download' | 'upload' | 'activeConnections';
+
+export interface RollupStats {
+  min: number;
+  avg: number;
+  max: number;
+  p95: number;
+}
+
+export type MetricsBucket = {
+  timestamp: Date;
+  count: number;
+} & { [K in RollupField]: RollupStats };
+
+export interface RetentionTier {
+  name: string;
+  resolutionMs: number;
+  retentionMs: number;
+}
+
+// Bytes a flow transferred since the previous snapshot
+export interface FlowDelta {
+  flow: NetworkFlow;
+  bytes: number;
 }
@@ -0,0 +1,42 @@
+import { AddressFamily } from '../interfaces/networkController';
+import { parseIpAddress, unmapIpv4 } from './ip';
+
+export interface CidrRange {
+  family: AddressFamily;
+  network: bigint;
+  mask: bigint;
+}
+
+// Parses "10.1.0.0/16" or "2001:db8::/32" style ranges; a bare address is
+// treated as a single host
+export function parseCidr(cidr: string): CidrRange | null {
+  const [text, prefixText] = cidr.trim().split('/');
+  const address = parseIpAddress(text);
+  if (!address) {
+    return null;
+  }
+
+  const bits = address.family === 'ipv4' ? 32 : 128;
+  const prefix = prefixText === undefined ? bits : Number(prefixText);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > bits) {
+    return null;
+  }
+
+  const all = (BigInt(1) << BigInt(bits)) - BigInt(1);
+  const mask = all ^ ((BigInt(1) << BigInt(bits - prefix)) - BigInt(1));
+  return { family: address.family, network: address.value & mask, mask };
+}
+
+export function isValidCidr(cidr: string): boolean {
+  return parseCidr(cidr) !== null;
+}
+
+// IPv4-mapped IPv6 addresses match IPv4 ranges
+export function ipInRange(ip: string, range: CidrRange): boolean {
+  const parsed = parseIpAddress(ip);
+  if (!parsed) {
+    return false;
+  }
+  const address = range.family === 'ipv4' ? unmapIpv4(parsed) : parsed;
+  return address.family === range.family && (address.value & range.mask) === range.network;
+}
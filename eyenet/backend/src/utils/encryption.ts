@@ -0,0 +1,52 @@
+import crypto from 'crypto';
+
+// Encrypted values look like "enc:v1:<iv>:<auth tag>:<ciphertext>", all
+// base64, so they can be told apart from plaintext
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+// The key is 32 bytes, given as 64 hex characters or in base64
+export function loadCredentialKey(env: NodeJS.ProcessEnv = process.env): Buffer {
+  const value = env.CONTROLLER_CREDENTIALS_KEY;
+  if (!value) {
+    throw new Error('CONTROLLER_CREDENTIALS_KEY is not set');
+  }
+
+  const key = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+  if (key.length !== 32) {
+    throw new Error('Invalid CONTROLLER_CREDENTIALS_KEY: expected 32 bytes');
+  }
+  return key;
+}
+
+// For callers holding the optional key loaded at startup
+export function requireCredentialKey(key: Buffer | null): Buffer {
+  if (!key) {
+    throw new Error('CONTROLLER_CREDENTIALS_KEY is not set');
+  }
+  return key;
+}
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+export function encryptSecret(plaintext: string, key: Buffer): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return PREFIX + [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':');
+}
+
+// Throws when the value was encrypted with another key or tampered with
+export function decryptSecret(value: string, key: Buffer): string {
+  if (!isEncrypted(value)) {
+    throw new Error('Value is not encrypted');
+  }
+
+  const [iv, authTag, ciphertext] = value.slice(PREFIX.length).split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
@@ -0,0 +1,180 @@
+import { AddressFamily } from '../interfaces/networkController';
+
+export interface IpAddress {
+  family: AddressFamily;
+  value: bigint;
+}
+
+const IPV4_MASK = BigInt(0xffffffff);
+
+export function parseIpv4(ip: string): number | null {
+  const parts = ip.trim().split('.');
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) {
+      return null;
+    }
+    const octet = parseInt(part, 10);
+    if (octet > 255) {
+      return null;
+    }
+    value = value * 256 + octet;
+  }
+
+  return value;
+}
+
+// Accepts the RFC 4291 text forms: "::" compression, a trailing dotted quad
+// and a "%zone" suffix, which is ignored
+export function parseIpv6(ip: string): bigint | null {
+  let text = ip.trim().split('%')[0].toLowerCase();
+
+  // A trailing IPv4 address stands for the last two groups
+  const lastColon = text.lastIndexOf(':');
+  if (text.includes('.') && lastColon !== -1) {
+    const ipv4 = parseIpv4(text.slice(lastColon + 1));
+    if (ipv4 === null) {
+      return null;
+    }
+    text = `${text.slice(0, lastColon + 1)}${(ipv4 >>> 16).toString(16)}:${(ipv4 & 0xffff).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const groups = halves.length === 2
+    ? [...head, ...Array(8 - head.length - tail.length).fill('0'), ...tail]
+    : head;
+
+  if (groups.length !== 8 || (halves.length === 2 && head.length + tail.length > 7)) {
+    return null;
+  }
+
+  let value = BigInt(0);
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/.test(group)) {
+      return null;
+    }
+    value = (value << BigInt(16)) | BigInt(parseInt(group, 16));
+  }
+  return value;
+}
+
+export function parseIpAddress(ip: string): IpAddress | null {
+  const ipv4 = parseIpv4(ip);
+  if (ipv4 !== null) {
+    return { family: 'ipv4', value: BigInt(ipv4) };
+  }
+  const ipv6 = parseIpv6(ip);
+  return ipv6 === null ? null : { family: 'ipv6', value: ipv6 };
+}
+
+// The IPv4 address behind an IPv4-mapped IPv6 address (::ffff:a.b.c.d),
+// so a host matches whichever form it is reported in
+export function unmapIpv4(address: IpAddress): IpAddress {
+  if (address.family === 'ipv6' && address.value >> BigInt(32) === BigInt(0xffff)) {
+    return { family: 'ipv4', value: address.value & IPV4_MASK };
+  }
+  return address;
+}
+
+// Addresses that do not parse are taken to be IPv4 when they have no colon,
+// e.g. host names
+export function addressFamily(ip: string): AddressFamily {
+  const address = parseIpAddress(ip);
+  if (address) {
+    return address.family;
+  }
+  return ip.includes(':') ? 'ipv6' : 'ipv4';
+}
+
+// Dotted quad for 4 bytes; RFC 5952 text for 16 bytes
+export function formatIpAddress(bytes: Buffer): string {
+  if (bytes.length === 4) {
+    return Array.from(bytes).join('.');
+  }
+  if (bytes.length !== 16) {
+    throw new Error(`Invalid IP address length ${bytes.length}`);
+  }
+
+  const groups: number[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push(bytes.readUInt16BE(i));
+  }
+
+  // The longest run of two or more zero groups collapses to "::"
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let i = 0; i < groups.length; i++) {
+    let length = 0;
+    while (groups[i + length] === 0) {
+      length++;
+    }
+    if (length > bestLength) {
+      bestStart = i;
+      bestLength = length;
+    }
+    i += length;
+  }
+
+  const hex = groups.map(group => group.toString(16));
+  if (bestStart === -1) {
+    return hex.join(':');
+  }
+  return `${hex.slice(0, bestStart).join(':')}::${hex.slice(bestStart + bestLength).join(':')}`;
+}
+
+function toBytes(address: IpAddress): Buffer {
+  const bytes = Buffer.alloc(address.family === 'ipv4' ? 4 : 16);
+  let value = address.value;
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    bytes[i] = Number(value & BigInt(0xff));
+    value >>= BigInt(8);
+  }
+  return bytes;
+}
+
+// One text form per address, so "2001:DB8:0::1" and "2001:db8::1" compare
+// equal. Anything that is not an address is returned trimmed.
+export function normalizeIpAddress(ip: string): string {
+  const address = parseIpAddress(ip);
+  if (!address) {
+    return ip.trim();
+  }
+  const ipv4 = unmapIpv4(address);
+  if (address.family === 'ipv6' && ipv4.family === 'ipv4') {
+    return `::ffff:${formatIpAddress(toBytes(ipv4))}`;
+  }
+  return formatIpAddress(toBytes(address));
+}
+
+// Splits "10.0.0.1:443", "[2001:db8::1]:443" and bare addresses. An
+// unbracketed value with more than one colon is an IPv6 address without a
+// port.
+export function splitAddressPort(value: string): { address: string; port?: number } {
+  const text = value.trim();
+
+  const bracketed = text.match(/^\[([^\]]+)\](?::(\d+))?$/);
+  if (bracketed) {
+    return { address: bracketed[1], port: bracketed[2] !== undefined ? parseInt(bracketed[2], 10) : undefined };
+  }
+
+  const colon = text.lastIndexOf(':');
+  if (colon === -1 || text.indexOf(':') !== colon) {
+    return { address: text };
+  }
+  const port = text.slice(colon + 1);
+  return { address: text.slice(0, colon), port: /^\d+$/.test(port) ? parseInt(port, 10) : undefined };
+}
+
+// Host for URLs and host:port strings; IPv6 addresses need brackets
+export function formatHost(host: string): string {
+  return host.includes(':') && !host.startsWith('[') ? `[${host}]` : host;
+}
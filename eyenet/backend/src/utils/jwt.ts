@@ -0,0 +1,24 @@
+import jwt from 'jsonwebtoken';
+
+export interface TokenPayload {
+  userId: string;
+  email: string;
+  role: 'admin' | 'user';
+}
+
+export function getJwtSecret(): string {
+  return process.env.JWT_SECRET || 'your-secret-key';
+}
+
+export function signToken(payload: TokenPayload): string {
+  return jwt.sign(payload, getJwtSecret(), { expiresIn: '24h' });
+}
+
+// Throws when the token is malformed, expired or signed with another secret
+export function verifyToken(token: string): TokenPayload {
+  const decoded = jwt.verify(token, getJwtSecret());
+  if (typeof decoded === 'string' || !decoded.userId) {
+    throw new Error('Invalid token payload');
+  }
+  return decoded as TokenPayload;
+}
@@ -0,0 +1,6 @@
+// Lower case colon separated form, so "AA-BB-CC-DD-EE-FF" and
+// "aabb.ccdd.eeff" identify the same device
+export function normalizeMacAddress(mac: string): string {
+  const hex = mac.replace(/[^0-9a-f]/gi, '').toLowerCase();
+  return hex.length === 12 ? hex.match(/../g)!.join(':') : mac.trim().toLowerCase();
+}
@@ -0,0 +1,54 @@
+import { decryptSecret, encryptSecret, isEncrypted, requireCredentialKey } from './encryption';
+
+// Stands in for secrets in API responses
+export const MASKED_SECRET = '********';
+
+// Masks the secret fields of a config that are set, for toJSON transforms
+export function maskSecrets(config: Record<string, any> | undefined, fields: readonly string[]): void {
+  for (const field of fields) {
+    if (config?.[field]) {
+      config[field] = MASKED_SECRET;
+    }
+  }
+}
+
+// A secret sent back masked keeps its stored value
+export function keepMaskedSecrets(
+  config: Record<string, any>,
+  stored: Record<string, any> | undefined,
+  fields: readonly string[]
+): Record<string, any> {
+  const merged = { ...config };
+  for (const field of fields) {
+    if (merged[field] === MASKED_SECRET) {
+      merged[field] = stored?.[field];
+    }
+  }
+  return merged;
+}
+
+// Encrypts the plaintext secret fields of a config; values that are already
+// encrypted are kept
+export function encryptSecrets<T extends object>(config: T, fields: readonly (keyof T)[], key: Buffer | null): T {
+  const encrypted = { ...config };
+  for (const field of fields) {
+    const value = encrypted[field];
+    if (typeof value === 'string' && value && !isEncrypted(value)) {
+      encrypted[field] = encryptSecret(value, requireCredentialKey(key)) as T[keyof T];
+    }
+  }
+  return encrypted;
+}
+
+// Decrypts the secret fields of a config. Plaintext values, stored before
+// the secrets were encrypted, are used as they are.
+export function decryptSecrets<T extends object>(config: T, fields: readonly (keyof T)[], key: Buffer | null): T {
+  const decrypted = { ...config };
+  for (const field of fields) {
+    const value = decrypted[field];
+    if (typeof value === 'string' && isEncrypted(value)) {
+      decrypted[field] = decryptSecret(value, requireCredentialKey(key)) as T[keyof T];
+    }
+  }
+  return decrypted;
+}
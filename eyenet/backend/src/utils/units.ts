@@ -0,0 +1,7 @@
+// Converts a byte count transferred over the given number of seconds to Mbps
+export function toMbps(bytes: number, seconds: number): number {
+  if (seconds <= 0 || bytes <= 0) {
+    return 0;
+  }
+  return (bytes * 8) / seconds / 1000000;
+}
@@ -1,3 +1,9 @@
+import mongoose from 'mongoose';
+import { isValidCidr, parseCidr } from './cidr';
+import { ALERT_METRICS } from '../models/alertRule';
+import { parseDuration } from '../services/metricsHistory';
+import { PFSENSE_AUTH_MODES, SNMP_AUTH_PROTOCOLS, SNMP_PRIV_PROTOCOLS } from '../interfaces/controllerConfig';
+
 interface RegistrationData {
   firstName: string;
   lastName: string;
@@ -43,3 +49,437 @@ export function validateRegistration(data: RegistrationData): string | null {
 
   return null;
 }
+
+interface DepartmentData {
+  name?: unknown;
+  description?: unknown;
+  cidrs?: unknown;
+  vlanIds?: unknown;
+  deviceIds?: unknown;
+}
+
+export function validateDepartment(data: DepartmentData, partial = false): string | null {
+  const { name, description, cidrs, vlanIds, deviceIds } = data;
+
+  if (!partial || name !== undefined) {
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      return 'Department name is required';
+    }
+  }
+
+  if (description !== undefined && typeof description !== 'string') {
+    return 'Description must be a string';
+  }
+
+  if (cidrs !== undefined) {
+    if (!Array.isArray(cidrs) || !cidrs.every(cidr => typeof cidr === 'string' && isValidCidr(cidr))) {
+      return 'cidrs must be a list of CIDR ranges such as 10.0.0.0/16';
+    }
+  }
+
+  if (vlanIds !== undefined) {
+    if (!Array.isArray(vlanIds) || !vlanIds.every(id => Number.isInteger(id) && id >= 1 && id <= 4094)) {
+      return 'vlanIds must be a list of VLAN IDs between 1 and 4094';
+    }
+  }
+
+  if (deviceIds !== undefined) {
+    if (!Array.isArray(deviceIds) || !deviceIds.every(id => typeof id === 'string' && id.length > 0)) {
+      return 'deviceIds must be a list of device IDs';
+    }
+  }
+
+  return null;
+}
+
+interface AlertRuleData {
+  name?: unknown;
+  description?: unknown;
+  enabled?: unknown;
+  severity?: unknown;
+  condition?: any;
+  notificationChannels?: unknown;
+}
+
+const ALERT_OPERATORS = ['>', '>=', '<', '<=', '=', '!='];
+const ALERT_SEVERITIES = ['low', 'medium', 'high'];
+
+function isDuration(value: unknown): boolean {
+  return typeof value === 'string' && parseDuration(value) !== null;
+}
+
+function validateAlertCondition(condition: any): string | null {
+  if (!condition || typeof condition !== 'object') {
+    return 'Condition is required';
+  }
+
+  const { type, metric, operator, value, duration, window, deviceId, status } = condition;
+
+  if (!['threshold', 'rateOfChange', 'absence', 'deviceStatus'].includes(type)) {
+    return 'Condition type must be threshold, rateOfChange, absence or deviceStatus';
+  }
+
+  if (type === 'threshold' || type === 'rateOfChange') {
+    if (!ALERT_METRICS.includes(metric)) {
+      return `Condition metric must be one of ${ALERT_METRICS.join(', ')}`;
+    }
+    if (!ALERT_OPERATORS.includes(operator)) {
+      return `Condition operator must be one of ${ALERT_OPERATORS.join(' ')}`;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return 'Condition value must be a number';
+    }
+  }
+
+  if (type === 'rateOfChange' && !isDuration(window)) {
+    return 'Rate of change conditions need a window such as 5m';
+  }
+
+  if (type === 'absence' && !isDuration(duration)) {
+    return 'Absence conditions need a duration such as 5m';
+  }
+
+  if (duration !== undefined && !isDuration(duration)) {
+    return 'Condition duration must look like 30s, 5m, 1h or 1d';
+  }
+
+  if (deviceId !== undefined && (typeof deviceId !== 'string' || deviceId.length === 0)) {
+    return 'Condition deviceId must be a device ID';
+  }
+
+  if (status !== undefined && !['online', 'offline'].includes(status)) {
+    return 'Condition status must be online or offline';
+  }
+
+  return null;
+}
+
+export function validateAlertRule(data: AlertRuleData, partial = false): string | null {
+  const { name, description, enabled, severity, condition, notificationChannels } = data;
+
+  if (!partial || name !== undefined) {
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      return 'Alert rule name is required';
+    }
+  }
+
+  if (description !== undefined && typeof description !== 'string') {
+    return 'Description must be a string';
+  }
+
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+
+  if (severity !== undefined && !ALERT_SEVERITIES.includes(severity as string)) {
+    return 'Severity must be low, medium or high';
+  }
+
+  if (notificationChannels !== undefined) {
+    if (!Array.isArray(notificationChannels) || !notificationChannels.every(id => mongoose.isValidObjectId(id))) {
+      return 'notificationChannels must be a list of notification channel IDs';
+    }
+  }
+
+  if (!partial || condition !== undefined) {
+    return validateAlertCondition(condition);
+  }
+
+  return null;
+}
+
+interface NotificationChannelData {
+  name?: unknown;
+  type?: unknown;
+  enabled?: unknown;
+  config?: any;
+}
+
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch (error) {
+    return false;
+  }
+}
+
+export function validateNotificationChannel(data: NotificationChannelData, partial = false): string | null {
+  const { name, type, enabled, config } = data;
+
+  if (!partial || name !== undefined) {
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      return 'Notification channel name is required';
+    }
+  }
+
+  if (!partial || type !== undefined) {
+    if (!['email', 'webhook', 'slack', 'teams'].includes(type as string)) {
+      return 'Channel type must be email, webhook, slack or teams';
+    }
+  }
+
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+
+  if (!partial || config !== undefined) {
+    if (!config || typeof config !== 'object') {
+      return 'Channel config is required';
+    }
+    if (type === 'email') {
+      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+      const { recipients } = config;
+      if (!Array.isArray(recipients) || recipients.length === 0
+        || !recipients.every(recipient => typeof recipient === 'string' && emailRegex.test(recipient))) {
+        return 'Email channels need a list of recipient addresses';
+      }
+    } else if (type !== undefined && !isHttpUrl(config.url)) {
+      return 'Webhook channels need an http(s) URL';
+    }
+    if (config.secret !== undefined && (typeof config.secret !== 'string' || config.secret.length === 0)) {
+      return 'Webhook secret must be a non-empty string';
+    }
+  }
+
+  return null;
+}
+
+interface ControllerData {
+  name?: unknown;
+  type?: unknown;
+  enabled?: unknown;
+  priority?: unknown;
+  weight?: unknown;
+  config?: any;
+}
+
+function validateSnmpSettings(config: any): string | null {
+  if (config.version !== undefined && config.version !== '2c' && config.version !== '3') {
+    return 'SNMP version must be 2c or 3';
+  }
+  if (config.authProtocol !== undefined && !SNMP_AUTH_PROTOCOLS.includes(config.authProtocol)) {
+    return `authProtocol must be one of ${SNMP_AUTH_PROTOCOLS.join(', ')}`;
+  }
+  if (config.privProtocol !== undefined && !SNMP_PRIV_PROTOCOLS.includes(config.privProtocol)) {
+    return `privProtocol must be one of ${SNMP_PRIV_PROTOCOLS.join(', ')}`;
+  }
+  if (config.version === '3') {
+    if (!config.username) {
+      return 'SNMPv3 controllers need a username';
+    }
+    if (config.authProtocol && !config.authKey) {
+      return 'authProtocol needs an authKey';
+    }
+    if (config.privProtocol && (!config.authProtocol || !config.privKey)) {
+      return 'privProtocol needs an authProtocol and a privKey';
+    }
+  }
+  return null;
+}
+
+function validatePfSenseSettings(config: any): string | null {
+  const authMode = config.authMode ?? 'apikey';
+  if (!PFSENSE_AUTH_MODES.includes(authMode)) {
+    return `authMode must be one of ${PFSENSE_AUTH_MODES.join(', ')}`;
+  }
+  if (authMode === 'apikey' && (!config.apiKey || !config.apiSecret)) {
+    return 'pfSense controllers need an apiKey and apiSecret';
+  }
+  if (authMode !== 'apikey' && (!config.username || !config.password)) {
+    return `The ${authMode} authMode needs a username and password`;
+  }
+  return null;
+}
+
+export function validateController(data: ControllerData, partial = false): string | null {
+  const { name, type, enabled, priority, weight, config } = data;
+
+  if (!partial || name !== undefined) {
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      return 'Controller name is required';
+    }
+  }
+
+  if (!partial || type !== undefined) {
+    if (!['openDaylight', 'pfSense', 'mikroTik', 'snmp', 'flowCollector'].includes(type as string)) {
+      return 'Controller type must be openDaylight, pfSense, mikroTik, snmp or flowCollector';
+    }
+  }
+
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+
+  if (priority !== undefined && (typeof priority !== 'number' || !Number.isFinite(priority))) {
+    return 'priority must be a number';
+  }
+
+  if (weight !== undefined && (typeof weight !== 'number' || !(weight > 0))) {
+    return 'weight must be a positive number';
+  }
+
+  if (!partial || config !== undefined) {
+    if (!config || typeof config !== 'object') {
+      return 'Controller config is required';
+    }
+    if (typeof config.host !== 'string' || config.host.trim().length === 0) {
+      return 'Controller host is required';
+    }
+    if (config.port !== undefined
+      && (!Number.isInteger(config.port) || config.port < 1 || config.port > 65535)) {
+      return 'port must be between 1 and 65535';
+    }
+    if (config.verifySsl !== undefined && typeof config.verifySsl !== 'boolean') {
+      return 'verifySsl must be a boolean';
+    }
+    if (config.streaming !== undefined && typeof config.streaming !== 'boolean') {
+      return 'streaming must be a boolean';
+    }
+    if (config.maxFlows !== undefined && (!Number.isInteger(config.maxFlows) || config.maxFlows < 1)) {
+      return 'maxFlows must be a positive integer';
+    }
+    for (const field of ['username', 'password', 'apiKey', 'apiSecret', 'community', 'authKey', 'privKey']) {
+      if (config[field] !== undefined && typeof config[field] !== 'string') {
+        return `${field} must be a string`;
+      }
+    }
+    if (type === 'pfSense') {
+      const pfSenseError = validatePfSenseSettings(config);
+      if (pfSenseError) {
+        return pfSenseError;
+      }
+    }
+    if (type === 'snmp') {
+      const snmpError = validateSnmpSettings(config);
+      if (snmpError) {
+        return snmpError;
+      }
+    }
+  }
+
+  return null;
+}
+
+interface QoSPolicyData {
+  name?: unknown;
+  targetDevice?: unknown;
+  bandwidth?: any;
+  priority?: unknown;
+  ports?: unknown;
+  protocol?: unknown;
+  sourceCidr?: unknown;
+  destinationCidr?: unknown;
+  fairShare?: unknown;
+  perUserMax?: unknown;
+}
+
+const QOS_PROTOCOLS = ['tcp', 'udp', 'sctp', 'icmp', 'ipv6-icmp', 'any'];
+// Protocols with ports; ports without a protocol are TCP ports
+const QOS_PORT_PROTOCOLS = ['tcp', 'udp', 'sctp'];
+
+// Checks a complete policy; updates are merged with the stored policy first
+export function validateQoSPolicy(data: QoSPolicyData): string | null {
+  const {
+    name,
+    targetDevice,
+    bandwidth,
+    priority,
+    ports,
+    protocol,
+    sourceCidr,
+    destinationCidr,
+    fairShare,
+    perUserMax
+  } = data;
+
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    return 'Policy name is required';
+  }
+
+  if (typeof targetDevice !== 'string' || targetDevice.trim().length === 0) {
+    return 'targetDevice is required';
+  }
+
+  if (!bandwidth || typeof bandwidth !== 'object'
+    || typeof bandwidth.max !== 'number' || !(bandwidth.max > 0)) {
+    return 'bandwidth.max must be a positive number of Mbit/s';
+  }
+  if (bandwidth.min !== undefined
+    && (typeof bandwidth.min !== 'number' || !(bandwidth.min >= 0) || bandwidth.min > bandwidth.max)) {
+    return 'bandwidth.min must be between 0 and bandwidth.max';
+  }
+
+  if (!Number.isInteger(priority) || (priority as number) < 1 || (priority as number) > 8) {
+    return 'priority must be between 1 and 8';
+  }
+
+  if (protocol !== undefined && (typeof protocol !== 'string' || !QOS_PROTOCOLS.includes(protocol.toLowerCase()))) {
+    return `protocol must be one of ${QOS_PROTOCOLS.join(', ')}`;
+  }
+
+  if (ports !== undefined) {
+    if (!Array.isArray(ports) || !ports.every(port => Number.isInteger(port) && port >= 1 && port <= 65535)) {
+      return 'ports must be a list of ports between 1 and 65535';
+    }
+    if (ports.length > 0 && protocol !== undefined && !QOS_PORT_PROTOCOLS.includes((protocol as string).toLowerCase())) {
+      return `ports need protocol ${QOS_PORT_PROTOCOLS.join(', ')}`;
+    }
+  }
+
+  for (const [field, value] of [['sourceCidr', sourceCidr], ['destinationCidr', destinationCidr]]) {
+    if (value !== undefined && (typeof value !== 'string' || !isValidCidr(value))) {
+      return `${field} must be a CIDR range such as 10.0.0.0/16`;
+    }
+  }
+  if (sourceCidr && destinationCidr
+    && parseCidr(sourceCidr as string)!.family !== parseCidr(destinationCidr as string)!.family) {
+    return 'sourceCidr and destinationCidr must be of the same address family';
+  }
+
+  if (fairShare !== undefined && typeof fairShare !== 'boolean') {
+    return 'fairShare must be a boolean';
+  }
+  if (fairShare && !sourceCidr) {
+    return 'fairShare needs a sourceCidr';
+  }
+  if (perUserMax !== undefined && perUserMax !== null) {
+    if (typeof perUserMax !== 'number' || !(perUserMax > 0) || perUserMax > bandwidth.max) {
+      return 'perUserMax must be between 0 and bandwidth.max';
+    }
+    if (!fairShare) {
+      return 'perUserMax needs fairShare';
+    }
+  }
+
+  return null;
+}
+
+export function validateDeviceTags(tags: unknown): string | null {
+  if (!Array.isArray(tags) || tags.length === 0) {
+    return 'tags must be a non-empty list';
+  }
+  if (!tags.every(tag => typeof tag === 'string' && tag.trim().length > 0 && tag.trim().length <= 64)) {
+    return 'Tags must be non-empty strings of at most 64 characters';
+  }
+  return null;
+}
+
+// Annotation values of null remove the key
+export function validateDeviceAnnotations(annotations: unknown): string | null {
+  if (!annotations || typeof annotations !== 'object' || Array.isArray(annotations)) {
+    return 'annotations must be an object of key/value pairs';
+  }
+  for (const [key, value] of Object.entries(annotations)) {
+    if (!/^[\w-]{1,64}$/.test(key)) {
+      return `Invalid annotation key: ${key}`;
+    }
+    if (value !== null && typeof value !== 'string') {
+      return `Annotation ${key} must be a string or null`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,58 @@
+// JSON merge patch (RFC 7386) helpers used for delta updates. Arrays are
+// replaced as a whole, and since null marks a removed field in a merge patch,
+// null values in payloads are treated the same as absent fields.
+
+type JsonObject = { [key: string]: unknown };
+
+function isObject(value: unknown): value is JsonObject {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Returns the patch turning previous into next, or undefined when they match
+export function createMergePatch(previous: unknown, next: unknown): unknown {
+  if (!isObject(previous) || !isObject(next)) {
+    return isEqual(previous, next) ? undefined : next;
+  }
+
+  const patch: JsonObject = {};
+
+  for (const key of Object.keys(previous)) {
+    if (!(key in next) || next[key] === null) {
+      if (previous[key] !== null) {
+        patch[key] = null;
+      }
+    }
+  }
+
+  for (const key of Object.keys(next)) {
+    if (next[key] === null) {
+      continue;
+    }
+    const change = key in previous ? createMergePatch(previous[key], next[key]) : next[key];
+    if (change !== undefined) {
+      patch[key] = change;
+    }
+  }
+
+  return Object.keys(patch).length > 0 ? patch : undefined;
+}
+
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!isObject(patch)) {
+    return patch;
+  }
+
+  const result: JsonObject = isObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+  return result;
+}
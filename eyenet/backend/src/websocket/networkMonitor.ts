@@ -1,26 +1,116 @@
+import crypto from 'crypto';
+import http, { IncomingMessage } from 'http';
 import { WebSocket, WebSocketServer } from 'ws';
-import { NetworkMetrics, DepartmentUsage, ApplicationUsage } from '../types/monitoring';
+import { MonitoringService, MonitoringSnapshot } from '../services/monitoringService';
+import { NoActiveControllerError } from '../services/networkControllerManager';
+import { TokenPayload, verifyToken } from '../utils/jwt';
+import { createMergePatch } from './delta';
+import {
+  CLOSE_AUTH_TIMEOUT,
+  CLOSE_UNAUTHORIZED,
+  ChannelMessage,
+  ClientMessage,
+  EVENT_CHANNELS,
+  ResumeRequest,
+  ServerMessage,
+  isValidChannel,
+  parseClientMessage
+} from './protocol';
+
+interface ClientSession {
+  user: TokenPayload | null;
+  channels: Set<string>;
+  authTimeout: NodeJS.Timeout | null;
+  // Whether the client asked for delta encoded updates
+  delta: boolean;
+  // Cleared on every heartbeat and set again when the client answers the ping
+  isAlive: boolean;
+}
+
+interface ChannelState {
+  seq: number;
+  // Last payload sent, normalized through JSON
+  payload: unknown;
+  updatesSinceFull: number;
+  // Recent messages as sent to delta clients, replayed on resume
+  history: ChannelMessage[];
+}
+
+export interface NetworkMonitorOptions {
+  // URL path the socket is served on
+  path?: string;
+  // Milliseconds between metric pushes
+  interval?: number;
+  // Milliseconds a client has to authenticate before being closed
+  authTimeout?: number;
+  // Milliseconds between pings; clients that miss one are evicted
+  heartbeatInterval?: number;
+  // Number of updates per channel between full snapshots for delta clients
+  fullSnapshotInterval?: number;
+  // Number of messages per channel kept for resuming clients
+  resumeBufferSize?: number;
+}
 
 class NetworkMonitor {
   private wss: WebSocketServer;
-  private clients: Set<WebSocket>;
+  private clients: Map<WebSocket, ClientSession>;
+  private channels: Map<string, ChannelState>;
   private monitoringInterval: NodeJS.Timeout | null;
+  private heartbeatInterval: NodeJS.Timeout | null;
+  // Identifies this server run; sequence numbers are only comparable within it
+  private readonly epoch: string;
 
-  constructor(port: number) {
-    this.wss = new WebSocketServer({ port });
-    this.clients = new Set();
+  constructor(
+    server: http.Server,
+    private readonly monitoringService: MonitoringService,
+    private readonly options: NetworkMonitorOptions = {}
+  ) {
+    this.wss = new WebSocketServer({ server, path: options.path ?? '/ws' });
+    this.clients = new Map();
+    this.channels = new Map();
     this.monitoringInterval = null;
+    this.heartbeatInterval = null;
+    this.epoch = crypto.randomBytes(8).toString('hex');
     this.initialize();
   }
 
   private initialize() {
-    this.wss.on('connection', (ws: WebSocket) => {
-      console.log('New client connected');
-      this.clients.add(ws);
+    this.wss.on('connection', (ws: WebSocket, request: IncomingMessage) => {
+      const session: ClientSession = {
+        user: null,
+        channels: new Set(),
+        authTimeout: null,
+        delta: false,
+        isAlive: true
+      };
+      this.clients.set(ws, session);
+
+      // Browsers cannot set headers on WebSocket requests, so the token may
+      // also be passed as a query parameter
+      const token = new URL(request.url || '/', 'http://localhost').searchParams.get('token');
+      if (token) {
+        this.authenticate(ws, session, token);
+      } else {
+        session.authTimeout = setTimeout(() => {
+          ws.close(CLOSE_AUTH_TIMEOUT, 'Authentication timeout');
+        }, this.options.authTimeout ?? 5000);
+      }
+
+      ws.on('pong', () => {
+        session.isAlive = true;
+      });
+
+      ws.on('message', (raw) => {
+        const message = parseClientMessage(raw.toString());
+        if (!message) {
+          this.send(ws, { type: 'error', error: 'Invalid message' });
+          return;
+        }
+        this.handleMessage(ws, session, message);
+      });
 
       ws.on('close', () => {
-        console.log('Client disconnected');
-        this.clients.delete(ws);
+        this.removeClient(ws, session);
       });
 
       ws.on('error', (error) => {
@@ -29,6 +119,113 @@ class NetworkMonitor {
     });
 
     this.startMonitoring();
+    this.startHeartbeat();
+  }
+
+  private removeClient(ws: WebSocket, session: ClientSession) {
+    if (session.authTimeout) {
+      clearTimeout(session.authTimeout);
+      session.authTimeout = null;
+    }
+    this.clients.delete(ws);
+  }
+
+  private handleMessage(ws: WebSocket, session: ClientSession, message: ClientMessage) {
+    if (message.type === 'auth') {
+      this.authenticate(ws, session, message.token);
+      return;
+    }
+
+    if (!session.user) {
+      ws.close(CLOSE_UNAUTHORIZED, 'Authentication required');
+      return;
+    }
+
+    const invalid = message.channels.filter(channel => !isValidChannel(channel));
+    if (invalid.length > 0) {
+      this.send(ws, { type: 'error', error: `Unknown channels: ${invalid.join(', ')}` });
+      return;
+    }
+
+    if (message.type === 'unsubscribe') {
+      message.channels.forEach(channel => session.channels.delete(channel));
+      this.sendSubscribed(ws, session);
+      return;
+    }
+
+    if (message.delta !== undefined) {
+      session.delta = message.delta;
+    }
+    message.channels.forEach(channel => session.channels.add(channel));
+    this.sendSubscribed(ws, session);
+
+    for (const channel of message.channels) {
+      this.catchUp(ws, session, channel, message.resume);
+    }
+  }
+
+  private sendSubscribed(ws: WebSocket, session: ClientSession) {
+    const seq: { [channel: string]: number } = {};
+    session.channels.forEach(channel => {
+      seq[channel] = this.channels.get(channel)?.seq ?? 0;
+    });
+    this.send(ws, { type: 'subscribed', channels: Array.from(session.channels), epoch: this.epoch, seq });
+  }
+
+  // Brings a newly subscribed client up to date on a channel: missed messages
+  // are replayed when the resume point is still buffered, otherwise state
+  // channels get the latest full snapshot
+  private catchUp(ws: WebSocket, session: ClientSession, channel: string, resume?: ResumeRequest) {
+    const state = this.channels.get(channel);
+    if (!state || state.seq === 0) {
+      return;
+    }
+
+    const lastSeq = resume && resume.epoch === this.epoch ? resume.seq[channel] : undefined;
+    const isEvent = EVENT_CHANNELS.includes(channel);
+    const oldestBuffered = state.history.length > 0 ? state.history[0].seq : state.seq + 1;
+    const canReplay = lastSeq !== undefined && lastSeq <= state.seq && oldestBuffered <= lastSeq + 1;
+
+    if (isEvent) {
+      if (lastSeq !== undefined) {
+        state.history
+          .filter(message => message.seq > lastSeq)
+          .forEach(message => this.send(ws, message));
+      }
+      return;
+    }
+
+    if (session.delta && canReplay) {
+      state.history
+        .filter(message => message.seq > lastSeq!)
+        .forEach(message => this.send(ws, message));
+      return;
+    }
+
+    if (lastSeq !== state.seq) {
+      this.send(ws, {
+        type: 'data',
+        channel,
+        seq: state.seq,
+        payload: state.payload,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  private authenticate(ws: WebSocket, session: ClientSession, token: string) {
+    try {
+      session.user = verifyToken(token);
+    } catch (error) {
+      ws.close(CLOSE_UNAUTHORIZED, 'Invalid token');
+      return;
+    }
+
+    if (session.authTimeout) {
+      clearTimeout(session.authTimeout);
+      session.authTimeout = null;
+    }
+    this.send(ws, { type: 'auth', ok: true });
   }
 
   private startMonitoring() {
@@ -36,58 +233,154 @@ class NetworkMonitor {
       clearInterval(this.monitoringInterval);
     }
 
-    this.monitoringInterval = setInterval(() => {
-      const metrics = this.collectNetworkMetrics();
-      this.broadcastMetrics(metrics);
-    }, 2000);
+    this.monitoringInterval = setInterval(async () => {
+      const channels = this.subscribedChannels();
+      if (channels.size === 0) {
+        return;
+      }
+
+      try {
+        const snapshot = await this.monitoringService.collectSnapshot();
+        for (const channel of channels) {
+          const payload = this.channelPayload(channel, snapshot);
+          if (payload !== undefined) {
+            this.publish(channel, payload);
+          }
+        }
+      } catch (error) {
+        if (!(error instanceof NoActiveControllerError)) {
+          console.error('Failed to collect network metrics:', error);
+        }
+      }
+    }, this.options.interval ?? 2000);
+  }
+
+  private startHeartbeat() {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+    }
+
+    this.heartbeatInterval = setInterval(() => {
+      this.clients.forEach((session, ws) => {
+        if (!session.isAlive) {
+          ws.terminate();
+          this.removeClient(ws, session);
+          return;
+        }
+
+        session.isAlive = false;
+        ws.ping();
+      });
+    }, this.options.heartbeatInterval ?? 30000);
   }
 
-  private collectNetworkMetrics() {
-    // TODO: Replace with actual network monitoring logic
-    return {
-      networkStatus: {
-        latency: Math.random() * 100,
-        packetLoss: Math.random() * 2,
-        status: Math.random() > 0.9 ? 'degraded' : 'online'
-      },
-      bandwidth: {
-        download: Math.random() * 100,
-        upload: Math.random() * 50,
-        timestamp: new Date().toISOString()
-      },
-      departments: [
-        { name: 'Engineering', usage: Math.random() * 100 },
-        { name: 'Marketing', usage: Math.random() * 100 },
-        { name: 'Sales', usage: Math.random() * 100 },
-        { name: 'HR', usage: Math.random() * 100 },
-        { name: 'Finance', usage: Math.random() * 100 }
-      ],
-      applications: [
-        {
-          name: 'Microsoft Teams',
-          type: 'Communication',
-          bandwidth: Math.random() * 100,
-          status: 'normal',
-          trend: Math.random() > 0.5 ? 'up' : 'down'
-        },
-        // Add more applications...
-      ]
-    };
+  // Metric channels are derived from the monitoring snapshot; event channels
+  // are fed through publish()
+  private channelPayload(channel: string, snapshot: MonitoringSnapshot): unknown {
+    // Only the first colon separates the kind, IDs may contain colons
+    const separator = channel.indexOf(':');
+    const kind = separator === -1 ? channel : channel.slice(0, separator);
+    const id = separator === -1 ? undefined : channel.slice(separator + 1);
+    switch (kind) {
+      case 'status':
+        return snapshot.failures.length > 0
+          ? { ...snapshot.data.networkStatus, failures: snapshot.failures }
+          : snapshot.data.networkStatus;
+      case 'bandwidth':
+        return snapshot.data.bandwidth;
+      case 'departments':
+        return snapshot.data.departments;
+      case 'applications':
+        return snapshot.data.applications;
+      case 'department':
+        return snapshot.departments.find(department => department.id === id);
+      case 'application':
+        return snapshot.applications.find(application => application.id === id);
+      case 'device':
+        return snapshot.devices.find(device => device.id === id);
+      default:
+        return undefined;
+    }
   }
 
-  private broadcastMetrics(metrics: any) {
-    const data = JSON.stringify(metrics);
-    this.clients.forEach((client) => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(data);
+  private subscribedChannels(): Set<string> {
+    const channels = new Set<string>();
+    this.clients.forEach((session) => {
+      session.channels.forEach(channel => channels.add(channel));
+    });
+    EVENT_CHANNELS.forEach(channel => channels.delete(channel));
+    return channels;
+  }
+
+  private channelState(channel: string): ChannelState {
+    let state = this.channels.get(channel);
+    if (!state) {
+      state = { seq: 0, payload: undefined, updatesSinceFull: 0, history: [] };
+      this.channels.set(channel, state);
+    }
+    return state;
+  }
+
+  // Sends a payload to every authenticated client subscribed to the channel.
+  // State channels skip unchanged payloads and send delta clients a merge
+  // patch, with a full snapshot every fullSnapshotInterval updates.
+  public publish(channel: string, payload: unknown) {
+    const state = this.channelState(channel);
+    const normalized = JSON.parse(JSON.stringify(payload ?? null));
+    const isEvent = EVENT_CHANNELS.includes(channel);
+
+    let patch: unknown;
+    if (!isEvent && state.seq > 0) {
+      patch = createMergePatch(state.payload, normalized);
+      if (patch === undefined) {
+        return;
+      }
+    }
+
+    state.seq += 1;
+    state.payload = normalized;
+    const timestamp = new Date().toISOString();
+    const full: ChannelMessage = { type: 'data', channel, seq: state.seq, payload: normalized, timestamp };
+
+    const fullSnapshotInterval = this.options.fullSnapshotInterval ?? 10;
+    const sendFull = patch === undefined || state.updatesSinceFull + 1 >= fullSnapshotInterval;
+    const deltaMessage: ChannelMessage = sendFull
+      ? full
+      : { type: 'delta', channel, seq: state.seq, patch, timestamp };
+    state.updatesSinceFull = sendFull ? 0 : state.updatesSinceFull + 1;
+
+    state.history.push(deltaMessage);
+    const resumeBufferSize = this.options.resumeBufferSize ?? 50;
+    if (state.history.length > resumeBufferSize) {
+      state.history.splice(0, state.history.length - resumeBufferSize);
+    }
+
+    const fullData = JSON.stringify(full);
+    const deltaData = JSON.stringify(deltaMessage);
+    this.clients.forEach((session, client) => {
+      if (session.user && session.channels.has(channel) && client.readyState === WebSocket.OPEN) {
+        client.send(session.delta ? deltaData : fullData);
       }
     });
   }
 
+  private send(ws: WebSocket, message: ServerMessage) {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  }
+
   public stop() {
     if (this.monitoringInterval) {
       clearInterval(this.monitoringInterval);
     }
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+    }
+    this.clients.forEach((session, ws) => {
+      ws.terminate();
+      this.removeClient(ws, session);
+    });
     this.wss.close();
   }
 }
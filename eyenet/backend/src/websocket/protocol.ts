@@ -0,0 +1,113 @@
+// JSON message protocol spoken on the NetworkMonitor socket.
+//
+// Client -> server:
+//   { "type": "auth", "token": "<jwt>" }
+//   { "type": "subscribe", "channels": ["status", "department:<id>"],
+//     "delta": true, "resume": { "epoch": "...", "seq": { "status": 41 } } }
+//   { "type": "unsubscribe", "channels": ["status"] }
+//
+// Server -> client:
+//   { "type": "auth", "ok": true }
+//   { "type": "subscribed", "channels": [...], "epoch": "...", "seq": { "status": 42 } }
+//   { "type": "data", "channel": "status", "seq": 42, "payload": {...}, "timestamp": "..." }
+//   { "type": "delta", "channel": "status", "seq": 43, "patch": {...}, "timestamp": "..." }
+//   { "type": "error", "error": "..." }
+//
+// Every channel has its own sequence counter. A delta carries a JSON merge
+// patch (RFC 7386) against the payload of the previous sequence number, so a
+// client that sees a gap should resubscribe with its last seq to resync.
+
+export interface ResumeRequest {
+  epoch: string;
+  seq: { [channel: string]: number };
+}
+
+export type ClientMessage =
+  | { type: 'auth'; token: string }
+  | { type: 'subscribe'; channels: string[]; delta?: boolean; resume?: ResumeRequest }
+  | { type: 'unsubscribe'; channels: string[] };
+
+export type ChannelMessage =
+  | { type: 'data'; channel: string; seq: number; payload: unknown; timestamp: string }
+  | { type: 'delta'; channel: string; seq: number; patch: unknown; timestamp: string };
+
+export type ServerMessage =
+  | { type: 'auth'; ok: true }
+  | { type: 'subscribed'; channels: string[]; epoch: string; seq: { [channel: string]: number } }
+  | ChannelMessage
+  | { type: 'error'; error: string };
+
+// Close codes in the private 4000-4999 range
+export const CLOSE_UNAUTHORIZED = 4401;
+export const CLOSE_AUTH_TIMEOUT = 4408;
+
+// Event channels carry discrete events rather than state, so they are never
+// delta encoded and missed events are replayed on resume
+export const EVENT_CHANNELS = ['alerts', 'controllers', 'devices'];
+
+const STATIC_CHANNELS = ['status', 'bandwidth', 'departments', 'applications', ...EVENT_CHANNELS];
+// IDs may contain colons themselves (openflow:1, host:if2, IPv6 addresses)
+const PARAMETERIZED_CHANNEL = /^(department|application|device):\S+$/;
+
+export function isValidChannel(channel: string): boolean {
+  return STATIC_CHANNELS.includes(channel) || PARAMETERIZED_CHANNEL.test(channel);
+}
+
+function parseResume(resume: any): ResumeRequest | null {
+  if (!resume || typeof resume !== 'object' || typeof resume.epoch !== 'string') {
+    return null;
+  }
+  if (!resume.seq || typeof resume.seq !== 'object') {
+    return null;
+  }
+  if (!Object.values(resume.seq).every(seq => Number.isInteger(seq))) {
+    return null;
+  }
+  return { epoch: resume.epoch, seq: resume.seq };
+}
+
+// Returns null for anything that is not a well-formed client message
+export function parseClientMessage(raw: string): ClientMessage | null {
+  let message: any;
+  try {
+    message = JSON.parse(raw);
+  } catch (error) {
+    return null;
+  }
+
+  if (!message || typeof message !== 'object') {
+    return null;
+  }
+
+  switch (message.type) {
+    case 'auth':
+      return typeof message.token === 'string' ? { type: 'auth', token: message.token } : null;
+    case 'subscribe': {
+      if (!Array.isArray(message.channels) || !message.channels.every((c: unknown) => typeof c === 'string')) {
+        return null;
+      }
+      const subscribe: ClientMessage = { type: 'subscribe', channels: message.channels };
+      if (message.delta !== undefined) {
+        if (typeof message.delta !== 'boolean') {
+          return null;
+        }
+        subscribe.delta = message.delta;
+      }
+      if (message.resume !== undefined) {
+        const resume = parseResume(message.resume);
+        if (!resume) {
+          return null;
+        }
+        subscribe.resume = resume;
+      }
+      return subscribe;
+    }
+    case 'unsubscribe':
+      if (!Array.isArray(message.channels) || !message.channels.every((c: unknown) => typeof c === 'string')) {
+        return null;
+      }
+      return { type: 'unsubscribe', channels: message.channels };
+    default:
+      return null;
+  }
+}